@@ -0,0 +1,32 @@
+/**
+ * Example plugin: check workflow names against a team convention
+ * Usage: MCP_PLUGIN_DIR=/path/to/examples/plugins
+ */
+
+const NAME_PATTERN = /^[A-Z]{2,5}-[a-z0-9-]+$/;
+
+export const namingTools = [
+  {
+    name: 'check_workflow_names',
+    description: 'List workflows whose name does not follow the "TEAM-kebab-case" convention',
+    inputSchema: {
+      type: 'object',
+      properties: {
+        limit: { type: 'number', description: 'Maximum workflows to check (default: 100)' },
+      },
+    },
+    // Read-only: callable with a "read" token and not written to the audit log
+    annotations: { readOnlyHint: true },
+  },
+];
+
+export async function handleNamingTool(name, args, context) {
+  const { n8nApi } = context.services;
+  const { data } = await n8nApi.listWorkflows({ limit: args.limit ?? 100 }, context.signal);
+
+  const invalid = data
+    .filter(workflow => !NAME_PATTERN.test(workflow.name))
+    .map(workflow => ({ id: workflow.id, name: workflow.name }));
+
+  return { checked: data.length, invalid };
+}
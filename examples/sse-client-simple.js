@@ -17,7 +17,7 @@ class MCPClient {
   constructor(baseUrl = 'http://localhost:3000') {
     this.baseUrl = baseUrl;
     this.requestId = 0;
-    this.sessionId = `session-${Date.now()}`;
+    this.sessionId = null; // Assigned by server on initialize
   }
 
   /**
@@ -34,12 +34,7 @@ class MCPClient {
     try {
       const response = await fetch(`${this.baseUrl}/mcp`, {
         method: 'POST',
-        headers: {
-          'Content-Type': 'application/json',
-          'Accept': 'application/json, text/event-stream',
-          'MCP-Session-Id': this.sessionId,
-          'MCP-Protocol-Version': '2024-11-05',
-        },
+        headers: this.buildHeaders(),
         body: JSON.stringify({
           jsonrpc: '2.0',
           method,
@@ -48,6 +43,12 @@ class MCPClient {
         }),
       });
 
+      // Server assigns the session ID in the initialize response
+      const assignedSessionId = response.headers.get('mcp-session-id');
+      if (assignedSessionId) {
+        this.sessionId = assignedSessionId;
+      }
+
       if (!response.ok) {
         const errorContext = {
           timestamp: new Date().toISOString(),
@@ -103,6 +104,54 @@ class MCPClient {
     }
   }
 
+  /**
+   * Build Streamable HTTP request headers
+   */
+  buildHeaders() {
+    const headers = {
+      'Content-Type': 'application/json',
+      'Accept': 'application/json, text/event-stream',
+      'MCP-Protocol-Version': '2025-03-26',
+    };
+    if (this.sessionId) {
+      headers['Mcp-Session-Id'] = this.sessionId;
+    }
+    return headers;
+  }
+
+  /**
+   * Initialize MCP session (required before any other request)
+   */
+  async initialize() {
+    const result = await this.callMCP('initialize', {
+      protocolVersion: '2025-03-26',
+      capabilities: {},
+      clientInfo: { name: 'n8n-mcp-example-client', version: '1.0.0' },
+    });
+
+    // Notifications get 202 Accepted with no body
+    await fetch(`${this.baseUrl}/mcp`, {
+      method: 'POST',
+      headers: this.buildHeaders(),
+      body: JSON.stringify({ jsonrpc: '2.0', method: 'notifications/initialized' }),
+    });
+
+    console.log(`   Session ID: ${this.sessionId}`);
+    return result;
+  }
+
+  /**
+   * Terminate MCP session
+   */
+  async close() {
+    if (!this.sessionId) return;
+    await fetch(`${this.baseUrl}/mcp`, {
+      method: 'DELETE',
+      headers: this.buildHeaders(),
+    });
+    this.sessionId = null;
+  }
+
   async listTools() {
     const result = await this.callMCP('tools/list');
     console.log(`   Found ${result.tools.length} tools`);
@@ -148,6 +197,8 @@ async function main() {
     console.log('Testing SSE Transport');
     console.log('='.repeat(60));
 
+    await client.initialize();
+
     // Test 1: List tools
     await client.listTools();
 
@@ -163,6 +214,8 @@ async function main() {
     console.log('\n' + '='.repeat(60));
     console.log('✅ All tests passed!');
     console.log('='.repeat(60));
+
+    await client.close();
   } catch (error) {
     console.error('\n❌ Test failed:', error.message);
     process.exit(1);
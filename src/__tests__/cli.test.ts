@@ -0,0 +1,139 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import type { Tool } from '@modelcontextprotocol/sdk/types.js';
+import { McpError, ErrorCode } from '@modelcontextprotocol/sdk/types.js';
+import { runCli, isCliCommand, parseCallCommand, formatTable } from '../cli.js';
+
+const tools: Tool[] = [
+  {
+    name: 'lint_workflow',
+    description: 'Lint a workflow. Reports unused nodes and naming issues.',
+    inputSchema: { type: 'object', properties: { workflow: { type: 'object' } } },
+  },
+  { name: 'backup_workflow', description: 'Create a backup', inputSchema: { type: 'object' } },
+];
+
+describe('CLI', () => {
+  let stdout: string;
+  let stderr: string;
+  let executeTool: ReturnType<typeof vi.fn>;
+
+  const run = (...argv: string[]) => runCli(argv, {
+    tools,
+    executeTool,
+    stdout: text => { stdout += text; },
+    stderr: text => { stderr += text; },
+    readArgsFile: async file => {
+      if (file === 'args.json') return '{"workflow":{"nodes":[]},"strict":false}';
+      throw new Error(`ENOENT: no such file or directory, open '${file}'`);
+    },
+  });
+
+  beforeEach(() => {
+    stdout = '';
+    stderr = '';
+    executeTool = vi.fn(async () => ({ valid: true, issues: [] }));
+  });
+
+  it('should only take over the command line for CLI commands', () => {
+    expect(isCliCommand(['call', 'lint_workflow'])).toBe(true);
+    expect(isCliCommand(['tools'])).toBe(true);
+    expect(isCliCommand([])).toBe(false);
+    expect(isCliCommand(['--inspect'])).toBe(false);
+  });
+
+  it('should call the tool and print its result as JSON', async () => {
+    await expect(run('call', 'backup_workflow', '--arg', 'workflowId=12', '-a', 'description=nightly = full')).resolves.toBe(0);
+
+    expect(executeTool).toHaveBeenCalledWith('backup_workflow', { workflowId: '12', description: 'nightly = full' });
+    expect(JSON.parse(stdout)).toEqual({ valid: true, issues: [] });
+    expect(stderr).toBe('');
+  });
+
+  it('should merge --json arguments with --arg overrides and JSON values', async () => {
+    const call = await parseCallCommand(
+      ['lint_workflow', '--json', 'args.json', '--arg', 'strict:=true', '--arg', 'tags:=["a"]', '-o', 'table'],
+      async () => '{"workflow":{"nodes":[]},"strict":false}'
+    );
+
+    expect(call).toEqual({
+      tool: 'lint_workflow',
+      args: { workflow: { nodes: [] }, strict: true, tags: ['a'] },
+      output: 'table',
+    });
+  });
+
+  it('should exit 1 when the tool fails', async () => {
+    executeTool.mockRejectedValue(new McpError(ErrorCode.InternalError, 'Failed to backup workflow 12: Not Found'));
+
+    await expect(run('call', 'backup_workflow', '-a', 'workflowId=12')).resolves.toBe(1);
+    expect(stdout).toBe('');
+    expect(stderr).toBe('Error: MCP error -32603: Failed to backup workflow 12: Not Found\n');
+  });
+
+  it('should exit 1 without printing the result when the call is held for approval', async () => {
+    executeTool.mockResolvedValue({ approvalRequired: true, approvalId: 'a1', tool: 'backup_workflow' });
+
+    await expect(run('call', 'backup_workflow', '-a', 'workflowId=12')).resolves.toBe(1);
+    expect(stdout).toBe('');
+    expect(stderr).toContain('requires human approval and has not run');
+  });
+
+  it('should exit 2 on an invalid command line without calling the tool', async () => {
+    await expect(run('call')).resolves.toBe(2);
+    await expect(run('call', 'deploy_everything')).resolves.toBe(2);
+    await expect(run('call', 'lint_workflow', '--arg', 'workflow')).resolves.toBe(2);
+    await expect(run('call', 'lint_workflow', '--arg', 'workflow:={')).resolves.toBe(2);
+    await expect(run('call', 'lint_workflow', '--json', 'missing.json')).resolves.toBe(2);
+    await expect(run('call', 'lint_workflow', '--verbose')).resolves.toBe(2);
+    await expect(run('tools', '-o', 'yaml')).resolves.toBe(2);
+
+    expect(executeTool).not.toHaveBeenCalled();
+    expect(stderr).toContain('Error: Unknown tool: deploy_everything');
+    expect(stderr).toContain("Cannot read --json missing.json: ENOENT");
+  });
+
+  it('should list tool schemas as JSON or a table', async () => {
+    await run('tools');
+    expect(JSON.parse(stdout)).toEqual(tools);
+
+    stdout = '';
+    await run('tools', '--output', 'table');
+    expect(stdout).toBe([
+      'NAME             DESCRIPTION',
+      'lint_workflow    Lint a workflow.',
+      'backup_workflow  Create a backup',
+      '',
+    ].join('\n'));
+  });
+});
+
+describe('formatTable', () => {
+  it('should render fields and list fields as separate tables', () => {
+    const output = formatTable({
+      workflowId: '12',
+      total: 2,
+      backups: [
+        { backupId: 'b2', size: '1KB', metadata: { description: 'x'.repeat(80) } },
+        { backupId: 'b1', size: '2KB' },
+      ],
+    });
+
+    expect(output.split('\n')).toEqual([
+      'KEY         VALUE',
+      'workflowId  12',
+      'total       2',
+      '',
+      'backups (2)',
+      `BACKUPID  SIZE  METADATA`,
+      `b2        1KB   {"description":"${'x'.repeat(43)}…`,
+      'b1        2KB',
+      '',
+    ]);
+  });
+
+  it('should render arrays, empty lists and scalars', () => {
+    expect(formatTable([{ id: '1', active: true }])).toBe('ID  ACTIVE\n1   true\n');
+    expect(formatTable([])).toBe('(no results)\n');
+    expect(formatTable('done')).toBe('done\n');
+  });
+});
@@ -0,0 +1,215 @@
+import { describe, it, expect, beforeAll, afterAll } from 'vitest';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  loadServerConfig,
+  redactServerConfig,
+  DEFAULT_SERVER_CONFIG,
+} from '../../config/server-config.js';
+
+describe('Server config', () => {
+  let dir: string;
+
+  beforeAll(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'mcp-config-'));
+  });
+
+  afterAll(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  const writeConfig = async (file: string, content: string) => {
+    const configPath = path.join(dir, file);
+    await fs.writeFile(configPath, content);
+    return configPath;
+  };
+
+  it('should use the defaults without a file or overrides', () => {
+    const loaded = loadServerConfig({});
+
+    expect(loaded.config).toEqual(DEFAULT_SERVER_CONFIG);
+    expect(loaded.file).toBeUndefined();
+    expect(loaded.sources['n8n.host']).toBe('default');
+    expect(loaded.sources['retry.retryableStatuses']).toBe('default');
+  });
+
+  it('should merge a YAML file over the defaults', async () => {
+    const file = await writeConfig('config.yaml', [
+      'n8n:',
+      '  host: https://n8n.example.com',
+      'backups:',
+      '  root: /data/backups',
+      'retry:',
+      '  retryableStatuses: [502, 503]',
+    ].join('\n'));
+
+    const loaded = loadServerConfig({ MCP_CONFIG_FILE: file });
+
+    expect(loaded.file).toBe(file);
+    expect(loaded.config.n8n).toEqual({ ...DEFAULT_SERVER_CONFIG.n8n, host: 'https://n8n.example.com' });
+    expect(loaded.config.backups.root).toBe('/data/backups');
+    expect(loaded.config.retry).toEqual({ ...DEFAULT_SERVER_CONFIG.retry, retryableStatuses: [502, 503] });
+    expect(loaded.sources['n8n.host']).toBe('file');
+    expect(loaded.sources['n8n.requestTimeoutMs']).toBe('default');
+  });
+
+  it('should let environment variables override the file', async () => {
+    const file = await writeConfig('config.json', JSON.stringify({
+      server: { transport: 'sse', port: 8080 },
+      cache: { templatesTtlSeconds: 600 },
+    }));
+
+    const loaded = loadServerConfig({
+      MCP_CONFIG_FILE: file,
+      PORT: '9090',
+      N8N_RETRY_STATUSES: '429, 503',
+      DB_POSTGRESDB_PORT: '6543',
+      MCP_MAX_ITEMS_PER_PAGE: '',
+    });
+
+    expect(loaded.config.server).toEqual({ transport: 'sse', port: 9090 });
+    expect(loaded.config.cache.templatesTtlSeconds).toBe(600);
+    expect(loaded.config.retry.retryableStatuses).toEqual([429, 503]);
+    expect(loaded.config.database.port).toBe(6543);
+    expect(loaded.config.responses.maxItemsPerPage).toBe(100);
+    expect(loaded.sources).toMatchObject({
+      'server.transport': 'file',
+      'server.port': 'env',
+      'database.port': 'env',
+      'responses.maxItemsPerPage': 'default',
+    });
+  });
+
+  it('should report every invalid setting with its environment variable', async () => {
+    const file = await writeConfig('invalid.yml', 'responses:\n  maxItemsPerPage: 0\n');
+
+    expect(() => loadServerConfig({ MCP_CONFIG_FILE: file, PORT: 'abc', N8N_HOST: 'n8n:5678' })).toThrow(
+      /Invalid server configuration \(.*invalid\.yml\): server\.port \(PORT\): .*; n8n\.host \(N8N_HOST\): must be an http\(s\) URL; responses\.maxItemsPerPage: /
+    );
+  });
+
+  it('should read approval rules as JSON from the environment', () => {
+    const loaded = loadServerConfig({
+      MCP_APPROVAL_RULES: '[{"tool":"delete_workflow"},{"tool":"activate_workflow","instance":"prod","args":{"active":true}}]',
+      MCP_APPROVAL_TTL_MS: '60000',
+    });
+
+    expect(loaded.config.approvals).toEqual({
+      rules: [{ tool: 'delete_workflow' }, { tool: 'activate_workflow', instance: 'prod', args: { active: true } }],
+      ttlMs: 60000,
+      maxPending: 100,
+    });
+    expect(loaded.sources['approvals.rules']).toBe('env');
+
+    expect(() => loadServerConfig({ MCP_APPROVAL_RULES: '[{"tool":' })).toThrow('MCP_APPROVAL_RULES must be valid JSON');
+    expect(() => loadServerConfig({ MCP_APPROVAL_RULES: '[{"tool":"delete_workflow","args":{"id":["1"]}}]' })).toThrow(
+      /approvals\.rules\.0\.args\.id \(MCP_APPROVAL_RULES\): /
+    );
+  });
+
+  it('should read the log level and format from the environment', () => {
+    expect(loadServerConfig({ MCP_LOG_LEVEL: 'debug', MCP_LOG_FORMAT: 'text' }).config.logging).toEqual({
+      level: 'debug',
+      format: 'text',
+    });
+    expect(() => loadServerConfig({ MCP_LOG_LEVEL: 'verbose' })).toThrow(/logging\.level \(MCP_LOG_LEVEL\): /);
+  });
+
+  it('should read tracing settings from the standard OpenTelemetry variables', () => {
+    const loaded = loadServerConfig({
+      MCP_TRACING_EXPORTER: 'otlp',
+      OTEL_EXPORTER_OTLP_TRACES_ENDPOINT: 'http://collector:4318/v1/traces',
+      OTEL_SERVICE_NAME: 'mcp-prod',
+    });
+
+    expect(loaded.config.tracing).toEqual({
+      ...DEFAULT_SERVER_CONFIG.tracing,
+      exporter: 'otlp',
+      otlpEndpoint: 'http://collector:4318/v1/traces',
+      serviceName: 'mcp-prod',
+    });
+    expect(() => loadServerConfig({ MCP_TRACING_SAMPLE_RATIO: '2' })).toThrow(
+      /tracing\.sampleRatio \(MCP_TRACING_SAMPLE_RATIO\): /
+    );
+  });
+
+  it('should read tool exposure, audit log, session and health settings from the environment', () => {
+    const { config } = loadServerConfig({
+      MCP_TOOL_PROFILE: 'read-only',
+      MCP_TOOL_ALLOWLIST: 'get_*, list_workflows',
+      MCP_TOOL_DENYLIST: 'get_credential_schema,',
+      MCP_PLUGIN_DIR: '/app/plugins',
+      MCP_AUDIT_LOG: 'off',
+      MCP_AUDIT_LOG_MAX_SIZE: '2048',
+      MCP_SESSION_IDLE_TIMEOUT_MS: '0',
+      MCP_MAX_SESSIONS: '50',
+      MCP_REQUIRE_SESSION_CREDENTIALS: 'true',
+      MCP_HEALTH_CACHE_MS: '0',
+      MCP_HEALTH_CHECK_TEMPLATES: 'TRUE',
+    });
+
+    expect(config.tools).toEqual({
+      profile: 'read-only',
+      allowlist: ['get_*', 'list_workflows'],
+      denylist: ['get_credential_schema'],
+      pluginDir: '/app/plugins',
+    });
+    expect(config.audit).toEqual({ ...DEFAULT_SERVER_CONFIG.audit, enabled: false, maxFileSize: 2048 });
+    expect(config.sessions).toMatchObject({ idleTimeoutMs: 0, maxSessions: 50, requireN8nCredentials: true });
+    expect(config.health).toEqual({ timeoutMs: 5000, cacheMs: 0, checkTemplates: true });
+
+    expect(() => loadServerConfig({ MCP_TOOL_PROFILE: 'admin', MCP_AUDIT_LOG: 'maybe', MCP_MAX_SESSIONS: '-1' })).toThrow(
+      /tools\.profile \(MCP_TOOL_PROFILE\): .*; sessions\.maxSessions \(MCP_MAX_SESSIONS\): .*; audit\.enabled \(MCP_AUDIT_LOG\): /
+    );
+  });
+
+  it('should reject unknown keys', async () => {
+    const file = await writeConfig('typo.json', JSON.stringify({ backup: { root: '/tmp' } }));
+
+    expect(() => loadServerConfig({ MCP_CONFIG_FILE: file })).toThrow("Unrecognized key(s) in object: 'backup'");
+  });
+
+  it('should reject unreadable, unparsable and unsupported files', async () => {
+    const broken = await writeConfig('broken.json', '{ "n8n": ');
+    const list = await writeConfig('list.yaml', '- a\n- b\n');
+
+    expect(() => loadServerConfig({ MCP_CONFIG_FILE: path.join(dir, 'missing.json') }))
+      .toThrow('Invalid configuration file');
+    expect(() => loadServerConfig({ MCP_CONFIG_FILE: broken })).toThrow(`Invalid configuration file ${broken}`);
+    expect(() => loadServerConfig({ MCP_CONFIG_FILE: list })).toThrow('must contain an object');
+    expect(() => loadServerConfig({ MCP_CONFIG_FILE: path.join(dir, 'config.toml') }))
+      .toThrow('must be .json, .yaml or .yml');
+  });
+
+  it('should redact secrets without touching the original', () => {
+    const { config } = loadServerConfig({ N8N_API_KEY: 'key-123', DB_POSTGRESDB_PASSWORD: 'pg-secret' });
+
+    const redacted = redactServerConfig(config);
+
+    expect(redacted.n8n.apiKey).toBe('[REDACTED]');
+    expect(redacted.database.password).toBe('[REDACTED]');
+    expect(redacted.database.user).toBe('n8n');
+    expect(config.n8n.apiKey).toBe('key-123');
+    expect(redactServerConfig(loadServerConfig({}).config).database.password).toBe('');
+  });
+
+  it('should redact auth tokens and instance API keys', () => {
+    const { config } = loadServerConfig({
+      MCP_AUTH_TOKENS: JSON.stringify([
+        { name: 'ci', token: 'ci-token-0123456789', scopes: ['read'], n8n: { apiKey: 'team-key' } },
+        { name: 'ops', token: 'ops-token-0123456789', scopes: ['write'], n8n: { apiKeyEnv: 'OPS_KEY' } },
+      ]),
+      N8N_INSTANCES: '[{"name":"staging","host":"https://staging.example.com","apiKey":"staging-key"}]',
+    });
+
+    const redacted = redactServerConfig(config);
+
+    expect(redacted.auth.tokens).toEqual([
+      { name: 'ci', token: '[REDACTED]', scopes: ['read'], n8n: { apiKey: '[REDACTED]' } },
+      { name: 'ops', token: '[REDACTED]', scopes: ['write'], n8n: { apiKeyEnv: 'OPS_KEY' } },
+    ]);
+    expect(redacted.instances.profiles[0]).toEqual({ name: 'staging', host: 'https://staging.example.com', apiKey: '[REDACTED]' });
+    expect(config.auth.tokens[0].token).toBe('ci-token-0123456789');
+  });
+});
@@ -0,0 +1,161 @@
+import { describe, it, expect, vi, beforeAll, afterAll } from 'vitest';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+
+vi.mock('../../config/env.js', () => ({
+  N8N_HOST: 'http://localhost:5678',
+  N8N_API_KEY: 'test-key',
+  n8nClient: {},
+  webhookClient: {},
+}));
+
+import { loadPlugins, resolvePluginExports, PluginRegistry } from '../../plugins/plugin-loader.js';
+import { n8nApi } from '../../services/n8n-api-service.js';
+import { backupService } from '../../services/backup-service.js';
+import { validationService } from '../../services/validation-service.js';
+
+const namingPlugin = `
+export const namingTools = [{
+  name: 'check_naming',
+  description: 'Check workflow names against company conventions',
+  inputSchema: { type: 'object', properties: { name: { type: 'string' } } },
+  annotations: { readOnlyHint: true },
+}];
+
+export async function handleNamingTool(name, args, context) {
+  return { tool: name, valid: /^[A-Z]{2,5}-/.test(args.name), hasApi: typeof context.services.n8nApi.listWorkflows };
+}
+`;
+
+const tool = (name: string) => ({ name, description: 'Test tool', inputSchema: { type: 'object' as const } });
+
+describe('Plugin loader', () => {
+  let dir: string;
+
+  beforeAll(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'mcp-plugins-'));
+  });
+
+  afterAll(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  const writePluginDir = async (name: string, files: Record<string, string>) => {
+    const pluginDir = path.join(dir, name);
+    await fs.mkdir(pluginDir);
+    for (const [file, content] of Object.entries(files)) {
+      await fs.writeFile(path.join(pluginDir, file), content);
+    }
+    return pluginDir;
+  };
+
+  describe('loadPlugins', () => {
+    it('should return an empty registry without a plugin directory', async () => {
+      const registry = await loadPlugins(undefined, []);
+
+      expect(registry.tools).toEqual([]);
+      expect(registry.has('check_naming')).toBe(false);
+    });
+
+    it('should load tools and handlers from .js / .mjs modules only', async () => {
+      const pluginDir = await writePluginDir('valid', {
+        'naming.mjs': namingPlugin,
+        'README.md': '# not a plugin',
+      });
+
+      const registry = await loadPlugins(pluginDir, [tool('list_workflows')]);
+
+      expect(registry.plugins.map(p => p.file)).toEqual(['naming.mjs']);
+      expect(registry.tools.map(t => t.name)).toEqual(['check_naming']);
+      expect(await registry.call('check_naming', { name: 'OPS-sync' })).toEqual({
+        tool: 'check_naming',
+        valid: true,
+        hasApi: 'function',
+      });
+    });
+
+    it('should fail loudly when a plugin redefines a built-in tool', async () => {
+      const pluginDir = await writePluginDir('clash', {
+        'override.mjs': `export const tools = [${JSON.stringify(tool('list_workflows'))}]; export function handleTool() {}`,
+      });
+
+      await expect(loadPlugins(pluginDir, [tool('list_workflows')])).rejects.toThrow(
+        "Plugin tool name clash: 'list_workflows' in override.mjs is a built-in tool"
+      );
+    });
+
+    it('should report modules that fail to import', async () => {
+      const pluginDir = await writePluginDir('broken', { 'broken.mjs': 'export const = ;' });
+
+      await expect(loadPlugins(pluginDir, [])).rejects.toThrow('Failed to load plugin broken.mjs');
+    });
+
+    it('should report a missing plugin directory', async () => {
+      await expect(loadPlugins(path.join(dir, 'missing'), [])).rejects.toThrow('Cannot read plugin directory');
+    });
+  });
+
+  describe('resolvePluginExports', () => {
+    it('should accept the tools / handleTool naming', () => {
+      const handleTool = vi.fn();
+
+      expect(resolvePluginExports('a.js', { tools: [tool('a_tool')], handleTool })).toEqual({
+        file: 'a.js',
+        tools: [tool('a_tool')],
+        handler: handleTool,
+      });
+    });
+
+    it('should require exactly one tool array and one handler', () => {
+      expect(() => resolvePluginExports('a.js', { tools: [tool('a_tool')] })).toThrow('must export exactly one');
+      expect(() => resolvePluginExports('a.js', {
+        aTools: [tool('a_tool')],
+        bTools: [tool('b_tool')],
+        handleTool: vi.fn(),
+      })).toThrow('must export exactly one');
+    });
+
+    it('should reject malformed tools', () => {
+      expect(() => resolvePluginExports('a.js', {
+        tools: [{ name: 'bad name', description: 'x', inputSchema: { type: 'object' } }],
+        handleTool: vi.fn(),
+      })).toThrow('Invalid plugin a.js: tool at index 0: name:');
+      expect(() => resolvePluginExports('a.js', { tools: [], handleTool: vi.fn() })).toThrow('exports no tools');
+    });
+  });
+
+  describe('PluginRegistry', () => {
+    it('should reject the same tool name in two plugins', () => {
+      const plugin = (file: string) => ({ file, tools: [tool('scaffold_node')], handler: vi.fn() });
+
+      expect(() => new PluginRegistry([plugin('a.js'), plugin('b.js')])).toThrow(
+        "Plugin tool name clash: 'scaffold_node' is defined by a.js and b.js"
+      );
+    });
+
+    it('should pass the shared services, or those of the call instance', async () => {
+      const handler = vi.fn().mockResolvedValue('done');
+      const registry = new PluginRegistry([{ file: 'a.js', tools: [tool('a_tool')], handler }]);
+
+      await registry.call('a_tool', { x: 1 }, { sessionId: 's1' });
+      expect(handler).toHaveBeenCalledWith('a_tool', { x: 1 }, {
+        sessionId: 's1',
+        services: { n8nApi, backupService, validationService },
+      });
+
+      const instance = { n8nApi: {}, backupService: {}, validationService: {} } as any;
+      await registry.call('a_tool', {}, { instance });
+      expect(handler.mock.calls[1][2].services).toEqual({
+        n8nApi: instance.n8nApi,
+        backupService: instance.backupService,
+        validationService: instance.validationService,
+      });
+      expect(handler.mock.calls[1][2].services.n8nApi).toBe(instance.n8nApi);
+    });
+
+    it('should reject unknown tools', async () => {
+      await expect(new PluginRegistry([]).call('nope', {})).rejects.toThrow('Unknown tool: nope');
+    });
+  });
+});
@@ -0,0 +1,196 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { McpError } from '@modelcontextprotocol/sdk/types.js';
+
+vi.mock('../../config/env.js', () => ({
+  N8N_HOST: 'http://localhost:5678',
+  N8N_API_KEY: 'test-api-key',
+  n8nClient: {},
+  webhookClient: {},
+}));
+
+vi.mock('../../services/n8n-api-service.js', () => ({
+  n8nApi: {
+    getWorkflow: vi.fn(),
+    getExecution: vi.fn(),
+    listNodeTypes: vi.fn(),
+  },
+}));
+
+vi.mock('../../services/validation-service.js', () => ({
+  validationService: {
+    lintWorkflow: vi.fn(),
+    suggestWorkflowImprovements: vi.fn(),
+  },
+}));
+
+vi.mock('../../services/template-service.js', () => ({
+  templateService: {
+    getTemplateDetails: vi.fn(),
+  },
+}));
+
+vi.mock('../../utils/template-import-helpers.js', () => ({
+  checkNodeCompatibility: vi.fn(),
+}));
+
+import { n8nPrompts, getPrompt, summarizeExecutionFailure } from '../../prompts/n8n-prompts.js';
+import { n8nApi } from '../../services/n8n-api-service.js';
+import { validationService } from '../../services/validation-service.js';
+import { templateService } from '../../services/template-service.js';
+import { checkNodeCompatibility } from '../../utils/template-import-helpers.js';
+
+const failedExecution = {
+  id: '99',
+  workflowId: '1',
+  finished: false,
+  status: 'error',
+  mode: 'trigger',
+  startedAt: '2026-02-11T10:00:00.000Z',
+  data: {
+    resultData: {
+      lastNodeExecuted: 'HTTP Request',
+      error: { message: 'Request failed with status code 500', node: { name: 'HTTP Request' } },
+      runData: {
+        'HTTP Request': [{ error: { message: 'Request failed with status code 500' } }],
+      },
+    },
+  },
+} as any;
+
+describe('n8n Prompts', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should declare prompts with arguments', () => {
+    expect(n8nPrompts.map(p => p.name)).toEqual([
+      'debug_failed_execution',
+      'harden_workflow',
+      'build_workflow_from_template',
+    ]);
+    expect(n8nPrompts[0].arguments).toEqual([expect.objectContaining({ name: 'executionId', required: true })]);
+  });
+
+  describe('summarizeExecutionFailure', () => {
+    it('should collect execution and node errors', () => {
+      expect(summarizeExecutionFailure(failedExecution)).toEqual([
+        'Execution error in node "HTTP Request": Request failed with status code 500',
+        'Last node executed: HTTP Request',
+        'Node "HTTP Request" (run 0) failed: Request failed with status code 500',
+      ]);
+    });
+
+    it('should return empty list for executions without errors', () => {
+      expect(summarizeExecutionFailure({ id: '1', workflowId: '1', finished: true, mode: 'manual', startedAt: '' })).toEqual([]);
+    });
+  });
+
+  describe('debug_failed_execution', () => {
+    it('should pre-load execution data and workflow', async () => {
+      vi.mocked(n8nApi.getExecution).mockResolvedValue(failedExecution);
+      vi.mocked(n8nApi.getWorkflow).mockResolvedValue({ id: '1', name: 'Orders', nodes: [], connections: {} });
+
+      const result = await getPrompt('debug_failed_execution', { executionId: '99' });
+
+      expect(n8nApi.getExecution).toHaveBeenCalledWith('99', true, undefined);
+      expect(n8nApi.getWorkflow).toHaveBeenCalledWith('1', undefined);
+      expect(result.messages).toHaveLength(3);
+
+      const intro = result.messages[0].content as any;
+      expect(intro.text).toContain('Request failed with status code 500');
+      expect(intro.text).toContain('status: error');
+
+      const embedded = result.messages.slice(1).map(m => (m.content as any).resource.uri);
+      expect(embedded).toEqual(['n8n://executions/99', 'n8n://workflows/1']);
+    });
+
+    it('should omit oversized embedded payloads', async () => {
+      vi.mocked(n8nApi.getExecution).mockResolvedValue({
+        ...failedExecution,
+        data: { resultData: { runData: { Big: [{ json: 'x'.repeat(1100 * 1024) }] } } },
+      });
+      vi.mocked(n8nApi.getWorkflow).mockResolvedValue({ id: '1', name: 'Orders', nodes: [], connections: {} });
+
+      const result = await getPrompt('debug_failed_execution', { executionId: '99' });
+      const execution = JSON.parse((result.messages[1].content as any).resource.text);
+
+      expect(execution.omitted).toBe(true);
+      expect(execution.hint).toContain('n8n://executions/99');
+    });
+
+    it('should require executionId', async () => {
+      await expect(getPrompt('debug_failed_execution', {})).rejects.toThrow('executionId');
+    });
+  });
+
+  describe('harden_workflow', () => {
+    it('should embed lint and improvement results', async () => {
+      vi.mocked(n8nApi.getWorkflow).mockResolvedValue({ id: '5', name: 'Sync', nodes: [], connections: {} });
+      vi.mocked(validationService.lintWorkflow).mockResolvedValue({
+        score: 70,
+        summary: '1 warning',
+        issues: [{ severity: 'warning', message: 'No error handling' }],
+      } as any);
+      vi.mocked(validationService.suggestWorkflowImprovements).mockResolvedValue({
+        summary: '1 suggestion',
+        suggestions: [{ priority: 'high', title: 'Add Error Trigger', description: 'Catch failures' }],
+      } as any);
+
+      const result = await getPrompt('harden_workflow', { workflowId: '5' });
+      const text = (result.messages[0].content as any).text;
+
+      expect(result.description).toContain('70/100');
+      expect(text).toContain('[warning] No error handling');
+      expect(text).toContain('[high] Add Error Trigger: Catch failures');
+      expect(text).toContain('backup_workflow');
+    });
+  });
+
+  describe('build_workflow_from_template', () => {
+    const template = {
+      id: 123,
+      name: 'Slack Alerts',
+      description: 'Send alerts to Slack',
+      workflow: {
+        nodes: [{ name: 'Slack', type: 'n8n-nodes-base.slack', credentials: { slackApi: { id: '1' } } }],
+        connections: {},
+      },
+    } as any;
+
+    it('should list required credentials and compatibility', async () => {
+      vi.mocked(templateService.getTemplateDetails).mockResolvedValue(template);
+      vi.mocked(n8nApi.listNodeTypes).mockResolvedValue([]);
+      vi.mocked(checkNodeCompatibility).mockResolvedValue({
+        compatible: false,
+        missingNodes: ['n8n-nodes-base.slack'],
+        warnings: [],
+      });
+
+      const result = await getPrompt('build_workflow_from_template', { templateId: '123', goal: 'Alert on errors' });
+      const text = (result.messages[0].content as any).text;
+
+      expect(templateService.getTemplateDetails).toHaveBeenCalledWith(123, { signal: undefined });
+      expect(text).toContain('Credential types required: slackApi');
+      expect(text).toContain('Missing nodes: n8n-nodes-base.slack');
+      expect(text).toContain('Goal: Alert on errors');
+      expect((result.messages[1].content as any).resource.uri).toBe('https://n8n.io/workflows/123');
+    });
+
+    it('should still build prompt when compatibility check fails', async () => {
+      vi.mocked(templateService.getTemplateDetails).mockResolvedValue(template);
+      vi.mocked(n8nApi.listNodeTypes).mockRejectedValue(new Error('Connection refused'));
+
+      const result = await getPrompt('build_workflow_from_template', { templateId: '123' });
+
+      expect((result.messages[0].content as any).text).toContain('Could not check node compatibility: Connection refused');
+    });
+
+    it('should reject invalid templateId', async () => {
+      await expect(getPrompt('build_workflow_from_template', { templateId: 'abc' })).rejects.toThrow('Invalid templateId');
+    });
+  });
+
+  it('should reject unknown prompts', async () => {
+    await expect(getPrompt('nope')).rejects.toThrow(McpError);
+  });
+});
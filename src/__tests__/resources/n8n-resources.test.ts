@@ -0,0 +1,172 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { McpError } from '@modelcontextprotocol/sdk/types.js';
+
+vi.mock('../../config/env.js', () => ({
+  N8N_HOST: 'http://localhost:5678',
+  N8N_API_KEY: 'test-api-key',
+  n8nClient: {},
+  webhookClient: {},
+}));
+
+vi.mock('../../services/n8n-api-service.js', () => ({
+  n8nApi: {
+    listWorkflows: vi.fn(),
+    getWorkflow: vi.fn(),
+    listExecutions: vi.fn(),
+    getExecution: vi.fn(),
+  },
+}));
+
+vi.mock('../../services/backup-service.js', () => ({
+  backupService: {
+    getBackup: vi.fn(),
+  },
+}));
+
+import {
+  parseResourceUri,
+  listResources,
+  readResource,
+  notifyResourceChanges,
+  resourceTemplates,
+} from '../../resources/n8n-resources.js';
+import { n8nApi } from '../../services/n8n-api-service.js';
+import { backupService } from '../../services/backup-service.js';
+import { resourceEvents, ResourceEventBus } from '../../utils/resource-events.js';
+
+describe('n8n Resources', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('resourceTemplates', () => {
+    it('should declare workflow, execution and backup templates', () => {
+      expect(resourceTemplates.map(t => t.uriTemplate)).toEqual([
+        'n8n://workflows/{id}',
+        'n8n://executions/{id}',
+        'n8n://backups/{workflowId}/{backupId}',
+      ]);
+    });
+  });
+
+  describe('parseResourceUri', () => {
+    it('should parse workflow URIs', () => {
+      expect(parseResourceUri('n8n://workflows/abc123')).toEqual({ kind: 'workflow', id: 'abc123' });
+    });
+
+    it('should parse execution URIs', () => {
+      expect(parseResourceUri('n8n://executions/42')).toEqual({ kind: 'execution', id: '42' });
+    });
+
+    it('should parse backup URIs', () => {
+      expect(parseResourceUri('n8n://backups/wf1/backup_wf1_2026-02-11T10-00-00-000Z_abc12345')).toEqual({
+        kind: 'backup',
+        workflowId: 'wf1',
+        backupId: 'backup_wf1_2026-02-11T10-00-00-000Z_abc12345',
+      });
+    });
+
+    it('should reject unknown schemes and path traversal', () => {
+      expect(() => parseResourceUri('file:///etc/passwd')).toThrow(McpError);
+      expect(() => parseResourceUri('n8n://backups/../etc')).toThrow('Unknown resource URI');
+      expect(() => parseResourceUri('n8n://workflows/a/b')).toThrow('Unknown resource URI');
+    });
+  });
+
+  describe('listResources', () => {
+    it('should list workflows and recent executions', async () => {
+      vi.mocked(n8nApi.listWorkflows).mockResolvedValue({
+        data: [{ id: '1', name: 'Orders', active: true, nodes: [], connections: {} }],
+      });
+      vi.mocked(n8nApi.listExecutions).mockResolvedValue({
+        data: [{ id: '99', workflowId: '1', finished: true, status: 'success', mode: 'manual', startedAt: '' }],
+      });
+
+      const resources = await listResources();
+
+      expect(n8nApi.listExecutions).toHaveBeenCalledWith({ limit: 20 }, undefined);
+      expect(resources).toEqual([
+        expect.objectContaining({ uri: 'n8n://workflows/1', name: 'Orders', mimeType: 'application/json' }),
+        expect.objectContaining({ uri: 'n8n://executions/99', description: 'Workflow 1 - success' }),
+      ]);
+    });
+  });
+
+  describe('readResource', () => {
+    it('should read workflow as JSON text', async () => {
+      vi.mocked(n8nApi.getWorkflow).mockResolvedValue({ id: '1', name: 'Orders', nodes: [], connections: {} });
+
+      const result = await readResource('n8n://workflows/1');
+
+      expect(n8nApi.getWorkflow).toHaveBeenCalledWith('1', undefined);
+      expect(result.contents[0].uri).toBe('n8n://workflows/1');
+      expect(JSON.parse(result.contents[0].text).name).toBe('Orders');
+    });
+
+    it('should read execution', async () => {
+      vi.mocked(n8nApi.getExecution).mockResolvedValue({ id: '99' } as any);
+      await readResource('n8n://executions/99');
+      expect(n8nApi.getExecution).toHaveBeenCalledWith('99', true, undefined);
+    });
+
+    it('should read backup', async () => {
+      vi.mocked(backupService.getBackup).mockResolvedValue({ metadata: {} as any, workflow: { name: 'x' } as any });
+      await readResource('n8n://backups/1/backup_1_2026-02-11T10-00-00-000Z_abc12345');
+      expect(backupService.getBackup).toHaveBeenCalledWith('1', 'backup_1_2026-02-11T10-00-00-000Z_abc12345');
+    });
+  });
+
+  describe('session instances', () => {
+    it('should read resources through the given instance', async () => {
+      const instance = {
+        n8nApi: { getWorkflow: vi.fn().mockResolvedValue({ id: '1', name: 'Tenant WF' }) },
+      } as any;
+
+      const result = await readResource('n8n://workflows/1', undefined, instance);
+
+      expect(instance.n8nApi.getWorkflow).toHaveBeenCalledWith('1', undefined);
+      expect(n8nApi.getWorkflow).not.toHaveBeenCalled();
+      expect(JSON.parse(result.contents[0].text).name).toBe('Tenant WF');
+    });
+  });
+
+  describe('notifyResourceChanges', () => {
+    it('should emit updated for modified workflows', () => {
+      const updated = vi.fn();
+      resourceEvents.on('updated', updated);
+
+      notifyResourceChanges('update_workflow', { id: '7' });
+      notifyResourceChanges('restore_workflow', { workflowId: '8' });
+
+      expect(updated).toHaveBeenCalledWith('n8n://workflows/7');
+      expect(updated).toHaveBeenCalledWith('n8n://workflows/8');
+      resourceEvents.off('updated', updated);
+    });
+
+    it('should emit listChanged for created and deleted workflows', () => {
+      const listChanged = vi.fn();
+      resourceEvents.on('listChanged', listChanged);
+
+      notifyResourceChanges('create_workflow', {});
+      notifyResourceChanges('delete_workflow', { id: '7' });
+      notifyResourceChanges('get_workflow', { id: '7' });
+
+      expect(listChanged).toHaveBeenCalledTimes(2);
+      resourceEvents.off('listChanged', listChanged);
+    });
+
+    it('should emit on the bus of the instance the tool ran against', () => {
+      const bus = new ResourceEventBus();
+      const own = vi.fn();
+      const shared = vi.fn();
+      bus.on('updated', own);
+      resourceEvents.on('updated', shared);
+
+      notifyResourceChanges('update_workflow', { id: '7' }, bus);
+
+      expect(own).toHaveBeenCalledWith('n8n://workflows/7');
+      expect(shared).not.toHaveBeenCalled();
+      resourceEvents.off('updated', shared);
+    });
+  });
+});
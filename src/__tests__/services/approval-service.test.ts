@@ -0,0 +1,142 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { McpError } from '@modelcontextprotocol/sdk/types.js';
+import { ApprovalService, isPendingApproval, type ApprovalConfig } from '../../services/approval-service.js';
+
+vi.mock('../../services/audit-log-service.js', () => ({
+  auditLogService: { recordSecurityEvent: vi.fn() },
+}));
+
+const config: ApprovalConfig = {
+  rules: [
+    { tool: 'delete_workflow' },
+    { tool: 'delete_credential', args: { force: true } },
+    { tool: 'activate_workflow', instance: 'prod', args: { active: true } },
+  ],
+  ttlMs: 60_000,
+  maxPending: 2,
+};
+
+const requester = { token: 't', clientId: 'agent', scopes: ['write', 'credentials'] };
+
+describe('ApprovalService', () => {
+  let service: ApprovalService;
+  let executor: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    service = new ApprovalService(config);
+    executor = vi.fn(async () => ({ success: true, message: 'Workflow 12 deleted' }));
+    service.setExecutor(executor);
+  });
+
+  it('should match rules on tool, instance and arguments', () => {
+    expect(service.match('delete_workflow', { id: '12' }, 'default')).toEqual({ tool: 'delete_workflow' });
+    expect(service.match('delete_credential', { id: 'c1' }, 'default')).toBeUndefined();
+    expect(service.match('delete_credential', { id: 'c1', force: true }, 'default')).toMatchObject({ args: { force: true } });
+    expect(service.match('activate_workflow', { id: '12', active: true }, 'staging')).toBeUndefined();
+    expect(service.match('activate_workflow', { id: '12', active: false }, 'prod')).toBeUndefined();
+    expect(service.match('activate_workflow', { id: '12', active: true }, 'prod')).toBeDefined();
+    expect(service.match('update_workflow', { id: '12' }, 'prod')).toBeUndefined();
+  });
+
+  it('should reject rules on unknown tools or on approve_operation', () => {
+    expect(() => service.assertRules(['delete_workflow', 'delete_credential', 'activate_workflow'])).not.toThrow();
+    expect(() => service.assertRules(['delete_workflow'])).toThrow("Invalid approval rule: unknown tool 'delete_credential'");
+    expect(() => new ApprovalService({ ...config, rules: [{ tool: 'approve_operation' }] }).assertRules(['approve_operation']))
+      .toThrow('approve_operation cannot require approval');
+  });
+
+  it('should hold a call and run it with the requester context once approved', async () => {
+    const pending = service.submit({ tool: 'delete_workflow', args: { id: '12' }, rule: config.rules[0], authInfo: requester }, 0);
+
+    expect(isPendingApproval(pending)).toBe(true);
+    expect(pending).toMatchObject({ tool: 'delete_workflow', expiresAt: '1970-01-01T00:01:00.000Z' });
+    expect(service.list(0)).toEqual([expect.objectContaining({
+      approvalId: pending.approvalId,
+      args: { id: '12' },
+      requestedBy: { clientId: 'agent' },
+    })]);
+    expect(executor).not.toHaveBeenCalled();
+
+    const decision = await service.decide(pending.approvalId, 'approve', { decidedBy: 'ops', reason: 'cleanup' }, 1000);
+
+    expect(decision).toEqual({
+      approvalId: pending.approvalId,
+      tool: 'delete_workflow',
+      status: 'executed',
+      decidedBy: 'ops',
+      reason: 'cleanup',
+      result: { success: true, message: 'Workflow 12 deleted' },
+    });
+    expect(executor).toHaveBeenCalledWith(
+      expect.objectContaining({ tool: 'delete_workflow', args: { id: '12' }, authInfo: requester }),
+      { id: pending.approvalId, approvedBy: 'ops' }
+    );
+    expect(service.size).toBe(0);
+  });
+
+  it('should drop rejected calls without running them', async () => {
+    const pending = service.submit({ tool: 'delete_workflow', args: { id: '12' }, rule: config.rules[0] });
+
+    await expect(service.decide(pending.approvalId, 'reject')).resolves.toMatchObject({ status: 'rejected' });
+    expect(executor).not.toHaveBeenCalled();
+    await expect(service.decide(pending.approvalId, 'approve', { decidedBy: 'ops' })).rejects.toThrow(
+      `Unknown or expired approval: ${pending.approvalId}`
+    );
+  });
+
+  it('should report a failing approved call instead of throwing', async () => {
+    executor.mockRejectedValue(new Error('Workflow 12 not found'));
+    const pending = service.submit({ tool: 'delete_workflow', args: { id: '12' }, rule: config.rules[0] });
+
+    await expect(service.decide(pending.approvalId, 'approve', { decidedBy: 'ops' })).resolves.toMatchObject({
+      status: 'failed',
+      error: 'Workflow 12 not found',
+    });
+  });
+
+  it('should not let a token approve its own call', async () => {
+    const pending = service.submit({ tool: 'delete_workflow', args: { id: '12' }, rule: config.rules[0], authInfo: requester });
+
+    await expect(service.decide(pending.approvalId, 'approve', { decidedBy: 'agent' })).rejects.toThrow(
+      'An operation cannot be approved by the token that requested it'
+    );
+    expect(service.size).toBe(1);
+    await expect(service.decide(pending.approvalId, 'reject', { decidedBy: 'agent' })).resolves.toMatchObject({
+      status: 'rejected',
+    });
+  });
+
+  it('should not approve a call without an approving token', async () => {
+    const pending = service.submit({ tool: 'delete_workflow', args: { id: '12' }, rule: config.rules[0] });
+
+    await expect(service.decide(pending.approvalId, 'approve')).rejects.toThrow(
+      'Approving an operation requires an authenticated token with the approvals scope'
+    );
+    expect(executor).not.toHaveBeenCalled();
+    expect(service.size).toBe(1);
+  });
+
+  it('should expire pending calls and refuse new ones when full', async () => {
+    const first = service.submit({ tool: 'delete_workflow', args: { id: '1' }, rule: config.rules[0] }, 0);
+    service.submit({ tool: 'delete_workflow', args: { id: '2' }, rule: config.rules[0] }, 30_000);
+
+    expect(() => service.submit({ tool: 'delete_workflow', args: { id: '3' }, rule: config.rules[0] }, 30_000))
+      .toThrow(McpError);
+
+    // The first one expired: room for a new call, and it can no longer be approved
+    service.submit({ tool: 'delete_workflow', args: { id: '3' }, rule: config.rules[0] }, 60_000);
+    expect(service.list(60_000).map(p => p.args.id)).toEqual(['2', '3']);
+    await expect(service.decide(first.approvalId, 'approve', { decidedBy: 'ops' }, 60_000)).rejects.toThrow('Unknown or expired approval');
+  });
+
+  it('should redact credential data in the pending list', () => {
+    service.submit({
+      tool: 'delete_credential',
+      args: { id: 'c1', force: true, data: { user: 'bob' }, apiKey: 'k' },
+      rule: config.rules[1],
+    });
+
+    const [listed] = service.list();
+    expect(listed.args).toEqual({ id: 'c1', force: true, data: { user: '[REDACTED]' }, apiKey: '[REDACTED]' });
+  });
+});
@@ -0,0 +1,275 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import {
+  AuditLogService,
+  extractAffectedIds,
+  type AuditLogConfig,
+} from '../../services/audit-log-service.js';
+
+describe('AuditLogService', () => {
+  let dir: string;
+  let config: AuditLogConfig;
+  let service: AuditLogService;
+
+  beforeEach(async () => {
+    dir = await fs.mkdtemp(path.join(os.tmpdir(), 'audit-test-'));
+    config = {
+      enabled: true,
+      filePath: path.join(dir, 'audit.jsonl'),
+      securityFilePath: path.join(dir, 'security.jsonl'),
+      maxFileSize: 1024 * 1024,
+      maxFiles: 3,
+    };
+    service = new AuditLogService(config);
+  });
+
+  afterEach(async () => {
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+
+  const readEntries = async (file = config.filePath) =>
+    (await fs.readFile(file, 'utf8')).trim().split('\n').map(line => JSON.parse(line));
+
+  it('should append a JSONL entry for a successful mutating call', async () => {
+    await service.record({
+      tool: 'update_workflow',
+      args: { id: 'wf1', name: 'Renamed' },
+      result: { id: 'wf1', name: 'Renamed' },
+      sessionId: 'session-1',
+      clientId: 'ci-agent',
+      client: 'claude-desktop/1.0',
+      durationMs: 12,
+    });
+
+    const [entry] = await readEntries();
+    expect(entry).toMatchObject({
+      sessionId: 'session-1',
+      clientId: 'ci-agent',
+      client: 'claude-desktop/1.0',
+      tool: 'update_workflow',
+      args: { id: 'wf1', name: 'Renamed' },
+      status: 'success',
+      durationMs: 12,
+      affected: { workflowIds: ['wf1'], credentialIds: [] },
+    });
+    expect(Date.parse(entry.timestamp)).not.toBeNaN();
+  });
+
+  it('should record failures with the error message', async () => {
+    await service.record({
+      tool: 'delete_workflow',
+      args: { id: 'wf2' },
+      error: new Error('Resource not found'),
+      durationMs: 3,
+    });
+
+    const [entry] = await readEntries();
+    expect(entry.status).toBe('error');
+    expect(entry.error).toBe('Resource not found');
+    expect(entry.affected.workflowIds).toEqual(['wf2']);
+  });
+
+  it('should record held calls and the approved run with the approval ID', async () => {
+    await service.record({
+      tool: 'delete_workflow',
+      args: { id: 'wf3' },
+      result: { approvalRequired: true, approvalId: 'a1' },
+      approval: { id: 'a1', status: 'pending' },
+      durationMs: 1,
+    });
+    await service.record({
+      tool: 'delete_workflow',
+      args: { id: 'wf3' },
+      result: { success: true },
+      approval: { id: 'a1', status: 'approved', approvedBy: 'ops' },
+      durationMs: 5,
+    });
+
+    const entries = await readEntries();
+    expect(entries.map(entry => entry.approval)).toEqual([
+      { id: 'a1', status: 'pending' },
+      { id: 'a1', status: 'approved', approvedBy: 'ops' },
+    ]);
+  });
+
+  it('should redact credential data in arguments', async () => {
+    await service.record({
+      tool: 'create_credential',
+      args: { name: 'GitHub', type: 'githubApi', data: { accessToken: 'ghp_secret', user: 'bot' } },
+      result: { id: 'cred9', name: 'GitHub', type: 'githubApi' },
+      durationMs: 5,
+    });
+
+    const raw = await fs.readFile(config.filePath, 'utf8');
+    expect(raw).not.toContain('ghp_secret');
+    const [entry] = await readEntries();
+    expect(entry.args.data.accessToken).toBe('[REDACTED]');
+    expect(entry.affected.credentialIds).toEqual(['cred9']);
+  });
+
+  it('should summarize oversized arguments', async () => {
+    const nodes = Array.from({ length: 200 }, (_, i) => ({ id: String(i), notes: 'x'.repeat(500) }));
+    await service.record({ tool: 'create_workflow', args: { name: 'Big', nodes }, durationMs: 1 });
+
+    const [entry] = await readEntries();
+    expect(entry.args).toMatchObject({ _truncated: true, keys: ['name', 'nodes'] });
+  });
+
+  it('should ignore tools that are not audited', async () => {
+    await service.record({ tool: 'get_workflow', args: { id: 'wf1' }, durationMs: 1 });
+
+    await expect(fs.access(config.filePath)).rejects.toThrow();
+  });
+
+  it('should record security events with their details in the security log', async () => {
+    await service.recordSecurityEvent({ event: 'scope_denied', clientId: 'reader', target: 'delete_workflow', requiredScope: 'write' });
+
+    await expect(fs.access(config.filePath)).rejects.toThrow();
+    const [entry] = await readEntries(config.securityFilePath);
+    expect(entry).toMatchObject({
+      clientId: 'reader',
+      tool: 'security:scope_denied',
+      args: { target: 'delete_workflow', requiredScope: 'write' },
+      status: 'error',
+      error: 'scope_denied',
+    });
+  });
+
+  it('should do nothing when disabled', async () => {
+    service = new AuditLogService({ ...config, enabled: false });
+    expect(service.isAudited('delete_workflow')).toBe(false);
+
+    await service.record({ tool: 'delete_workflow', args: { id: 'wf1' }, durationMs: 1 });
+    await service.recordSecurityEvent({ event: 'auth_failure', reason: 'missing_token' });
+    await expect(fs.access(config.filePath)).rejects.toThrow();
+    await expect(fs.access(config.securityFilePath)).rejects.toThrow();
+  });
+
+  it('should rotate files when the size limit is reached', async () => {
+    service = new AuditLogService({ ...config, maxFileSize: 400, maxFiles: 2 });
+
+    for (let i = 0; i < 8; i++) {
+      await service.record({ tool: 'delete_workflow', args: { id: `wf${i}` }, durationMs: 1 });
+    }
+
+    const files = (await fs.readdir(dir)).sort();
+    expect(files).toEqual(['audit.jsonl', 'audit.jsonl.1', 'audit.jsonl.2']);
+    const current = await readEntries();
+    expect(current[current.length - 1].args.id).toBe('wf7');
+  });
+
+  it('should not let a burst of auth failures rotate tool calls out of the log', async () => {
+    service = new AuditLogService({ ...config, maxFileSize: 400, maxFiles: 2 });
+    await service.record({ tool: 'delete_workflow', args: { id: 'wf1' }, clientId: 'ops', durationMs: 1 });
+
+    for (let i = 0; i < 50; i++) {
+      await service.recordSecurityEvent({ event: 'auth_failure', reason: 'invalid_token', ip: '203.0.113.7' });
+    }
+
+    const { entries } = await service.query({ tool: 'delete_workflow' });
+    expect(entries.map(e => e.affected.workflowIds)).toEqual([['wf1']]);
+    expect((await service.query({ tool: 'security:auth_failure' })).total).toBeGreaterThan(0);
+    expect((await fs.readdir(dir)).sort()).toEqual([
+      'audit.jsonl', 'security.jsonl', 'security.jsonl.1', 'security.jsonl.2',
+    ]);
+  });
+
+  it('should not throw when the log cannot be written', async () => {
+    const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+    const blocker = path.join(dir, 'blocker');
+    await fs.writeFile(blocker, '');
+    service = new AuditLogService({ ...config, filePath: path.join(blocker, 'audit.jsonl') });
+
+    await expect(service.record({ tool: 'delete_workflow', args: { id: 'x' }, durationMs: 1 })).resolves.toBeUndefined();
+    expect(errorSpy).toHaveBeenCalledWith(expect.stringContaining('"msg":"Failed to write audit log entry"'));
+    errorSpy.mockRestore();
+  });
+
+  describe('query', () => {
+    beforeEach(async () => {
+      vi.useFakeTimers({ toFake: ['Date'] });
+      const calls: Array<[string, string, Record<string, any>, unknown?]> = [
+        ['2026-03-01T10:00:00.000Z', 'create_workflow', { name: 'A' }, { id: 'wf1' }],
+        ['2026-03-02T10:00:00.000Z', 'update_workflow', { id: 'wf1' }, { id: 'wf1' }],
+        ['2026-03-03T10:00:00.000Z', 'update_credential', { id: 'cred1' }, { id: 'cred1' }],
+        ['2026-03-04T10:00:00.000Z', 'delete_workflow', { id: 'wf2' }],
+      ];
+      for (const [time, tool, args, result] of calls) {
+        vi.setSystemTime(new Date(time));
+        await service.record({ tool, args, result, sessionId: 's1', durationMs: 1 });
+      }
+      vi.useRealTimers();
+    });
+
+    it('should return newest entries first', async () => {
+      const { entries, total } = await service.query();
+      expect(total).toBe(4);
+      expect(entries.map(e => e.tool)).toEqual([
+        'delete_workflow', 'update_credential', 'update_workflow', 'create_workflow',
+      ]);
+    });
+
+    it('should filter by workflow, credential and tool', async () => {
+      expect((await service.query({ workflowId: 'wf1' })).entries.map(e => e.tool))
+        .toEqual(['update_workflow', 'create_workflow']);
+      expect((await service.query({ credentialId: 'cred1' })).total).toBe(1);
+      expect((await service.query({ tool: 'delete_workflow' })).entries[0].affected.workflowIds).toEqual(['wf2']);
+    });
+
+    it('should not return one token\'s entries to a query for another token', async () => {
+      await service.record({ tool: 'delete_workflow', args: { id: 'wf9' }, clientId: 'tenant-b', durationMs: 1 });
+      await service.record({ tool: 'update_workflow', args: { id: 'wf8' }, clientId: 'tenant-a', durationMs: 1 });
+
+      const { entries } = await service.query({ clientId: 'tenant-a' });
+
+      expect(entries.map(e => e.affected.workflowIds)).toEqual([['wf8']]);
+    });
+
+    it('should merge security events with tool calls by time', async () => {
+      vi.useFakeTimers({ toFake: ['Date'] });
+      vi.setSystemTime(new Date('2026-03-02T12:00:00.000Z'));
+      await service.recordSecurityEvent({ event: 'scope_denied', clientId: 'reader' });
+      vi.useRealTimers();
+
+      const { entries } = await service.query({ since: '2026-03-02T00:00:00Z', until: '2026-03-03T23:59:59Z' });
+
+      expect(entries.map(e => e.tool)).toEqual(['update_credential', 'security:scope_denied', 'update_workflow']);
+    });
+
+    it('should filter by time range and apply the limit', async () => {
+      const result = await service.query({
+        since: '2026-03-02T00:00:00Z',
+        until: '2026-03-03T23:59:59Z',
+        limit: 1,
+      });
+      expect(result.total).toBe(2);
+      expect(result.entries.map(e => e.tool)).toEqual(['update_credential']);
+    });
+
+    it('should read rotated files and skip corrupt lines', async () => {
+      await fs.rename(config.filePath, `${config.filePath}.1`);
+      await fs.writeFile(config.filePath, '{"broken\n');
+      await service.record({ tool: 'activate_workflow', args: { id: 'wf3', active: true }, durationMs: 1 });
+
+      const { entries, total } = await service.query();
+      expect(total).toBe(5);
+      expect(entries[0].tool).toBe('activate_workflow');
+    });
+  });
+});
+
+describe('extractAffectedIds', () => {
+  it('should collect workflow IDs from arguments and results', () => {
+    expect(extractAffectedIds('restore_workflow', { workflowId: 'wf1', backupId: 'b1' }, { restored: true }))
+      .toEqual({ workflowIds: ['wf1'], credentialIds: [] });
+    expect(extractAffectedIds('import_template', { templateId: 42 }, { id: 'wf9' }))
+      .toEqual({ workflowIds: ['wf9'], credentialIds: [] });
+  });
+
+  it('should collect credential IDs for credential tools', () => {
+    expect(extractAffectedIds('delete_credential', { id: 7 }))
+      .toEqual({ workflowIds: [], credentialIds: ['7'] });
+  });
+});
@@ -19,6 +19,7 @@ vi.mock('fs', async () => {
       stat: vi.fn(),
       lstat: vi.fn(),
       unlink: vi.fn(),
+      statfs: vi.fn(),
     },
   };
 });
@@ -60,7 +61,7 @@ describe('BackupService', () => {
 
       const result = await service.backupWorkflow(workflowId, 'Initial backup');
 
-      expect(n8nApi.getWorkflow).toHaveBeenCalledWith(workflowId);
+      expect(n8nApi.getWorkflow).toHaveBeenCalledWith(workflowId, undefined);
       expect(fs.mkdir).toHaveBeenCalledWith(path.join(backupRoot, workflowId), { recursive: true });
       expect(fs.writeFile).toHaveBeenCalled();
       expect(result.workflowId).toBe(workflowId);
@@ -68,6 +69,18 @@ describe('BackupService', () => {
       expect(result.size).toBe('1.0KB');
     });
 
+    it('should report backup steps through progress callback', async () => {
+      vi.mocked(n8nApi.getWorkflow).mockResolvedValue({ id: '123', name: 'Test Workflow', nodes: [] });
+      vi.mocked(fs.stat).mockResolvedValue({ size: 1024 } as any);
+      vi.mocked(fs.readdir).mockResolvedValue([]);
+      const onProgress = vi.fn();
+
+      await service.backupWorkflow('123', undefined, { onProgress });
+
+      expect(onProgress.mock.calls.map(([u]) => u.progress)).toEqual([1, 2, 3, 4]);
+      expect(onProgress).toHaveBeenLastCalledWith({ progress: 4, total: 4, message: 'Rotating old backups' });
+    });
+
     it('should handle API errors during backup', async () => {
       vi.mocked(n8nApi.getWorkflow).mockRejectedValue(new Error('API Error'));
       await expect(service.backupWorkflow('123')).rejects.toThrow('Failed to backup workflow 123');
@@ -119,6 +132,33 @@ describe('BackupService', () => {
     });
   });
 
+  describe('getBackup', () => {
+    it('should load backup metadata and workflow', async () => {
+      const backupId = makeBackupId('123', '2026-02-11T10-00-00-000Z');
+      const mockBackupData = {
+        metadata: { backupId, workflowId: '123', timestamp: '2026-02-11T10:00:00.000Z', description: 'Test', workflowName: 'Test' },
+        workflow: { id: '123', name: 'Test', nodes: [] }
+      };
+      vi.mocked(fs.access).mockResolvedValue(undefined);
+      vi.mocked(fs.readFile).mockResolvedValue(JSON.stringify(mockBackupData));
+      vi.mocked(fs.stat).mockResolvedValue({ size: 2048 } as any);
+
+      const result = await service.getBackup('123', backupId);
+
+      expect(result.metadata.backupId).toBe(backupId);
+      expect(result.metadata.size).toBe('2.0KB');
+      expect(result.workflow).toEqual(mockBackupData.workflow);
+    });
+
+    it('should reject corrupted backups', async () => {
+      const backupId = makeBackupId('123', '2026-02-11T10-00-00-000Z');
+      vi.mocked(fs.access).mockResolvedValue(undefined);
+      vi.mocked(fs.readFile).mockResolvedValue(JSON.stringify({ metadata: {} }));
+
+      await expect(service.getBackup('123', backupId)).rejects.toThrow('Corrupted backup file');
+    });
+  });
+
   describe('restoreWorkflow', () => {
     it('should restore a workflow and create auto-backup', async () => {
       const workflowId = '123';
@@ -136,7 +176,7 @@ describe('BackupService', () => {
 
       const result = await service.restoreWorkflow(workflowId, backupId, true);
 
-      expect(n8nApi.updateWorkflow).toHaveBeenCalledWith(workflowId, mockBackupData.workflow);
+      expect(n8nApi.updateWorkflow).toHaveBeenCalledWith(workflowId, mockBackupData.workflow, undefined);
       expect(n8nApi.getWorkflow).toHaveBeenCalled(); // From auto-backup
       expect(result.restored).toBe(true);
       expect(result.currentBackup).toBeDefined();
@@ -202,4 +242,27 @@ describe('BackupService', () => {
       expect(fs.unlink).toHaveBeenCalledTimes(2);
     });
   });
+
+  describe('checkStorage', () => {
+    it('should write and remove a probe file and report free space', async () => {
+      vi.mocked(fs.statfs).mockResolvedValue({ bavail: 1000, bsize: 4096 } as any);
+
+      const status = await service.checkStorage();
+
+      expect(status).toEqual({ writable: true, availableBytes: 4096000 });
+      expect(fs.mkdir).toHaveBeenCalledWith(backupRoot, { recursive: true });
+      const probeFile = vi.mocked(fs.writeFile).mock.calls[0][0] as string;
+      expect(path.dirname(probeFile)).toBe(backupRoot);
+      expect(fs.unlink).toHaveBeenCalledWith(probeFile);
+    });
+
+    it('should report an unwritable backup root', async () => {
+      vi.mocked(fs.writeFile).mockRejectedValueOnce(
+        Object.assign(new Error('EACCES: permission denied'), { code: 'EACCES' })
+      );
+
+      expect(await service.checkStorage()).toEqual({ writable: false, error: 'EACCES' });
+      expect(fs.statfs).not.toHaveBeenCalled();
+    });
+  });
 });
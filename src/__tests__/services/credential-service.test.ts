@@ -69,7 +69,7 @@ describe('CredentialService', () => {
 
       const result = await credentialService.getSchema('githubApi');
 
-      expect(n8nApi.getCredentialSchema).toHaveBeenCalledWith('githubApi');
+      expect(n8nApi.getCredentialSchema).toHaveBeenCalledWith('githubApi', undefined);
       expect(result).toEqual(mockSchema);
     });
 
@@ -400,7 +400,7 @@ describe('CredentialService', () => {
 
       await credentialService.deleteCredential('cred1');
 
-      expect(n8nApi.deleteCredential).toHaveBeenCalledWith('cred1');
+      expect(n8nApi.deleteCredential).toHaveBeenCalledWith('cred1', undefined);
     });
 
     it('should block delete if credential in use', async () => {
@@ -459,7 +459,7 @@ describe('CredentialService', () => {
 
       await credentialService.deleteCredential('cred1', true);
 
-      expect(n8nApi.deleteCredential).toHaveBeenCalledWith('cred1');
+      expect(n8nApi.deleteCredential).toHaveBeenCalledWith('cred1', undefined);
     });
   });
 
@@ -498,7 +498,7 @@ describe('CredentialService', () => {
 
       expect(n8nApi.updateCredential).toHaveBeenCalledWith('123', {
         name: 'Updated Name',
-      });
+      }, undefined);
       expect(result).toEqual(mockUpdated);
     });
 
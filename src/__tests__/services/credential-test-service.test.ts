@@ -0,0 +1,79 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('../../config/env.js', () => ({
+  N8N_HOST: 'http://localhost:5678',
+  N8N_API_KEY: 'test-api-key',
+  n8nClient: {},
+  webhookClient: {},
+}));
+
+vi.mock('../../services/n8n-api-service.js', () => ({
+  n8nApi: {
+    createWorkflow: vi.fn(),
+    executeWorkflow: vi.fn(),
+    getExecution: vi.fn(),
+    deleteWorkflow: vi.fn(),
+    listWorkflows: vi.fn(),
+  },
+}));
+
+import { CredentialTestService } from '../../services/credential-test-service.js';
+import { n8nApi } from '../../services/n8n-api-service.js';
+
+const credential = { id: 'cred1', name: 'GitHub', type: 'githubApi' };
+
+describe('CredentialTestService', () => {
+  let service: CredentialTestService;
+
+  beforeEach(() => {
+    service = new CredentialTestService();
+    vi.clearAllMocks();
+    vi.mocked(n8nApi.createWorkflow).mockResolvedValue({ id: 'wf-test', name: '__test_credential_cred1' });
+    vi.mocked(n8nApi.deleteWorkflow).mockResolvedValue(undefined);
+  });
+
+  it('should delete the test workflow and stop retrying when cancelled', async () => {
+    const controller = new AbortController();
+    vi.mocked(n8nApi.executeWorkflow).mockImplementation(async () => {
+      controller.abort();
+      throw new DOMException('This operation was aborted', 'AbortError');
+    });
+
+    await expect(
+      service.testCredential('cred1', credential, { signal: controller.signal })
+    ).rejects.toThrow('Request cancelled');
+
+    expect(n8nApi.executeWorkflow).toHaveBeenCalledTimes(1);
+    // Cleanup runs without the aborted signal so it can complete
+    expect(n8nApi.deleteWorkflow).toHaveBeenCalledWith('wf-test');
+    expect(n8nApi.listWorkflows).not.toHaveBeenCalled();
+  });
+
+  it('should not create a test workflow when already cancelled', async () => {
+    await expect(
+      service.testCredential('cred1', credential, { signal: AbortSignal.abort() })
+    ).rejects.toThrow();
+
+    expect(n8nApi.createWorkflow).not.toHaveBeenCalled();
+  });
+
+  it('should report create, execute and cleanup steps', async () => {
+    vi.useFakeTimers();
+    vi.mocked(n8nApi.executeWorkflow).mockResolvedValue({ id: 'exec1' } as any);
+    vi.mocked(n8nApi.getExecution).mockResolvedValue({ id: 'exec1', finished: true } as any);
+    const onProgress = vi.fn();
+
+    const pending = service.testCredential('cred1', credential, { onProgress });
+    await vi.runAllTimersAsync();
+    const result = await pending;
+    vi.useRealTimers();
+
+    expect(result.valid).toBe(true);
+    expect(onProgress.mock.calls.map(([u]) => u.message)).toEqual([
+      'Creating test workflow',
+      'Executing test workflow (attempt 1/3)',
+      'Cleaning up test workflow',
+    ]);
+    expect(n8nApi.deleteWorkflow).toHaveBeenCalledWith('wf-test');
+  });
+});
@@ -0,0 +1,186 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+
+vi.mock('../../config/env.js', () => ({
+  N8N_HOST: 'http://localhost:5678',
+  N8N_API_KEY: 'test-key',
+  n8nClient: {},
+  webhookClient: {},
+}));
+
+import { DryRunService } from '../../services/dry-run-service.js';
+import { N8nApiService } from '../../services/n8n-api-service.js';
+import { CredentialService } from '../../services/credential-service.js';
+import { ValidationService } from '../../services/validation-service.js';
+import { credentialLockManager } from '../../utils/credential-lock-manager.js';
+
+const trigger = {
+  id: 'Webhook',
+  name: 'Webhook',
+  type: 'n8n-nodes-base.webhook',
+  typeVersion: 1,
+  position: [0, 0],
+  parameters: { path: 'sync' },
+};
+const setNode = { ...trigger, id: 'Set', name: 'Set', type: 'n8n-nodes-base.set', parameters: {} };
+
+const liveWorkflow = {
+  id: '12',
+  name: 'Sync',
+  active: false,
+  nodes: [trigger],
+  connections: {},
+  settings: {},
+};
+
+describe('DryRunService', () => {
+  let client: any;
+  let backups: any;
+  let templates: any;
+  let service: DryRunService;
+
+  beforeEach(() => {
+    client = {
+      get: vi.fn(async (path: string) => {
+        if (path === '/workflows/12') return { data: liveWorkflow };
+        if (path === '/workflows') {
+          return { data: { data: [{ ...liveWorkflow, nodes: [{ ...trigger, credentials: { slackApi: { id: 'c1', name: 'Slack' } } }] }] } };
+        }
+        if (path === '/node-types') return { data: [{ name: trigger.type }, { name: setNode.type }] };
+        if (path === '/credentials/schema/slackApi') {
+          return { data: { type: 'slackApi', displayName: 'Slack', properties: [{ name: 'accessToken', type: 'string', required: true }] } };
+        }
+        throw new Error(`Unexpected GET ${path}`);
+      }),
+      post: vi.fn(),
+      put: vi.fn(),
+      delete: vi.fn(),
+    };
+    const api = new N8nApiService({ n8nClient: client, webhookClient: {} as any });
+    const credentials = new CredentialService(api, {} as any, { databaseFallback: false });
+    backups = { getBackup: vi.fn() };
+    templates = { prepareImport: vi.fn() };
+    service = new DryRunService(api, new ValidationService(api, credentials), credentials, backups, templates);
+  });
+
+  // Dry runs may read the live state but never write it
+  afterEach(() => {
+    expect(client.post).not.toHaveBeenCalled();
+    expect(client.put).not.toHaveBeenCalled();
+    expect(client.delete).not.toHaveBeenCalled();
+  });
+
+  it('should plan a workflow update with a diff against the live workflow', async () => {
+    const updates = {
+      nodes: [trigger, setNode],
+      connections: { Webhook: { main: [[{ node: 'Set', type: 'main', index: 0 }]] } },
+    };
+
+    const result = await service.plan('update_workflow', { id: '12', ...updates });
+
+    expect(result).toMatchObject({
+      dryRun: true,
+      tool: 'update_workflow',
+      plannedCalls: [{ method: 'PUT', path: '/workflows/12', body: updates }],
+      diff: {
+        action: 'update',
+        nodes: { added: ['Set'], removed: [], modified: [] },
+        connections: { added: ['Webhook.main[0] -> Set.main[0]'], removed: [] },
+      },
+      validation: { valid: true },
+      warnings: [],
+    });
+  });
+
+  it('should fail like the real call when local validation rejects the arguments', async () => {
+    await expect(service.plan('update_workflow', { id: '12', nodes: [] })).rejects.toThrow(
+      'Workflow nodes array cannot be empty'
+    );
+    await expect(service.plan('delete_workflow', { id: ' ' })).rejects.toThrow('Workflow ID is required');
+    expect(client.get).not.toHaveBeenCalled();
+  });
+
+  it('should report structure errors of the resulting workflow without failing', async () => {
+    const result = await service.plan('activate_workflow', { id: '12', active: true });
+
+    expect(result.plannedCalls).toEqual([{ method: 'POST', path: '/workflows/12/activate' }]);
+    expect(result.diff.fields).toEqual([{ path: 'active', change: 'changed', before: false, after: true }]);
+    expect(result.validation!.valid).toBe(true);
+
+    const empty = await service.plan('create_workflow', { name: 'Draft' });
+    expect(empty.diff.action).toBe('create');
+    expect(empty.validation).toMatchObject({ valid: false, errors: [expect.objectContaining({ type: 'empty_workflow' })] });
+  });
+
+  it('should flag calls that change nothing', async () => {
+    const result = await service.plan('update_workflow', { id: '12', name: 'Sync' });
+
+    expect(result.diff.action).toBe('none');
+    expect(result.warnings).toEqual(['The call would not change anything']);
+  });
+
+  it('should plan a restore from the backup snapshot and mention the auto-backup', async () => {
+    backups.getBackup.mockResolvedValue({ metadata: {}, workflow: { ...liveWorkflow, nodes: [trigger, setNode] } });
+
+    const result = await service.plan('restore_workflow', { workflowId: '12', backupId: 'backup_12_x', autoBackupCurrent: true });
+
+    expect(backups.getBackup).toHaveBeenCalledWith('12', 'backup_12_x');
+    expect(result.plannedCalls[0]).toMatchObject({ method: 'PUT', path: '/workflows/12' });
+    expect(result.diff.nodes!.added).toEqual(['Set']);
+    expect(result.sideEffects).toEqual(['Back up the current version of workflow 12 before restoring']);
+  });
+
+  it('should plan a template import as a workflow creation', async () => {
+    templates.prepareImport.mockResolvedValue({ name: 'From template', nodes: [trigger], connections: {}, active: false });
+
+    const result = await service.plan('import_template', { templateId: 42 });
+
+    expect(templates.prepareImport).toHaveBeenCalledWith(42, {
+      credentialMapping: undefined,
+      skipNodeValidation: undefined,
+      importInactive: true,
+    }, {});
+    expect(result.plannedCalls[0]).toMatchObject({ method: 'POST', path: '/workflows' });
+    expect(result.diff).toMatchObject({ action: 'create', name: 'From template' });
+  });
+
+  it('should validate credential data and redact it in the planned call', async () => {
+    const result = await service.plan('create_credential', {
+      name: 'Slack',
+      type: 'slackApi',
+      data: { accessToken: 'xoxb-secret' },
+    });
+
+    expect(result.plannedCalls).toEqual([{
+      method: 'POST',
+      path: '/credentials',
+      body: { name: 'Slack', type: 'slackApi', data: { accessToken: '[REDACTED]' } },
+    }]);
+    expect(result.warnings).toEqual(['Credential name "Slack" already exists (ID: c1)']);
+    expect(JSON.stringify(result)).not.toContain('xoxb-secret');
+
+    await expect(service.plan('create_credential', { name: 'X', type: 'slackApi', data: {} })).rejects.toThrow(
+      'Validation failed: Missing required field: accessToken'
+    );
+  });
+
+  it('should run the in-use and lock checks of delete_credential', async () => {
+    await expect(service.plan('delete_credential', { id: 'c1' })).rejects.toThrow('Credential is used by 1 workflow(s)');
+
+    const forced = await service.plan('delete_credential', { id: 'c1', force: true });
+    expect(forced.plannedCalls).toEqual([{ method: 'DELETE', path: '/credentials/c1' }]);
+    expect(forced.diff).toMatchObject({ action: 'delete', name: 'Slack' });
+
+    credentialLockManager.acquireLock('c2', 'exec-1');
+    try {
+      await expect(service.plan('delete_credential', { id: 'c2' })).rejects.toThrow('Credential is locked');
+    } finally {
+      credentialLockManager.releaseLock('c2', 'exec-1');
+    }
+  });
+
+  it('should reject tools without dry-run support', async () => {
+    await expect(service.plan('execute_workflow', { id: '12' })).rejects.toThrow(
+      'Tool execute_workflow does not support dryRun'
+    );
+  });
+});
@@ -0,0 +1,98 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('../../config/env.js', () => ({
+  N8N_HOST: 'http://localhost:5678',
+  N8N_API_KEY: 'test-key',
+  n8nClient: {},
+  webhookClient: {},
+}));
+
+import { HealthService, type HealthConfig } from '../../services/health-service.js';
+import { metrics } from '../../utils/metrics.js';
+
+const config: HealthConfig = { timeoutMs: 1000, cacheMs: 5000, checkTemplates: false };
+
+describe('HealthService', () => {
+  let api: any;
+  let backups: any;
+  let templates: any;
+
+  const createService = (overrides: Partial<HealthConfig> = {}) =>
+    new HealthService({ ...config, ...overrides }, api, backups, templates);
+
+  beforeEach(() => {
+    api = {
+      probeApi: vi.fn().mockResolvedValue({ reachable: true, authenticated: true, status: 200 }),
+      probeWebhookBase: vi.fn().mockResolvedValue({ reachable: true, status: 404 }),
+    };
+    backups = {
+      checkStorage: vi.fn().mockResolvedValue({ writable: true, availableBytes: 10 * 1024 * 1024 * 1024 }),
+    };
+    templates = {
+      probe: vi.fn().mockResolvedValue({ reachable: true, status: 200 }),
+    };
+  });
+
+  it('should pass when n8n and backup storage are healthy', async () => {
+    const report = await createService().readiness();
+
+    expect(report.status).toBe('pass');
+    expect(report.checks).toEqual({
+      n8n_api: expect.objectContaining({ status: 'pass', httpStatus: 200 }),
+      webhook: expect.objectContaining({ status: 'pass', httpStatus: 404 }),
+      backup_storage: expect.objectContaining({ status: 'pass', availableBytes: 10 * 1024 * 1024 * 1024 }),
+    });
+    expect(templates.probe).not.toHaveBeenCalled();
+  });
+
+  it('should fail readiness but only warn liveness when the API key is rejected', async () => {
+    api.probeApi.mockResolvedValue({ reachable: true, authenticated: false, status: 401, error: 'HTTP_401' });
+    const service = createService();
+
+    const readiness = await service.readiness();
+    expect(readiness.status).toBe('fail');
+    expect(readiness.checks.n8n_api).toMatchObject({ status: 'fail', httpStatus: 401, error: 'HTTP_401' });
+
+    expect((await service.liveness()).status).toBe('warn');
+  });
+
+  it('should fail liveness when backups cannot be written or the disk is nearly full', async () => {
+    backups.checkStorage.mockResolvedValueOnce({ writable: false, error: 'EACCES' });
+    const unwritable = await createService().liveness();
+    expect(unwritable.status).toBe('fail');
+    expect(unwritable.checks.backup_storage).toMatchObject({ status: 'fail', error: 'EACCES' });
+
+    backups.checkStorage.mockResolvedValueOnce({ writable: true, availableBytes: 50 * 1024 * 1024 });
+    const lowDisk = await createService().liveness();
+    expect(lowDisk.checks.backup_storage).toMatchObject({ status: 'fail', error: 'LOW_DISK_SPACE' });
+  });
+
+  it('should only warn when the optional template API is down', async () => {
+    templates.probe.mockResolvedValue({ reachable: false, error: 'ENOTFOUND' });
+
+    const report = await createService({ checkTemplates: true }).readiness();
+
+    expect(report.status).toBe('warn');
+    expect(report.checks.template_api).toMatchObject({ status: 'warn', error: 'ENOTFOUND' });
+  });
+
+  it('should reuse results within the cache window and share concurrent runs', async () => {
+    const service = createService();
+
+    await Promise.all([service.readiness(), service.liveness()]);
+    await service.readiness(Date.now() + 1000);
+    expect(api.probeApi).toHaveBeenCalledTimes(1);
+
+    await service.readiness(Date.now() + 10_000);
+    expect(api.probeApi).toHaveBeenCalledTimes(2);
+  });
+
+  it('should report a failing probe that throws and export check gauges', async () => {
+    backups.checkStorage.mockRejectedValue(new TypeError('boom'));
+
+    const report = await createService().readiness();
+
+    expect(report.checks.backup_storage).toMatchObject({ status: 'fail', error: 'TypeError' });
+    expect(metrics.render()).toContain('n8n_mcp_health_check_up{check="backup_storage"} 0');
+  });
+});
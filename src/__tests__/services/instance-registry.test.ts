@@ -0,0 +1,197 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { McpError, ErrorCode } from '@modelcontextprotocol/sdk/types.js';
+
+vi.mock('../../config/env.js', () => ({
+  N8N_HOST: 'http://localhost:5678',
+  n8nClient: {},
+  webhookClient: {},
+  normalizeHost: (host: string) => host.trim().replace(/\/$/, ''),
+  createN8nClients: vi.fn(({ host }: { host: string }) => ({
+    host: host.trim().replace(/\/$/, ''),
+    n8nClient: { get: vi.fn() },
+    webhookClient: { get: vi.fn() },
+  })),
+}));
+
+import {
+  InstanceRegistry,
+  createSessionInstance,
+  parseInstanceProfiles,
+  loadInstanceProfiles,
+  type N8nInstance,
+} from '../../services/instance-registry.js';
+import { createN8nClients } from '../../config/env.js';
+import { loadServerConfig } from '../../config/server-config.js';
+
+function defaultInstance(overrides: Partial<N8nInstance> = {}): N8nInstance {
+  return {
+    name: 'default',
+    host: 'http://localhost:5678',
+    isDefault: true,
+    n8nApi: {
+      checkHealth: vi.fn().mockResolvedValue(true),
+      getVersion: vi.fn().mockResolvedValue('1.80.0'),
+      listWorkflows: vi.fn().mockResolvedValue({ data: [] }),
+    },
+    ...overrides,
+  } as any;
+}
+
+const staging = {
+  name: 'staging',
+  host: 'https://staging.example.com',
+  apiKey: 'staging-key',
+  backupRoot: '/tmp/backups/staging',
+};
+
+describe('Instance registry', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  describe('parseInstanceProfiles', () => {
+    it('should parse profiles and apply defaults', () => {
+      const parsed = parseInstanceProfiles(JSON.stringify([
+        { name: 'prod', host: 'https://n8n.example.com/', apiKey: ' key ' },
+      ]));
+
+      expect(parsed).toEqual([{
+        name: 'prod',
+        host: 'https://n8n.example.com',
+        apiKey: 'key',
+        backupRoot: '/app/backups/instances/prod',
+      }]);
+    });
+
+    it('should read the API key from apiKeyEnv', () => {
+      const parsed = parseInstanceProfiles(
+        JSON.stringify([{ name: 'prod', host: 'https://n8n.example.com', apiKeyEnv: 'PROD_KEY' }]),
+        { PROD_KEY: 'from-env' }
+      );
+
+      expect(parsed[0].apiKey).toBe('from-env');
+    });
+
+    it.each([
+      ['not json', 'must be a JSON array'],
+      ['{}', 'must be a JSON array'],
+      ['[{"host":"https://a"}]', 'name is required'],
+      ['[{"name":"../x","host":"https://a","apiKey":"k"}]', 'name is required'],
+      ['[{"name":"a","host":"ftp://a","apiKey":"k"}]', 'host must be an http(s) URL'],
+      ['[{"name":"a","host":"https://a"}]', 'apiKey or apiKeyEnv is required'],
+      ['[{"name":"a","host":"https://a","apiKeyEnv":"MISSING"}]', 'MISSING is not set'],
+    ])('should reject %s', (raw, message) => {
+      expect(() => parseInstanceProfiles(raw, {})).toThrow(message);
+    });
+
+    it('should return no profiles when nothing is configured', () => {
+      expect(loadInstanceProfiles({ defaultName: 'default', profiles: [] }, {})).toEqual([]);
+    });
+
+    it('should load profiles from the server config', () => {
+      const { instances } = loadServerConfig({
+        N8N_INSTANCES: '[{"name":"staging","host":"https://staging.example.com","apiKeyEnv":"STAGING_KEY"}]',
+      }).config;
+
+      expect(loadInstanceProfiles(instances, { STAGING_KEY: 'staging-key' })).toMatchObject([
+        { name: 'staging', host: 'https://staging.example.com', apiKey: 'staging-key' },
+      ]);
+    });
+  });
+
+  describe('InstanceRegistry', () => {
+    it('should return the default instance when no name is given', () => {
+      const primary = defaultInstance();
+      const registry = new InstanceRegistry([staging], primary);
+
+      expect(registry.get()).toBe(primary);
+      expect(registry.get('default')).toBe(primary);
+      expect(registry.names()).toEqual(['default', 'staging']);
+      expect(registry.isDefault(undefined)).toBe(true);
+      expect(registry.isDefault('staging')).toBe(false);
+    });
+
+    it('should create isolated services for other instances once', () => {
+      const registry = new InstanceRegistry([staging], defaultInstance());
+
+      const instance = registry.get('staging');
+
+      expect(instance).toBe(registry.get('staging'));
+      expect(instance).toMatchObject({ name: 'staging', host: 'https://staging.example.com', isDefault: false });
+      expect(createN8nClients).toHaveBeenCalledTimes(1);
+      expect(createN8nClients).toHaveBeenCalledWith({ host: staging.host, apiKey: 'staging-key' });
+      expect((instance.backupService as any).backupRoot).toBe('/tmp/backups/staging');
+    });
+
+    it('should reject unknown instances with InvalidParams', () => {
+      const registry = new InstanceRegistry([staging], defaultInstance());
+
+      try {
+        registry.get('prod');
+        expect.fail('Expected get to throw');
+      } catch (error) {
+        expect(error).toBeInstanceOf(McpError);
+        expect((error as McpError).code).toBe(ErrorCode.InvalidParams);
+        expect((error as McpError).message).toContain('configured: default, staging');
+      }
+    });
+
+    it('should pin sessions with their own credentials to their instance', () => {
+      const registry = new InstanceRegistry([staging], defaultInstance());
+      const session = createSessionInstance({ tenant: 'token:team-a', host: 'https://a.example.com', apiKey: 'key-a' });
+
+      expect(registry.resolve(undefined, session)).toBe(session);
+      expect(registry.resolve('token:team-a', session)).toBe(session);
+      expect(() => registry.resolve('staging', session)).toThrow(McpError);
+      expect(() => registry.resolve('default', session)).toThrow('own n8n credentials');
+      expect(registry.resolve('staging')).toBe(registry.get('staging'));
+    });
+
+    it('should isolate session instances and their backups by tenant', () => {
+      const a = createSessionInstance({ tenant: 'token:team-a', host: 'https://a.example.com', apiKey: 'key-a' });
+      const b = createSessionInstance({ tenant: 'token:team-b', host: 'https://a.example.com', apiKey: 'key-b' });
+
+      expect(a.n8nApi).not.toBe(b.n8nApi);
+      expect(a.events).not.toBe(b.events);
+      expect(createN8nClients).toHaveBeenCalledWith({ host: 'https://a.example.com', apiKey: 'key-a' });
+      expect(createN8nClients).toHaveBeenCalledWith({ host: 'https://a.example.com', apiKey: 'key-b' });
+      expect((a.backupService as any).backupRoot).toMatch(/^\/app\/backups\/tenants\/[0-9a-f]{16}$/);
+      expect((a.backupService as any).backupRoot).not.toBe((b.backupService as any).backupRoot);
+    });
+
+    it('should reject duplicate names', () => {
+      expect(() => new InstanceRegistry([{ ...staging, name: 'default' }], defaultInstance()))
+        .toThrow('Duplicate n8n instance name: default');
+    });
+
+    it('should report reachability, authentication and version', async () => {
+      const registry = new InstanceRegistry([], defaultInstance());
+
+      const [status] = await registry.describe();
+
+      expect(status).toMatchObject({
+        name: 'default',
+        default: true,
+        reachable: true,
+        authenticated: true,
+        version: '1.80.0',
+      });
+      expect(status.latencyMs).toBeGreaterThanOrEqual(0);
+    });
+
+    it('should report a rejected API key', async () => {
+      const registry = new InstanceRegistry([], defaultInstance({
+        n8nApi: {
+          checkHealth: vi.fn().mockResolvedValue(true),
+          getVersion: vi.fn().mockResolvedValue(undefined),
+          listWorkflows: vi.fn().mockRejectedValue(new Error('Unauthorized')),
+        } as any,
+      }));
+
+      const [status] = await registry.describe();
+
+      expect(status).toMatchObject({ reachable: true, authenticated: false, error: 'Unauthorized' });
+      expect(status).not.toHaveProperty('version');
+    });
+  });
+});
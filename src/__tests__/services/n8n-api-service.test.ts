@@ -1,4 +1,5 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { AxiosError } from 'axios';
 import { N8nApiService } from '../../services/n8n-api-service.js';
 import { n8nClient, webhookClient } from '../../config/env.js';
 
@@ -12,6 +13,7 @@ vi.mock('../../config/env.js', () => ({
   },
   webhookClient: {
     request: vi.fn(),
+    get: vi.fn(),
   },
   N8N_HOST: 'http://localhost:5678',
   N8N_API_KEY: 'test-key',
@@ -42,7 +44,7 @@ describe('N8nApiService', () => {
 
       const result = await service.getWorkflow('123');
 
-      expect(n8nClient.get).toHaveBeenCalledWith('/workflows/123');
+      expect(n8nClient.get).toHaveBeenCalledWith('/workflows/123', { signal: undefined });
       expect(result).toEqual(mockWorkflow);
     });
 
@@ -53,7 +55,7 @@ describe('N8nApiService', () => {
 
       const result = await service.createWorkflow(mockWorkflow);
 
-      expect(n8nClient.post).toHaveBeenCalledWith('/workflows', mockWorkflow);
+      expect(n8nClient.post).toHaveBeenCalledWith('/workflows', mockWorkflow, { signal: undefined });
       expect(result).toEqual(mockResponse);
     });
 
@@ -64,7 +66,7 @@ describe('N8nApiService', () => {
 
       const result = await service.updateWorkflow('123', mockUpdate);
 
-      expect(n8nClient.put).toHaveBeenCalledWith('/workflows/123', mockUpdate);
+      expect(n8nClient.put).toHaveBeenCalledWith('/workflows/123', mockUpdate, { signal: undefined });
       expect(result).toEqual(mockResponse);
     });
 
@@ -73,7 +75,7 @@ describe('N8nApiService', () => {
 
       await service.deleteWorkflow('123');
 
-      expect(n8nClient.delete).toHaveBeenCalledWith('/workflows/123');
+      expect(n8nClient.delete).toHaveBeenCalledWith('/workflows/123', { signal: undefined });
     });
 
     it('should activate workflow', async () => {
@@ -82,7 +84,7 @@ describe('N8nApiService', () => {
 
       const result = await service.activateWorkflow('123', true);
 
-      expect(n8nClient.post).toHaveBeenCalledWith('/workflows/123/activate');
+      expect(n8nClient.post).toHaveBeenCalledWith('/workflows/123/activate', undefined, { signal: undefined });
       expect(result).toEqual(mockResponse);
     });
 
@@ -92,7 +94,7 @@ describe('N8nApiService', () => {
 
       const result = await service.activateWorkflow('123', false);
 
-      expect(n8nClient.post).toHaveBeenCalledWith('/workflows/123/deactivate');
+      expect(n8nClient.post).toHaveBeenCalledWith('/workflows/123/deactivate', undefined, { signal: undefined });
       expect(result).toEqual(mockResponse);
     });
   });
@@ -116,17 +118,27 @@ describe('N8nApiService', () => {
 
       const result = await service.getExecution('exec1');
 
-      expect(n8nClient.get).toHaveBeenCalledWith('/executions/exec1');
+      expect(n8nClient.get).toHaveBeenCalledWith('/executions/exec1', { signal: undefined });
       expect(result).toEqual(mockExecution);
     });
 
+    it('should get execution with data', async () => {
+      vi.mocked(n8nClient.get).mockResolvedValue({ data: { id: 'exec1' } });
+
+      await service.getExecution('exec1', true);
+
+      expect(n8nClient.get).toHaveBeenCalledWith('/executions/exec1', {
+        params: { includeData: true }
+      });
+    });
+
     it('should execute workflow', async () => {
       const mockExecution = { id: 'exec2', workflowId: '123' };
       vi.mocked(n8nClient.post).mockResolvedValue({ data: mockExecution });
 
       const result = await service.executeWorkflow('123');
 
-      expect(n8nClient.post).toHaveBeenCalledWith('/workflows/123/execute');
+      expect(n8nClient.post).toHaveBeenCalledWith('/workflows/123/execute', undefined, { signal: undefined });
       expect(result).toEqual(mockExecution);
     });
   });
@@ -192,11 +204,67 @@ describe('N8nApiService', () => {
 
       const result = await service.listNodeTypes();
 
-      expect(n8nClient.get).toHaveBeenCalledWith('/node-types');
+      expect(n8nClient.get).toHaveBeenCalledWith('/node-types', { signal: undefined });
       expect(result).toEqual(mockData.data);
     });
   });
 
+  describe('Instance Info', () => {
+    it('should read the version from the settings endpoint', async () => {
+      vi.mocked(webhookClient.get).mockResolvedValue({ status: 200, data: { data: { versionCli: '1.80.0' } } });
+
+      expect(await service.getVersion()).toBe('1.80.0');
+      expect(webhookClient.get).toHaveBeenCalledWith('/rest/settings', { signal: undefined });
+    });
+
+    it('should report unknown version and failed health checks without throwing', async () => {
+      vi.mocked(webhookClient.get).mockRejectedValue(new Error('ECONNREFUSED'));
+
+      expect(await service.getVersion()).toBeUndefined();
+      expect(await service.checkHealth()).toBe(false);
+    });
+
+    it('should probe the API key with a one-item workflow list', async () => {
+      vi.mocked(n8nClient.get).mockResolvedValueOnce({ status: 200, data: { data: [] } });
+
+      expect(await service.probeApi()).toEqual({ reachable: true, authenticated: true, status: 200 });
+      expect(n8nClient.get).toHaveBeenCalledWith('/workflows', { params: { limit: 1 }, signal: undefined });
+
+      vi.mocked(n8nClient.get).mockRejectedValueOnce(
+        new AxiosError('Unauthorized', 'ERR_BAD_REQUEST', undefined, undefined, { status: 401 } as any)
+      );
+      expect(await service.probeApi()).toEqual({
+        reachable: true,
+        authenticated: false,
+        status: 401,
+        error: 'HTTP_401',
+      });
+
+      vi.mocked(n8nClient.get).mockRejectedValueOnce(
+        Object.assign(new Error('connect ECONNREFUSED 10.0.0.5:5678'), { code: 'ECONNREFUSED' })
+      );
+      expect(await service.probeApi()).toEqual({ reachable: false, authenticated: false, error: 'ECONNREFUSED' });
+    });
+
+    it('should treat any webhook base response below 500 as reachable', async () => {
+      vi.mocked(webhookClient.get).mockResolvedValueOnce({ status: 404, data: {} });
+      expect(await service.probeWebhookBase()).toEqual({ reachable: true, status: 404 });
+      expect(webhookClient.get).toHaveBeenCalledWith('/webhook/', expect.objectContaining({ signal: undefined }));
+
+      vi.mocked(webhookClient.get).mockResolvedValueOnce({ status: 502, data: '' });
+      expect(await service.probeWebhookBase()).toEqual({ reachable: false, status: 502, error: 'HTTP_502' });
+    });
+
+    it('should use the clients it was constructed with', async () => {
+      const clients = { n8nClient: { get: vi.fn().mockResolvedValue({ data: { data: [] } }) }, webhookClient: {} } as any;
+
+      await new N8nApiService(clients).listWorkflows();
+
+      expect(clients.n8nClient.get).toHaveBeenCalled();
+      expect(n8nClient.get).not.toHaveBeenCalled();
+    });
+  });
+
   describe('Error Handling', () => {
     it('should handle network errors', async () => {
       vi.mocked(n8nClient.get).mockRejectedValue(new Error('Network error'));
@@ -112,7 +112,7 @@ describe('TemplateService', () => {
 
       const result = await templateService.getTemplateDetails(1);
 
-      expect(mockAxios.get).toHaveBeenCalledWith('/templates/workflows/1');
+      expect(mockAxios.get).toHaveBeenCalledWith('/templates/workflows/1', { signal: undefined });
       expect(result).toEqual(mockTemplate);
     });
 
@@ -0,0 +1,42 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+
+vi.mock('../../services/audit-log-service.js', () => ({
+  auditLogService: { recordSecurityEvent: vi.fn() },
+}));
+
+import { approvalService } from '../../services/approval-service.js';
+import { handleApprovalTool } from '../../tools/approval-tools.js';
+
+describe('Approval Tools Handler', () => {
+  let executor: ReturnType<typeof vi.fn>;
+  let approvalId: string;
+
+  beforeEach(() => {
+    executor = vi.fn(async () => ({ success: true }));
+    approvalService.setExecutor(executor);
+    approvalId = approvalService.submit({
+      tool: 'delete_workflow',
+      args: { id: '12' },
+      rule: { tool: 'delete_workflow' },
+      authInfo: { token: 't', clientId: 'agent', scopes: ['write'] },
+    }).approvalId;
+  });
+
+  it('should refuse approve_operation without an authenticated token', async () => {
+    await expect(handleApprovalTool('approve_operation', { approvalId, decision: 'approve' }, { client: 'claude-desktop/1.0' }))
+      .rejects.toThrow('approve_operation requires an authenticated token with the approvals scope');
+    await expect(handleApprovalTool('approve_operation', { approvalId, decision: 'reject' })).rejects.toThrow(
+      'requires an authenticated token'
+    );
+
+    expect(executor).not.toHaveBeenCalled();
+    expect(approvalService.list().map(p => p.approvalId)).toContain(approvalId);
+  });
+
+  it('should record the approving token', async () => {
+    await expect(handleApprovalTool('approve_operation', { approvalId, decision: 'approve' }, { clientId: 'ops' }))
+      .resolves.toMatchObject({ status: 'executed', decidedBy: 'ops' });
+    await expect(handleApprovalTool('approve_operation', { approvalId, decision: 'approve' }, { clientId: 'ops' }))
+      .rejects.toThrow('Unknown or expired approval');
+  });
+});
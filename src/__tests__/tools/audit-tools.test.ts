@@ -0,0 +1,57 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import { handleAuditTool, auditTools } from '../../tools/audit-tools.js';
+import { auditLogService } from '../../services/audit-log-service.js';
+import { parseToolArguments } from '../../tools/tool-definition.js';
+
+vi.mock('../../services/audit-log-service.js', () => ({
+  AUDIT_LIMITS: { DEFAULT_QUERY_LIMIT: 100, MAX_QUERY_LIMIT: 1000 },
+  auditLogService: {
+    query: vi.fn().mockResolvedValue({ entries: [], total: 0 }),
+  },
+}));
+
+describe('Audit Tools Handler', () => {
+  beforeEach(() => {
+    vi.clearAllMocks();
+  });
+
+  it('should expose query_audit_log', () => {
+    expect(auditTools.map(t => t.name)).toEqual(['query_audit_log']);
+  });
+
+  it('should pass filters to the audit log service', async () => {
+    const args = parseToolArguments('query_audit_log', { workflowId: 12, since: '2026-03-01T00:00:00Z' });
+    await handleAuditTool('query_audit_log', args);
+
+    expect(auditLogService.query).toHaveBeenCalledWith({
+      workflowId: '12',
+      since: '2026-03-01T00:00:00Z',
+      limit: 100,
+    });
+  });
+
+  it('should limit tokens without the audit scope to their own entries', async () => {
+    const tenantA = { token: 'a', clientId: 'tenant-a', scopes: ['read'] };
+    await handleAuditTool('query_audit_log', { clientId: 'tenant-b', limit: 100 }, tenantA);
+
+    expect(auditLogService.query).toHaveBeenCalledWith({ clientId: 'tenant-a', limit: 100 });
+  });
+
+  it('should let audit-scoped tokens query every token', async () => {
+    const auditor = { token: 'x', clientId: 'auditor', scopes: ['read', 'audit'] };
+    await handleAuditTool('query_audit_log', { clientId: 'tenant-b', limit: 100 }, auditor);
+    await handleAuditTool('query_audit_log', { limit: 100 }, auditor);
+
+    expect(auditLogService.query).toHaveBeenNthCalledWith(1, { clientId: 'tenant-b', limit: 100 });
+    expect(auditLogService.query).toHaveBeenNthCalledWith(2, { limit: 100 });
+  });
+
+  it('should reject invalid time ranges and limits', () => {
+    expect(() => parseToolArguments('query_audit_log', { since: 'yesterday', limit: 5000 }))
+      .toThrow(/since.*limit|limit.*since/);
+  });
+
+  it('should throw for unknown audit tools', async () => {
+    await expect(handleAuditTool('unknown', {})).rejects.toThrow('Unknown audit tool: unknown');
+  });
+});
@@ -19,7 +19,7 @@ describe('Backup Tools Handler', () => {
   it('should call backupWorkflow for backup_workflow tool', async () => {
     const args = { workflowId: '123', description: 'Test' };
     await handleBackupTool('backup_workflow', args);
-    expect(backupService.backupWorkflow).toHaveBeenCalledWith('123', 'Test');
+    expect(backupService.backupWorkflow).toHaveBeenCalledWith('123', 'Test', {});
   });
 
   it('should call listBackups for list_workflow_backups tool', async () => {
@@ -31,7 +31,7 @@ describe('Backup Tools Handler', () => {
   it('should call restoreWorkflow for restore_workflow tool', async () => {
     const args = { workflowId: '123', backupId: 'b1', autoBackupCurrent: false };
     await handleBackupTool('restore_workflow', args);
-    expect(backupService.restoreWorkflow).toHaveBeenCalledWith('123', 'b1', false);
+    expect(backupService.restoreWorkflow).toHaveBeenCalledWith('123', 'b1', false, {});
   });
 
   it('should call diffVersions for diff_workflow_versions tool', async () => {
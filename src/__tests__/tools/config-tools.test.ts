@@ -0,0 +1,32 @@
+import { describe, it, expect, vi } from 'vitest';
+
+vi.mock('../../config/server-config.js', async importOriginal => {
+  const actual = await importOriginal<typeof import('../../config/server-config.js')>();
+  return {
+    ...actual,
+    loadedServerConfig: actual.loadServerConfig({ N8N_API_KEY: 'secret-key', PORT: '8080' }),
+  };
+});
+
+import { handleConfigTool, configTools } from '../../tools/config-tools.js';
+
+describe('Config Tools Handler', () => {
+  it('should expose get_server_config without an instance argument', () => {
+    expect(configTools.map(t => t.name)).toEqual(['get_server_config']);
+    expect(configTools[0].inputSchema.properties).not.toHaveProperty('instance');
+  });
+
+  it('should return the redacted config and the source of each setting', async () => {
+    const result = await handleConfigTool('get_server_config', {});
+
+    expect(result.file).toBeUndefined();
+    expect(result.config.n8n.apiKey).toBe('[REDACTED]');
+    expect(result.config.server.port).toBe(8080);
+    expect(result.sources).toMatchObject({ 'n8n.apiKey': 'env', 'server.port': 'env', 'n8n.host': 'default' });
+    expect(JSON.stringify(result)).not.toContain('secret-key');
+  });
+
+  it('should throw for unknown config tools', async () => {
+    await expect(handleConfigTool('unknown', {})).rejects.toThrow('Unknown config tool: unknown');
+  });
+});
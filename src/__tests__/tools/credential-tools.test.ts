@@ -72,7 +72,7 @@ describe('Credential Tools', () => {
         credentialType: 'githubApi',
       });
 
-      expect(credentialService.getSchema).toHaveBeenCalledWith('githubApi');
+      expect(credentialService.getSchema).toHaveBeenCalledWith('githubApi', {});
       expect(result).toEqual(mockSchema);
     });
 
@@ -93,7 +93,7 @@ describe('Credential Tools', () => {
 
       const result = await handleCredentialTool('list_credentials', {});
 
-      expect(credentialService.listCredentials).toHaveBeenCalledWith(undefined);
+      expect(credentialService.listCredentials).toHaveBeenCalledWith(undefined, {});
       expect(result).toEqual(mockCredentials);
     });
 
@@ -107,7 +107,7 @@ describe('Credential Tools', () => {
         type: 'githubApi',
       });
 
-      expect(credentialService.listCredentials).toHaveBeenCalledWith('githubApi');
+      expect(credentialService.listCredentials).toHaveBeenCalledWith('githubApi', {});
       expect(result).toEqual(mockCredentials);
     });
   });
@@ -132,7 +132,7 @@ describe('Credential Tools', () => {
         name: 'Test GitHub',
         type: 'githubApi',
         data: { accessToken: 'test_token' },
-      });
+      }, {});
       expect(result).toEqual(mockCredential);
     });
 
@@ -173,7 +173,7 @@ describe('Credential Tools', () => {
 
       expect(credentialService.updateCredential).toHaveBeenCalledWith('123', {
         name: 'Updated GitHub',
-      });
+      }, {});
       expect(result).toEqual(mockUpdated);
     });
 
@@ -192,7 +192,7 @@ describe('Credential Tools', () => {
         id: '123',
       });
 
-      expect(credentialService.deleteCredential).toHaveBeenCalledWith('123', false);
+      expect(credentialService.deleteCredential).toHaveBeenCalledWith('123', false, {});
       expect(result).toEqual({
         success: true,
         message: 'Credential 123 deleted successfully',
@@ -207,7 +207,7 @@ describe('Credential Tools', () => {
         force: true,
       });
 
-      expect(credentialService.deleteCredential).toHaveBeenCalledWith('123', true);
+      expect(credentialService.deleteCredential).toHaveBeenCalledWith('123', true, {});
     });
 
     it('should handle in-use credential error', async () => {
@@ -240,10 +240,23 @@ describe('Credential Tools', () => {
         credentialId: '123',
       });
 
-      expect(credentialService.testCredential).toHaveBeenCalledWith('123');
+      expect(credentialService.testCredential).toHaveBeenCalledWith('123', {});
       expect(result).toEqual(mockTestResult);
     });
 
+    it('should forward progress callback to credential test', async () => {
+      vi.mocked(credentialService.testCredential).mockResolvedValue({
+        valid: true,
+        message: 'ok',
+        testedAt: '2026-02-11T06:00:00.000Z',
+      });
+      const onProgress = vi.fn();
+
+      await handleCredentialTool('test_credential', { credentialId: '123' }, { onProgress });
+
+      expect(credentialService.testCredential).toHaveBeenCalledWith('123', { onProgress });
+    });
+
     it('should handle failed credential test', async () => {
       const mockTestResult = {
         valid: false,
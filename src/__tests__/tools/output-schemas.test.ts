@@ -0,0 +1,133 @@
+import { describe, it, expect, vi } from 'vitest';
+import { AjvJsonSchemaValidator } from '@modelcontextprotocol/sdk/validation/ajv';
+
+vi.mock('../../config/env.js', () => ({
+  N8N_HOST: 'http://localhost:5678',
+  n8nClient: {},
+  webhookClient: {},
+}));
+
+import { workflowTools } from '../../tools/workflow-tools.js';
+import { credentialTools } from '../../tools/credential-tools.js';
+import { validationTools } from '../../tools/validation-tools.js';
+import { templateTools } from '../../tools/template-tools.js';
+import { backupTools } from '../../tools/backup-tools.js';
+import { nodeTools } from '../../tools/node-tools.js';
+import { auditTools } from '../../tools/audit-tools.js';
+import { approvalTools } from '../../tools/approval-tools.js';
+import { withApprovalOutput } from '../../tools/output-schemas.js';
+import { toStructuredContent } from '../../utils/structured-content.js';
+
+const allTools = [
+  ...workflowTools,
+  ...credentialTools,
+  ...validationTools,
+  ...templateTools,
+  ...backupTools,
+  ...nodeTools,
+  ...auditTools,
+  ...approvalTools,
+];
+
+const validator = new AjvJsonSchemaValidator();
+
+function validate(toolName: string, result: unknown) {
+  const tool = allTools.find(t => t.name === toolName)!;
+  return validator.getValidator(tool.outputSchema!)(toStructuredContent(result));
+}
+
+describe('Tool output schemas', () => {
+  it('should declare an object outputSchema on every tool', () => {
+    for (const tool of allTools) {
+      expect(tool.outputSchema, tool.name).toBeDefined();
+      expect(tool.outputSchema!.type, tool.name).toBe('object');
+    }
+  });
+
+  it('should compile every outputSchema', () => {
+    for (const tool of allTools) {
+      expect(() => validator.getValidator(tool.outputSchema!), tool.name).not.toThrow();
+    }
+  });
+
+  it.each([
+    ['get_workflow', { id: '1', name: 'WF', active: false, nodes: [], connections: {} }],
+    ['list_workflows', { data: [{ id: '1', name: 'WF' }], nextCursor: null }],
+    ['delete_workflow', { success: true, message: 'Workflow 1 deleted' }],
+    ['get_execution', { id: '5', finished: true, mode: 'manual', startedAt: 'x', stoppedAt: null, workflowId: '1' }],
+    ['trigger_webhook', { status: 200, statusText: 'OK', data: 'ok', url: 'http://localhost:5678/webhook/a' }],
+    ['list_node_types', [{ name: 'n8n-nodes-base.set' }]],
+    ['list_credentials', [{ id: 'c1', name: 'Slack', type: 'slackApi' }]],
+    ['test_credential', { valid: true, message: 'ok', testedAt: '2026-01-01T00:00:00Z' }],
+    ['validate_workflow_structure', {
+      valid: false,
+      errors: [{ type: 'missing_trigger', message: 'No trigger', severity: 'error' }],
+      warnings: [],
+    }],
+    ['lint_workflow', { score: 90, issues: [], summary: 'Good' }],
+    ['suggest_workflow_improvements', {
+      suggestions: [{ type: 'error_handling', title: 't', description: 'd', priority: 'high' }],
+      summary: '1 suggestion',
+    }],
+    ['search_templates', { templates: [{ id: 1, name: 'T', description: '', nodes: 2, categories: [] }], total: 1 }],
+    ['backup_workflow', {
+      backupId: 'backup_1_x', workflowId: '1', timestamp: 'x',
+      description: '', size: '1KB', workflowName: 'WF',
+    }],
+    ['list_workflow_backups', { backups: [] }],
+    ['restore_workflow', { restored: true }],
+    ['diff_workflow_versions', { added: [], removed: [], modified: ['A'], summary: '1 modified' }],
+    ['query_audit_log', {
+      entries: [{
+        timestamp: '2026-03-01T10:00:00.000Z', tool: 'update_workflow', args: { id: '1' }, status: 'success',
+        durationMs: 5, affected: { workflowIds: ['1'], credentialIds: [] },
+      }],
+      total: 1,
+    }],
+    ['get_node_schema', { displayName: 'Set', name: 'set', description: '', properties: [{ name: 'mode', type: 'options' }] }],
+  ])('should accept a typical %s result', (toolName, result) => {
+    const { valid, errorMessage } = validate(toolName, result);
+    expect(valid, errorMessage).toBe(true);
+  });
+
+  it('should reject results missing required fields', () => {
+    expect(validate('test_credential', { valid: true }).valid).toBe(false);
+    expect(validate('list_workflow_backups', {}).valid).toBe(false);
+  });
+
+  it('should accept either the normal result or a dry-run plan from mutating tools', () => {
+    const plan = {
+      dryRun: true,
+      tool: 'delete_credential',
+      plannedCalls: [{ method: 'DELETE', path: '/credentials/c1' }],
+      diff: { resource: 'credential', action: 'delete', id: 'c1', fields: [], summary: 'Delete credential' },
+      warnings: [],
+    };
+
+    expect(validate('delete_credential', plan).valid).toBe(true);
+    expect(validate('delete_credential', { success: true, message: 'Credential c1 deleted successfully' }).valid).toBe(true);
+    expect(validate('create_workflow', { id: '1', name: 'WF' }).valid).toBe(true);
+    expect(validate('create_workflow', { id: '1' }).valid).toBe(false);
+    expect(validate('create_workflow', { ...plan, plannedCalls: undefined }).valid).toBe(false);
+  });
+
+  it('should accept the pending approval on top of the other shapes of held tools', () => {
+    const pending = {
+      approvalRequired: true,
+      approvalId: 'a1',
+      tool: 'delete_credential',
+      expiresAt: '2026-01-01T01:00:00.000Z',
+      message: 'delete_credential requires human approval and has not run.',
+    };
+    const held = (toolName: string) =>
+      validator.getValidator(withApprovalOutput(allTools.find(t => t.name === toolName)!.outputSchema!));
+
+    expect(held('delete_credential')(pending).valid).toBe(true);
+    expect(held('delete_credential')({ success: true, message: 'Credential c1 deleted successfully' }).valid).toBe(true);
+    expect(held('delete_credential')({ dryRun: true, tool: 'delete_credential' }).valid).toBe(false);
+    expect(held('execute_workflow')(pending).valid).toBe(true);
+    expect(held('delete_workflow')({ ...pending, approvalId: undefined }).valid).toBe(false);
+    expect(validate('approve_operation', { approvalId: 'a1', tool: 'delete_workflow', status: 'executed', result: {} }).valid)
+      .toBe(true);
+  });
+});
@@ -28,7 +28,7 @@ describe('Template Tools', () => {
 
       const result = await handleTemplateTool('search_templates', { query: 'test', category: 'Dev' });
 
-      expect(templateService.searchTemplates).toHaveBeenCalledWith('test', 'Dev');
+      expect(templateService.searchTemplates).toHaveBeenCalledWith('test', 'Dev', {});
       expect(result.total).toBe(1);
     });
 
@@ -46,7 +46,7 @@ describe('Template Tools', () => {
 
       const result = await handleTemplateTool('get_template_details', { id: 123 });
 
-      expect(templateService.getTemplateDetails).toHaveBeenCalledWith(123);
+      expect(templateService.getTemplateDetails).toHaveBeenCalledWith(123, {});
       expect(result).toEqual(mockTemplate);
     });
 
@@ -71,7 +71,7 @@ describe('Template Tools', () => {
         credentialMapping: { old: 'new' },
         skipNodeValidation: undefined,
         importInactive: false
-      });
+      }, {});
     });
 
     it('should default importInactive to true', async () => {
@@ -80,7 +80,7 @@ describe('Template Tools', () => {
         credentialMapping: undefined,
         skipNodeValidation: undefined,
         importInactive: true
-      });
+      }, {});
     });
 
     it('should throw error for missing templateId', async () => {
@@ -101,7 +101,7 @@ describe('Template Tools', () => {
       expect(templateService.exportWorkflow).toHaveBeenCalledWith('wf-123', {
         includeCredentials: false,
         stripIds: true
-      });
+      }, {});
     });
 
     it('should allow overriding security defaults', async () => {
@@ -114,7 +114,7 @@ describe('Template Tools', () => {
       expect(templateService.exportWorkflow).toHaveBeenCalledWith('wf-123', {
         includeCredentials: true,
         stripIds: false
-      });
+      }, {});
     });
 
     it('should throw error for missing workflowId', async () => {
@@ -0,0 +1,167 @@
+import { describe, it, expect, vi } from 'vitest';
+import { z } from 'zod';
+import { ErrorCode } from '@modelcontextprotocol/sdk/types.js';
+import {
+  defineTool,
+  parseToolArguments,
+  toInputSchema,
+  coercedString,
+  coercedNumber,
+  coercedBoolean,
+  ToolArgumentsError,
+  acceptsInstanceArgument,
+  supportsDryRun,
+} from '../../tools/tool-definition.js';
+
+vi.mock('../../config/env.js', () => ({
+  N8N_HOST: 'http://localhost:5678',
+  n8nClient: {},
+  webhookClient: {},
+}));
+
+import { workflowTools } from '../../tools/workflow-tools.js';
+import { backupTools } from '../../tools/backup-tools.js';
+import '../../tools/validation-tools.js';
+
+const sampleTool = defineTool({
+  name: 'test_sample_tool',
+  description: 'Sample tool',
+  input: z.object({
+    id: coercedString().describe('Item ID'),
+    limit: coercedNumber().default(20),
+    active: coercedBoolean().optional(),
+    mode: z.enum(['fast', 'full']).optional(),
+  }),
+  perInstance: false,
+});
+
+function captureError(fn: () => unknown): ToolArgumentsError {
+  try {
+    fn();
+  } catch (error) {
+    return error as ToolArgumentsError;
+  }
+  throw new Error('Expected function to throw');
+}
+
+describe('defineTool', () => {
+  it('should generate a JSON inputSchema from the zod schema', () => {
+    expect(sampleTool.inputSchema).toEqual({
+      type: 'object',
+      properties: {
+        id: { type: 'string', description: 'Item ID' },
+        limit: { type: 'number', default: 20 },
+        active: { type: 'boolean' },
+        mode: { type: 'string', enum: ['fast', 'full'] },
+      },
+      required: ['id'],
+      additionalProperties: false,
+    });
+  });
+
+  it('should omit outputSchema when none is given', () => {
+    expect(sampleTool).not.toHaveProperty('outputSchema');
+  });
+
+  it('should not emit $schema in the generated JSON', () => {
+    expect(toInputSchema(z.object({}))).not.toHaveProperty('$schema');
+  });
+
+  it('should add an optional instance argument to per-instance tools', () => {
+    const tool = defineTool({ name: 'test_instance_tool', description: 'Per-instance', input: z.object({}) });
+
+    expect(tool.inputSchema.properties!.instance).toMatchObject({ type: 'string' });
+    expect(tool.inputSchema.required).toBeUndefined();
+    expect(parseToolArguments('test_instance_tool', { instance: 'staging' })).toEqual({ instance: 'staging' });
+    expect(sampleTool.inputSchema.properties).not.toHaveProperty('instance');
+    expect(acceptsInstanceArgument('test_instance_tool')).toBe(true);
+    expect(acceptsInstanceArgument('test_sample_tool')).toBe(false);
+  });
+
+  it('should add a dryRun argument and the dry-run result shape to mutating tools', () => {
+    const tool = defineTool({
+      name: 'test_dry_run_tool',
+      description: 'Mutating',
+      input: z.object({ id: coercedString() }),
+      outputSchema: { type: 'object', properties: { id: { type: 'string' } }, required: ['id'] },
+      dryRun: true,
+    });
+
+    expect(tool.inputSchema.properties!.dryRun).toMatchObject({ type: 'boolean' });
+    expect(tool.inputSchema.required).toEqual(['id']);
+    expect(parseToolArguments('test_dry_run_tool', { id: 1, dryRun: 'true' })).toEqual({ id: '1', dryRun: true });
+    expect(tool.outputSchema).not.toHaveProperty('required');
+    expect(tool.outputSchema!.anyOf).toEqual([
+      { required: ['id'] },
+      { required: ['dryRun', 'tool', 'plannedCalls', 'diff', 'warnings'] },
+    ]);
+    expect(supportsDryRun('test_dry_run_tool')).toBe(true);
+    expect(supportsDryRun('test_sample_tool')).toBe(false);
+    expect(() => parseToolArguments('test_sample_tool', { id: '1', dryRun: true })).toThrow(ToolArgumentsError);
+  });
+
+  it('should keep required fields of existing tools', () => {
+    const getWorkflow = workflowTools.find(t => t.name === 'get_workflow')!;
+    const restore = backupTools.find(t => t.name === 'restore_workflow')!;
+
+    expect(getWorkflow.inputSchema.required).toEqual(['id']);
+    expect(restore.inputSchema.required).toEqual(['workflowId', 'backupId']);
+    expect(restore.inputSchema.properties!.autoBackupCurrent).toMatchObject({ type: 'boolean', default: true });
+  });
+});
+
+describe('parseToolArguments', () => {
+  it('should coerce numbers, booleans and IDs', () => {
+    expect(parseToolArguments('test_sample_tool', { id: 42, limit: '5', active: 'false' }))
+      .toEqual({ id: '42', limit: 5, active: false });
+  });
+
+  it('should apply defaults', () => {
+    expect(parseToolArguments('test_sample_tool', { id: 'a' })).toEqual({ id: 'a', limit: 20 });
+  });
+
+  it('should treat missing arguments as an empty object', () => {
+    expect(parseToolArguments('list_node_types', undefined)).toEqual({});
+  });
+
+  it('should return arguments unchanged for tools without a schema', () => {
+    const args = { anything: true };
+    expect(parseToolArguments('unregistered_tool', args)).toBe(args);
+  });
+
+  it('should list every bad field in an InvalidParams error', () => {
+    const error = captureError(() =>
+      parseToolArguments('test_sample_tool', { limit: 'abc', mode: 'slow', extra: 1 })
+    );
+
+    expect(error).toBeInstanceOf(ToolArgumentsError);
+    expect(error.code).toBe(ErrorCode.InvalidParams);
+    expect(error.data).toEqual({ tool: 'test_sample_tool', issues: error.issues });
+    expect(error.issues.map(i => i.field).sort()).toEqual(['extra', 'id', 'limit', 'mode']);
+    expect(error.issues.find(i => i.field === 'extra')).toMatchObject({
+      message: 'Unknown argument',
+      code: 'unrecognized_keys',
+    });
+    expect(error.message).toContain("Invalid arguments for tool 'test_sample_tool'");
+    expect(error.message).toContain('mode:');
+  });
+
+  it('should report nested field paths', () => {
+    const error = captureError(() =>
+      parseToolArguments('lint_workflow', { workflow: { name: 'WF', nodes: 'not-an-array' } })
+    );
+
+    expect(error.issues).toEqual([
+      expect.objectContaining({ field: 'workflow.nodes', code: 'invalid_type' }),
+    ]);
+  });
+
+  it('should keep extra workflow fields inside nested workflow objects', () => {
+    const parsed = parseToolArguments('lint_workflow', {
+      workflow: { name: 'WF', nodes: [{ id: '1', type: 'x' }], settings: { a: 1 } },
+    });
+
+    expect(parsed.workflow.settings).toEqual({ a: 1 });
+    expect(parsed.workflow.nodes[0]).toEqual({ id: '1', type: 'x' });
+  });
+});
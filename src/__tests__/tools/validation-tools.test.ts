@@ -24,7 +24,7 @@ describe('Validation Tools', () => {
         workflow: mockWorkflow,
       });
 
-      expect(validationService.validateWorkflowStructure).toHaveBeenCalledWith(mockWorkflow);
+      expect(validationService.validateWorkflowStructure).toHaveBeenCalledWith(mockWorkflow, {});
       expect(result).toEqual(mockResult);
     });
 
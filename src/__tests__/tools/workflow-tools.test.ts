@@ -1,6 +1,7 @@
 import { describe, it, expect, vi, beforeEach } from 'vitest';
 import { workflowTools, handleWorkflowTool } from '../../tools/workflow-tools.js';
 import { n8nApi } from '../../services/n8n-api-service.js';
+import { parseToolArguments } from '../../tools/tool-definition.js';
 
 // Mock config/env.ts BEFORE importing anything else
 vi.mock('../../config/env.js', () => ({
@@ -60,7 +61,7 @@ describe('Workflow Tools', () => {
 
       const result = await handleWorkflowTool('list_workflows', { limit: 10 });
 
-      expect(n8nApi.listWorkflows).toHaveBeenCalledWith({ limit: 10 });
+      expect(n8nApi.listWorkflows).toHaveBeenCalledWith({ limit: 10 }, undefined);
       expect(result).toEqual(mockResult);
     });
 
@@ -70,10 +71,36 @@ describe('Workflow Tools', () => {
 
       const result = await handleWorkflowTool('get_workflow', { id: '123' });
 
-      expect(n8nApi.getWorkflow).toHaveBeenCalledWith('123');
+      expect(n8nApi.getWorkflow).toHaveBeenCalledWith('123', undefined);
       expect(result).toEqual(mockWorkflow);
     });
 
+    it('should return the summary view or selected fields of a workflow', async () => {
+      vi.mocked(n8nApi.getWorkflow).mockResolvedValue({
+        id: '123',
+        name: 'Test',
+        nodes: [{ name: 'Webhook', type: 'n8n-nodes-base.webhook', parameters: { path: 'x' } }],
+        connections: {},
+      } as any);
+
+      expect(await handleWorkflowTool('get_workflow', { id: '123', view: 'summary' })).toEqual({
+        id: '123',
+        name: 'Test',
+        nodes: [{ name: 'Webhook', type: 'n8n-nodes-base.webhook' }],
+        connections: {},
+      });
+      expect(await handleWorkflowTool('get_workflow', { id: '123', fields: ['nodes[*].parameters'] })).toEqual({
+        id: '123',
+        name: 'Test',
+        nodes: [{ parameters: { path: 'x' } }],
+      });
+    });
+
+    it('should reject malformed field selectors', () => {
+      expect(() => parseToolArguments('get_workflow', { id: '1', fields: ['nodes[name]'], view: 'compact' }))
+        .toThrow(/fields\.0.*view|view.*fields\.0/);
+    });
+
     it('should validate required params for get_workflow', async () => {
       await expect(handleWorkflowTool('get_workflow', {})).rejects.toThrow(
         'Missing required parameters: id'
@@ -87,7 +114,7 @@ describe('Workflow Tools', () => {
 
       const result = await handleWorkflowTool('create_workflow', mockWorkflow);
 
-      expect(n8nApi.createWorkflow).toHaveBeenCalledWith(mockWorkflow);
+      expect(n8nApi.createWorkflow).toHaveBeenCalledWith(mockWorkflow, undefined);
       expect(result).toEqual(mockResult);
     });
 
@@ -98,7 +125,7 @@ describe('Workflow Tools', () => {
 
       const result = await handleWorkflowTool('update_workflow', mockUpdate);
 
-      expect(n8nApi.updateWorkflow).toHaveBeenCalledWith('123', { name: 'Updated' });
+      expect(n8nApi.updateWorkflow).toHaveBeenCalledWith('123', { name: 'Updated' }, undefined);
       expect(result).toEqual(mockResult);
     });
 
@@ -107,7 +134,7 @@ describe('Workflow Tools', () => {
 
       const result = await handleWorkflowTool('delete_workflow', { id: '123' });
 
-      expect(n8nApi.deleteWorkflow).toHaveBeenCalledWith('123');
+      expect(n8nApi.deleteWorkflow).toHaveBeenCalledWith('123', undefined);
       expect(result).toEqual({
         success: true,
         message: 'Workflow 123 deleted',
@@ -123,7 +150,7 @@ describe('Workflow Tools', () => {
         active: true,
       });
 
-      expect(n8nApi.activateWorkflow).toHaveBeenCalledWith('123', true);
+      expect(n8nApi.activateWorkflow).toHaveBeenCalledWith('123', true, undefined);
       expect(result).toEqual(mockResult);
     });
   });
@@ -135,7 +162,7 @@ describe('Workflow Tools', () => {
 
       const result = await handleWorkflowTool('execute_workflow', { id: '123' });
 
-      expect(n8nApi.executeWorkflow).toHaveBeenCalledWith('123');
+      expect(n8nApi.executeWorkflow).toHaveBeenCalledWith('123', undefined);
       expect(result).toEqual(mockExecution);
     });
 
@@ -156,29 +183,59 @@ describe('Workflow Tools', () => {
         headers: undefined,
         queryParams: undefined,
         testMode: undefined,
-      });
+      }, undefined);
       expect(result).toHaveProperty('url');
     });
 
+    it('should use the selected instance API and host', async () => {
+      const instanceApi = { triggerWebhook: vi.fn().mockResolvedValue({ status: 200, data: {} }) };
+      const instance = { name: 'staging', host: 'https://staging.example.com', n8nApi: instanceApi } as any;
+
+      const result = await handleWorkflowTool('trigger_webhook', { webhook_path: 'hook' }, { instance });
+
+      expect(instanceApi.triggerWebhook).toHaveBeenCalled();
+      expect(n8nApi.triggerWebhook).not.toHaveBeenCalled();
+      expect(result.url).toBe('https://staging.example.com/webhook/hook');
+    });
+
     it('should handle list_executions', async () => {
       const mockResult = { data: [{ id: 'exec1', finished: true }] };
       vi.mocked(n8nApi.listExecutions).mockResolvedValue(mockResult);
 
       const result = await handleWorkflowTool('list_executions', { limit: 10 });
 
-      expect(n8nApi.listExecutions).toHaveBeenCalledWith({ limit: 10 });
+      expect(n8nApi.listExecutions).toHaveBeenCalledWith({ limit: 10 }, undefined);
       expect(result).toEqual(mockResult);
     });
 
+    it('should leave the list_executions limit to n8n when omitted', () => {
+      expect(parseToolArguments('list_executions', { status: 'error' })).toEqual({ status: 'error' });
+    });
+
     it('should handle get_execution', async () => {
       const mockExecution = { id: 'exec1', finished: true };
       vi.mocked(n8nApi.getExecution).mockResolvedValue(mockExecution);
 
       const result = await handleWorkflowTool('get_execution', { id: 'exec1' });
 
-      expect(n8nApi.getExecution).toHaveBeenCalledWith('exec1');
+      expect(n8nApi.getExecution).toHaveBeenCalledWith('exec1', false, undefined);
       expect(result).toEqual(mockExecution);
     });
+
+    it('should fetch run data for execution views and projections', async () => {
+      vi.mocked(n8nApi.getExecution).mockResolvedValue({
+        id: 'exec1',
+        status: 'success',
+        data: { resultData: { runData: { Webhook: [{ data: { main: [[{ json: {} }]] } }] } } },
+      } as any);
+
+      const summary = await handleWorkflowTool('get_execution', { id: 'exec1', view: 'summary' });
+      const runData = await handleWorkflowTool('get_execution', { id: 'exec1', fields: ['data.resultData.runData.Webhook'] });
+
+      expect(n8nApi.getExecution).toHaveBeenCalledWith('exec1', true, undefined);
+      expect(summary.nodes).toEqual([{ name: 'Webhook', status: 'success', runs: 1, items: 1 }]);
+      expect(Object.keys(runData.data.resultData.runData)).toEqual(['Webhook']);
+    });
   });
 
   describe('Discovery Tools', () => {
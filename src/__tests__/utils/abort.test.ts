@@ -0,0 +1,85 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import axios, { AxiosError, AxiosHeaders, CanceledError } from 'axios';
+import { abortableSleep, isAbortError } from '../../utils/abort.js';
+import { addRetryInterceptor } from '../../utils/api-resilience.js';
+import { handleApiError } from '../../utils/error-handler.js';
+
+describe('abort utilities', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  describe('abortableSleep', () => {
+    it('should resolve after the delay', async () => {
+      vi.useFakeTimers();
+      const promise = abortableSleep(1000);
+      vi.advanceTimersByTime(1000);
+      await expect(promise).resolves.toBeUndefined();
+    });
+
+    it('should reject when aborted mid-sleep', async () => {
+      vi.useFakeTimers();
+      const controller = new AbortController();
+      const promise = abortableSleep(10_000, controller.signal);
+
+      controller.abort();
+
+      await expect(promise).rejects.toThrow();
+      expect(vi.getTimerCount()).toBe(0);
+    });
+
+    it('should reject immediately for an already aborted signal', async () => {
+      await expect(abortableSleep(10_000, AbortSignal.abort())).rejects.toThrow();
+    });
+  });
+
+  describe('isAbortError', () => {
+    it('should detect axios and native cancellations', () => {
+      expect(isAbortError(new CanceledError())).toBe(true);
+      expect(isAbortError(new DOMException('aborted', 'AbortError'))).toBe(true);
+      expect(isAbortError(new Error('boom'))).toBe(false);
+    });
+
+    it('should map cancellations to a clear MCP error', () => {
+      expect(handleApiError(new CanceledError(), 'Failed to get workflow 1').message)
+        .toContain('Failed to get workflow 1: Request cancelled');
+    });
+  });
+
+  describe('addRetryInterceptor', () => {
+    const make503 = (signal?: AbortSignal) => {
+      const config = { url: '/workflows', method: 'get', signal, headers: new AxiosHeaders() } as any;
+      return new AxiosError('Service Unavailable', '503', config, undefined, {
+        status: 503, statusText: '', headers: {}, config, data: {},
+      });
+    };
+
+    const getRejectedHandler = () => {
+      const client = axios.create();
+      const requestSpy = vi.spyOn(client, 'request').mockResolvedValue({ data: 'ok' });
+      addRetryInterceptor(client, { baseDelayMs: 10_000 });
+      const handler = (client.interceptors.response as any).handlers.at(-1).rejected;
+      return { handler, requestSpy };
+    };
+
+    it('should not retry requests whose signal is already aborted', async () => {
+      vi.spyOn(console, 'warn').mockImplementation(() => {});
+      const { handler, requestSpy } = getRejectedHandler();
+
+      await expect(handler(make503(AbortSignal.abort()))).rejects.toThrow('Service Unavailable');
+      expect(requestSpy).not.toHaveBeenCalled();
+    });
+
+    it('should stop waiting for backoff when cancelled', async () => {
+      vi.spyOn(console, 'warn').mockImplementation(() => {});
+      const { handler, requestSpy } = getRejectedHandler();
+      const controller = new AbortController();
+
+      const pending = handler(make503(controller.signal));
+      controller.abort();
+
+      await expect(pending).rejects.toThrow('Service Unavailable');
+      expect(requestSpy).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,114 @@
+import { describe, it, expect } from 'vitest';
+import { McpError } from '@modelcontextprotocol/sdk/types.js';
+import { ContinuationStore, type ContinuationStoreConfig } from '../../utils/continuation-store.js';
+
+const config: ContinuationStoreConfig = { ttlMs: 60_000, maxEntries: 10, maxBytes: 1024 * 1024 };
+
+// ~130 bytes per item: 10 items do not fit in 600 bytes
+const items = Array.from({ length: 10 }, (_, i) => ({ id: String(i), payload: 'x'.repeat(100) }));
+
+/**
+ * Follow cursors until the last page, collecting every item
+ */
+function readAll(store: ContinuationStore, cursor: string | undefined, owner?: string, maxSize = 1600) {
+  const pages: any[] = [];
+  while (cursor) {
+    const page = store.next(cursor, owner, maxSize);
+    pages.push(page);
+    cursor = page.pagination!.nextCursor;
+  }
+  return pages;
+}
+
+describe('ContinuationStore', () => {
+  it('should leave small responses untouched', () => {
+    const store = new ContinuationStore(config);
+
+    expect(store.paginate({ id: '1' }, undefined, 600)).toEqual({
+      data: { id: '1' },
+      truncated: false,
+      originalSize: 10,
+      truncatedSize: 10,
+    });
+    expect(store.size).toBe(0);
+  });
+
+  it('should return every item of a truncated array across pages', () => {
+    const store = new ContinuationStore(config);
+    const first = store.paginate(items, undefined, 600);
+
+    expect(first.pagination).toMatchObject({ total: 10, offset: 0, hasMore: true });
+    const pages = readAll(store, first.pagination!.nextCursor);
+
+    const all = [...first.data, ...pages.flatMap(p => p.data)];
+    expect(all).toEqual(items);
+    expect(pages[0].pagination.offset).toBe(first.pagination!.returned);
+    expect(pages.at(-1)).toMatchObject({ truncated: false, pagination: { hasMore: false } });
+    expect(pages.at(-1).pagination.nextCursor).toBeUndefined();
+    expect(store.size).toBe(0);
+  });
+
+  it('should keep the wrapper of n8n-style { data } responses', () => {
+    const store = new ContinuationStore(config);
+    const first = store.paginate({ data: items, nextCursor: 'n8n-cursor' }, 's1', 600);
+
+    const [second] = readAll(store, first.pagination!.nextCursor, 's1', 4096);
+
+    expect(second.data.nextCursor).toBe('n8n-cursor');
+    expect([...first.data.data, ...second.data.data]).toEqual(items);
+  });
+
+  it('should invalidate used cursors', () => {
+    const store = new ContinuationStore(config);
+    const cursor = store.paginate(items, undefined, 600).pagination!.nextCursor!;
+
+    store.next(cursor, undefined, 600);
+
+    expect(() => store.next(cursor)).toThrow(McpError);
+  });
+
+  it('should only serve cursors to the session that received them', () => {
+    const store = new ContinuationStore(config);
+    const cursor = store.paginate(items, 's1', 600).pagination!.nextCursor!;
+
+    expect(() => store.next(cursor, 's2')).toThrow(`Unknown or expired cursor: ${cursor}`);
+    expect(() => store.next(cursor)).toThrow('Unknown or expired cursor');
+    expect(store.next(cursor, 's1', 4096).pagination).toMatchObject({ hasMore: false });
+  });
+
+  it('should expire cursors after the TTL', () => {
+    const store = new ContinuationStore({ ...config, ttlMs: 1000 });
+    const cursor = store.paginate(items, undefined, 600, 0).pagination!.nextCursor!;
+
+    expect(() => store.next(cursor, undefined, 600, 1000)).toThrow('Unknown or expired cursor');
+    expect(store.size).toBe(0);
+  });
+
+  it('should evict the oldest responses beyond the entry and byte limits', () => {
+    const store = new ContinuationStore({ ...config, maxEntries: 2 });
+    const cursors = [1, 2, 3].map(() => store.paginate(items, undefined, 600).pagination!.nextCursor!);
+
+    expect(store.size).toBe(2);
+    expect(() => store.next(cursors[0])).toThrow('Unknown or expired cursor');
+
+    const small = new ContinuationStore({ ...config, maxBytes: 1000 });
+    expect(small.paginate(items, undefined, 600).pagination).not.toHaveProperty('nextCursor');
+  });
+
+  it('should not issue cursors when disabled', () => {
+    const store = new ContinuationStore({ ...config, maxEntries: 0 });
+
+    expect(store.paginate(items, undefined, 600).pagination).toMatchObject({ hasMore: true, offset: 0 });
+    expect(store.paginate(items, undefined, 600).pagination!.nextCursor).toBeUndefined();
+  });
+
+  it('should drop the cursors of a closed session', () => {
+    const store = new ContinuationStore(config);
+    store.paginate(items, 's1', 600);
+    store.paginate(items, 's2', 600);
+
+    store.dropOwner('s1');
+
+    expect(store.size).toBe(1);
+  });
+});
@@ -0,0 +1,184 @@
+import { describe, it, expect } from 'vitest';
+import {
+  parseFieldSelector,
+  projectFields,
+  describeStructure,
+  summarizeWorkflow,
+  summarizeExecution,
+  applyDocumentView,
+} from '../../utils/document-views.js';
+
+const workflow = {
+  id: 'wf1',
+  name: 'Sync users',
+  active: true,
+  tags: [{ id: 't1', name: 'ops' }],
+  nodes: [
+    { id: 'n1', name: 'Webhook', type: 'n8n-nodes-base.webhook', typeVersion: 2, parameters: { path: 'users' } },
+    { id: 'n2', name: 'IF', type: 'n8n-nodes-base.if', typeVersion: 1, parameters: { conditions: {} } },
+    { id: 'n3', name: 'HTTP Request', type: 'n8n-nodes-base.httpRequest', parameters: { url: 'https://x' }, credentials: { httpHeaderAuth: { id: 'c1' } } },
+  ],
+  connections: {
+    Webhook: { main: [[{ node: 'IF', type: 'main', index: 0 }]] },
+    IF: { main: [[{ node: 'HTTP Request', type: 'main', index: 0 }], []] },
+  },
+  settings: { executionOrder: 'v1' },
+};
+
+const execution = {
+  id: 'e1',
+  workflowId: 'wf1',
+  status: 'error',
+  mode: 'webhook',
+  finished: false,
+  startedAt: '2026-03-01T10:00:00.000Z',
+  data: {
+    resultData: {
+      lastNodeExecuted: 'HTTP Request',
+      error: { message: 'Request failed with status code 500', node: { name: 'HTTP Request' } },
+      runData: {
+        Webhook: [{ executionTime: 2, executionStatus: 'success', data: { main: [[{ json: { id: 1 } }, { json: { id: 2 } }]] } }],
+        'HTTP Request': [{ executionTime: 120, error: { message: 'Request failed with status code 500' } }],
+      },
+    },
+  },
+};
+
+describe('Document views', () => {
+  describe('parseFieldSelector', () => {
+    it('should parse properties, wildcards, indices and quoted keys', () => {
+      expect(parseFieldSelector('nodes[*].name')).toEqual(['nodes', { wildcard: true }, 'name']);
+      expect(parseFieldSelector('$.data.resultData.runData.HTTP Request')).toEqual(
+        ['data', 'resultData', 'runData', 'HTTP Request']
+      );
+      expect(parseFieldSelector('runData["Set.Values"][0]')).toEqual(['runData', 'Set.Values', 0]);
+      expect(parseFieldSelector('connections.*')).toEqual(['connections', { wildcard: true }]);
+    });
+
+    it('should reject malformed selectors', () => {
+      expect(() => parseFieldSelector('nodes[')).toThrow('missing "]"');
+      expect(() => parseFieldSelector('nodes..name')).toThrow('empty segment');
+      expect(() => parseFieldSelector('nodes[name]')).toThrow('expected [*], [index] or ["key"]');
+      expect(() => parseFieldSelector('$')).toThrow('empty');
+    });
+  });
+
+  describe('projectFields', () => {
+    it('should keep selected fields in their original structure', () => {
+      expect(projectFields(workflow, ['nodes[*].name', 'nodes[*].type', 'settings'], ['id', 'name'])).toEqual({
+        id: 'wf1',
+        name: 'Sync users',
+        nodes: [
+          { name: 'Webhook', type: 'n8n-nodes-base.webhook' },
+          { name: 'IF', type: 'n8n-nodes-base.if' },
+          { name: 'HTTP Request', type: 'n8n-nodes-base.httpRequest' },
+        ],
+        settings: { executionOrder: 'v1' },
+      });
+    });
+
+    it('should select node run data by name and skip missing paths', () => {
+      expect(projectFields(execution, ['data.resultData.runData.HTTP Request', 'data.missing', 'nope[0]'])).toEqual({
+        data: { resultData: { runData: { 'HTTP Request': execution.data.resultData.runData['HTTP Request'] } } },
+      });
+    });
+
+    it('should apply property steps on arrays to every item', () => {
+      expect(projectFields(workflow, ['nodes.credentials'])).toEqual({
+        nodes: [{}, {}, { credentials: { httpHeaderAuth: { id: 'c1' } } }],
+      });
+      expect(projectFields(workflow, ['nodes[1].name'])).toEqual({ nodes: [{ name: 'IF' }] });
+    });
+  });
+
+  describe('describeStructure', () => {
+    it('should replace values by types and merge array item skeletons', () => {
+      expect(describeStructure({ id: 'wf1', active: true, tags: [], nodes: workflow.nodes.slice(1), meta: null })).toEqual({
+        id: 'string',
+        active: 'boolean',
+        tags: 'array(0)',
+        nodes: {
+          'array(2)': {
+            id: 'string',
+            name: 'string',
+            type: 'string',
+            typeVersion: 'number',
+            parameters: { conditions: {}, url: 'string' },
+            credentials: { httpHeaderAuth: { id: 'string' } },
+          },
+        },
+        meta: 'null',
+      });
+    });
+  });
+
+  describe('summaries', () => {
+    it('should summarize a workflow without parameters or credentials', () => {
+      const summary = summarizeWorkflow(workflow);
+
+      expect(summary).toEqual({
+        id: 'wf1',
+        name: 'Sync users',
+        active: true,
+        tags: ['ops'],
+        nodes: [
+          { name: 'Webhook', type: 'n8n-nodes-base.webhook', typeVersion: 2 },
+          { name: 'IF', type: 'n8n-nodes-base.if', typeVersion: 1 },
+          { name: 'HTTP Request', type: 'n8n-nodes-base.httpRequest' },
+        ],
+        connections: {
+          Webhook: { main: [['IF']] },
+          IF: { main: [['HTTP Request'], []] },
+        },
+      });
+      expect(JSON.stringify(summary)).not.toContain('https://x');
+    });
+
+    it('should summarize an execution per node without item data', () => {
+      expect(summarizeExecution(execution)).toEqual({
+        id: 'e1',
+        workflowId: 'wf1',
+        status: 'error',
+        mode: 'webhook',
+        finished: false,
+        startedAt: '2026-03-01T10:00:00.000Z',
+        error: { message: 'Request failed with status code 500', node: 'HTTP Request' },
+        lastNodeExecuted: 'HTTP Request',
+        nodes: [
+          { name: 'Webhook', status: 'success', runs: 1, items: 2, executionTimeMs: 2 },
+          { name: 'HTTP Request', status: 'error', runs: 1, items: 0, executionTimeMs: 120, error: 'Request failed with status code 500' },
+        ],
+      });
+    });
+  });
+
+  describe('applyDocumentView', () => {
+    it('should return the document untouched for the full view', () => {
+      expect(applyDocumentView(workflow, summarizeWorkflow, {})).toBe(workflow);
+      expect(applyDocumentView(workflow, summarizeWorkflow, { view: 'full' })).toBe(workflow);
+    });
+
+    it('should project fields of the selected view', () => {
+      expect(applyDocumentView(workflow, summarizeWorkflow, {
+        view: 'summary',
+        fields: ['nodes[*].name'],
+        keep: ['id', 'name'],
+      })).toEqual({ id: 'wf1', name: 'Sync users', nodes: [{ name: 'Webhook' }, { name: 'IF' }, { name: 'HTTP Request' }] });
+    });
+
+    it('should wrap the structure view next to the kept keys', () => {
+      const result = applyDocumentView(workflow, summarizeWorkflow, { view: 'structure', keep: ['id', 'name'] });
+
+      expect(result).toMatchObject({ id: 'wf1', name: 'Sync users', structure: { settings: { executionOrder: 'string' } } });
+    });
+
+    it('should handle circular references through safeStringify', () => {
+      const doc: any = { id: 'wf1', name: 'Loop', settings: {} };
+      doc.settings.self = doc;
+
+      expect(applyDocumentView(doc, summarizeWorkflow, { fields: ['settings'] })).toEqual({
+        settings: { self: '[Circular]' },
+      });
+    });
+  });
+});
@@ -0,0 +1,86 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { InMemoryEventStore } from '../../utils/event-store.js';
+import type { JSONRPCMessage } from '@modelcontextprotocol/sdk/types.js';
+
+const message = (id: number): JSONRPCMessage => ({ jsonrpc: '2.0', id, result: {} });
+
+async function collectReplay(store: InMemoryEventStore, lastEventId: string) {
+  const sent: Array<{ eventId: string; message: JSONRPCMessage }> = [];
+  const streamId = await store.replayEventsAfter(lastEventId, {
+    send: async (eventId, msg) => {
+      sent.push({ eventId, message: msg });
+    },
+  });
+  return { streamId, sent };
+}
+
+describe('InMemoryEventStore', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should generate event IDs prefixed with the stream ID', async () => {
+    const store = new InMemoryEventStore();
+    const eventId = await store.storeEvent('stream-a', message(1));
+
+    expect(eventId.startsWith('stream-a_')).toBe(true);
+    expect(await store.getStreamIdForEventId(eventId)).toBe('stream-a');
+  });
+
+  it('should handle stream IDs containing underscores', async () => {
+    const store = new InMemoryEventStore();
+    const eventId = await store.storeEvent('_GET_stream', message(1));
+
+    expect(await store.getStreamIdForEventId(eventId)).toBe('_GET_stream');
+  });
+
+  it('should replay only later events from the same stream', async () => {
+    const store = new InMemoryEventStore();
+    const first = await store.storeEvent('a', message(1));
+    await store.storeEvent('b', message(2));
+    const third = await store.storeEvent('a', message(3));
+    const fourth = await store.storeEvent('a', message(4));
+
+    const { streamId, sent } = await collectReplay(store, first);
+
+    expect(streamId).toBe('a');
+    expect(sent.map(e => e.eventId)).toEqual([third, fourth]);
+  });
+
+  it('should return empty stream ID for malformed event IDs', async () => {
+    const store = new InMemoryEventStore();
+    const { streamId, sent } = await collectReplay(store, 'garbage');
+
+    expect(streamId).toBe('');
+    expect(sent).toHaveLength(0);
+  });
+
+  it('should return undefined for unknown streams', async () => {
+    const store = new InMemoryEventStore();
+    expect(await store.getStreamIdForEventId('missing_000000000001')).toBeUndefined();
+  });
+
+  it('should keep a bounded replay window per stream', async () => {
+    const store = new InMemoryEventStore(2);
+    const first = await store.storeEvent('a', message(1));
+    const second = await store.storeEvent('a', message(2));
+    const third = await store.storeEvent('a', message(3));
+
+    // First event evicted, replay from it yields nothing
+    expect((await collectReplay(store, first)).sent).toHaveLength(0);
+    expect((await collectReplay(store, second)).sent.map(e => e.eventId)).toEqual([third]);
+  });
+
+  it('should expire events after TTL', async () => {
+    vi.useFakeTimers();
+    const store = new InMemoryEventStore(100, 1000);
+    const first = await store.storeEvent('a', message(1));
+    await store.storeEvent('a', message(2));
+
+    vi.advanceTimersByTime(1500);
+
+    const { sent } = await collectReplay(store, first);
+    expect(sent).toHaveLength(0);
+    expect(store.size).toBe(0);
+  });
+});
@@ -0,0 +1,95 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import {
+  Logger,
+  runWithLogContext,
+  currentRequestId,
+  createRequestId,
+} from '../../utils/logger.js';
+
+describe('Logger', () => {
+  let errorSpy: ReturnType<typeof vi.spyOn>;
+  let warnSpy: ReturnType<typeof vi.spyOn>;
+
+  const entries = () =>
+    [...warnSpy.mock.calls, ...errorSpy.mock.calls].map(([line]) => JSON.parse(line as string));
+
+  beforeEach(() => {
+    errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+    warnSpy = vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should write one JSON object per entry and drop entries below the level', () => {
+    const logger = new Logger({ level: 'info', format: 'json' });
+
+    logger.debug('Handling tools/list request');
+    logger.info('Calling tool get_workflow', { durationMs: 12 });
+    logger.warn('Large response', { sizeBytes: 600_000 });
+
+    expect(errorSpy).toHaveBeenCalledTimes(1);
+    expect(warnSpy).toHaveBeenCalledTimes(1);
+    expect(entries()).toEqual([
+      { timestamp: expect.any(String), level: 'warn', msg: 'Large response', sizeBytes: 600_000 },
+      { timestamp: expect.any(String), level: 'info', msg: 'Calling tool get_workflow', durationMs: 12 },
+    ]);
+  });
+
+  it('should redact secrets and sanitize errors before writing', () => {
+    const logger = new Logger({ level: 'debug', format: 'json' });
+    const error = Object.assign(new Error('Request failed with status code 401'), {
+      config: { headers: { 'X-N8N-API-KEY': 'n8n-key-123' } },
+    });
+
+    logger.error('Tool error (create_credential)', {
+      args: { name: 'Slack', data: { accessToken: 'xoxb-secret' } },
+      apiKey: 'n8n-key-123',
+      error,
+    });
+
+    const output = errorSpy.mock.calls[0][0] as string;
+    expect(output).not.toContain('xoxb-secret');
+    expect(output).not.toContain('n8n-key-123');
+    expect(JSON.parse(output)).toMatchObject({
+      args: { name: 'Slack' },
+      apiKey: '[REDACTED]',
+      error: { message: 'Request failed with status code 401', name: 'Error' },
+    });
+  });
+
+  it('should add the request context and child bindings to every entry', async () => {
+    const logger = new Logger({ level: 'info', format: 'json' }).child({ component: 'backup' });
+
+    await runWithLogContext({ requestId: 'req-1', tool: 'backup_workflow' }, async () => {
+      await Promise.resolve();
+      expect(currentRequestId()).toBe('req-1');
+      logger.info('Backup created');
+    });
+    logger.info('Outside any request');
+
+    expect(entries()).toEqual([
+      expect.objectContaining({ msg: 'Backup created', requestId: 'req-1', tool: 'backup_workflow', component: 'backup' }),
+      expect.not.objectContaining({ requestId: expect.anything() }),
+    ]);
+    expect(currentRequestId()).toBeUndefined();
+  });
+
+  it('should write readable lines in text format', () => {
+    const logger = new Logger({ level: 'info', format: 'text' });
+
+    runWithLogContext({ requestId: 'req-2' }, () => logger.info('Session closed', { reason: 'idle' }));
+
+    expect(errorSpy.mock.calls[0][0]).toMatch(/^\S+Z INFO  Session closed \[req-2\] \{"reason":"idle"\}$/);
+  });
+});
+
+describe('createRequestId', () => {
+  it('should keep well-formed client IDs and replace anything else', () => {
+    expect(createRequestId('trace-42:abc')).toBe('trace-42:abc');
+    expect(createRequestId()).toMatch(/^[0-9a-f-]{36}$/);
+    expect(createRequestId('bad id\nwith newline')).not.toContain('bad');
+    expect(createRequestId('x'.repeat(200))).toHaveLength(36);
+  });
+});
@@ -0,0 +1,170 @@
+import { describe, it, expect, beforeEach } from 'vitest';
+import axios, { AxiosError, type AxiosAdapter } from 'axios';
+import {
+  MetricsRegistry,
+  metrics,
+  normalizeEndpoint,
+  instrumentAxios,
+  apiRequestsTotal,
+  apiRequestDuration,
+  apiRetriesTotal,
+  cacheRequestsTotal,
+  cacheHitRatio,
+  sessionsClosedTotal,
+  sessionsRejectedTotal,
+} from '../../utils/metrics.js';
+import { addRetryInterceptor } from '../../utils/api-resilience.js';
+import { TemplateCache } from '../../utils/template-cache.js';
+
+/**
+ * Adapter answering with the given statuses in order (last one repeats)
+ */
+function statusAdapter(statuses: number[]): AxiosAdapter {
+  let call = 0;
+  return async config => {
+    const status = statuses[Math.min(call++, statuses.length - 1)];
+    const response = { data: {}, status, statusText: String(status), headers: {}, config };
+    if (status >= 400) {
+      throw new AxiosError('Request failed', String(status), config, null, response);
+    }
+    return response;
+  };
+}
+
+describe('MetricsRegistry', () => {
+  it('should render counters, gauges and histograms in exposition format', () => {
+    const registry = new MetricsRegistry();
+    const counter = registry.counter('things_total', 'Things counted');
+    const gauge = registry.gauge('level', 'Current level');
+    const histogram = registry.histogram('latency_seconds', 'Latency', [0.1, 1]);
+
+    counter.inc({ kind: 'a' });
+    counter.inc({ kind: 'a' }, 2);
+    gauge.set({}, 7);
+    histogram.observe({ op: 'x' }, 0.5);
+    histogram.observe({ op: 'x' }, 2);
+
+    const output = registry.render();
+    expect(output).toContain('# HELP n8n_mcp_things_total Things counted');
+    expect(output).toContain('# TYPE n8n_mcp_things_total counter');
+    expect(output).toContain('n8n_mcp_things_total{kind="a"} 3');
+    expect(output).toContain('# TYPE n8n_mcp_level gauge');
+    expect(output).toContain('n8n_mcp_level 7');
+    expect(output).toContain('n8n_mcp_latency_seconds_bucket{op="x",le="0.1"} 0');
+    expect(output).toContain('n8n_mcp_latency_seconds_bucket{op="x",le="1"} 1');
+    expect(output).toContain('n8n_mcp_latency_seconds_bucket{op="x",le="+Inf"} 2');
+    expect(output).toContain('n8n_mcp_latency_seconds_sum{op="x"} 2.5');
+    expect(output).toContain('n8n_mcp_latency_seconds_count{op="x"} 2');
+  });
+
+  it('should escape label values', () => {
+    const registry = new MetricsRegistry();
+    registry.counter('escaped_total', 'Escaping').inc({ v: 'a"b\\c\nd' });
+
+    expect(registry.render()).toContain('n8n_mcp_escaped_total{v="a\\"b\\\\c\\nd"} 1');
+  });
+
+  it('should run collectors on render and survive failing ones', () => {
+    const registry = new MetricsRegistry();
+    const gauge = registry.gauge('collected', 'Collected at scrape');
+    let value = 1;
+    registry.addCollector(() => { throw new Error('boom'); });
+    registry.addCollector(() => gauge.set({}, value));
+
+    expect(registry.render()).toContain('n8n_mcp_collected 1');
+    value = 2;
+    expect(registry.render()).toContain('n8n_mcp_collected 2');
+  });
+
+  it('should expose process metrics from the default registry', () => {
+    const output = metrics.render();
+    expect(output).toMatch(/n8n_mcp_process_memory_bytes\{type="rss"\} \d+/);
+    expect(output).toContain('n8n_mcp_process_uptime_seconds');
+  });
+
+  it('should expose session counters from the default registry', () => {
+    sessionsClosedTotal.inc({ transport: 'sse', reason: 'idle_timeout' });
+    sessionsRejectedTotal.inc({ reason: 'max_sessions' });
+
+    const output = metrics.render();
+    expect(output).toContain('n8n_mcp_session_id_collisions_total 0');
+    expect(output).toMatch(/n8n_mcp_sessions_closed_total\{transport="sse",reason="idle_timeout"\} \d+/);
+    expect(output).toMatch(/n8n_mcp_sessions_rejected_total\{reason="max_sessions"\} \d+/);
+  });
+});
+
+describe('normalizeEndpoint', () => {
+  it.each([
+    ['/workflows', '/workflows'],
+    ['/workflows/aBc123XyZ', '/workflows/:id'],
+    ['/workflows/42/activate', '/workflows/:id/activate'],
+    ['/executions/7?includeData=true', '/executions/:id'],
+    ['/node-types/n8n-nodes-base.httpRequest', '/node-types/:id'],
+    ['/credentials/schema/githubApi', '/credentials/schema/:id'],
+    [undefined, 'unknown'],
+  ])('should normalize %s to %s', (url, expected) => {
+    expect(normalizeEndpoint(url)).toBe(expected);
+  });
+});
+
+describe('instrumentAxios', () => {
+  beforeEach(() => {
+    metrics.reset();
+  });
+
+  it('should count requests and record latency by endpoint, method and status', async () => {
+    const client = axios.create({ adapter: statusAdapter([200]) });
+    instrumentAxios(client);
+
+    await client.get('/workflows/1');
+    await client.get('/workflows/2');
+
+    const labels = { endpoint: '/workflows/:id', method: 'GET', status: '200' };
+    expect(apiRequestsTotal.get(labels)).toBe(2);
+    expect(apiRequestDuration.getCount(labels)).toBe(2);
+  });
+
+  it('should record every retry attempt and count retries', async () => {
+    const client = axios.create({ adapter: statusAdapter([503, 503, 200]) });
+    instrumentAxios(client);
+    addRetryInterceptor(client, { baseDelayMs: 1 });
+
+    await client.post('/workflows/1/activate');
+
+    const endpoint = '/workflows/:id/activate';
+    expect(apiRequestsTotal.get({ endpoint, method: 'POST', status: '503' })).toBe(2);
+    expect(apiRequestsTotal.get({ endpoint, method: 'POST', status: '200' })).toBe(1);
+    expect(apiRetriesTotal.get({ endpoint, status: '503' })).toBe(2);
+  });
+
+  it('should label network failures without a response as error', async () => {
+    const client = axios.create({
+      adapter: async config => {
+        throw new AxiosError('socket hang up', 'ECONNRESET', config);
+      },
+    });
+    instrumentAxios(client);
+
+    await expect(client.get('/executions')).rejects.toThrow('socket hang up');
+    expect(apiRequestsTotal.get({ endpoint: '/executions', method: 'GET', status: 'error' })).toBe(1);
+  });
+});
+
+describe('TemplateCache metrics', () => {
+  beforeEach(() => {
+    metrics.reset();
+  });
+
+  it('should count hits and misses and expose the hit ratio', () => {
+    const cache = new TemplateCache(60, 'test');
+    cache.get('missing');
+    cache.set('key', { value: 1 });
+    cache.get('key');
+    cache.get('key');
+    cache.get('key');
+
+    expect(cacheRequestsTotal.get({ cache: 'test', result: 'hit' })).toBe(3);
+    expect(cacheRequestsTotal.get({ cache: 'test', result: 'miss' })).toBe(1);
+    expect(cacheHitRatio.get({ cache: 'test' })).toBe(0.75);
+  });
+});
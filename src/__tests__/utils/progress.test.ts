@@ -0,0 +1,59 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest';
+import { createProgressNotifier } from '../../utils/progress.js';
+
+describe('createProgressNotifier', () => {
+  let sendNotification: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    sendNotification = vi.fn().mockResolvedValue(undefined);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should send notifications/progress with the request token', () => {
+    const notify = createProgressNotifier('tok-1', sendNotification);
+
+    notify({ progress: 1, total: 3, message: 'Creating test workflow' });
+
+    expect(sendNotification).toHaveBeenCalledWith({
+      method: 'notifications/progress',
+      params: { progressToken: 'tok-1', progress: 1, total: 3, message: 'Creating test workflow' },
+    });
+  });
+
+  it('should drop non-increasing progress', () => {
+    const notify = createProgressNotifier(1, sendNotification, 0);
+
+    notify({ progress: 2 });
+    notify({ progress: 2 });
+    notify({ progress: 1 });
+
+    expect(sendNotification).toHaveBeenCalledTimes(1);
+  });
+
+  it('should throttle intermediate updates but always send the final one', () => {
+    const notify = createProgressNotifier(1, sendNotification, 100);
+
+    notify({ progress: 1, total: 10 });
+    notify({ progress: 2, total: 10 });
+    notify({ progress: 10, total: 10 });
+    vi.advanceTimersByTime(150);
+
+    expect(sendNotification.mock.calls.map(([n]) => n.params.progress)).toEqual([1, 10]);
+  });
+
+  it('should not throw when sending fails', async () => {
+    const errorSpy = vi.spyOn(console, 'error').mockImplementation(() => {});
+    sendNotification.mockRejectedValue(new Error('Not connected'));
+    const notify = createProgressNotifier(1, sendNotification);
+
+    expect(() => notify({ progress: 1 })).not.toThrow();
+    await vi.runAllTimersAsync();
+
+    expect(errorSpy).toHaveBeenCalled();
+    errorSpy.mockRestore();
+  });
+});
@@ -0,0 +1,157 @@
+import { describe, it, expect, vi } from 'vitest';
+import {
+  RateLimiter,
+  RateLimitError,
+  TokenBucket,
+  loadRateLimitConfig,
+  rateLimitRejectionsTotal,
+  RATE_LIMIT_ERROR_CODE,
+  DEFAULT_EXPENSIVE_TOOLS,
+  type RateLimitConfig,
+} from '../../utils/rate-limiter.js';
+import { metrics } from '../../utils/metrics.js';
+import { loadServerConfig } from '../../config/server-config.js';
+
+const baseConfig: RateLimitConfig = {
+  perMinute: 0,
+  burst: 0,
+  expensivePerMinute: 0,
+  expensiveBurst: 0,
+  expensiveTools: DEFAULT_EXPENSIVE_TOOLS,
+  maxConcurrent: 0,
+  scope: 'token',
+};
+
+function captureError(fn: () => unknown): RateLimitError {
+  try {
+    fn();
+  } catch (error) {
+    return error as RateLimitError;
+  }
+  throw new Error('Expected function to throw');
+}
+
+describe('Rate limiter', () => {
+  describe('loadRateLimitConfig', () => {
+    it('should disable every limit by default', () => {
+      const config = loadRateLimitConfig(loadServerConfig({}).config.rateLimits);
+
+      expect(config).toMatchObject({ perMinute: 0, expensivePerMinute: 0, maxConcurrent: 0, scope: 'token' });
+      expect(config.expensiveTools).toEqual(DEFAULT_EXPENSIVE_TOOLS);
+      expect(new RateLimiter(config).enabled).toBe(false);
+    });
+
+    it('should parse limits, burst and expensive tools', () => {
+      expect(loadRateLimitConfig(loadServerConfig({
+        MCP_RATE_LIMIT_PER_MINUTE: '60',
+        MCP_EXPENSIVE_RATE_LIMIT_PER_MINUTE: '5',
+        MCP_EXPENSIVE_RATE_LIMIT_BURST: '2',
+        MCP_EXPENSIVE_TOOLS: 'execute_workflow, import_template',
+        MCP_MAX_CONCURRENT_CALLS: '4',
+        MCP_RATE_LIMIT_SCOPE: 'session',
+      }).config.rateLimits)).toEqual({
+        perMinute: 60,
+        burst: 60,
+        expensivePerMinute: 5,
+        expensiveBurst: 2,
+        expensiveTools: ['execute_workflow', 'import_template'],
+        maxConcurrent: 4,
+        scope: 'session',
+      });
+    });
+  });
+
+  describe('TokenBucket', () => {
+    it('should refill continuously up to capacity', () => {
+      const bucket = new TokenBucket(2, 60, 0);
+      bucket.take(0);
+      bucket.take(0);
+
+      expect(bucket.waitTime(0)).toBe(1000);
+      expect(bucket.waitTime(500)).toBe(500);
+      expect(bucket.waitTime(1000)).toBe(0);
+      expect(bucket.available(60_000)).toBe(2);
+    });
+  });
+
+  describe('RateLimiter', () => {
+    it('should key by token, falling back to the session', () => {
+      const limiter = new RateLimiter(baseConfig);
+
+      expect(limiter.clientKey('ci', 's1')).toBe('token:ci');
+      expect(limiter.clientKey(undefined, 's1')).toBe('session:s1');
+      expect(limiter.clientKey(undefined, undefined)).toBeUndefined();
+      expect(new RateLimiter({ ...baseConfig, scope: 'session' }).clientKey('ci', 's1')).toBe('session:s1');
+    });
+
+    it('should reject calls beyond the burst with a retry-after hint', () => {
+      const limiter = new RateLimiter({ ...baseConfig, perMinute: 6, burst: 2 });
+      limiter.acquire('token:ci', 'get_workflow', 0);
+      limiter.acquire('token:ci', 'get_workflow', 0);
+
+      const error = captureError(() => limiter.acquire('token:ci', 'get_workflow', 0));
+
+      expect(error).toBeInstanceOf(RateLimitError);
+      expect(error.code).toBe(RATE_LIMIT_ERROR_CODE);
+      expect(error.data).toEqual({ limit: 'rate', tool: 'get_workflow', retryAfter: 10, retryAfterMs: 10000 });
+      expect(() => limiter.acquire('token:other', 'get_workflow', 0)).not.toThrow();
+      expect(() => limiter.acquire('token:ci', 'get_workflow', 10_000)).not.toThrow();
+    });
+
+    it('should apply the expensive budget only to expensive tools', () => {
+      const limiter = new RateLimiter({ ...baseConfig, expensivePerMinute: 1, expensiveBurst: 1 });
+      limiter.acquire('token:ci', 'execute_workflow', 0);
+
+      const error = captureError(() => limiter.acquire('token:ci', 'test_credential', 0));
+
+      expect(error.data).toMatchObject({ limit: 'expensive', tool: 'test_credential', retryAfter: 60 });
+      expect(() => limiter.acquire('token:ci', 'get_workflow', 0)).not.toThrow();
+    });
+
+    it('should cap concurrent calls until a slot is released', () => {
+      const limiter = new RateLimiter({ ...baseConfig, maxConcurrent: 1 });
+      const release = limiter.acquire('token:ci', 'list_workflows', 0);
+
+      expect(captureError(() => limiter.acquire('token:ci', 'list_workflows', 0)).kind).toBe('concurrency');
+      expect(limiter.snapshot(0)).toMatchObject({ clients: 1, inFlight: 1 });
+
+      release();
+      release();
+      expect(limiter.snapshot(0).inFlight).toBe(0);
+      expect(() => limiter.acquire('token:ci', 'list_workflows', 0)).not.toThrow();
+    });
+
+    it('should run resource and prompt requests under the same quota', async () => {
+      const limiter = new RateLimiter({ ...baseConfig, perMinute: 1, burst: 1 });
+      const read = vi.fn(async () => ({ contents: [] }));
+
+      await expect(limiter.run('ci', 's1', 'resources/read', read)).resolves.toEqual({ contents: [] });
+      await expect(limiter.run('ci', 's2', 'prompts/get', read)).rejects.toMatchObject({ kind: 'rate', tool: 'prompts/get' });
+      expect(read).toHaveBeenCalledTimes(1);
+      expect(limiter.snapshot().inFlight).toBe(0);
+
+      // Stdio: no session, not limited
+      await expect(limiter.run(undefined, undefined, 'resources/read', read)).resolves.toBeDefined();
+    });
+
+    it('should not consume tokens when a call is rejected', () => {
+      const limiter = new RateLimiter({ ...baseConfig, perMinute: 60, burst: 1, expensivePerMinute: 1, expensiveBurst: 1 });
+      limiter.acquire('token:ci', 'execute_workflow', 0);
+
+      // Rejected by the expensive budget after the general bucket refilled: general token stays
+      captureError(() => limiter.acquire('token:ci', 'execute_workflow', 1000));
+      expect(() => limiter.acquire('token:ci', 'get_workflow', 1000)).not.toThrow();
+    });
+
+    it('should count rejections and expose limiter state in metrics', () => {
+      const before = rateLimitRejectionsTotal.get({ limit: 'rate', tool: 'list_workflows' });
+      const limiter = new RateLimiter({ ...baseConfig, perMinute: 1, burst: 1 });
+      limiter.acquire('token:ci', 'list_workflows', 0);
+      captureError(() => limiter.acquire('token:ci', 'list_workflows', 0));
+
+      expect(rateLimitRejectionsTotal.get({ limit: 'rate', tool: 'list_workflows' })).toBe(before + 1);
+      expect(limiter.snapshot(0).exhaustedClients).toBe(1);
+      expect(metrics.render()).toContain('n8n_mcp_rate_limit_in_flight_calls');
+    });
+  });
+});
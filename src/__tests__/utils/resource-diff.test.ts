@@ -0,0 +1,122 @@
+import { describe, it, expect } from 'vitest';
+import { diffWorkflows, diffCredentials, redactCredentialData } from '../../utils/resource-diff.js';
+
+const node = (name: string, parameters: Record<string, unknown> = {}) => ({
+  id: name.toLowerCase(),
+  name,
+  type: 'n8n-nodes-base.set',
+  typeVersion: 1,
+  position: [0, 0] as [number, number],
+  parameters,
+});
+
+const live = {
+  id: '12',
+  name: 'Sync',
+  active: false,
+  nodes: [node('Trigger'), node('HTTP', { url: 'https://a.example', options: { timeout: 1000 } }), node('Old')],
+  connections: {
+    Trigger: { main: [[{ node: 'HTTP', type: 'main', index: 0 }]] },
+    HTTP: { main: [[{ node: 'Old', type: 'main', index: 0 }]] },
+  },
+  settings: { timezone: 'UTC' },
+  updatedAt: '2026-01-01T00:00:00.000Z',
+};
+
+describe('diffWorkflows', () => {
+  it('should report node, connection and field changes of an update', () => {
+    const diff = diffWorkflows(live, {
+      ...live,
+      nodes: [node('Trigger'), node('HTTP', { url: 'https://b.example', options: { timeout: 1000 } }), node('New')],
+      connections: {
+        Trigger: { main: [[{ node: 'HTTP', type: 'main', index: 0 }]] },
+        HTTP: { main: [[{ node: 'New', type: 'main', index: 0 }]] },
+      },
+      settings: { timezone: 'Europe/Paris' },
+      updatedAt: '2026-02-01T00:00:00.000Z',
+    });
+
+    expect(diff).toMatchObject({ resource: 'workflow', action: 'update', id: '12', name: 'Sync' });
+    expect(diff.nodes).toEqual({
+      added: ['New'],
+      removed: ['Old'],
+      modified: [{ name: 'HTTP', changes: ['parameters.url'] }],
+    });
+    expect(diff.connections).toEqual({
+      added: ['HTTP.main[0] -> New.main[0]'],
+      removed: ['HTTP.main[0] -> Old.main[0]'],
+    });
+    // updatedAt is set by n8n, not by the call
+    expect(diff.fields).toEqual([
+      { path: 'settings.timezone', change: 'changed', before: 'UTC', after: 'Europe/Paris' },
+    ]);
+    expect(diff.summary).toBe(
+      'Update workflow "Sync": 1 node(s) added, 1 node(s) removed, 1 node(s) modified, ' +
+      '1 connection(s) added, 1 connection(s) removed, 1 field(s) changed'
+    );
+  });
+
+  it('should describe creations, deletions and no-op updates', () => {
+    const created = diffWorkflows(undefined, { name: 'New', nodes: [node('Trigger')], connections: {} });
+    expect(created.action).toBe('create');
+    expect(created.nodes!.added).toEqual(['Trigger']);
+    expect(created.fields).toEqual([{ path: 'name', change: 'added', after: 'New' }]);
+
+    const deleted = diffWorkflows(live, undefined);
+    expect(deleted.action).toBe('delete');
+    expect(deleted.nodes!.removed).toEqual(['Trigger', 'HTTP', 'Old']);
+    expect(deleted.connections!.removed).toHaveLength(2);
+
+    const unchanged = diffWorkflows(live, { ...live });
+    expect(unchanged.action).toBe('none');
+    expect(unchanged.summary).toBe('No changes detected');
+  });
+
+  it('should report deep node changes on their parent key', () => {
+    const before = { name: 'WF', nodes: [node('HTTP', { options: { retry: { count: 1 } } })] };
+    const after = { name: 'WF', nodes: [node('HTTP', { options: { retry: { count: 3 } } })] };
+
+    expect(diffWorkflows(before, after).nodes!.modified).toEqual([
+      { name: 'HTTP', changes: ['parameters.options.retry'] },
+    ]);
+  });
+});
+
+describe('diffCredentials', () => {
+  it('should list data keys without their values', () => {
+    const diff = diffCredentials(
+      { id: 'c1', name: 'Slack', type: 'slackApi' },
+      { name: 'Slack prod', data: { accessToken: 'xoxb-secret' } }
+    );
+
+    expect(diff).toMatchObject({ resource: 'credential', action: 'update', id: 'c1', name: 'Slack prod' });
+    expect(diff.fields).toEqual([
+      { path: 'name', change: 'changed', before: 'Slack', after: 'Slack prod' },
+      { path: 'data.accessToken', change: 'changed' },
+    ]);
+    expect(JSON.stringify(diff)).not.toContain('xoxb-secret');
+  });
+
+  it('should describe creations and deletions', () => {
+    expect(diffCredentials(undefined, { name: 'GitHub', type: 'githubApi', data: { accessToken: 'x' } }).fields).toEqual([
+      { path: 'name', change: 'added', after: 'GitHub' },
+      { path: 'type', change: 'added', after: 'githubApi' },
+      { path: 'data.accessToken', change: 'added' },
+    ]);
+    expect(diffCredentials({ id: 'c1', name: 'GitHub', type: 'githubApi' }, undefined)).toMatchObject({
+      action: 'delete',
+      summary: 'Delete credential "GitHub": 2 field(s) changed',
+    });
+  });
+});
+
+describe('redactCredentialData', () => {
+  it('should replace every data value', () => {
+    expect(redactCredentialData({ name: 'A', type: 't', data: { user: 'bob', password: 'pw' } })).toEqual({
+      name: 'A',
+      type: 't',
+      data: { user: '[REDACTED]', password: '[REDACTED]' },
+    });
+    expect(redactCredentialData({ name: 'A' })).toEqual({ name: 'A' });
+  });
+});
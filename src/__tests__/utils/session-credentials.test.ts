@@ -0,0 +1,102 @@
+import { describe, it, expect } from 'vitest';
+import {
+  loadSessionCredentialsConfig,
+  resolveSessionCredentials,
+  SessionCredentialsError,
+  type SessionCredentialsConfig,
+} from '../../utils/session-credentials.js';
+import { loadServerConfig } from '../../config/server-config.js';
+
+const config: SessionCredentialsConfig = {
+  defaultHost: 'http://n8n:5678',
+  allowedHosts: ['https://team-b.example.com'],
+  required: false,
+};
+
+function captureError(fn: () => unknown): SessionCredentialsError {
+  try {
+    fn();
+  } catch (error) {
+    return error as SessionCredentialsError;
+  }
+  throw new Error('Expected function to throw');
+}
+
+describe('Session credentials', () => {
+  describe('loadSessionCredentialsConfig', () => {
+    it('should parse allowed hosts and the required flag', () => {
+      expect(loadSessionCredentialsConfig('http://n8n:5678/', loadServerConfig({
+        MCP_SESSION_N8N_HOSTS: 'https://a.example.com/, https://b.example.com',
+        MCP_REQUIRE_SESSION_CREDENTIALS: 'true',
+      }).config.sessions)).toEqual({
+        defaultHost: 'http://n8n:5678',
+        allowedHosts: ['https://a.example.com', 'https://b.example.com'],
+        required: true,
+      });
+    });
+
+    it('should default to no extra hosts and optional credentials', () => {
+      expect(loadSessionCredentialsConfig('http://n8n:5678', loadServerConfig({}).config.sessions)).toMatchObject({ allowedHosts: [], required: false });
+    });
+  });
+
+  describe('resolveSessionCredentials', () => {
+    it('should use the default instance when no credentials are sent', () => {
+      expect(resolveSessionCredentials({}, undefined, config)).toBeUndefined();
+    });
+
+    it('should use the header API key against the default host', () => {
+      const credentials = resolveSessionCredentials({ 'x-n8n-api-key': 'key-a' }, undefined, config);
+
+      expect(credentials).toMatchObject({ host: 'http://n8n:5678', apiKey: 'key-a' });
+      expect(credentials!.tenant).toMatch(/^key:[0-9a-f]{16}$/);
+      expect(credentials!.tenant).not.toContain('key-a');
+    });
+
+    it('should give different keys different tenants', () => {
+      const a = resolveSessionCredentials({ 'x-n8n-api-key': 'key-a' }, undefined, config);
+      const b = resolveSessionCredentials({ 'x-n8n-api-key': 'key-b' }, undefined, config);
+
+      expect(a!.tenant).not.toBe(b!.tenant);
+    });
+
+    it('should accept allowed hosts and reject others', () => {
+      const allowed = resolveSessionCredentials(
+        { 'x-n8n-host': 'https://team-b.example.com/', 'x-n8n-api-key': 'key-b' },
+        undefined,
+        config
+      );
+      expect(allowed!.host).toBe('https://team-b.example.com');
+
+      const error = captureError(() => resolveSessionCredentials(
+        { 'x-n8n-host': 'http://169.254.169.254', 'x-n8n-api-key': 'key-b' },
+        undefined,
+        config
+      ));
+      expect(error).toBeInstanceOf(SessionCredentialsError);
+      expect(error.status).toBe(403);
+    });
+
+    it('should require an API key with a host header', () => {
+      const error = captureError(() => resolveSessionCredentials({ 'x-n8n-host': 'http://n8n:5678' }, undefined, config));
+      expect(error.status).toBe(400);
+    });
+
+    it('should reject sessions without credentials when required', () => {
+      const error = captureError(() => resolveSessionCredentials({}, undefined, { ...config, required: true }));
+      expect(error.status).toBe(401);
+    });
+
+    it('should prefer token-bound credentials and refuse header overrides', () => {
+      const authInfo = { token: 't', clientId: 'team-a', scopes: ['read'], extra: { n8n: { apiKey: 'bound-key' } } };
+
+      expect(resolveSessionCredentials({}, authInfo, config)).toEqual({
+        tenant: 'token:team-a',
+        host: 'http://n8n:5678',
+        apiKey: 'bound-key',
+      });
+      expect(captureError(() => resolveSessionCredentials({ 'x-n8n-api-key': 'other' }, authInfo, config)).status)
+        .toBe(400);
+    });
+  });
+});
@@ -0,0 +1,142 @@
+import { describe, it, expect, vi, afterEach } from 'vitest';
+import { EventEmitter } from 'events';
+import {
+  SessionLifecycle,
+  type SessionLifecycleConfig,
+} from '../../utils/session-lifecycle.js';
+
+const baseConfig: SessionLifecycleConfig = {
+  idleTimeoutMs: 0,
+  maxLifetimeMs: 0,
+  maxSessions: 0,
+  heartbeatMs: 0,
+  shutdownTimeoutMs: 1000,
+};
+
+/**
+ * Register a session whose close() behaves like the SDK transports (calls onclose -> release)
+ */
+function openSession(lifecycle: SessionLifecycle, sessionId: string, now = 0) {
+  const closed: string[] = [];
+  const close = vi.fn(() => {
+    closed.push(lifecycle.release(sessionId)?.reason ?? 'unknown');
+  });
+  lifecycle.register(sessionId, 'streamable_http', close, now);
+  return { close, closed };
+}
+
+describe('SessionLifecycle', () => {
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should close idle sessions and keep active ones', async () => {
+    const lifecycle = new SessionLifecycle({ ...baseConfig, idleTimeoutMs: 1000 });
+    const idle = openSession(lifecycle, 'idle');
+    const active = openSession(lifecycle, 'active');
+
+    lifecycle.touch('active', 800);
+    expect(await lifecycle.sweep(1200)).toBe(1);
+
+    expect(idle.closed).toEqual(['idle_timeout']);
+    expect(active.close).not.toHaveBeenCalled();
+    expect(lifecycle.size).toBe(1);
+  });
+
+  it('should close sessions past their maximum lifetime despite activity', async () => {
+    const lifecycle = new SessionLifecycle({ ...baseConfig, idleTimeoutMs: 1000, maxLifetimeMs: 5000 });
+    const session = openSession(lifecycle, 's1');
+
+    lifecycle.touch('s1', 4900);
+    await lifecycle.sweep(5000);
+
+    expect(session.closed).toEqual(['max_lifetime']);
+  });
+
+  it('should never expire a session with a tool call in flight', async () => {
+    const lifecycle = new SessionLifecycle({ ...baseConfig, idleTimeoutMs: 1000 });
+    const session = openSession(lifecycle, 's1');
+    const endCall = lifecycle.trackCall('s1');
+
+    expect(await lifecycle.sweep(5000)).toBe(0);
+
+    endCall();
+    endCall();
+    expect(lifecycle.inFlight).toBe(0);
+    await lifecycle.sweep(Date.now() + 2000);
+    expect(session.closed).toEqual(['idle_timeout']);
+  });
+
+  it('should report client-initiated closes as client', () => {
+    const lifecycle = new SessionLifecycle(baseConfig);
+    openSession(lifecycle, 's1');
+
+    expect(lifecycle.release('s1')).toEqual({ transport: 'streamable_http', reason: 'client' });
+    expect(lifecycle.release('s1')).toBeUndefined();
+  });
+
+  it('should cap concurrent sessions', () => {
+    const lifecycle = new SessionLifecycle({ ...baseConfig, maxSessions: 2 });
+    openSession(lifecycle, 's1');
+    expect(lifecycle.canAccept()).toBe(true);
+
+    openSession(lifecycle, 's2');
+    expect(lifecycle.canAccept()).toBe(false);
+
+    lifecycle.release('s1');
+    expect(lifecycle.canAccept()).toBe(true);
+  });
+
+  it('should wait for in-flight calls before closing sessions on shutdown', async () => {
+    const lifecycle = new SessionLifecycle(baseConfig);
+    const session = openSession(lifecycle, 's1');
+    const endCall = lifecycle.trackCall('s1');
+
+    const shutdown = lifecycle.shutdown();
+    expect(lifecycle.draining).toBe(true);
+    expect(lifecycle.canAccept()).toBe(false);
+    await Promise.resolve();
+    expect(session.close).not.toHaveBeenCalled();
+
+    endCall();
+    expect(await shutdown).toBe(true);
+    expect(session.closed).toEqual(['shutdown']);
+  });
+
+  it('should close sessions when in-flight calls exceed the shutdown timeout', async () => {
+    vi.useFakeTimers({ toFake: ['setTimeout', 'clearTimeout'] });
+    const lifecycle = new SessionLifecycle({ ...baseConfig, shutdownTimeoutMs: 500 });
+    const session = openSession(lifecycle, 's1');
+    lifecycle.trackCall('s1');
+
+    const shutdown = lifecycle.shutdown();
+    await vi.advanceTimersByTimeAsync(500);
+
+    expect(await shutdown).toBe(false);
+    expect(session.closed).toEqual(['shutdown']);
+  });
+
+  it('should write heartbeat comments only on open event streams', async () => {
+    vi.useFakeTimers();
+    const lifecycle = new SessionLifecycle({ ...baseConfig, heartbeatMs: 1000 });
+    const res = Object.assign(new EventEmitter(), {
+      headersSent: false,
+      writableEnded: false,
+      destroyed: false,
+      getHeader: vi.fn(() => 'text/event-stream'),
+      write: vi.fn(),
+    });
+
+    lifecycle.startHeartbeat(res as any);
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(res.write).not.toHaveBeenCalled();
+
+    res.headersSent = true;
+    await vi.advanceTimersByTimeAsync(1000);
+    expect(res.write).toHaveBeenCalledWith(': heartbeat\n\n');
+
+    res.emit('close');
+    await vi.advanceTimersByTimeAsync(3000);
+    expect(res.write).toHaveBeenCalledTimes(1);
+  });
+});
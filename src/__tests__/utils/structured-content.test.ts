@@ -0,0 +1,68 @@
+import { describe, it, expect } from 'vitest';
+import { toStructuredContent, buildToolResult } from '../../utils/structured-content.js';
+import { limitResponse } from '../../utils/response-limiter.js';
+
+describe('toStructuredContent', () => {
+  it('should return objects unchanged', () => {
+    const data = { id: '1', name: 'WF' };
+    expect(toStructuredContent(data)).toBe(data);
+  });
+
+  it('should wrap arrays as items', () => {
+    expect(toStructuredContent([1, 2])).toEqual({ items: [1, 2] });
+  });
+
+  it('should wrap primitives and null as value', () => {
+    expect(toStructuredContent('ok')).toEqual({ value: 'ok' });
+    expect(toStructuredContent(null)).toEqual({ value: null });
+  });
+});
+
+describe('buildToolResult', () => {
+  it('should return matching text and structuredContent', () => {
+    const result = buildToolResult(limitResponse({ id: '1', name: 'WF' }));
+
+    expect(result.isError).toBeUndefined();
+    expect(result.structuredContent).toEqual({ id: '1', name: 'WF' });
+    expect(JSON.parse((result.content[0] as { text: string }).text)).toEqual({ id: '1', name: 'WF' });
+  });
+
+  it('should keep bare arrays in the text block for existing clients', () => {
+    const result = buildToolResult(limitResponse([{ id: 'c1' }]));
+
+    expect(JSON.parse((result.content[0] as { text: string }).text)).toEqual([{ id: 'c1' }]);
+    expect(result.structuredContent).toEqual({ items: [{ id: 'c1' }] });
+  });
+
+  it('should attach truncation metadata to truncated arrays', () => {
+    const items = Array.from({ length: 10 }, (_, i) => ({ id: String(i), payload: 'x'.repeat(100) }));
+    const result = buildToolResult(limitResponse(items, 500));
+    const structured = result.structuredContent as any;
+
+    expect(structured.items.length).toBeLessThan(10);
+    expect(structured._meta).toMatchObject({ truncated: true, pagination: { total: 10, hasMore: true } });
+    expect(JSON.parse((result.content[0] as { text: string }).text)).toEqual(structured);
+  });
+
+  it('should flag oversized objects as errors without structuredContent', () => {
+    const result = buildToolResult(limitResponse({ blob: 'x'.repeat(1000) }, 100));
+
+    expect(result.isError).toBe(true);
+    expect(result.structuredContent).toBeUndefined();
+    expect((result.content[0] as { text: string }).text).toContain('Response too large');
+  });
+
+  it('should measure the size limit in UTF-8 bytes', () => {
+    // 60 characters, 120 bytes
+    expect(limitResponse({ note: 'é'.repeat(60) }, 100).truncated).toBe(true);
+    expect(limitResponse(['é'.repeat(30), 'é'.repeat(30)], 100).data).toHaveLength(1);
+  });
+
+  it('should serialize circular references safely', () => {
+    const data: any = { id: '1' };
+    data.self = data;
+    const result = buildToolResult({ data, truncated: false, originalSize: 0, truncatedSize: 0 });
+
+    expect(result.structuredContent).toEqual({ id: '1', self: '[Circular]' });
+  });
+});
@@ -0,0 +1,85 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest';
+import {
+  matchesToolPattern,
+  isToolAllowed,
+  filterTools,
+  type ToolFilterConfig,
+} from '../../utils/tool-filter.js';
+
+const tools = [
+  'list_workflows',
+  'get_workflow',
+  'create_workflow',
+  'delete_workflow',
+  'validate_workflow_structure',
+  'lint_workflow',
+  'suggest_workflow_improvements',
+  'diff_workflow_versions',
+  'restore_workflow',
+  'get_credential_schema',
+  'create_credential',
+].map(name => ({ name }));
+
+const config = (overrides: Partial<ToolFilterConfig> = {}): ToolFilterConfig => ({
+  profile: 'full',
+  allowlist: [],
+  denylist: [],
+  ...overrides,
+});
+
+describe('Tool Filter', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  describe('matchesToolPattern', () => {
+    it('should match exact names', () => {
+      expect(matchesToolPattern('get_workflow', 'get_workflow')).toBe(true);
+      expect(matchesToolPattern('get_workflow', 'get_workflows')).toBe(false);
+    });
+
+    it('should match wildcards', () => {
+      expect(matchesToolPattern('get_workflow', 'get_*')).toBe(true);
+      expect(matchesToolPattern('create_credential', '*_credential')).toBe(true);
+      expect(matchesToolPattern('list_workflows', '*')).toBe(true);
+      expect(matchesToolPattern('forget_workflow', 'get_*')).toBe(false);
+    });
+  });
+
+  describe('read-only profile', () => {
+    it('should expose only inspection tools', () => {
+      const exposed = filterTools(tools, config({ profile: 'read-only' })).map(t => t.name);
+
+      expect(exposed).toEqual([
+        'list_workflows',
+        'get_workflow',
+        'validate_workflow_structure',
+        'lint_workflow',
+        'diff_workflow_versions',
+        'get_credential_schema',
+      ]);
+    });
+
+    it('should not allow mutating tools even if allowlisted', () => {
+      const cfg = config({ profile: 'read-only', allowlist: ['delete_workflow'] });
+      expect(isToolAllowed('delete_workflow', cfg)).toBe(false);
+    });
+  });
+
+  describe('allowlist and denylist', () => {
+    it('should restrict to allowlist', () => {
+      const exposed = filterTools(tools, config({ allowlist: ['*_workflow'] })).map(t => t.name);
+      expect(exposed).toEqual(['get_workflow', 'create_workflow', 'delete_workflow', 'lint_workflow', 'restore_workflow']);
+    });
+
+    it('should apply denylist after allowlist', () => {
+      const cfg = config({ allowlist: ['*_workflow'], denylist: ['delete_*', 'restore_workflow'] });
+      expect(filterTools(tools, cfg).map(t => t.name)).toEqual(['get_workflow', 'create_workflow', 'lint_workflow']);
+    });
+
+    it('should warn about patterns matching nothing', () => {
+      filterTools(tools, config({ denylist: ['delete_wokflow'] }));
+      expect(console.warn).toHaveBeenCalledWith(expect.stringContaining('delete_wokflow'));
+    });
+  });
+});
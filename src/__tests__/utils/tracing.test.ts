@@ -0,0 +1,100 @@
+import { describe, it, expect, beforeAll, afterAll, beforeEach } from 'vitest';
+import { promises as fs } from 'fs';
+import os from 'os';
+import path from 'path';
+import axios, { AxiosError, type AxiosAdapter } from 'axios';
+import {
+  NodeTracerProvider,
+  SimpleSpanProcessor,
+  InMemorySpanExporter,
+} from '@opentelemetry/sdk-trace-node';
+import { withSpan, traceAxios, FileSpanExporter } from '../../utils/tracing.js';
+import { addRetryInterceptor } from '../../utils/api-resilience.js';
+
+function statusAdapter(statuses: number[], headers: string[] = []): AxiosAdapter {
+  let call = 0;
+  return async config => {
+    headers.push(String(config.headers.get('traceparent')));
+    const status = statuses[Math.min(call++, statuses.length - 1)];
+    const response = { data: {}, status, statusText: String(status), headers: {}, config };
+    if (status >= 400) {
+      throw new AxiosError('Request failed', String(status), config, null, response);
+    }
+    return response;
+  };
+}
+
+describe('Tracing', () => {
+  const exporter = new InMemorySpanExporter();
+  let provider: NodeTracerProvider;
+
+  beforeAll(() => {
+    provider = new NodeTracerProvider({ spanProcessors: [new SimpleSpanProcessor(exporter)] });
+    provider.register();
+  });
+
+  afterAll(async () => {
+    await provider.shutdown();
+  });
+
+  beforeEach(() => {
+    exporter.reset();
+  });
+
+  const spans = () => exporter.getFinishedSpans();
+  const byName = (name: string) => spans().filter(span => span.name === name);
+
+  it('should nest spans and mark failures', async () => {
+    await expect(withSpan('execute_tool delete_workflow', { 'gen_ai.tool.name': 'delete_workflow' }, async () => {
+      await withSpan('backup.write', {}, async () => {});
+      throw new Error('Workflow 12 not found');
+    })).rejects.toThrow('Workflow 12 not found');
+
+    const [child, parent] = spans();
+    expect(child.parentSpanContext?.spanId).toBe(parent.spanContext().spanId);
+    expect(parent.attributes['gen_ai.tool.name']).toBe('delete_workflow');
+    expect(parent.status).toEqual({ code: 2, message: 'Workflow 12 not found' });
+    expect(parent.events.map(event => event.name)).toEqual(['exception']);
+  });
+
+  it('should trace each attempt and retry backoff under the active span', async () => {
+    const headers: string[] = [];
+    const client = axios.create({ adapter: statusAdapter([503, 200], headers) });
+    traceAxios(client, 'n8n_api');
+    addRetryInterceptor(client, { baseDelayMs: 1 });
+
+    await withSpan('execute_tool activate_workflow', {}, () => client.post('/workflows/12/activate'));
+
+    const [tool] = byName('execute_tool activate_workflow');
+    const attempts = byName('POST /workflows/:id/activate');
+    const [retry] = byName('n8n.retry');
+    expect(attempts.map(span => span.attributes['http.response.status_code'])).toEqual([503, 200]);
+    expect(attempts[1].attributes['http.request.resend_count']).toBe(1);
+    expect(retry.attributes).toMatchObject({ 'n8n.retry.attempt': 1, 'n8n.retry.delay_ms': 1 });
+    for (const span of [...attempts, retry]) {
+      expect(span.parentSpanContext?.spanId).toBe(tool.spanContext().spanId);
+    }
+
+    // n8n receives the attempt's span as traceparent
+    expect(headers[0]).toBe(`00-${tool.spanContext().traceId}-${attempts[0].spanContext().spanId}-01`);
+  });
+
+  it('should write spans to a JSONL file', async () => {
+    const dir = await fs.mkdtemp(path.join(os.tmpdir(), 'mcp-traces-'));
+    const filePath = path.join(dir, 'nested', 'traces.jsonl');
+    await withSpan('backup.list', { 'backup.count': 2 }, async () => {});
+
+    const result = await new Promise(resolve => new FileSpanExporter(filePath).export(spans(), resolve));
+
+    expect(result).toEqual({ code: 0 });
+    const [line] = (await fs.readFile(filePath, 'utf-8')).trim().split('\n').map(l => JSON.parse(l));
+    expect(line).toMatchObject({
+      name: 'backup.list',
+      kind: 'INTERNAL',
+      status: 'UNSET',
+      attributes: { 'backup.count': 2 },
+      traceId: expect.stringMatching(/^[0-9a-f]{32}$/),
+    });
+    await fs.rm(dir, { recursive: true, force: true });
+  });
+});
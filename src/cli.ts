@@ -0,0 +1,262 @@
+import { readFile } from 'fs/promises';
+import { parseArgs } from 'util';
+import type { Tool } from '@modelcontextprotocol/sdk/types.js';
+import { safeStringify } from './utils/safe-json.js';
+import { isPendingApproval } from './services/approval-service.js';
+
+export const CLI_USAGE = `Usage:
+  n8n-custom-mcp                        Start the MCP server (stdio or HTTP, see MCP_TRANSPORT)
+  n8n-custom-mcp tools [-o json|table]  List the available tools and their schemas
+  n8n-custom-mcp call <tool> [options]  Run a tool and print its result
+
+Options for call:
+  -a, --arg key=value     Argument as a string (numbers and booleans are converted by the tool schema)
+  -a, --arg key:=<json>   Argument as JSON (objects, arrays)
+  --json <file>           Arguments from a JSON object file ("-" reads stdin); --arg values override it
+  -o, --output json|table Output format (default: json)
+
+Every command loads the server configuration: N8N_API_KEY (or n8n.apiKey in MCP_CONFIG_FILE) is required.
+
+Exit codes: 0 success, 1 tool error or call held for approval, 2 invalid command line`;
+
+// First argument selecting the CLI instead of the server
+const CLI_COMMANDS = new Set(['call', 'tools', 'help', '--help', '-h']);
+
+// Table cells longer than this are cut (use --output json for full values)
+const MAX_CELL_WIDTH = 60;
+
+/**
+ * Invalid command line (exit code 2)
+ */
+export class CliUsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CliUsageError';
+  }
+}
+
+export interface CliDependencies {
+  /** Tools exposed by the server (after profile / allowlist / denylist) */
+  tools: Tool[];
+  /** Runs a tool like an MCP tools/call (same validation, dispatch and audit log) */
+  executeTool: (name: string, args: Record<string, unknown>) => Promise<unknown>;
+  stdout?: (text: string) => void;
+  stderr?: (text: string) => void;
+  /** Reads the --json file; "-" is stdin */
+  readArgsFile?: (file: string) => Promise<string>;
+}
+
+type OutputFormat = 'json' | 'table';
+
+interface CallCommand {
+  tool: string;
+  args: Record<string, unknown>;
+  output: OutputFormat;
+}
+
+/**
+ * Whether the command line asks for the CLI rather than the server
+ */
+export function isCliCommand(argv: string[]): boolean {
+  return argv.length > 0 && CLI_COMMANDS.has(argv[0]);
+}
+
+/**
+ * Run a CLI command
+ * @returns Process exit code
+ */
+export async function runCli(argv: string[], deps: CliDependencies): Promise<number> {
+  const stdout = deps.stdout ?? (text => process.stdout.write(text));
+  const stderr = deps.stderr ?? (text => process.stderr.write(text));
+  const [command, ...rest] = argv;
+
+  try {
+    if (command === 'tools') {
+      const { values } = parseCommandLine(rest, false);
+      const output = parseOutputFormat(values.output);
+      stdout(output === 'table'
+        ? formatTable(deps.tools.map(tool => ({ name: tool.name, description: firstSentence(tool.description) })))
+        : safeStringify(deps.tools, 2) + '\n');
+      return 0;
+    }
+    if (command === 'call') {
+      const call = await parseCallCommand(rest, deps.readArgsFile ?? readArgsFile);
+      if (!deps.tools.some(tool => tool.name === call.tool)) {
+        throw new CliUsageError(`Unknown tool: ${call.tool} (see "n8n-custom-mcp tools")`);
+      }
+      return await runCall(call, deps, stdout, stderr);
+    }
+    stdout(CLI_USAGE + '\n');
+    return 0;
+  } catch (error) {
+    if (error instanceof CliUsageError) {
+      stderr(`Error: ${error.message}\nRun "n8n-custom-mcp help" for usage.\n`);
+      return 2;
+    }
+    throw error;
+  }
+}
+
+async function runCall(
+  { tool, args, output }: CallCommand,
+  deps: CliDependencies,
+  stdout: (text: string) => void,
+  stderr: (text: string) => void
+): Promise<number> {
+  let result: unknown;
+  try {
+    result = await deps.executeTool(tool, args);
+  } catch (error) {
+    stderr(`Error: ${error instanceof Error ? error.message : String(error)}\n`);
+    return 1;
+  }
+
+  // Pending approvals live in the server's memory: the approval ID dies with this process
+  if (isPendingApproval(result)) {
+    stderr(`Error: ${tool} requires human approval and has not run; run it through the MCP server instead\n`);
+    return 1;
+  }
+
+  stdout(output === 'table' ? formatTable(result) : safeStringify(result, 2) + '\n');
+  return 0;
+}
+
+/**
+ * Parse `call` options: tool name, --arg, --json and --output
+ * @throws CliUsageError on unknown options, malformed --arg values or an invalid --json file
+ */
+export async function parseCallCommand(
+  argv: string[],
+  readArgs: (file: string) => Promise<string> = readArgsFile
+): Promise<CallCommand> {
+  const { values, positionals } = parseCommandLine(argv, true);
+  if (positionals.length !== 1) {
+    throw new CliUsageError(positionals.length === 0 ? 'Missing tool name' : `Unexpected argument: ${positionals[1]}`);
+  }
+
+  let args: Record<string, unknown> = {};
+  if (values.json !== undefined) {
+    let content: string;
+    try {
+      content = await readArgs(values.json);
+    } catch (error) {
+      throw new CliUsageError(`Cannot read --json ${values.json}: ${(error as Error).message}`);
+    }
+    const parsed = parseJson(content, `--json ${values.json}`);
+    if (parsed === null || typeof parsed !== 'object' || Array.isArray(parsed)) {
+      throw new CliUsageError(`--json ${values.json} must contain a JSON object`);
+    }
+    args = parsed as Record<string, unknown>;
+  }
+
+  for (const pair of values.arg ?? []) {
+    const match = /^([^=:]+)(:?=)(.*)$/s.exec(pair);
+    if (!match) {
+      throw new CliUsageError(`Invalid --arg "${pair}": expected key=value or key:=<json>`);
+    }
+    const [, key, operator, value] = match;
+    args[key] = operator === ':=' ? parseJson(value, `--arg ${key}`) : value;
+  }
+
+  return { tool: positionals[0], args, output: parseOutputFormat(values.output) };
+}
+
+function parseCommandLine(argv: string[], allowPositionals: boolean) {
+  try {
+    return parseArgs({
+      args: argv,
+      options: {
+        arg: { type: 'string', short: 'a', multiple: true },
+        json: { type: 'string' },
+        output: { type: 'string', short: 'o' },
+      },
+      allowPositionals,
+      strict: true,
+    });
+  } catch (error) {
+    throw new CliUsageError((error as Error).message);
+  }
+}
+
+function parseOutputFormat(value: string | undefined): OutputFormat {
+  if (value === undefined || value === 'json' || value === 'table') {
+    return value ?? 'json';
+  }
+  throw new CliUsageError(`Invalid --output "${value}": expected json or table`);
+}
+
+function parseJson(text: string, source: string): unknown {
+  try {
+    return JSON.parse(text);
+  } catch (error) {
+    throw new CliUsageError(`Invalid JSON in ${source}: ${(error as Error).message}`);
+  }
+}
+
+async function readArgsFile(file: string): Promise<string> {
+  if (file !== '-') {
+    return readFile(file, 'utf-8');
+  }
+  const chunks: Buffer[] = [];
+  for await (const chunk of process.stdin) {
+    chunks.push(chunk as Buffer);
+  }
+  return Buffer.concat(chunks).toString('utf-8');
+}
+
+// ===== TABLE OUTPUT =====
+
+/**
+ * Render a tool result as text tables
+ * - Array of objects: one row per item
+ * - Object: KEY/VALUE rows for its fields, plus one titled table per array-of-objects field
+ * Nested values are shown as compact JSON, cut at MAX_CELL_WIDTH characters
+ */
+export function formatTable(data: unknown): string {
+  if (isRowList(data)) {
+    return renderRows(data);
+  }
+  if (data === null || typeof data !== 'object') {
+    return `${formatCell(data)}\n`;
+  }
+
+  const fields: Record<string, unknown>[] = [];
+  const lists: string[] = [];
+  for (const [key, value] of Object.entries(data)) {
+    if (isRowList(value) && value.length > 0) {
+      lists.push(`${key} (${value.length})\n${renderRows(value)}`);
+    } else {
+      fields.push({ key, value });
+    }
+  }
+  return [...(fields.length > 0 ? [renderRows(fields)] : []), ...lists].join('\n');
+}
+
+function isRowList(value: unknown): value is Record<string, unknown>[] {
+  return Array.isArray(value) && value.every(item => item !== null && typeof item === 'object' && !Array.isArray(item));
+}
+
+function renderRows(rows: Record<string, unknown>[]): string {
+  if (rows.length === 0) {
+    return '(no results)\n';
+  }
+  const columns = [...new Set(rows.flatMap(row => Object.keys(row)))];
+  const cells = rows.map(row => columns.map(column => formatCell(row[column])));
+  const headers = columns.map(column => column.toUpperCase());
+  const widths = columns.map((_, i) => Math.max(headers[i].length, ...cells.map(row => row[i].length)));
+
+  const line = (values: string[]) => values.map((value, i) => value.padEnd(widths[i])).join('  ').trimEnd();
+  return [line(headers), ...cells.map(line)].join('\n') + '\n';
+}
+
+function formatCell(value: unknown): string {
+  const text = value === undefined || value === null
+    ? ''
+    : typeof value === 'object' ? safeStringify(value, 0) : String(value);
+  const singleLine = text.replace(/\s*\n\s*/g, ' ');
+  return singleLine.length > MAX_CELL_WIDTH ? `${singleLine.slice(0, MAX_CELL_WIDTH - 1)}…` : singleLine;
+}
+
+function firstSentence(description: string | undefined): string {
+  return (description ?? '').split(/(?<=\.)\s/)[0];
+}
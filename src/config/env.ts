@@ -1,76 +1,139 @@
 import axios, { AxiosInstance } from 'axios';
 import { addRetryInterceptor, createApiKeyRefreshHandler } from '../utils/api-resilience.js';
+import { instrumentAxios } from '../utils/metrics.js';
+import { traceAxios } from '../utils/tracing.js';
+import { serverConfig } from './server-config.js';
+import { logger, currentRequestId } from '../utils/logger.js';
 
-// Environment variables
-export const N8N_HOST = (process.env.N8N_HOST || 'http://localhost:5678').trim().replace(/\/$/, '');
-export const N8N_API_KEY = process.env.N8N_API_KEY?.trim();
+// n8n connection (config file, overridden by N8N_HOST / N8N_API_KEY)
+export const N8N_HOST = normalizeHost(serverConfig.n8n.host);
+export const N8N_API_KEY = serverConfig.n8n.apiKey?.trim();
 
 if (!N8N_API_KEY) {
-  throw new Error("N8N_API_KEY environment variable is required");
+  throw new Error("N8N_API_KEY environment variable (or n8n.apiKey in MCP_CONFIG_FILE) is required");
 }
 
 // Size limits
-const MAX_BODY_LENGTH = 50 * 1024 * 1024;     // 50MB
-const MAX_CONTENT_LENGTH = 50 * 1024 * 1024;  // 50MB
-const REQUEST_TIMEOUT = 30000;                 // 30 seconds
-
-// n8n API client with authentication
-export const n8nClient: AxiosInstance = axios.create({
-  baseURL: `${N8N_HOST}/api/v1`,
-  headers: {
-    'X-N8N-API-KEY': N8N_API_KEY,
-    'Content-Type': 'application/json',
-  },
-  timeout: REQUEST_TIMEOUT,
-  timeoutErrorMessage: 'Request timed out after 30 seconds',
-  maxBodyLength: MAX_BODY_LENGTH,
-  maxContentLength: MAX_CONTENT_LENGTH,
-});
+const MAX_BODY_LENGTH = serverConfig.n8n.maxBodyBytes;        // 50MB by default
+const MAX_CONTENT_LENGTH = serverConfig.n8n.maxContentBytes;  // 50MB by default
+const REQUEST_TIMEOUT = serverConfig.n8n.requestTimeoutMs;    // 30 seconds by default
+const TIMEOUT_MESSAGE = `Request timed out after ${REQUEST_TIMEOUT / 1000} seconds`;
 
-// Webhook client without authentication (simulates external requests)
-export const webhookClient: AxiosInstance = axios.create({
-  baseURL: N8N_HOST,
-  headers: {
-    'Content-Type': 'application/json',
-  },
-  timeout: REQUEST_TIMEOUT,
-  timeoutErrorMessage: 'Request timed out after 30 seconds',
-  maxBodyLength: MAX_BODY_LENGTH,
-  maxContentLength: MAX_CONTENT_LENGTH,
-});
+/**
+ * HTTP clients for one n8n instance
+ */
+export interface N8nClients {
+  host: string;
+  n8nClient: AxiosInstance;       // REST API v1 with authentication
+  webhookClient: AxiosInstance;   // Webhooks without authentication
+}
+
+export interface N8nClientOptions {
+  host: string;
+  apiKey: string;
+  /** Returns a rotated API key, or null to keep the current one */
+  refreshApiKey?: () => Promise<string | null>;
+}
+
+/**
+ * Strip whitespace and the trailing slash from an n8n base URL
+ */
+export function normalizeHost(host: string): string {
+  return host.trim().replace(/\/$/, '');
+}
+
+/**
+ * Create the API and webhook clients for an n8n instance
+ * (size limits, timeouts, metrics, tracing, retries and key rotation)
+ */
+export function createN8nClients({ host, apiKey, refreshApiKey }: N8nClientOptions): N8nClients {
+  const baseHost = normalizeHost(host);
+
+  // n8n API client with authentication
+  const n8nClient = axios.create({
+    baseURL: `${baseHost}/api/v1`,
+    headers: {
+      'X-N8N-API-KEY': apiKey,
+      'Content-Type': 'application/json',
+    },
+    timeout: REQUEST_TIMEOUT,
+    timeoutErrorMessage: TIMEOUT_MESSAGE,
+    maxBodyLength: MAX_BODY_LENGTH,
+    maxContentLength: MAX_CONTENT_LENGTH,
+  });
+
+  // Webhook client without authentication (simulates external requests)
+  const webhookClient = axios.create({
+    baseURL: baseHost,
+    headers: {
+      'Content-Type': 'application/json',
+    },
+    timeout: REQUEST_TIMEOUT,
+    timeoutErrorMessage: TIMEOUT_MESSAGE,
+    maxBodyLength: MAX_BODY_LENGTH,
+    maxContentLength: MAX_CONTENT_LENGTH,
+  });
 
-// Add response interceptor for better error messages
-n8nClient.interceptors.response.use(
-  response => response,
-  error => {
-    if (error.code === 'ERR_FR_MAX_BODY_LENGTH_EXCEEDED') {
-      error.message = `Request body too large. Maximum size: ${MAX_BODY_LENGTH / 1024 / 1024}MB`;
+  // Record request count and latency per attempt (must run before the retry interceptor)
+  instrumentAxios(n8nClient);
+
+  // One span per attempt, under the tool call's span (must also run before the retry interceptor)
+  traceAxios(n8nClient, 'n8n_api');
+  traceAxios(webhookClient, 'webhook');
+
+  // Correlate n8n requests (and their log entries) with the tool call that made them
+  n8nClient.interceptors.request.use(config => {
+    const requestId = currentRequestId();
+    if (requestId) {
+      config.headers.set('X-Request-Id', requestId);
     }
-    if (error.code === 'ERR_FR_MAX_CONTENT_LENGTH_EXCEEDED') {
-      error.message = `Response body too large. Maximum size: ${MAX_CONTENT_LENGTH / 1024 / 1024}MB`;
+    logger.debug('n8n API request', { method: config.method?.toUpperCase(), url: config.url });
+    return config;
+  });
+
+  // Add response interceptor for better error messages
+  n8nClient.interceptors.response.use(
+    response => response,
+    error => {
+      if (error.code === 'ERR_FR_MAX_BODY_LENGTH_EXCEEDED') {
+        error.message = `Request body too large. Maximum size: ${MAX_BODY_LENGTH / 1024 / 1024}MB`;
+      }
+      if (error.code === 'ERR_FR_MAX_CONTENT_LENGTH_EXCEEDED') {
+        error.message = `Response body too large. Maximum size: ${MAX_CONTENT_LENGTH / 1024 / 1024}MB`;
+      }
+      return Promise.reject(error);
     }
-    return Promise.reject(error);
-  }
-);
+  );
 
-// Add retry interceptor for resilience
-addRetryInterceptor(n8nClient, {
-  maxRetries: 3,
-  baseDelayMs: 100,
-  retryableStatuses: [408, 429, 500, 502, 503, 504],
-});
+  // Add retry interceptor for resilience
+  addRetryInterceptor(n8nClient, serverConfig.retry);
 
-// Add API key refresh handler (for dynamic key rotation)
-createApiKeyRefreshHandler(n8nClient, async () => {
-  // Re-read from environment (supports .env reload)
-  const newKey = process.env.N8N_API_KEY?.trim();
-  if (newKey && newKey !== N8N_API_KEY) {
-    console.log('Detected new API key in environment');
-    return newKey;
+  // Add API key refresh handler (for dynamic key rotation)
+  if (refreshApiKey) {
+    createApiKeyRefreshHandler(n8nClient, refreshApiKey);
   }
-  return null;
+
+  return { host: baseHost, n8nClient, webhookClient };
+}
+
+// Clients for the instance configured by N8N_HOST / N8N_API_KEY
+export const defaultClients: N8nClients = createN8nClients({
+  host: N8N_HOST,
+  apiKey: N8N_API_KEY,
+  refreshApiKey: async () => {
+    // Re-read from environment (supports .env reload)
+    const newKey = process.env.N8N_API_KEY?.trim();
+    if (newKey && newKey !== N8N_API_KEY) {
+      logger.info('Detected new API key in environment');
+      return newKey;
+    }
+    return null;
+  },
 });
 
+export const n8nClient: AxiosInstance = defaultClients.n8nClient;
+export const webhookClient: AxiosInstance = defaultClients.webhookClient;
+
 // Export limits for external use
 export const API_LIMITS = {
   MAX_BODY_LENGTH,
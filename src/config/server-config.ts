@@ -0,0 +1,478 @@
+import { readFileSync } from 'fs';
+import path from 'path';
+import { z } from 'zod';
+import YAML from 'yaml';
+
+const port = z.number().int().min(1).max(65535);
+const nonNegativeInt = z.number().int().min(0);
+
+/**
+ * Tool calls held for human approval: every listed argument must equal the call's
+ * (after coercion) and `instance` must match the resolved n8n instance name
+ */
+const approvalRuleSchema = z.object({
+  tool: z.string().min(1),
+  instance: z.string().min(1).optional(),
+  args: z.record(z.union([z.string(), z.number(), z.boolean()])).optional(),
+}).strict();
+
+export type ApprovalRule = z.infer<typeof approvalRuleSchema>;
+
+/**
+ * Schema of the configuration file (MCP_CONFIG_FILE, JSON or YAML)
+ * Every section is optional in the file; unknown keys are rejected so typos fail at startup
+ */
+export const serverConfigSchema = z.object({
+  server: z.object({
+    transport: z.enum(['stdio', 'sse']),
+    port,
+  }).strict(),
+  logging: z.object({
+    level: z.enum(['debug', 'info', 'warn', 'error']),
+    format: z.enum(['json', 'text']),
+  }).strict(),
+  n8n: z.object({
+    host: z.string().regex(/^https?:\/\/\S+$/, 'must be an http(s) URL'),
+    apiKey: z.string().min(1).optional(),
+    requestTimeoutMs: z.number().int().positive(),
+    maxBodyBytes: z.number().int().positive(),
+    maxContentBytes: z.number().int().positive(),
+  }).strict(),
+  instances: z.object({
+    defaultName: z.string().min(1),
+    // Entries are validated by parseInstanceProfiles (apiKeyEnv lookups, per-instance backup roots)
+    profiles: z.array(z.record(z.unknown())),
+    profilesFile: z.string().min(1).optional(),
+  }).strict(),
+  retry: z.object({
+    maxRetries: z.number().int().min(0).max(10),
+    baseDelayMs: z.number().int().min(0),
+    maxDelayMs: z.number().int().min(0),
+    retryableStatuses: z.array(z.number().int().min(400).max(599)),
+  }).strict(),
+  backups: z.object({
+    root: z.string().min(1),
+  }).strict(),
+  cache: z.object({
+    credentialsTtlSeconds: z.number().min(0),
+    templatesTtlSeconds: z.number().min(0),
+  }).strict(),
+  responses: z.object({
+    maxResponseBytes: z.number().int().positive(),
+    warnThresholdBytes: z.number().int().positive(),
+    maxItemsPerPage: z.number().int().positive(),
+    continuationTtlMs: z.number().int().positive(),
+    maxContinuations: z.number().int().min(0),
+    maxContinuationBytes: z.number().int().positive(),
+  }).strict(),
+  tools: z.object({
+    profile: z.enum(['full', 'read-only']),
+    allowlist: z.array(z.string().min(1)),
+    denylist: z.array(z.string().min(1)),
+    pluginDir: z.string().min(1).optional(),
+  }).strict(),
+  auth: z.object({
+    // Entries are validated by parseAuthTokens (scopes, token length, bound n8n credentials)
+    tokens: z.array(z.record(z.unknown())),
+    tokensFile: z.string().min(1).optional(),
+  }).strict(),
+  sessions: z.object({
+    idleTimeoutMs: nonNegativeInt,
+    maxLifetimeMs: nonNegativeInt,
+    maxSessions: nonNegativeInt,
+    heartbeatMs: nonNegativeInt,
+    shutdownTimeoutMs: nonNegativeInt,
+    allowedN8nHosts: z.array(z.string().min(1)),
+    requireN8nCredentials: z.boolean(),
+  }).strict(),
+  rateLimits: z.object({
+    perMinute: nonNegativeInt,
+    burst: nonNegativeInt,
+    expensivePerMinute: nonNegativeInt,
+    expensiveBurst: nonNegativeInt,
+    expensiveTools: z.array(z.string().min(1)),
+    maxConcurrent: nonNegativeInt,
+    scope: z.enum(['token', 'session']),
+  }).strict(),
+  audit: z.object({
+    enabled: z.boolean(),
+    filePath: z.string().min(1),
+    securityFilePath: z.string().min(1),
+    maxFileSize: z.number().int().positive(),
+    maxFiles: z.number().int().positive(),
+  }).strict(),
+  approvals: z.object({
+    rules: z.array(approvalRuleSchema),
+    ttlMs: z.number().int().positive(),
+    maxPending: z.number().int().positive(),
+  }).strict(),
+  tracing: z.object({
+    exporter: z.enum(['none', 'otlp', 'file']),
+    otlpEndpoint: z.string().regex(/^https?:\/\/\S+$/, 'must be an http(s) URL'),
+    filePath: z.string().min(1),
+    serviceName: z.string().min(1),
+    sampleRatio: z.number().min(0).max(1),
+  }).strict(),
+  health: z.object({
+    timeoutMs: z.number().int().positive(),
+    cacheMs: nonNegativeInt,
+    checkTemplates: z.boolean(),
+  }).strict(),
+  database: z.object({
+    host: z.string().min(1),
+    port,
+    database: z.string().min(1),
+    user: z.string().min(1),
+    password: z.string(),
+  }).strict(),
+}).strict();
+
+export type ServerConfig = z.infer<typeof serverConfigSchema>;
+
+export const DEFAULT_SERVER_CONFIG: ServerConfig = {
+  server: {
+    transport: 'stdio',
+    port: 3000,
+  },
+  logging: {
+    level: 'info',
+    format: 'json',         // One JSON object per line on stderr
+  },
+  n8n: {
+    host: 'http://localhost:5678',
+    requestTimeoutMs: 30000,
+    maxBodyBytes: 50 * 1024 * 1024,
+    maxContentBytes: 50 * 1024 * 1024,
+  },
+  instances: {
+    defaultName: 'default',                    // Name of the n8n.host / n8n.apiKey instance
+    profiles: [],                              // Only the default instance
+  },
+  retry: {
+    maxRetries: 3,
+    baseDelayMs: 100,
+    maxDelayMs: 2000,
+    retryableStatuses: [408, 429, 500, 502, 503, 504],
+  },
+  backups: {
+    root: '/app/backups',
+  },
+  cache: {
+    credentialsTtlSeconds: 5,     // Credentials are sensitive: keep them briefly
+    templatesTtlSeconds: 3600,
+  },
+  responses: {
+    maxResponseBytes: 1024 * 1024,
+    warnThresholdBytes: 512 * 1024,
+    maxItemsPerPage: 100,
+    continuationTtlMs: 10 * 60 * 1000,        // Cursors of truncated responses expire after 10 minutes
+    maxContinuations: 100,                     // 0 disables continuation cursors
+    maxContinuationBytes: 50 * 1024 * 1024,
+  },
+  tools: {
+    profile: 'full',
+    allowlist: [],                             // Empty: every tool of the profile
+    denylist: [],
+  },
+  auth: {
+    tokens: [],                                // No tokens: HTTP endpoints are unauthenticated
+  },
+  sessions: {
+    idleTimeoutMs: 30 * 60 * 1000,             // 0 disables a limit
+    maxLifetimeMs: 0,
+    maxSessions: 0,
+    heartbeatMs: 30 * 1000,
+    shutdownTimeoutMs: 30 * 1000,
+    allowedN8nHosts: [],                       // Session credentials may only target n8n.host
+    requireN8nCredentials: false,
+  },
+  rateLimits: {
+    perMinute: 0,                              // 0 disables a limit
+    burst: 0,                                  // 0: same as perMinute
+    expensivePerMinute: 0,
+    expensiveBurst: 0,
+    expensiveTools: ['execute_workflow', 'trigger_webhook', 'test_credential', 'list_credentials'],
+    maxConcurrent: 0,
+    scope: 'token',
+  },
+  audit: {
+    enabled: true,
+    filePath: '/app/audit/audit.jsonl',
+    securityFilePath: '/app/audit/security.jsonl', // Security events, rotated separately from tool calls
+    maxFileSize: 10 * 1024 * 1024,             // Rotated to audit.jsonl.1 beyond this size
+    maxFiles: 5,
+  },
+  approvals: {
+    rules: [],                                 // No call needs approval by default
+    ttlMs: 60 * 60 * 1000,                     // Pending operations expire after 1 hour
+    maxPending: 100,
+  },
+  tracing: {
+    exporter: 'none',                          // Spans are only created when an exporter is set
+    otlpEndpoint: 'http://localhost:4318/v1/traces',
+    filePath: '/app/traces/traces.jsonl',
+    serviceName: 'n8n-custom-mcp',
+    sampleRatio: 1,
+  },
+  health: {
+    timeoutMs: 5000,
+    cacheMs: 5000,                             // Frequent probes reuse the last result
+    checkTemplates: false,
+  },
+  database: {
+    host: 'localhost',
+    port: 5432,
+    database: 'n8n',
+    user: 'n8n',
+    password: '',
+  },
+};
+
+// strings/numbers: comma-separated lists; boolean: true/false, on/off or 1/0
+type EnvValueType = 'string' | 'strings' | 'number' | 'numbers' | 'boolean' | 'json';
+
+/**
+ * Environment variables overriding config file values (path in the config → variable)
+ */
+export const CONFIG_ENV_OVERRIDES: Record<string, { env: string; type: EnvValueType }> = {
+  'server.transport': { env: 'MCP_TRANSPORT', type: 'string' },
+  'server.port': { env: 'PORT', type: 'number' },
+  'logging.level': { env: 'MCP_LOG_LEVEL', type: 'string' },
+  'logging.format': { env: 'MCP_LOG_FORMAT', type: 'string' },
+  'n8n.host': { env: 'N8N_HOST', type: 'string' },
+  'n8n.apiKey': { env: 'N8N_API_KEY', type: 'string' },
+  'n8n.requestTimeoutMs': { env: 'N8N_REQUEST_TIMEOUT_MS', type: 'number' },
+  'n8n.maxBodyBytes': { env: 'N8N_MAX_BODY_BYTES', type: 'number' },
+  'n8n.maxContentBytes': { env: 'N8N_MAX_CONTENT_BYTES', type: 'number' },
+  'instances.defaultName': { env: 'N8N_INSTANCE_NAME', type: 'string' },
+  'instances.profiles': { env: 'N8N_INSTANCES', type: 'json' },
+  'instances.profilesFile': { env: 'N8N_INSTANCES_FILE', type: 'string' },
+  'retry.maxRetries': { env: 'N8N_RETRY_MAX_RETRIES', type: 'number' },
+  'retry.baseDelayMs': { env: 'N8N_RETRY_BASE_DELAY_MS', type: 'number' },
+  'retry.maxDelayMs': { env: 'N8N_RETRY_MAX_DELAY_MS', type: 'number' },
+  'retry.retryableStatuses': { env: 'N8N_RETRY_STATUSES', type: 'numbers' },
+  'backups.root': { env: 'MCP_BACKUP_ROOT', type: 'string' },
+  'cache.credentialsTtlSeconds': { env: 'MCP_CREDENTIALS_CACHE_TTL_SECONDS', type: 'number' },
+  'cache.templatesTtlSeconds': { env: 'MCP_TEMPLATES_CACHE_TTL_SECONDS', type: 'number' },
+  'responses.maxResponseBytes': { env: 'MCP_MAX_RESPONSE_BYTES', type: 'number' },
+  'responses.warnThresholdBytes': { env: 'MCP_RESPONSE_WARN_BYTES', type: 'number' },
+  'responses.maxItemsPerPage': { env: 'MCP_MAX_ITEMS_PER_PAGE', type: 'number' },
+  'responses.continuationTtlMs': { env: 'MCP_CONTINUATION_TTL_MS', type: 'number' },
+  'responses.maxContinuations': { env: 'MCP_MAX_CONTINUATIONS', type: 'number' },
+  'responses.maxContinuationBytes': { env: 'MCP_MAX_CONTINUATION_BYTES', type: 'number' },
+  'tools.profile': { env: 'MCP_TOOL_PROFILE', type: 'string' },
+  'tools.allowlist': { env: 'MCP_TOOL_ALLOWLIST', type: 'strings' },
+  'tools.denylist': { env: 'MCP_TOOL_DENYLIST', type: 'strings' },
+  'tools.pluginDir': { env: 'MCP_PLUGIN_DIR', type: 'string' },
+  'auth.tokens': { env: 'MCP_AUTH_TOKENS', type: 'json' },
+  'auth.tokensFile': { env: 'MCP_AUTH_TOKENS_FILE', type: 'string' },
+  'sessions.idleTimeoutMs': { env: 'MCP_SESSION_IDLE_TIMEOUT_MS', type: 'number' },
+  'sessions.maxLifetimeMs': { env: 'MCP_SESSION_MAX_LIFETIME_MS', type: 'number' },
+  'sessions.maxSessions': { env: 'MCP_MAX_SESSIONS', type: 'number' },
+  'sessions.heartbeatMs': { env: 'MCP_SSE_HEARTBEAT_MS', type: 'number' },
+  'sessions.shutdownTimeoutMs': { env: 'MCP_SHUTDOWN_TIMEOUT_MS', type: 'number' },
+  'sessions.allowedN8nHosts': { env: 'MCP_SESSION_N8N_HOSTS', type: 'strings' },
+  'sessions.requireN8nCredentials': { env: 'MCP_REQUIRE_SESSION_CREDENTIALS', type: 'boolean' },
+  'rateLimits.perMinute': { env: 'MCP_RATE_LIMIT_PER_MINUTE', type: 'number' },
+  'rateLimits.burst': { env: 'MCP_RATE_LIMIT_BURST', type: 'number' },
+  'rateLimits.expensivePerMinute': { env: 'MCP_EXPENSIVE_RATE_LIMIT_PER_MINUTE', type: 'number' },
+  'rateLimits.expensiveBurst': { env: 'MCP_EXPENSIVE_RATE_LIMIT_BURST', type: 'number' },
+  'rateLimits.expensiveTools': { env: 'MCP_EXPENSIVE_TOOLS', type: 'strings' },
+  'rateLimits.maxConcurrent': { env: 'MCP_MAX_CONCURRENT_CALLS', type: 'number' },
+  'rateLimits.scope': { env: 'MCP_RATE_LIMIT_SCOPE', type: 'string' },
+  'audit.enabled': { env: 'MCP_AUDIT_LOG', type: 'boolean' },
+  'audit.filePath': { env: 'MCP_AUDIT_LOG_FILE', type: 'string' },
+  'audit.securityFilePath': { env: 'MCP_AUDIT_SECURITY_LOG_FILE', type: 'string' },
+  'audit.maxFileSize': { env: 'MCP_AUDIT_LOG_MAX_SIZE', type: 'number' },
+  'audit.maxFiles': { env: 'MCP_AUDIT_LOG_MAX_FILES', type: 'number' },
+  'approvals.rules': { env: 'MCP_APPROVAL_RULES', type: 'json' },
+  'approvals.ttlMs': { env: 'MCP_APPROVAL_TTL_MS', type: 'number' },
+  'approvals.maxPending': { env: 'MCP_MAX_PENDING_APPROVALS', type: 'number' },
+  'tracing.exporter': { env: 'MCP_TRACING_EXPORTER', type: 'string' },
+  'tracing.otlpEndpoint': { env: 'OTEL_EXPORTER_OTLP_TRACES_ENDPOINT', type: 'string' },
+  'tracing.filePath': { env: 'MCP_TRACING_FILE', type: 'string' },
+  'tracing.serviceName': { env: 'OTEL_SERVICE_NAME', type: 'string' },
+  'tracing.sampleRatio': { env: 'MCP_TRACING_SAMPLE_RATIO', type: 'number' },
+  'health.timeoutMs': { env: 'MCP_HEALTH_TIMEOUT_MS', type: 'number' },
+  'health.cacheMs': { env: 'MCP_HEALTH_CACHE_MS', type: 'number' },
+  'health.checkTemplates': { env: 'MCP_HEALTH_CHECK_TEMPLATES', type: 'boolean' },
+  'database.host': { env: 'DB_POSTGRESDB_HOST', type: 'string' },
+  'database.port': { env: 'DB_POSTGRESDB_PORT', type: 'number' },
+  'database.database': { env: 'DB_POSTGRESDB_DATABASE', type: 'string' },
+  'database.user': { env: 'DB_POSTGRESDB_USER', type: 'string' },
+  'database.password': { env: 'DB_POSTGRESDB_PASSWORD', type: 'string' },
+};
+
+// Shown as [REDACTED] by get_server_config ("*" matches every array entry)
+const SECRET_PATHS = [
+  'n8n.apiKey',
+  'database.password',
+  'auth.tokens.*.token',
+  'auth.tokens.*.n8n.apiKey',
+  'instances.profiles.*.apiKey',
+];
+
+export type ConfigSource = 'default' | 'file' | 'env';
+
+/**
+ * Effective configuration and where each value came from
+ */
+export interface LoadedServerConfig {
+  config: ServerConfig;
+  file?: string;
+  sources: Record<string, ConfigSource>;
+}
+
+/**
+ * Read and parse the configuration file (.json, .yaml or .yml)
+ * @throws Error when the file cannot be read or parsed, or is not an object
+ */
+export function readConfigFile(file: string): Record<string, unknown> {
+  const extension = path.extname(file).toLowerCase();
+  if (!['.json', '.yaml', '.yml'].includes(extension)) {
+    throw new Error(`Invalid configuration file ${file}: must be .json, .yaml or .yml`);
+  }
+
+  let parsed: unknown;
+  try {
+    const raw = readFileSync(file, 'utf-8');
+    parsed = extension === '.json' ? JSON.parse(raw) : YAML.parse(raw);
+  } catch (error) {
+    throw new Error(`Invalid configuration file ${file}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  if (!isPlainObject(parsed)) {
+    throw new Error(`Invalid configuration file ${file}: must contain an object`);
+  }
+  return parsed;
+}
+
+/**
+ * Build the effective configuration: defaults, then MCP_CONFIG_FILE, then environment variables
+ * @throws Error listing every invalid setting (fail fast at startup)
+ */
+export function loadServerConfig(env: NodeJS.ProcessEnv = process.env): LoadedServerConfig {
+  const file = env.MCP_CONFIG_FILE?.trim() || undefined;
+  const fileValues = file ? readConfigFile(file) : {};
+
+  const sources: Record<string, ConfigSource> = {};
+  for (const key of leafPaths(DEFAULT_SERVER_CONFIG)) {
+    sources[key] = 'default';
+  }
+  for (const key of leafPaths(fileValues)) {
+    sources[key] = 'file';
+  }
+
+  const merged = mergeConfig(DEFAULT_SERVER_CONFIG, fileValues);
+  for (const [key, { env: name, type }] of Object.entries(CONFIG_ENV_OVERRIDES)) {
+    const raw = env[name]?.trim();
+    if (!raw) {
+      continue;
+    }
+    setPath(merged, key, parseEnvValue(raw, type, name));
+    sources[key] = 'env';
+  }
+
+  const result = serverConfigSchema.safeParse(merged);
+  if (!result.success) {
+    const issues = result.error.issues.map(issue => {
+      const key = issue.path.join('.');
+      // Issues inside a JSON value (approvals.rules.0.tool) belong to its setting
+      const setting = issue.path.slice(0, 2).join('.');
+      const envName = sources[setting] === 'env' ? CONFIG_ENV_OVERRIDES[setting]?.env : undefined;
+      return `${key || '(root)'}${envName ? ` (${envName})` : ''}: ${issue.message}`;
+    });
+    throw new Error(`Invalid server configuration${file ? ` (${file})` : ''}: ${issues.join('; ')}`);
+  }
+
+  return { config: result.data, ...(file && { file }), sources };
+}
+
+/**
+ * Copy of the configuration safe to show to clients (secrets replaced)
+ */
+export function redactServerConfig(config: ServerConfig): ServerConfig {
+  const copy = structuredClone(config) as Record<string, any>;
+  for (const key of SECRET_PATHS) {
+    redactPath(copy, key.split('.'));
+  }
+  return copy as ServerConfig;
+}
+
+// ===== HELPERS =====
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+/**
+ * Deep merge for plain objects; arrays and scalars from the override replace the base
+ */
+function mergeConfig(base: Record<string, any>, override: Record<string, unknown>): Record<string, any> {
+  const merged: Record<string, any> = { ...base };
+  for (const [key, value] of Object.entries(override)) {
+    merged[key] = isPlainObject(value) && isPlainObject(base[key])
+      ? mergeConfig(base[key], value)
+      : value;
+  }
+  return merged;
+}
+
+function leafPaths(value: Record<string, unknown>, prefix = ''): string[] {
+  return Object.entries(value).flatMap(([key, child]) =>
+    isPlainObject(child) ? leafPaths(child, `${prefix}${key}.`) : [`${prefix}${key}`]
+  );
+}
+
+function redactPath(target: unknown, [key, ...rest]: string[]): void {
+  if (key === '*') {
+    for (const item of Array.isArray(target) ? target : []) {
+      redactPath(item, rest);
+    }
+  } else if (isPlainObject(target) && target[key]) {
+    if (rest.length === 0) {
+      target[key] = '[REDACTED]';
+    } else {
+      redactPath(target[key], rest);
+    }
+  }
+}
+
+function setPath(target: Record<string, any>, key: string, value: unknown): void {
+  const [section, field] = key.split('.');
+  target[section] = isPlainObject(target[section]) ? { ...target[section] } : {};
+  target[section][field] = value;
+}
+
+/**
+ * Env values are strings; invalid numbers and booleans are passed on and reported by the schema
+ * @throws Error when a JSON value does not parse
+ */
+function parseEnvValue(raw: string, type: EnvValueType, name: string): unknown {
+  switch (type) {
+    case 'json':
+      try {
+        return JSON.parse(raw);
+      } catch {
+        throw new Error(`Invalid server configuration: ${name} must be valid JSON`);
+      }
+    case 'number':
+      return Number(raw);
+    case 'numbers':
+      return raw.split(',').map(part => part.trim()).filter(Boolean).map(Number);
+    case 'strings':
+      return raw.split(',').map(part => part.trim()).filter(Boolean);
+    case 'boolean': {
+      const value = raw.toLowerCase();
+      if (['true', 'on', '1'].includes(value)) return true;
+      if (['false', 'off', '0'].includes(value)) return false;
+      return raw;
+    }
+    default:
+      return raw;
+  }
+}
+
+// Loaded once at startup; every module reads settings from here
+export const loadedServerConfig = loadServerConfig();
+export const serverConfig = loadedServerConfig.config;
@@ -1,11 +1,16 @@
+#!/usr/bin/env node
 import { Server } from '@modelcontextprotocol/sdk/server/index.js';
 import { StdioServerTransport } from '@modelcontextprotocol/sdk/server/stdio.js';
 import { SSEServerTransport } from '@modelcontextprotocol/sdk/server/sse.js';
+import { StreamableHTTPServerTransport } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
 import express from 'express';
+import type { Server as HttpServer } from 'http';
 import cors from 'cors';
+import { randomUUID } from 'crypto';
 import {
   CallToolRequestSchema,
   ListToolsRequestSchema,
+  isInitializeRequest,
 } from '@modelcontextprotocol/sdk/types.js';
 
 import { workflowTools, handleWorkflowTool } from './tools/workflow-tools.js';
@@ -13,46 +18,132 @@ import { credentialTools, handleCredentialTool } from './tools/credential-tools.
 import { validationTools, handleValidationTool } from './tools/validation-tools.js';
 import { templateTools, handleTemplateTool } from './tools/template-tools.js';
 import { backupTools, handleBackupTool } from './tools/backup-tools.js';
+import { auditTools, handleAuditTool } from './tools/audit-tools.js';
 import { nodeTools, handleNodeTool } from './tools/node-tools.js';
+import { instanceTools, handleInstanceTool } from './tools/instance-tools.js';
+import { configTools, handleConfigTool } from './tools/config-tools.js';
+import { continuationTools, handleContinuationTool } from './tools/continuation-tools.js';
+import { approvalTools, handleApprovalTool } from './tools/approval-tools.js';
+import { withApprovalOutput } from './tools/output-schemas.js';
+import { registerResourceHandlers, notifyResourceChanges } from './resources/n8n-resources.js';
+import { registerPromptHandlers } from './prompts/n8n-prompts.js';
+import { auditLogService, AUDITED_TOOLS } from './services/audit-log-service.js';
+import { instanceRegistry, createSessionInstance, type N8nInstance } from './services/instance-registry.js';
+import { dryRunService } from './services/dry-run-service.js';
+import { approvalService, isPendingApproval } from './services/approval-service.js';
+import { healthService } from './services/health-service.js';
+import { loadPlugins } from './plugins/plugin-loader.js';
+import { parseToolArguments, acceptsInstanceArgument, supportsDryRun, ToolArgumentsError } from './tools/tool-definition.js';
 import { McpError, ErrorCode } from '@modelcontextprotocol/sdk/types.js';
 import { createRequire } from 'module';
-import { safeStringify } from './utils/safe-json.js';
-import { limitResponse, RESPONSE_LIMITS } from './utils/response-limiter.js';
+import { continuationStore } from './utils/continuation-store.js';
+import { buildToolResult } from './utils/structured-content.js';
+import {
+  metrics,
+  toolCallDuration,
+  responseTruncationsTotal,
+  activeSessionsGauge,
+  sessionsCreatedTotal,
+  sessionCollisionsTotal,
+  sessionsClosedTotal,
+  sessionsRejectedTotal,
+  METRICS_CONTENT_TYPE,
+} from './utils/metrics.js';
+import { InMemoryEventStore } from './utils/event-store.js';
+import {
+  loadAuthTokens,
+  createAuthMiddleware,
+  assertScope,
+  assertToolScope,
+  hasToolScope,
+  TOOL_SCOPES,
+} from './utils/auth.js';
+import { logSecurityEvent } from './utils/security-log.js';
+import { logger, runWithLogContext, createRequestId, currentRequestId } from './utils/logger.js';
+import { initTracing, shutdownTracing, withSpan } from './utils/tracing.js';
+import { isCliCommand, runCli } from './cli.js';
+import { filterTools } from './utils/tool-filter.js';
+import { createProgressNotifier } from './utils/progress.js';
+import { rateLimiter, RateLimitError } from './utils/rate-limiter.js';
+import { sessionLifecycle, type SessionCloseReason } from './utils/session-lifecycle.js';
+import {
+  loadSessionCredentialsConfig,
+  resolveSessionCredentials,
+  SessionCredentialsError,
+} from './utils/session-credentials.js';
+import { N8N_HOST } from './config/env.js';
+import { serverConfig } from './config/server-config.js';
+import type { RequestContext } from './types/request-context.js';
+import type { AuthInfo } from '@modelcontextprotocol/sdk/server/auth/types.js';
 
 const require = createRequire(import.meta.url);
 const packageJson = require('../package.json');
 
-// JSON-RPC 2.0 request interface
-interface JsonRpcRequest {
-  jsonrpc?: string;
-  method: string;
-  params?: any;
-  id?: string | number | null;
-}
-
-// Type guard for JSON-RPC request
-function isValidJsonRpcRequest(body: any): body is JsonRpcRequest {
-  return (
-    body &&
-    typeof body === 'object' &&
-    typeof body.method === 'string' &&
-    (body.id === undefined || typeof body.id === 'string' || typeof body.id === 'number' || body.id === null)
-  );
-}
-
-const allTools = [
+const builtinTools = [
   ...workflowTools,
   ...credentialTools,
   ...validationTools,
   ...templateTools,
   ...backupTools,
   ...nodeTools,
+  ...auditTools,
+  ...instanceTools,
+  ...configTools,
+  ...continuationTools,
+  ...approvalTools,
 ];
 
+// Custom tool modules from MCP_PLUGIN_DIR (startup fails on invalid plugins or name clashes)
+const pluginRegistry = await loadPlugins(serverConfig.tools.pluginDir, builtinTools);
+for (const plugin of pluginRegistry.plugins) {
+  logger.info(`Loaded plugin ${plugin.file}`, { tools: plugin.tools.map(t => t.name) });
+}
+// readOnlyHint tools only need 'read'; all other plugin tools need 'write' and are audited
+for (const tool of pluginRegistry.tools) {
+  if (tool.annotations?.readOnlyHint) {
+    TOOL_SCOPES[tool.name] = 'read';
+  } else {
+    AUDITED_TOOLS.add(tool.name);
+  }
+}
+
+// Calls that approval rules may hold also return the pending approval instead of their result
+const definedTools = [...builtinTools, ...pluginRegistry.tools];
+approvalService.assertRules(definedTools.map(t => t.name));
+const registeredTools = definedTools.map(tool =>
+  tool.outputSchema && approvalService.requiresApproval(tool.name)
+    ? { ...tool, outputSchema: withApprovalOutput(tool.outputSchema) }
+    : tool
+);
+if (approvalService.rules.length > 0) {
+  logger.info(`Approval required for: ${[...new Set(approvalService.rules.map(r => r.tool))].join(', ')}`);
+}
+
+// Tools exposed to clients after applying profile / allowlist / denylist
+const toolFilter = serverConfig.tools;
+const allTools = filterTools(registeredTools, toolFilter);
+
+// Approved calls run like the original call: same token scopes, n8n instance and audit log
+approvalService.setExecutor(async (operation, approval) => {
+  const result = await executeTool(operation.tool, operation.args, operation.authInfo, {
+    sessionId: operation.sessionId,
+    clientId: operation.authInfo?.clientId,
+    client: operation.client,
+    instance: operation.instance,
+    approval,
+  });
+  if (acceptsInstanceArgument(operation.tool)) {
+    notifyResourceChanges(operation.tool, operation.args, instanceRegistry.resolve(undefined, operation.instance).events);
+  }
+  return result;
+});
+
 /**
  * Creates and configures a new MCP Server instance.
+ * @param sessionInstance n8n instance built from the session's own credentials;
+ *   every tool call, resource and prompt of the session uses it
  */
-function createMcpServer() {
+function createMcpServer(sessionInstance?: N8nInstance) {
   const server = new Server(
     {
       name: 'n8n-custom-mcp',
@@ -61,73 +152,162 @@ function createMcpServer() {
     {
       capabilities: {
         tools: {},
+        resources: { subscribe: true, listChanged: true },
+        prompts: {},
       },
     }
   );
 
-  server.setRequestHandler(ListToolsRequestSchema, async () => {
-    console.error('Handling tools/list request');
-    return { tools: allTools };
+  server.setRequestHandler(ListToolsRequestSchema, async (request, extra) => {
+    logger.debug('Handling tools/list request');
+    return { tools: allTools.filter(t => hasToolScope(t.name, extra.authInfo)) };
   });
 
-  server.setRequestHandler(CallToolRequestSchema, async (request) => {
+  server.setRequestHandler(CallToolRequestSchema, async (request, extra) => {
     const { name, arguments: args } = request.params;
-    console.error(`Calling tool: ${name}`);
-
-    try {
-      const result = await executeTool(name, args || {});
+    // Every log entry, n8n request and audit record of the call carries this correlation ID
+    const requestId = currentRequestId() ?? createRequestId();
+    return runWithLogContext({ requestId, tool: name, clientId: extra.authInfo?.clientId }, async () => {
+      logger.info(`Calling tool ${name}`);
+
+      // Draining for shutdown: only calls already running are finished
+      if (sessionLifecycle.draining) {
+        throw new McpError(ErrorCode.ConnectionClosed, 'Server is shutting down; retry on another instance');
+      }
+      const endCall = sessionLifecycle.trackCall(extra.sessionId);
+
+      // Only report progress when the client asked for it
+      const progressToken = request.params._meta?.progressToken;
+      const onProgress = progressToken !== undefined
+        ? createProgressNotifier(progressToken, extra.sendNotification)
+        : undefined;
+
+      // Unknown names are collapsed so clients cannot inflate label cardinality
+      const toolLabel = registeredTools.some(t => t.name === name) ? name : 'unknown';
+      const stopTimer = toolCallDuration.startTimer();
+
+      // Per-client quotas (HTTP only: stdio has no session)
+      const limitKey = rateLimiter.enabled
+        ? rateLimiter.clientKey(extra.authInfo?.clientId, extra.sessionId)
+        : undefined;
+      let releaseSlot: (() => void) | undefined;
+
+      try {
+        if (limitKey) {
+          releaseSlot = rateLimiter.acquire(limitKey, toolLabel);
+        }
 
-      // Apply response size limiting
-      const limited = limitResponse(result, RESPONSE_LIMITS.MAX_RESPONSE_SIZE);
+        const clientVersion = server.getClientVersion();
+        const result = await executeTool(name, args || {}, extra.authInfo, {
+          signal: extra.signal,
+          onProgress,
+          sessionId: extra.sessionId,
+          clientId: extra.authInfo?.clientId,
+          client: clientVersion ? `${clientVersion.name}/${clientVersion.version}` : undefined,
+          instance: sessionInstance,
+        });
+        // Only sessions reading the same n8n instance are notified; dry runs and held calls change nothing
+        if (acceptsInstanceArgument(name) && result?.dryRun !== true && !isPendingApproval(result)) {
+          const target = instanceRegistry.resolve(args?.instance as string | undefined, sessionInstance);
+          notifyResourceChanges(name, args || {}, target.events);
+        }
 
-      if (limited.truncated) {
-        console.warn(
-          `Response truncated for tool ${name}: ` +
-          `${Math.round(limited.originalSize / 1024)}KB → ${Math.round(limited.truncatedSize / 1024)}KB`
-        );
-      }
+        // Apply response size limiting; the rest of truncated lists stays available to get_next_page
+        const limited = continuationStore.paginate(result, extra.sessionId);
 
-      // Build response with pagination info if truncated
-      const responseData = limited.truncated
-        ? {
-          ...limited.data,
-          _meta: {
-            truncated: true,
-            originalSize: limited.originalSize,
-            pagination: limited.pagination,
-          },
+        if (limited.truncated) {
+          responseTruncationsTotal.inc({ tool: toolLabel });
+          logger.warn(`Response truncated for tool ${name}`, {
+            originalBytes: limited.originalSize,
+            truncatedBytes: limited.truncatedSize,
+          });
         }
-        : limited.data;
 
-      return {
-        content: [{ type: 'text', text: safeStringify(responseData) }],
-      };
-    } catch (error) {
-      console.error(`Tool error (${name}):`, error);
-      return {
-        content: [{ type: 'text', text: `Error: ${error instanceof Error ? error.message : 'Unknown error'}` }],
-        isError: true,
-      };
-    }
+        const toolResult = buildToolResult(limited);
+        stopTimer({ tool: toolLabel, outcome: toolResult.isError ? 'error' : 'success' });
+        return toolResult;
+      } catch (error) {
+        // Bad arguments are a protocol error: surface InvalidParams with per-field issues
+        if (error instanceof ToolArgumentsError) {
+          stopTimer({ tool: toolLabel, outcome: 'invalid_arguments' });
+          throw error;
+        }
+        // Quota exhausted: JSON-RPC error with data.retryAfter
+        if (error instanceof RateLimitError) {
+          stopTimer({ tool: toolLabel, outcome: 'rate_limited' });
+          logger.warn(`Tool rate limited (${name}): ${error.message}`);
+          throw error;
+        }
+        if (extra.signal.aborted) {
+          // Client cancelled: the SDK drops the response, just record it
+          stopTimer({ tool: toolLabel, outcome: 'cancelled' });
+          logger.info(`Tool cancelled: ${name}`);
+        } else {
+          stopTimer({ tool: toolLabel, outcome: 'error' });
+          logger.error(`Tool error (${name})`, { error });
+        }
+        return {
+          content: [{ type: 'text', text: `Error: ${error instanceof Error ? error.message : 'Unknown error'} (request ${requestId})` }],
+          isError: true,
+        };
+      } finally {
+        releaseSlot?.();
+        endCall();
+      }
+    });
   });
 
+  registerResourceHandlers(server, sessionInstance);
+  registerPromptHandlers(server, sessionInstance);
+
   return server;
 }
 
 async function main() {
-  const transportType = process.env.MCP_TRANSPORT || 'stdio';
+  const transportType = serverConfig.server.transport;
+  initTracing(serverConfig.tracing, packageJson.version);
 
   if (transportType === 'sse') {
     const app = express();
-    const port = parseInt(process.env.PORT || '3000');
+    const port = serverConfig.server.port;
 
-    app.use(cors());
+    app.use(cors({ exposedHeaders: ['Mcp-Session-Id', 'X-Request-Id'] }));
+
+    // Correlation ID: a well-formed X-Request-Id from the client is kept, echoed in the response
+    app.use((req, res, next) => {
+      const requestId = createRequestId(req.header('x-request-id'));
+      res.setHeader('X-Request-Id', requestId);
+      runWithLogContext({ requestId }, next);
+    });
+
+    // Orchestrator probes: registered before auth and logging (no credentials, no secrets in the report)
+    app.get('/healthz', async (req, res) => {
+      const report = await healthService.liveness();
+      res.status(report.status === 'fail' ? 503 : 200).json(report);
+    });
+    app.get('/readyz', async (req, res) => {
+      if (sessionLifecycle.draining) {
+        return res.status(503).json({ status: 'fail', draining: true });
+      }
+      const report = await healthService.readiness();
+      res.status(report.status === 'fail' ? 503 : 200).json(report);
+    });
+
+    // Bearer-token authentication for every route
+    const authTokens = loadAuthTokens();
+    if (authTokens.length > 0) {
+      app.use(createAuthMiddleware(authTokens));
+      logger.info(`Authentication enabled (${authTokens.length} token(s))`);
+    } else {
+      logger.warn('MCP_AUTH_TOKENS not configured - HTTP endpoints are UNAUTHENTICATED');
+    }
     app.use(express.json());
 
     // JSON parsing error handler
     app.use((err: any, req: express.Request, res: express.Response, next: express.NextFunction) => {
       if (err instanceof SyntaxError && 'body' in err) {
-        console.error('JSON parsing error:', err.message);
+        // The parser message quotes the body, which may hold secrets
+        logger.warn('JSON parsing error', { path: req.path });
         return res.status(400).json({
           jsonrpc: '2.0',
           error: {
@@ -140,57 +320,185 @@ async function main() {
       next();
     });
 
-    // Logging middleware
+    // Logging middleware: JSON-RPC method and tool name only, never the body
     app.use((req, res, next) => {
-      console.error(`[${new Date().toISOString()}] ${req.method} ${req.path}`);
-      if (req.method === 'POST') {
-        console.error('Body:', JSON.stringify(req.body));
-      }
+      logger.info(`${req.method} ${req.path}`, {
+        clientId: (req as express.Request & { auth?: AuthInfo }).auth?.clientId,
+        rpcMethod: req.body?.method,
+        tool: req.body?.params?.name,
+      });
+      next();
+    });
+
+    // Any request on a session counts as activity for the idle timeout
+    app.use((req, res, next) => {
+      const sessionId = req.header('mcp-session-id') ?? req.query.sessionId;
+      sessionLifecycle.touch(typeof sessionId === 'string' ? sessionId : undefined);
       next();
     });
 
     const sessions = new Map<string, SSEServerTransport>();
+    const streamableSessions = new Map<string, StreamableHTTPServerTransport>();
+
+    // Session counters are updated where sessions open and close; open sessions are sampled per scrape
+    metrics.addCollector(() => {
+      activeSessionsGauge.set({ transport: 'sse' }, sessions.size);
+      activeSessionsGauge.set({ transport: 'streamable_http' }, streamableSessions.size);
+    });
 
-    // Session metrics for monitoring
-    const sessionMetrics = {
-      totalSessions: 0,
-      collisions: 0,
-      activeSessions: () => sessions.size
+    // Per-session n8n credentials (multi-tenant deployments)
+    const sessionCredentialsConfig = loadSessionCredentialsConfig(N8N_HOST);
+    if (sessionCredentialsConfig.required) {
+      logger.info('Session n8n credentials required - N8N_API_KEY is not used for HTTP sessions');
+    }
+
+    // Token that opened each session; other tokens cannot use the session
+    const sessionOwners = new Map<string, string>();
+
+    const authOf = (req: express.Request): AuthInfo | undefined =>
+      (req as express.Request & { auth?: AuthInfo }).auth;
+
+    /**
+     * Check that a request for an existing session comes from the token that opened it
+     */
+    const isSessionOwner = (sessionId: string, req: express.Request): boolean => {
+      const owner = sessionOwners.get(sessionId);
+      const clientId = authOf(req)?.clientId;
+      if (owner === undefined || owner === clientId) {
+        return true;
+      }
+      logSecurityEvent({ event: 'session_owner_mismatch', sessionId, clientId, ip: req.ip });
+      return false;
     };
 
-    // Standard SSE GET handler
+    /**
+     * Forget a closed session and count why it closed
+     */
+    const recordSessionClosed = (sessionId: string): SessionCloseReason | undefined => {
+      const closed = sessionLifecycle.release(sessionId);
+      continuationStore.dropOwner(sessionId);
+      if (closed) {
+        sessionsClosedTotal.inc({ transport: closed.transport, reason: closed.reason });
+      }
+      return closed?.reason;
+    };
+
+    /**
+     * Create the MCP server for a new session, bound to the n8n credentials
+     * from its headers or token when present
+     * Writes the error response and returns undefined if the session limit is reached,
+     * the server is shutting down or the credentials are rejected
+     */
+    const createSessionServer = (req: express.Request, res: express.Response): Server | undefined => {
+      const authInfo = authOf(req);
+      if (!sessionLifecycle.canAccept()) {
+        const reason = sessionLifecycle.draining ? 'shutting_down' : 'max_sessions';
+        sessionsRejectedTotal.inc({ reason });
+        logger.warn(`Session refused (${reason}, ${sessions.size + streamableSessions.size} open)`);
+        res.setHeader('Retry-After', '5');
+        res.status(503).json({
+          jsonrpc: '2.0',
+          error: {
+            code: -32000,
+            message: reason === 'shutting_down' ? 'Server is shutting down' : 'Too many open sessions; retry later'
+          },
+          id: null
+        });
+        return undefined;
+      }
+      try {
+        const credentials = resolveSessionCredentials(req.headers, authInfo, sessionCredentialsConfig);
+        return createMcpServer(credentials && createSessionInstance(credentials));
+      } catch (error) {
+        if (!(error instanceof SessionCredentialsError)) {
+          throw error;
+        }
+        logSecurityEvent({
+          event: 'session_credentials_rejected',
+          reason: error.message,
+          clientId: authInfo?.clientId,
+          ip: req.ip,
+        });
+        res.status(error.status).json({
+          jsonrpc: '2.0',
+          error: {
+            code: -32000,
+            message: error.message
+          },
+          id: null
+        });
+        return undefined;
+      }
+    };
+
+    /**
+     * Look up the Streamable HTTP transport for a request's Mcp-Session-Id
+     * Writes the error response and returns undefined if it is missing or unknown
+     */
+    const getStreamableTransport = (
+      req: express.Request,
+      res: express.Response
+    ): StreamableHTTPServerTransport | undefined => {
+      const sessionId = req.header('mcp-session-id');
+      const transport = sessionId && isSessionOwner(sessionId, req) ? streamableSessions.get(sessionId) : undefined;
+      if (!transport) {
+        res.status(sessionId ? 404 : 400).json({
+          jsonrpc: '2.0',
+          error: {
+            code: sessionId ? -32001 : -32000,
+            message: sessionId ? 'Session not found or expired' : 'Bad Request: Mcp-Session-Id header is required'
+          },
+          id: null
+        });
+      }
+      return transport;
+    };
+
+    // GET /mcp: Streamable HTTP stream when Mcp-Session-Id is present
+    // (supports resumption via Last-Event-ID), legacy SSE transport otherwise
     app.get('/mcp', async (req, res) => {
-      const server = createMcpServer();
+      if (req.header('mcp-session-id')) {
+        const transport = getStreamableTransport(req, res);
+        if (transport) {
+          sessionLifecycle.startHeartbeat(res);
+          await transport.handleRequest(req, res);
+        }
+        return;
+      }
+
+      const server = createSessionServer(req, res);
+      if (!server) {
+        return;
+      }
       const transport = new SSEServerTransport('/message', res);
       await server.connect(transport);
+      sessionLifecycle.startHeartbeat(res);
 
       const sessionId = transport.sessionId;
       if (sessionId) {
         // Check for session collision
         if (sessions.has(sessionId)) {
-          sessionMetrics.collisions++;
-          console.error(`⚠️ Session ID collision detected: ${sessionId} (total collisions: ${sessionMetrics.collisions})`);
+          sessionCollisionsTotal.inc();
+          logger.warn(`Session ID collision detected (total collisions: ${sessionCollisionsTotal.get({})})`);
 
           // Force cleanup of old session
-          const oldTransport = sessions.get(sessionId);
-          if (oldTransport) {
-            try {
-              oldTransport.close();
-            } catch (err) {
-              console.error('Error closing old transport:', err);
-            }
-          }
+          await sessionLifecycle.close(sessionId, 'replaced');
           sessions.delete(sessionId);
 
-          // Log security event with timestamp
-          console.error(`[SECURITY] ${new Date().toISOString()} - Session ${sessionId} replaced. Old session terminated.`);
+          logSecurityEvent({ event: 'session_replaced', sessionId });
         }
 
-        sessionMetrics.totalSessions++;
+        sessionsCreatedTotal.inc({ transport: 'sse' });
         sessions.set(sessionId, transport);
+        sessionLifecycle.register(sessionId, 'sse', () => transport.close());
+        const owner = authOf(req)?.clientId;
+        if (owner) {
+          sessionOwners.set(sessionId, owner);
+        }
         transport.onclose = () => {
           sessions.delete(sessionId);
-          console.error(`Session ${sessionId} closed`);
+          sessionOwners.delete(sessionId);
+          logger.info(`Session ${sessionId} closed (${recordSessionClosed(sessionId) ?? 'client'})`);
         };
       }
     });
@@ -202,177 +510,383 @@ async function main() {
       // Validate sessionId format (UUID v4)
       const uuidRegex = /^[0-9a-f]{8}-[0-9a-f]{4}-4[0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i;
       if (!sessionId || !uuidRegex.test(sessionId)) {
-        console.error(`Invalid session ID format: ${sessionId}`);
+        logger.warn('Invalid session ID format');
         return res.status(400).json({
           error: 'Invalid session ID format'
         });
       }
 
-      const transport = sessions.get(sessionId);
+      const transport = isSessionOwner(sessionId, req) ? sessions.get(sessionId) : undefined;
       if (transport) {
         await transport.handlePostMessage(req, res);
       } else {
-        console.error(`Session not found: ${sessionId}`);
+        logger.warn(`Session not found: ${sessionId}`);
         res.status(404).json({
           error: 'Session not found or expired'
         });
       }
     });
 
-    // 🚀 Hybrid "Streamable HTTP" handler for LobeHub compatibility
-    // Handles POST /mcp directly by returning a single-event SSE stream
+    // Streamable HTTP transport (MCP spec 2025-03-26)
+    // POST /mcp carries client messages, GET /mcp with Mcp-Session-Id opens the
+    // server-to-client stream, DELETE /mcp terminates the session
     app.post('/mcp', async (req, res) => {
-      // Validate JSON-RPC request format
-      if (!isValidJsonRpcRequest(req.body)) {
-        return res.status(400).json({
-          jsonrpc: '2.0',
-          error: {
-            code: -32600,
-            message: 'Invalid Request: Request must be a valid JSON-RPC 2.0 object'
-          },
-          id: null
-        });
-      }
-
-      const { method, id } = req.body;
+      const sessionId = req.header('mcp-session-id');
+      let transport = sessionId && isSessionOwner(sessionId, req) ? streamableSessions.get(sessionId) : undefined;
 
-      res.setHeader('Content-Type', 'text/event-stream');
-      res.setHeader('Cache-Control', 'no-cache');
-      res.setHeader('Connection', 'keep-alive');
-      res.setHeader('Access-Control-Allow-Origin', '*');
+      if (!transport) {
+        if (sessionId) {
+          logger.warn(`Streamable session not found: ${sessionId}`);
+          return res.status(404).json({
+            jsonrpc: '2.0',
+            error: {
+              code: -32001,
+              message: 'Session not found or expired'
+            },
+            id: null
+          });
+        }
 
-      console.error(`Hybrid handler: ${method}`);
+        if (!isInitializeRequest(req.body)) {
+          return res.status(400).json({
+            jsonrpc: '2.0',
+            error: {
+              code: -32000,
+              message: 'Bad Request: Mcp-Session-Id header is required for non-initialize requests'
+            },
+            id: null
+          });
+        }
 
-      if (method === 'tools/list' || method === 'list_tools') {
-        const response = {
-          jsonrpc: '2.0',
-          id,
-          result: { tools: allTools }
-        };
-        res.write(`event: message\ndata: ${JSON.stringify(response)}\n\n`);
-        res.end();
-      } else if (method === 'initialize') {
-        const response = {
-          jsonrpc: '2.0',
-          id,
-          result: {
-            protocolVersion: '2024-11-05',
-            capabilities: { tools: {} },
-            serverInfo: { name: 'n8n-custom-mcp', version: packageJson.version }
+        const server = createSessionServer(req, res);
+        if (!server) {
+          return;
+        }
+        const owner = authOf(req)?.clientId;
+
+        const newTransport: StreamableHTTPServerTransport = new StreamableHTTPServerTransport({
+          sessionIdGenerator: () => randomUUID(),
+          eventStore: new InMemoryEventStore(),
+          onsessioninitialized: (newSessionId) => {
+            sessionsCreatedTotal.inc({ transport: 'streamable_http' });
+            streamableSessions.set(newSessionId, newTransport);
+            sessionLifecycle.register(newSessionId, 'streamable_http', () => newTransport.close());
+            if (owner) {
+              sessionOwners.set(newSessionId, owner);
+            }
+            logger.info(`Streamable session ${newSessionId} initialized`);
+          },
+        });
+        newTransport.onclose = () => {
+          const closedId = newTransport.sessionId;
+          if (closedId) {
+            sessionOwners.delete(closedId);
+          }
+          if (closedId && streamableSessions.delete(closedId)) {
+            logger.info(`Streamable session ${closedId} closed (${recordSessionClosed(closedId) ?? 'client'})`);
           }
         };
-        res.write(`event: message\ndata: ${JSON.stringify(response)}\n\n`);
-        res.end();
-      } else if (method === 'notifications/initialized') {
-        // Just acknowledge the notification
-        console.error('Hybrid handler: Client initialized');
-        res.end();
-      } else if (method === 'tools/call') {
-        const { name, arguments: args } = req.body.params;
 
-        try {
-          const result = await executeTool(name, args || {});
-
-          // Apply response size limiting
-          const limited = limitResponse(result, RESPONSE_LIMITS.MAX_RESPONSE_SIZE);
-
-          if (limited.truncated) {
-            console.warn(
-              `Response truncated for tool ${name}: ` +
-              `${Math.round(limited.originalSize / 1024)}KB → ${Math.round(limited.truncatedSize / 1024)}KB`
-            );
-          }
+        await server.connect(newTransport);
+        transport = newTransport;
+      }
 
-          const responseData = limited.truncated
-            ? {
-              ...limited.data,
-              _meta: {
-                truncated: true,
-                originalSize: limited.originalSize,
-                pagination: limited.pagination,
-              },
-            }
-            : limited.data;
+      // Long tool calls answered over an SSE stream
+      sessionLifecycle.startHeartbeat(res);
+      await transport.handleRequest(req, res, req.body);
+    });
 
-          const response = {
-            jsonrpc: '2.0',
-            id,
-            result: {
-              content: [{ type: 'text', text: safeStringify(responseData) }]
-            }
-          };
-          res.write(`event: message\ndata: ${JSON.stringify(response)}\n\n`);
-        } catch (error) {
-          console.error(`Tool error (${name}):`, error);
-          const errorResponse = {
-            jsonrpc: '2.0',
-            id,
-            error: {
-              code: -32603,
-              message: error instanceof Error ? error.message : 'Internal error',
-            }
-          };
-          res.write(`event: message\ndata: ${JSON.stringify(errorResponse)}\n\n`);
-        }
-        res.end();
-      } else {
-        // For actual tool calls or other methods, use the server logic
-        // This is a simplified fallback
-        console.error(`Method not implemented in hybrid mode: ${method}`);
-        res.status(501).send(`Method not implemented in hybrid mode: ${method}`);
+    // Session termination for Streamable HTTP clients
+    app.delete('/mcp', async (req, res) => {
+      const transport = getStreamableTransport(req, res);
+      if (transport) {
+        await transport.handleRequest(req, res);
       }
     });
 
     app.get('/', (req, res) => {
       res.json({
         status: 'running',
-        transport: 'sse/hybrid',
+        transport: 'sse/streamable-http',
         tools_count: allTools.length,
-        endpoints: ['GET /mcp', 'POST /message', 'POST /mcp']
+        tool_profile: toolFilter.profile,
+        endpoints: [
+          'GET /mcp', 'POST /message', 'POST /mcp', 'DELETE /mcp', 'GET /healthz', 'GET /readyz',
+          'GET /approvals', 'POST /approvals/:id/approve', 'POST /approvals/:id/reject',
+        ]
       });
     });
 
+    /**
+     * Check that a request comes from a token with the 'approvals' scope
+     * Writes the 403 response and returns undefined otherwise (also when authentication is off)
+     */
+    const authorizeApprover = (req: express.Request, res: express.Response): string | undefined => {
+      const authInfo = authOf(req);
+      if (!authInfo) {
+        res.status(403).json({ error: 'Approval endpoints require authentication (MCP_AUTH_TOKENS)' });
+        return undefined;
+      }
+      try {
+        assertScope('approvals', authInfo, req.path);
+      } catch (error) {
+        res.status(403).json({ error: error instanceof Error ? error.message : String(error) });
+        return undefined;
+      }
+      return authInfo.clientId;
+    };
+
+    // Human approval of held tool calls (same queue as list_pending_approvals / approve_operation)
+    app.get('/approvals', (req, res) => {
+      if (authorizeApprover(req, res) !== undefined) {
+        res.json({ approvals: approvalService.list() });
+      }
+    });
+
+    const decideApproval = (decision: 'approve' | 'reject') =>
+      async (req: express.Request<{ id: string }>, res: express.Response) => {
+        const approver = authorizeApprover(req, res);
+        if (approver === undefined) {
+          return;
+        }
+        try {
+          const reason = typeof req.body?.reason === 'string' ? req.body.reason.slice(0, 500) : undefined;
+          res.json(await approvalService.decide(req.params.id, decision, { decidedBy: approver, reason }));
+        } catch (error) {
+          // Unknown / expired ID → 404, self-approval → 403
+          const status = error instanceof McpError
+            ? (error.code === ErrorCode.InvalidParams ? 404 : 403)
+            : 500;
+          res.status(status).json({ error: error instanceof Error ? error.message : String(error) });
+        }
+      };
+    app.post('/approvals/:id/approve', decideApproval('approve'));
+    app.post('/approvals/:id/reject', decideApproval('reject'));
+
+    // Prometheus text exposition
     app.get('/metrics', (req, res) => {
-      res.json({
-        sessions: {
-          active: sessionMetrics.activeSessions(),
-          total: sessionMetrics.totalSessions,
-          collisions: sessionMetrics.collisions
-        },
-        uptime: process.uptime(),
-        memory: process.memoryUsage()
-      });
+      res.type(METRICS_CONTENT_TYPE).send(metrics.render());
     });
 
-    app.listen(port, '0.0.0.0', () => {
-      console.error(`n8n-custom-mcp server running on port ${port} (0.0.0.0)`);
+    const httpServer = app.listen(port, '0.0.0.0', () => {
+      logger.info(`n8n-custom-mcp server running on port ${port} (0.0.0.0)`);
     });
+    sessionLifecycle.start();
+    handleShutdownSignals(httpServer);
   } else {
     const server = createMcpServer();
     const transport = new StdioServerTransport();
     await server.connect(transport);
-    console.error('n8n-custom-mcp server running on stdio');
+    handleShutdownSignals();
+    logger.info(`n8n-custom-mcp server running on stdio (${allTools.length} tools, profile: ${toolFilter.profile})`);
   }
 }
 
-main().catch(console.error);
+/**
+ * Graceful shutdown on SIGTERM / SIGINT: stop accepting connections, refuse new
+ * sessions and tool calls, wait for in-flight calls (MCP_SHUTDOWN_TIMEOUT_MS),
+ * close every session transport, then exit
+ */
+function handleShutdownSignals(httpServer?: HttpServer): void {
+  const shutdown = async (signal: NodeJS.Signals) => {
+    if (sessionLifecycle.draining) {
+      return;
+    }
+    logger.info(
+      `${signal} received: finishing ${sessionLifecycle.inFlight} tool call(s), closing ${sessionLifecycle.size} session(s)`
+    );
+    httpServer?.close();
+
+    const drained = await sessionLifecycle.shutdown();
+    if (!drained) {
+      logger.error(`Shutdown timeout: ${sessionLifecycle.inFlight} tool call(s) still running`);
+    }
+    httpServer?.closeAllConnections();
+    await shutdownTracing();
+    process.exit(drained ? 0 : 1);
+  };
+
+  process.once('SIGTERM', signal => void shutdown(signal));
+  process.once('SIGINT', signal => void shutdown(signal));
+}
+
+// `n8n-custom-mcp call|tools …` runs tools from the shell instead of starting the server
+const cliArgs = process.argv.slice(2);
+if (isCliCommand(cliArgs)) {
+  initTracing(serverConfig.tracing, packageJson.version);
+  runCli(cliArgs, {
+    tools: allTools,
+    // Like a stdio call: no token scopes, one correlation ID per run, audited as client "cli"
+    executeTool: (name, args) =>
+      runWithLogContext({ requestId: createRequestId(), tool: name }, () =>
+        executeTool(name, args, undefined, { client: 'cli' })
+      ),
+  })
+    .catch(error => {
+      logger.error('CLI command failed', { error });
+      return 1;
+    })
+    .then(async code => {
+      await shutdownTracing();
+      // Exit once stdout is flushed: background timers would keep the process alive
+      process.stdout.write('', () => process.exit(code));
+    });
+} else {
+  main().catch(error => {
+    logger.error('Server failed to start', { error });
+    // Exit non-zero so supervisors (Docker, systemd) see the failure; timers started before it would keep the process up
+    process.stderr.write('', () => process.exit(1));
+  });
+}
 
 /**
  * Executes a tool by name with the given arguments.
+ * When authInfo is present (authenticated HTTP), the token's scopes are enforced.
+ * Each call is traced as a span; n8n requests and retries made by the tool are its children.
  */
-async function executeTool(name: string, args: any): Promise<any> {
+async function executeTool(
+  name: string,
+  args: any,
+  authInfo?: AuthInfo,
+  context: RequestContext = {}
+): Promise<any> {
+  const requestId = currentRequestId();
+  return withSpan(`execute_tool ${name}`, {
+    'gen_ai.operation.name': 'execute_tool',
+    'gen_ai.tool.name': name,
+    ...(requestId && { 'mcp.request_id': requestId }),
+    ...(authInfo?.clientId && { 'mcp.client_id': authInfo.clientId }),
+    ...(context.approval && { 'mcp.approval_id': context.approval.id }),
+  }, async span => {
+    const result = await auditTool(name, args, authInfo, context);
+    if (isPendingApproval(result)) {
+      span.setAttribute('mcp.approval_id', result.approvalId);
+    }
+    if (result?.dryRun === true) {
+      span.setAttribute('mcp.dry_run', true);
+    }
+    return result;
+  });
+}
+
+/**
+ * Runs a tool; calls to mutating tools are recorded in the audit log, including failures.
+ */
+async function auditTool(
+  name: string,
+  args: any,
+  authInfo?: AuthInfo,
+  context: RequestContext = {}
+): Promise<any> {
+  if (!auditLogService.isAudited(name)) {
+    return await runTool(name, args, authInfo, context);
+  }
+
+  const startedAt = Date.now();
+  const audit = {
+    tool: name,
+    args: args || {},
+    sessionId: context.sessionId,
+    clientId: authInfo?.clientId,
+    client: context.client,
+    instance: context.instance?.name
+      ?? (typeof args?.instance === 'string' ? args.instance : instanceRegistry.defaultName),
+    ...(context.approval && {
+      approval: { id: context.approval.id, status: 'approved' as const, approvedBy: context.approval.approvedBy },
+    }),
+  };
+  try {
+    const result = await runTool(name, args, authInfo, context);
+    await auditLogService.record({
+      ...audit,
+      ...(isPendingApproval(result) && { approval: { id: result.approvalId, status: 'pending' as const } }),
+      result,
+      durationMs: Date.now() - startedAt,
+    });
+    return result;
+  } catch (error) {
+    await auditLogService.record({ ...audit, error, durationMs: Date.now() - startedAt });
+    throw error;
+  }
+}
+
+/**
+ * Checks exposure, scope and arguments, then dispatches to the tool's handler
+ */
+async function runTool(
+  name: string,
+  args: any,
+  authInfo?: AuthInfo,
+  context: RequestContext = {}
+): Promise<any> {
+  if (!allTools.some(t => t.name === name) && registeredTools.some(t => t.name === name)) {
+    throw new McpError(
+      ErrorCode.MethodNotFound,
+      `Tool '${name}' is disabled by server configuration (profile: ${toolFilter.profile})`
+    );
+  }
+  assertToolScope(name, authInfo);
+
+  // Validate and coerce against the tool's zod schema before any handler runs
+  args = parseToolArguments(name, args);
+
+  // Route n8n tools to the selected instance's services
+  if (acceptsInstanceArgument(name)) {
+    const { instance, ...toolArgs } = args;
+    args = toolArgs;
+    context = { ...context, instance: instanceRegistry.resolve(instance, context.instance) };
+  }
+
+  // Dry runs are planned by the instance's DryRunService; the handler never sees `dryRun`
+  if (supportsDryRun(name)) {
+    const { dryRun, ...toolArgs } = args;
+    args = toolArgs;
+    if (dryRun) {
+      return await (context.instance?.dryRunService ?? dryRunService).plan(name, args, context);
+    }
+  }
+
+  // Sensitive calls wait for a human (approve_operation or POST /approvals/:id/approve)
+  if (!context.approval) {
+    const instanceName = context.instance?.name ?? instanceRegistry.defaultName;
+    const rule = approvalService.match(name, args, instanceName);
+    if (rule) {
+      return approvalService.submit({
+        tool: name,
+        args,
+        rule,
+        instance: context.instance,
+        authInfo,
+        sessionId: context.sessionId,
+        client: context.client,
+      });
+    }
+  }
+
   if (workflowTools.some(t => t.name === name)) {
-    return await handleWorkflowTool(name, args || {});
+    return await handleWorkflowTool(name, args || {}, context);
   } else if (credentialTools.some(t => t.name === name)) {
-    return await handleCredentialTool(name, args || {});
+    return await handleCredentialTool(name, args || {}, context);
   } else if (validationTools.some(t => t.name === name)) {
-    return await handleValidationTool(name, args || {});
+    return await handleValidationTool(name, args || {}, context);
   } else if (templateTools.some(t => t.name === name)) {
-    return await handleTemplateTool(name, args || {});
+    return await handleTemplateTool(name, args || {}, context);
   } else if (backupTools.some(t => t.name === name)) {
-    return await handleBackupTool(name, args || {});
+    return await handleBackupTool(name, args || {}, context);
   } else if (nodeTools.some(t => t.name === name)) {
-    return await handleNodeTool(name, args || {});
+    return await handleNodeTool(name, args || {}, context);
+  } else if (auditTools.some(t => t.name === name)) {
+    return await handleAuditTool(name, args || {}, authInfo);
+  } else if (instanceTools.some(t => t.name === name)) {
+    return await handleInstanceTool(name, args || {}, context);
+  } else if (configTools.some(t => t.name === name)) {
+    return await handleConfigTool(name, args || {}, context);
+  } else if (continuationTools.some(t => t.name === name)) {
+    return await handleContinuationTool(name, args || {}, context);
+  } else if (approvalTools.some(t => t.name === name)) {
+    return await handleApprovalTool(name, args || {}, context);
+  } else if (pluginRegistry.has(name)) {
+    return await pluginRegistry.call(name, args || {}, context);
   } else {
     throw new McpError(ErrorCode.MethodNotFound, `Unknown tool: ${name}`);
   }
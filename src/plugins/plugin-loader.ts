@@ -0,0 +1,141 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { pathToFileURL } from 'url';
+import { z } from 'zod';
+import { Tool, McpError, ErrorCode } from '@modelcontextprotocol/sdk/types.js';
+import { n8nApi } from '../services/n8n-api-service.js';
+import { backupService } from '../services/backup-service.js';
+import { validationService } from '../services/validation-service.js';
+import type { RequestContext } from '../types/request-context.js';
+import type { LoadedPlugin, PluginServices, PluginToolHandler } from '../types/plugin.js';
+
+const PLUGIN_EXTENSIONS = new Set(['.js', '.mjs']);
+
+// Same constraints MCP clients apply to tool names
+const pluginToolSchema = z.object({
+  name: z.string().regex(/^[A-Za-z0-9_-]{1,64}$/, 'must be 1-64 letters, digits, "_" or "-"'),
+  description: z.string().min(1),
+  inputSchema: z.object({ type: z.literal('object') }).passthrough(),
+}).passthrough();
+
+/**
+ * Find the tool array and handler a plugin module exports
+ * Accepts `tools` / `handleTool` or the built-in naming (`namingTools` / `handleNamingTool`)
+ * @throws Error when the module does not export exactly one of each or a tool is malformed
+ */
+export function resolvePluginExports(file: string, moduleExports: Record<string, unknown>): LoadedPlugin {
+  const entries = Object.entries(moduleExports);
+  const toolArrays = entries.filter(([key, value]) => /^(tools|\w+Tools)$/.test(key) && Array.isArray(value));
+  const handlers = entries.filter(([key, value]) => /^handle\w*Tool$/.test(key) && typeof value === 'function');
+
+  if (toolArrays.length !== 1 || handlers.length !== 1) {
+    throw new Error(
+      `Invalid plugin ${file}: must export exactly one tool array (tools or *Tools) ` +
+      `and one handler (handleTool or handle*Tool)`
+    );
+  }
+
+  const tools = (toolArrays[0][1] as unknown[]).map((tool, index) => {
+    const result = pluginToolSchema.safeParse(tool);
+    if (!result.success) {
+      const issues = result.error.issues.map(i => `${i.path.join('.') || '(root)'}: ${i.message}`).join('; ');
+      throw new Error(`Invalid plugin ${file}: tool at index ${index}: ${issues}`);
+    }
+    return tool as Tool;
+  });
+  if (tools.length === 0) {
+    throw new Error(`Invalid plugin ${file}: exports no tools`);
+  }
+
+  return { file, tools, handler: handlers[0][1] as PluginToolHandler };
+}
+
+/**
+ * Tools contributed by plugins, routed to the plugin that defines them
+ */
+export class PluginRegistry {
+  private byTool = new Map<string, LoadedPlugin>();
+
+  /**
+   * @param builtinTools - Tools of the server itself; plugins cannot redefine them
+   * @throws Error on any tool name clash (with a built-in tool or between plugins)
+   */
+  constructor(readonly plugins: LoadedPlugin[], builtinTools: Tool[] = []) {
+    const builtin = new Set(builtinTools.map(t => t.name));
+    for (const plugin of plugins) {
+      for (const tool of plugin.tools) {
+        if (builtin.has(tool.name)) {
+          throw new Error(`Plugin tool name clash: '${tool.name}' in ${plugin.file} is a built-in tool`);
+        }
+        const existing = this.byTool.get(tool.name);
+        if (existing) {
+          throw new Error(
+            existing === plugin
+              ? `Plugin tool name clash: '${tool.name}' is defined twice in ${plugin.file}`
+              : `Plugin tool name clash: '${tool.name}' is defined by ${existing.file} and ${plugin.file}`
+          );
+        }
+        this.byTool.set(tool.name, plugin);
+      }
+    }
+  }
+
+  get tools(): Tool[] {
+    return this.plugins.flatMap(p => p.tools);
+  }
+
+  has(name: string): boolean {
+    return this.byTool.has(name);
+  }
+
+  /**
+   * Run a plugin tool with the services of the call's n8n instance
+   */
+  async call(name: string, args: Record<string, any>, context: RequestContext = {}): Promise<unknown> {
+    const plugin = this.byTool.get(name);
+    if (!plugin) {
+      throw new McpError(ErrorCode.MethodNotFound, `Unknown tool: ${name}`);
+    }
+
+    const services: PluginServices = {
+      n8nApi: context.instance?.n8nApi ?? n8nApi,
+      backupService: context.instance?.backupService ?? backupService,
+      validationService: context.instance?.validationService ?? validationService,
+    };
+    return await plugin.handler(name, args, { ...context, services });
+  }
+}
+
+/**
+ * Import every .js / .mjs module in the plugin directory (MCP_PLUGIN_DIR), in file name order
+ * @returns an empty registry when no directory is configured
+ * @throws Error when the directory cannot be read, a module fails to load or is invalid,
+ *   or tool names clash (fail fast at startup)
+ */
+export async function loadPlugins(dir: string | undefined, builtinTools: Tool[]): Promise<PluginRegistry> {
+  if (!dir) {
+    return new PluginRegistry([], builtinTools);
+  }
+
+  let files: string[];
+  try {
+    files = (await fs.readdir(dir))
+      .filter(file => PLUGIN_EXTENSIONS.has(path.extname(file)))
+      .sort();
+  } catch (error) {
+    throw new Error(`Cannot read plugin directory ${dir}: ${error instanceof Error ? error.message : String(error)}`);
+  }
+
+  const plugins: LoadedPlugin[] = [];
+  for (const file of files) {
+    let moduleExports: Record<string, unknown>;
+    try {
+      moduleExports = await import(pathToFileURL(path.resolve(dir, file)).href);
+    } catch (error) {
+      throw new Error(`Failed to load plugin ${file}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+    plugins.push(resolvePluginExports(file, moduleExports));
+  }
+
+  return new PluginRegistry(plugins, builtinTools);
+}
@@ -0,0 +1,268 @@
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import {
+  ListPromptsRequestSchema,
+  GetPromptRequestSchema,
+  McpError,
+  ErrorCode,
+} from '@modelcontextprotocol/sdk/types.js';
+import type { Prompt, PromptMessage, GetPromptResult } from '@modelcontextprotocol/sdk/types.js';
+import { n8nApi } from '../services/n8n-api-service.js';
+import { validationService } from '../services/validation-service.js';
+import { templateService } from '../services/template-service.js';
+import { checkNodeCompatibility } from '../utils/template-import-helpers.js';
+import { validateRequired } from '../utils/error-handler.js';
+import { safeStringify } from '../utils/safe-json.js';
+import { RESPONSE_LIMITS } from '../utils/response-limiter.js';
+import { assertScope } from '../utils/auth.js';
+import { rateLimiter } from '../utils/rate-limiter.js';
+import { workflowUri, executionUri } from '../resources/n8n-resources.js';
+import type { N8nExecution } from '../types/n8n-types.js';
+import type { N8nInstance } from '../services/instance-registry.js';
+
+/**
+ * Parameterized prompts for common n8n tasks
+ * Each prompt assembles its messages from live n8n data
+ */
+export const n8nPrompts: Prompt[] = [
+  {
+    name: 'debug_failed_execution',
+    description: 'Debug a failed execution: loads the execution data and its workflow, then asks for root cause and a fix',
+    arguments: [
+      { name: 'executionId', description: 'ID of the failed execution', required: true },
+    ],
+  },
+  {
+    name: 'harden_workflow',
+    description: 'Review a workflow for production readiness using lint_workflow and suggest_workflow_improvements results',
+    arguments: [
+      { name: 'workflowId', description: 'ID of the workflow to harden', required: true },
+    ],
+  },
+  {
+    name: 'build_workflow_from_template',
+    description: 'Plan an import of an n8n.io template: node compatibility, required credentials and customization steps',
+    arguments: [
+      { name: 'templateId', description: 'n8n.io template ID', required: true },
+      { name: 'goal', description: 'Optional: what the workflow should do after customization', required: false },
+    ],
+  },
+];
+
+/**
+ * Build a text message
+ */
+function textMessage(text: string): PromptMessage {
+  return { role: 'user', content: { type: 'text', text } };
+}
+
+/**
+ * Build an embedded JSON resource message
+ * Oversized payloads are replaced with a pointer to the resource URI
+ */
+function resourceMessage(uri: string, data: unknown): PromptMessage {
+  let text = safeStringify(data);
+  const size = Buffer.byteLength(text, 'utf8');
+  if (size > RESPONSE_LIMITS.MAX_RESPONSE_SIZE) {
+    text = safeStringify({
+      omitted: true,
+      reason: `Content size (${Math.round(size / 1024)}KB) exceeds limit ` +
+        `(${Math.round(RESPONSE_LIMITS.MAX_RESPONSE_SIZE / 1024)}KB)`,
+      hint: `Read ${uri} or use get_execution / get_workflow for details`,
+    });
+  }
+  return {
+    role: 'user',
+    content: { type: 'resource', resource: { uri, mimeType: 'application/json', text } },
+  };
+}
+
+/**
+ * Extract failure details from execution run data
+ */
+export function summarizeExecutionFailure(execution: N8nExecution): string[] {
+  const lines: string[] = [];
+  const resultData: any = execution.data?.resultData;
+
+  if (resultData?.error) {
+    const node = resultData.error.node;
+    const nodeName = typeof node === 'string' ? node : node?.name;
+    lines.push(`Execution error${nodeName ? ` in node "${nodeName}"` : ''}: ${resultData.error.message}`);
+  }
+
+  if (resultData?.lastNodeExecuted) {
+    lines.push(`Last node executed: ${resultData.lastNodeExecuted}`);
+  }
+
+  for (const [nodeName, runs] of Object.entries(resultData?.runData || {})) {
+    if (!Array.isArray(runs)) continue;
+    runs.forEach((run: any, index: number) => {
+      if (run?.error?.message) {
+        lines.push(`Node "${nodeName}" (run ${index}) failed: ${run.error.message}`);
+      }
+    });
+  }
+
+  return lines;
+}
+
+async function buildDebugFailedExecution(
+  args: Record<string, string>,
+  signal?: AbortSignal,
+  instance?: N8nInstance
+): Promise<GetPromptResult> {
+  validateRequired(args, ['executionId']);
+  const api = instance?.n8nApi ?? n8nApi;
+  const execution = await api.getExecution(args.executionId, true, signal);
+  const workflow = await api.getWorkflow(execution.workflowId, signal);
+
+  const failure = summarizeExecutionFailure(execution);
+  const status = execution.status || (execution.finished ? 'finished' : 'not finished');
+
+  return {
+    description: `Debug execution ${execution.id} of workflow "${workflow.name}"`,
+    messages: [
+      textMessage(
+        `Execution ${execution.id} of workflow "${workflow.name}" (ID: ${workflow.id}) has status: ${status}.\n` +
+        `Started: ${execution.startedAt}${execution.stoppedAt ? `, stopped: ${execution.stoppedAt}` : ''}, mode: ${execution.mode}.\n\n` +
+        `Failure summary:\n${failure.length > 0 ? failure.map(l => `- ${l}`).join('\n') : '- No error recorded in execution data'}\n\n` +
+        `The execution data and workflow definition are attached. Please:\n` +
+        `1. Identify the node that caused the failure and the root cause\n` +
+        `2. Check the input data that reached that node and its parameters/expressions\n` +
+        `3. Propose a concrete fix as changes to the workflow JSON\n` +
+        `4. Before applying the fix with update_workflow, call backup_workflow and validate_workflow_structure`
+      ),
+      resourceMessage(executionUri(execution.id), execution),
+      resourceMessage(workflowUri(workflow.id!), workflow),
+    ],
+  };
+}
+
+async function buildHardenWorkflow(
+  args: Record<string, string>,
+  signal?: AbortSignal,
+  instance?: N8nInstance
+): Promise<GetPromptResult> {
+  validateRequired(args, ['workflowId']);
+  const workflow = await (instance?.n8nApi ?? n8nApi).getWorkflow(args.workflowId, signal);
+  const validation = instance?.validationService ?? validationService;
+
+  const [lint, improvements] = await Promise.all([
+    validation.lintWorkflow(workflow),
+    validation.suggestWorkflowImprovements(workflow),
+  ]);
+
+  const issueLines = lint.issues.map(i => `- [${i.severity}] ${i.message}`);
+  const suggestionLines = improvements.suggestions.map(s => `- [${s.priority}] ${s.title}: ${s.description}`);
+
+  return {
+    description: `Harden workflow "${workflow.name}" (lint score ${lint.score}/100)`,
+    messages: [
+      textMessage(
+        `Review workflow "${workflow.name}" (ID: ${workflow.id}) for production readiness.\n\n` +
+        `Lint score: ${lint.score}/100 - ${lint.summary}\n` +
+        `${issueLines.length > 0 ? issueLines.join('\n') : '- No lint issues'}\n\n` +
+        `Improvement suggestions: ${improvements.summary}\n` +
+        `${suggestionLines.length > 0 ? suggestionLines.join('\n') : '- No suggestions'}\n\n` +
+        `Please produce a prioritized hardening plan covering error handling, secrets, retries/timeouts ` +
+        `and naming. For each change, show the modified nodes/connections. ` +
+        `Call backup_workflow before applying changes with update_workflow, then re-run lint_workflow to confirm the score improved.`
+      ),
+      resourceMessage(workflowUri(workflow.id!), workflow),
+    ],
+  };
+}
+
+async function buildWorkflowFromTemplate(
+  args: Record<string, string>,
+  signal?: AbortSignal,
+  instance?: N8nInstance
+): Promise<GetPromptResult> {
+  validateRequired(args, ['templateId']);
+  const templateId = Number(args.templateId);
+  if (!Number.isInteger(templateId) || templateId <= 0) {
+    throw new McpError(ErrorCode.InvalidParams, `Invalid templateId: ${args.templateId}`);
+  }
+
+  const template = await (instance?.templateService ?? templateService).getTemplateDetails(templateId, { signal });
+
+  // Node compatibility is best-effort: the template is still useful if n8n is unreachable
+  let compatibilityLines: string[];
+  try {
+    const nodeTypes = await (instance?.n8nApi ?? n8nApi).listNodeTypes(signal);
+    const compatibility = await checkNodeCompatibility(template, nodeTypes);
+    compatibilityLines = [
+      compatibility.compatible
+        ? '- All template nodes are available in this n8n instance'
+        : `- Missing nodes: ${compatibility.missingNodes.join(', ')}`,
+      ...compatibility.warnings.map(w => `- ${w}`),
+    ];
+  } catch (error) {
+    compatibilityLines = [`- Could not check node compatibility: ${error instanceof Error ? error.message : 'Unknown error'}`];
+  }
+
+  const credentialTypes = new Set<string>();
+  for (const node of template.workflow?.nodes || []) {
+    Object.keys(node.credentials || {}).forEach(type => credentialTypes.add(type));
+  }
+
+  return {
+    description: `Build workflow from template ${templateId}: "${template.name}"`,
+    messages: [
+      textMessage(
+        `Build a workflow from n8n.io template ${templateId}: "${template.name}".\n\n` +
+        `${template.description || ''}\n\n` +
+        `Node compatibility:\n${compatibilityLines.join('\n')}\n\n` +
+        `Credential types required: ${credentialTypes.size > 0 ? [...credentialTypes].join(', ') : 'none'}\n\n` +
+        (args.goal ? `Goal: ${args.goal}\n\n` : '') +
+        `Steps:\n` +
+        `1. For each required credential type, use list_credentials to find an existing credential ` +
+        `(or get_credential_schema + create_credential)\n` +
+        `2. Call import_template with templateId ${templateId} and a credentialMapping from template credential IDs to ours\n` +
+        `3. Customize the imported workflow${args.goal ? ' to meet the goal' : ''} and apply with update_workflow\n` +
+        `4. Run validate_workflow_structure and lint_workflow before activating`
+      ),
+      resourceMessage(`https://n8n.io/workflows/${templateId}`, template.workflow),
+    ],
+  };
+}
+
+/**
+ * Resolve prompt by name with arguments
+ */
+export async function getPrompt(
+  name: string,
+  args: Record<string, string> = {},
+  signal?: AbortSignal,
+  instance?: N8nInstance
+): Promise<GetPromptResult> {
+  switch (name) {
+    case 'debug_failed_execution':
+      return await buildDebugFailedExecution(args, signal, instance);
+
+    case 'harden_workflow':
+      return await buildHardenWorkflow(args, signal, instance);
+
+    case 'build_workflow_from_template':
+      return await buildWorkflowFromTemplate(args, signal, instance);
+
+    default:
+      throw new McpError(ErrorCode.InvalidParams, `Unknown prompt: ${name}`);
+  }
+}
+
+/**
+ * Register prompts/* handlers on an MCP server instance
+ * @param instance n8n instance the session is bound to (default instance when omitted)
+ */
+export function registerPromptHandlers(server: Server, instance?: N8nInstance): void {
+  server.setRequestHandler(ListPromptsRequestSchema, async () => {
+    return { prompts: n8nPrompts };
+  });
+
+  server.setRequestHandler(GetPromptRequestSchema, async (request, extra) => {
+    assertScope('read', extra.authInfo, `prompt:${request.params.name}`);
+    return await rateLimiter.run(extra.authInfo?.clientId, extra.sessionId, 'prompts/get', () =>
+      getPrompt(request.params.name, request.params.arguments || {}, extra.signal, instance)
+    );
+  });
+}
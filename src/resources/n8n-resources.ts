@@ -0,0 +1,238 @@
+import { Server } from '@modelcontextprotocol/sdk/server/index.js';
+import {
+  ListResourcesRequestSchema,
+  ListResourceTemplatesRequestSchema,
+  ReadResourceRequestSchema,
+  SubscribeRequestSchema,
+  UnsubscribeRequestSchema,
+  McpError,
+  ErrorCode,
+} from '@modelcontextprotocol/sdk/types.js';
+import type { Resource, ResourceTemplate } from '@modelcontextprotocol/sdk/types.js';
+import { n8nApi } from '../services/n8n-api-service.js';
+import { backupService } from '../services/backup-service.js';
+import { safeStringify } from '../utils/safe-json.js';
+import { resourceEvents, type ResourceEventBus } from '../utils/resource-events.js';
+import { assertScope } from '../utils/auth.js';
+import { rateLimiter } from '../utils/rate-limiter.js';
+import type { N8nInstance } from '../services/instance-registry.js';
+import { logger } from '../utils/logger.js';
+
+const MIME_TYPE = 'application/json';
+const RECENT_EXECUTIONS_LIMIT = 20;
+
+/**
+ * URI templates for n8n resources
+ * Resources are read from the session's n8n instance; use tools with `instance` to read other instances
+ */
+export const resourceTemplates: ResourceTemplate[] = [
+  {
+    uriTemplate: 'n8n://workflows/{id}',
+    name: 'n8n workflow',
+    description: 'Workflow definition (nodes, connections, settings)',
+    mimeType: MIME_TYPE,
+  },
+  {
+    uriTemplate: 'n8n://executions/{id}',
+    name: 'n8n execution',
+    description: 'Execution details including status and result data',
+    mimeType: MIME_TYPE,
+  },
+  {
+    uriTemplate: 'n8n://backups/{workflowId}/{backupId}',
+    name: 'n8n workflow backup',
+    description: 'Backup snapshot created by backup_workflow (metadata + workflow)',
+    mimeType: MIME_TYPE,
+  },
+];
+
+type ParsedResourceUri =
+  | { kind: 'workflow'; id: string }
+  | { kind: 'execution'; id: string }
+  | { kind: 'backup'; workflowId: string; backupId: string };
+
+// Resource ID segments: alphanumeric, hyphen, underscore (no path traversal)
+const SEGMENT = '([A-Za-z0-9_-]+)';
+const URI_PATTERNS: Array<[RegExp, (m: RegExpMatchArray) => ParsedResourceUri]> = [
+  [new RegExp(`^n8n://workflows/${SEGMENT}$`), m => ({ kind: 'workflow', id: m[1] })],
+  [new RegExp(`^n8n://executions/${SEGMENT}$`), m => ({ kind: 'execution', id: m[1] })],
+  [new RegExp(`^n8n://backups/${SEGMENT}/${SEGMENT}$`), m => ({ kind: 'backup', workflowId: m[1], backupId: m[2] })],
+];
+
+/**
+ * Parse n8n:// resource URI
+ * @throws McpError if URI does not match a known template
+ */
+export function parseResourceUri(uri: string): ParsedResourceUri {
+  for (const [pattern, build] of URI_PATTERNS) {
+    const match = uri.match(pattern);
+    if (match) return build(match);
+  }
+  throw new McpError(ErrorCode.InvalidParams, `Unknown resource URI: ${uri}`);
+}
+
+export function workflowUri(id: string): string {
+  return `n8n://workflows/${id}`;
+}
+
+export function executionUri(id: string): string {
+  return `n8n://executions/${id}`;
+}
+
+/**
+ * List concrete resources: all workflows + most recent executions
+ */
+export async function listResources(signal?: AbortSignal, instance?: N8nInstance): Promise<Resource[]> {
+  const api = instance?.n8nApi ?? n8nApi;
+  const [workflows, executions] = await Promise.all([
+    api.listWorkflows({}, signal),
+    api.listExecutions({ limit: RECENT_EXECUTIONS_LIMIT }, signal),
+  ]);
+
+  const resources: Resource[] = [];
+
+  for (const workflow of workflows.data || []) {
+    if (!workflow.id) continue;
+    resources.push({
+      uri: workflowUri(workflow.id),
+      name: workflow.name,
+      description: `Workflow ${workflow.id}${workflow.active ? ' (active)' : ''}`,
+      mimeType: MIME_TYPE,
+    });
+  }
+
+  for (const execution of executions.data || []) {
+    resources.push({
+      uri: executionUri(execution.id),
+      name: `Execution ${execution.id}`,
+      description: `Workflow ${execution.workflowId} - ${execution.status || (execution.finished ? 'finished' : 'running')}`,
+      mimeType: MIME_TYPE,
+    });
+  }
+
+  return resources;
+}
+
+/**
+ * Read resource content by URI
+ * URIs carry no instance: reads always go to the session's instance (default instance when omitted)
+ */
+export async function readResource(
+  uri: string,
+  signal?: AbortSignal,
+  instance?: N8nInstance
+): Promise<{ contents: Array<{ uri: string; mimeType: string; text: string }> }> {
+  const parsed = parseResourceUri(uri);
+  const api = instance?.n8nApi ?? n8nApi;
+
+  let data: unknown;
+  switch (parsed.kind) {
+    case 'workflow':
+      data = await api.getWorkflow(parsed.id, signal);
+      break;
+    case 'execution':
+      data = await api.getExecution(parsed.id, true, signal);
+      break;
+    case 'backup':
+      data = await (instance?.backupService ?? backupService).getBackup(parsed.workflowId, parsed.backupId);
+      break;
+  }
+
+  return {
+    contents: [{ uri, mimeType: MIME_TYPE, text: safeStringify(data) }],
+  };
+}
+
+/**
+ * Emit resource change events after a successful mutating tool call
+ * @param events Bus of the instance the tool ran against (default instance when omitted)
+ */
+export function notifyResourceChanges(
+  toolName: string,
+  args: Record<string, any>,
+  events: ResourceEventBus = resourceEvents
+): void {
+  switch (toolName) {
+    case 'create_workflow':
+    case 'import_template':
+    case 'execute_workflow':
+      events.emitListChanged();
+      break;
+
+    case 'update_workflow':
+    case 'activate_workflow':
+      events.emitUpdated(workflowUri(args.id));
+      break;
+
+    case 'delete_workflow':
+      events.emitUpdated(workflowUri(args.id));
+      events.emitListChanged();
+      break;
+
+    case 'restore_workflow':
+      events.emitUpdated(workflowUri(args.workflowId));
+      break;
+  }
+}
+
+/**
+ * Register resources/* handlers on an MCP server instance
+ * Tracks per-session subscriptions and forwards change events as notifications
+ * @param instance n8n instance the session is bound to (default instance when omitted)
+ */
+export function registerResourceHandlers(server: Server, instance?: N8nInstance): void {
+  const subscriptions = new Set<string>();
+  const events = instance?.events ?? resourceEvents;
+
+  server.setRequestHandler(ListResourcesRequestSchema, async (request, extra) => {
+    assertScope('read', extra.authInfo, 'resources/list');
+    return await rateLimiter.run(extra.authInfo?.clientId, extra.sessionId, 'resources/list', async () => ({
+      resources: await listResources(extra.signal, instance),
+    }));
+  });
+
+  server.setRequestHandler(ListResourceTemplatesRequestSchema, async () => {
+    return { resourceTemplates };
+  });
+
+  server.setRequestHandler(ReadResourceRequestSchema, async (request, extra) => {
+    assertScope('read', extra.authInfo, request.params.uri);
+    return await rateLimiter.run(extra.authInfo?.clientId, extra.sessionId, 'resources/read', () =>
+      readResource(request.params.uri, extra.signal, instance)
+    );
+  });
+
+  server.setRequestHandler(SubscribeRequestSchema, async (request, extra) => {
+    assertScope('read', extra.authInfo, request.params.uri);
+    parseResourceUri(request.params.uri);
+    subscriptions.add(request.params.uri);
+    return {};
+  });
+
+  server.setRequestHandler(UnsubscribeRequestSchema, async (request) => {
+    subscriptions.delete(request.params.uri);
+    return {};
+  });
+
+  const onUpdated = (uri: string) => {
+    if (!subscriptions.has(uri)) return;
+    server.sendResourceUpdated({ uri }).catch(err => {
+      logger.error(`Failed to send resources/updated for ${uri}`, { error: err });
+    });
+  };
+  const onListChanged = () => {
+    server.sendResourceListChanged().catch(err => {
+      logger.error('Failed to send resources/list_changed', { error: err });
+    });
+  };
+
+  events.on('updated', onUpdated);
+  events.on('listChanged', onListChanged);
+
+  const previousOnClose = server.onclose;
+  server.onclose = () => {
+    events.off('updated', onUpdated);
+    events.off('listChanged', onListChanged);
+    previousOnClose?.();
+  };
+}
@@ -0,0 +1,308 @@
+import { randomUUID } from 'crypto';
+import { McpError, ErrorCode } from '@modelcontextprotocol/sdk/types.js';
+import type { AuthInfo } from '@modelcontextprotocol/sdk/server/auth/types.js';
+import { serverConfig, type ApprovalRule } from '../config/server-config.js';
+import { metrics } from '../utils/metrics.js';
+import { logger } from '../utils/logger.js';
+import { logSecurityEvent } from '../utils/security-log.js';
+import { sanitizeCredentialData } from '../utils/sensitive-data-sanitizer.js';
+import { redactCredentialData } from '../utils/resource-diff.js';
+import type { N8nInstance } from './instance-registry.js';
+
+// Deciding on a held call must never itself be held
+const NEVER_HELD_TOOLS = new Set(['approve_operation']);
+
+/**
+ * Approval queue settings (approvals section of the server config)
+ */
+export interface ApprovalConfig {
+  rules: ApprovalRule[];
+  /** Lifetime of a pending operation */
+  ttlMs: number;
+  /** Pending operations kept at once; further calls are refused */
+  maxPending: number;
+}
+
+/**
+ * A tool call held until a human approves or rejects it
+ */
+export interface PendingOperation {
+  id: string;
+  tool: string;
+  /** Parsed arguments, without `instance` and `dryRun` */
+  args: Record<string, any>;
+  rule: ApprovalRule;
+  /** Resolved n8n instance the call runs against once approved */
+  instance?: N8nInstance;
+  /** Requesting token; the approved call runs with its scopes */
+  authInfo?: AuthInfo;
+  sessionId?: string;
+  client?: string;
+  createdAt: number;
+  expiresAt: number;
+}
+
+/**
+ * Returned instead of the tool result when a call is held
+ */
+export interface PendingApprovalResult {
+  approvalRequired: true;
+  approvalId: string;
+  tool: string;
+  expiresAt: string;
+  message: string;
+}
+
+/**
+ * Pending operation as shown to approvers (credential data and secrets redacted)
+ */
+export interface PendingApprovalSummary {
+  approvalId: string;
+  tool: string;
+  args: Record<string, any>;
+  instance?: string;
+  requestedBy: {
+    clientId?: string;
+    sessionId?: string;
+    client?: string;
+  };
+  rule: ApprovalRule;
+  createdAt: string;
+  expiresAt: string;
+}
+
+/**
+ * Outcome of approve_operation / POST /approvals/:id/{approve,reject}
+ */
+export interface ApprovalDecision {
+  approvalId: string;
+  tool: string;
+  /** executed: approved and ran; failed: approved but the call threw */
+  status: 'executed' | 'rejected' | 'failed';
+  decidedBy?: string;
+  reason?: string;
+  result?: unknown;
+  error?: string;
+}
+
+/**
+ * Runs an approved operation (registered by the server: it owns tool dispatch and auditing)
+ */
+export type ApprovalExecutor = (
+  operation: PendingOperation,
+  approval: { id: string; approvedBy?: string }
+) => Promise<unknown>;
+
+/**
+ * Human-in-the-loop approval queue for sensitive tool calls
+ *
+ * Calls matching a configured rule are stored instead of run and the caller
+ * gets a pending approval ID. A human approves or rejects it with the
+ * approve_operation tool or the /approvals HTTP endpoints; only an approval
+ * runs the stored call, with the requester's scopes and n8n instance.
+ * Pending operations expire after a TTL and are kept in memory only.
+ */
+export class ApprovalService {
+  // Map keeps insertion order: first entry is the oldest
+  private pending = new Map<string, PendingOperation>();
+  private executor?: ApprovalExecutor;
+
+  constructor(private readonly config: ApprovalConfig) {}
+
+  get size(): number {
+    return this.pending.size;
+  }
+
+  get rules(): readonly ApprovalRule[] {
+    return this.config.rules;
+  }
+
+  /**
+   * Check that every rule targets a known tool that can be held
+   * @throws Error naming the first invalid rule (fail fast at startup)
+   */
+  assertRules(toolNames: string[]): void {
+    const known = new Set(toolNames);
+    for (const rule of this.config.rules) {
+      if (!known.has(rule.tool)) {
+        throw new Error(`Invalid approval rule: unknown tool '${rule.tool}'`);
+      }
+      if (NEVER_HELD_TOOLS.has(rule.tool)) {
+        throw new Error(`Invalid approval rule: ${rule.tool} cannot require approval`);
+      }
+    }
+  }
+
+  /**
+   * Whether some rule may hold calls to the tool (its output schema must allow the pending result)
+   */
+  requiresApproval(tool: string): boolean {
+    return this.config.rules.some(rule => rule.tool === tool);
+  }
+
+  /**
+   * First rule matching a call
+   * @param args - Parsed arguments (coerced, without `instance`)
+   * @param instance - Name of the resolved n8n instance
+   */
+  match(tool: string, args: Record<string, any>, instance?: string): ApprovalRule | undefined {
+    return this.config.rules.find(rule =>
+      rule.tool === tool &&
+      (rule.instance === undefined || rule.instance === instance) &&
+      Object.entries(rule.args ?? {}).every(([key, value]) => args[key] === value)
+    );
+  }
+
+  /**
+   * Hold a call until it is approved, rejected or expires
+   * @throws McpError InvalidRequest when too many operations are pending
+   */
+  submit(
+    operation: Omit<PendingOperation, 'id' | 'createdAt' | 'expiresAt'>,
+    now: number = Date.now()
+  ): PendingApprovalResult {
+    this.sweep(now);
+    if (this.pending.size >= this.config.maxPending) {
+      throw new McpError(
+        ErrorCode.InvalidRequest,
+        `Too many operations awaiting approval (max ${this.config.maxPending}); retry later`
+      );
+    }
+
+    const id = randomUUID();
+    const held: PendingOperation = { ...operation, id, createdAt: now, expiresAt: now + this.config.ttlMs };
+    this.pending.set(id, held);
+    logger.info(`Tool call ${operation.tool} held for approval ${id}`, { approvalId: id });
+
+    return {
+      approvalRequired: true,
+      approvalId: id,
+      tool: operation.tool,
+      expiresAt: new Date(held.expiresAt).toISOString(),
+      message:
+        `${operation.tool} requires human approval and has not run. ` +
+        `Ask an operator to approve ${id} (approve_operation tool or POST /approvals/${id}/approve).`,
+    };
+  }
+
+  /**
+   * Pending operations, oldest first
+   */
+  list(now: number = Date.now()): PendingApprovalSummary[] {
+    this.sweep(now);
+    return [...this.pending.values()].map(summarize);
+  }
+
+  /**
+   * Approve (run) or reject a pending operation; either way it leaves the queue
+   * @param decidedBy - Approving token name; approvals need one (stdio and unauthenticated HTTP have no identity)
+   * @throws McpError InvalidParams when the ID is unknown or expired
+   * @throws McpError InvalidRequest on an approval without an approving token, or by the token that requested the call
+   */
+  async decide(
+    id: string,
+    decision: 'approve' | 'reject',
+    { decidedBy, reason }: { decidedBy?: string; reason?: string } = {},
+    now: number = Date.now()
+  ): Promise<ApprovalDecision> {
+    this.sweep(now);
+    const operation = this.pending.get(id);
+    if (!operation) {
+      throw new McpError(ErrorCode.InvalidParams, `Unknown or expired approval: ${id}`);
+    }
+
+    if (decision === 'approve' && decidedBy === undefined) {
+      logSecurityEvent({ event: 'approval_unauthenticated', tool: operation.tool, approvalId: id });
+      throw new McpError(ErrorCode.InvalidRequest, 'Approving an operation requires an authenticated token with the approvals scope');
+    }
+    const requester = operation.authInfo?.clientId;
+    if (decision === 'approve' && requester !== undefined && requester === decidedBy) {
+      logSecurityEvent({ event: 'approval_self_approve', clientId: decidedBy, tool: operation.tool, approvalId: id });
+      throw new McpError(ErrorCode.InvalidRequest, 'An operation cannot be approved by the token that requested it');
+    }
+    this.pending.delete(id);
+
+    const outcome = {
+      approvalId: id,
+      tool: operation.tool,
+      ...(decidedBy && { decidedBy }),
+      ...(reason && { reason }),
+    };
+    if (decision === 'reject') {
+      approvalDecisionsTotal.inc({ decision: 'rejected' });
+      logger.info(`Approval ${id} (${operation.tool}) rejected`, { approvalId: id, decidedBy });
+      return { ...outcome, status: 'rejected' };
+    }
+
+    approvalDecisionsTotal.inc({ decision: 'approved' });
+    logger.info(`Approval ${id} (${operation.tool}) approved`, { approvalId: id, decidedBy });
+    if (!this.executor) {
+      throw new Error('Approval executor is not configured');
+    }
+    try {
+      const result = await this.executor(operation, { id, approvedBy: decidedBy });
+      return { ...outcome, status: 'executed', result };
+    } catch (error) {
+      return { ...outcome, status: 'failed', error: error instanceof Error ? error.message : String(error) };
+    }
+  }
+
+  /**
+   * Register how approved operations run
+   */
+  setExecutor(executor: ApprovalExecutor): void {
+    this.executor = executor;
+  }
+
+  /**
+   * Drop expired operations
+   */
+  sweep(now: number = Date.now()): void {
+    for (const [id, operation] of this.pending) {
+      if (operation.expiresAt <= now) {
+        this.pending.delete(id);
+        approvalDecisionsTotal.inc({ decision: 'expired' });
+        logger.info(`Approval ${id} (${operation.tool}) expired`, { approvalId: id });
+      }
+    }
+  }
+}
+
+/**
+ * Whether a tool result is a held call rather than the tool's own result
+ */
+export function isPendingApproval(result: unknown): result is PendingApprovalResult {
+  return (result as PendingApprovalResult | undefined)?.approvalRequired === true;
+}
+
+function summarize(operation: PendingOperation): PendingApprovalSummary {
+  const args = operation.tool.endsWith('_credential') ? redactCredentialData(operation.args) : operation.args;
+  return {
+    approvalId: operation.id,
+    tool: operation.tool,
+    args: sanitizeCredentialData(args),
+    ...(operation.instance && { instance: operation.instance.name }),
+    requestedBy: {
+      ...(operation.authInfo?.clientId && { clientId: operation.authInfo.clientId }),
+      ...(operation.sessionId && { sessionId: operation.sessionId }),
+      ...(operation.client && { client: operation.client }),
+    },
+    rule: operation.rule,
+    createdAt: new Date(operation.createdAt).toISOString(),
+    expiresAt: new Date(operation.expiresAt).toISOString(),
+  };
+}
+
+const pendingApprovals = metrics.gauge('approvals_pending', 'Tool calls waiting for human approval');
+const approvalDecisionsTotal = metrics.counter(
+  'approval_decisions_total',
+  'Held tool calls by outcome (approved, rejected, expired)'
+);
+
+// Export singleton instance
+export const approvalService = new ApprovalService(serverConfig.approvals);
+
+metrics.addCollector(() => {
+  approvalService.sweep();
+  pendingApprovals.set({}, approvalService.size);
+});
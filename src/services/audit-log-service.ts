@@ -0,0 +1,335 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import { sanitizeCredentialData } from '../utils/sensitive-data-sanitizer.js';
+import { logger, currentRequestId } from '../utils/logger.js';
+import { serverConfig } from '../config/server-config.js';
+
+/**
+ * Tools whose calls are recorded in the audit log (they change n8n state)
+ */
+export const AUDITED_TOOLS = new Set([
+  'create_workflow',
+  'update_workflow',
+  'delete_workflow',
+  'activate_workflow',
+  'create_credential',
+  'update_credential',
+  'delete_credential',
+  'restore_workflow',
+  'import_template',
+  'approve_operation',
+]);
+
+export const AUDIT_LIMITS = {
+  MAX_ARGS_SIZE: 64 * 1024,           // Larger argument payloads are summarized
+  DEFAULT_QUERY_LIMIT: 100,
+  MAX_QUERY_LIMIT: 1000,
+} as const;
+
+/**
+ * One audit log line
+ */
+export interface AuditEntry {
+  timestamp: string;
+  requestId?: string;       // Correlation ID, also in the server logs
+  sessionId?: string;
+  clientId?: string;        // Auth token name
+  client?: string;          // MCP client (agent) name/version
+  instance?: string;        // n8n instance the call targeted
+  tool: string;             // Tool name, or security:<event> for security events
+  args: unknown;            // Redacted with sanitizeCredentialData
+  status: 'success' | 'error';
+  error?: string;
+  durationMs: number;
+  /** Calls held for approval (pending) and the later run of approved ones */
+  approval?: {
+    id: string;
+    status: 'pending' | 'approved';
+    approvedBy?: string;
+  };
+  affected: {
+    workflowIds: string[];
+    credentialIds: string[];
+  };
+}
+
+/**
+ * Audit log settings (audit section of the server config)
+ * - enabled: MCP_AUDIT_LOG=off disables the log
+ * - filePath: JSONL path of tool calls (default /app/audit/audit.jsonl)
+ * - securityFilePath: JSONL path of security events (default /app/audit/security.jsonl)
+ * - maxFileSize: bytes before rotation (default 10MB), for each of the two logs
+ * - maxFiles: rotated files kept (default 5), for each of the two logs
+ */
+export interface AuditLogConfig {
+  enabled: boolean;
+  filePath: string;
+  securityFilePath: string;
+  maxFileSize: number;
+  maxFiles: number;
+}
+
+/**
+ * Filters for query_audit_log
+ */
+export interface AuditQuery {
+  workflowId?: string;
+  credentialId?: string;
+  tool?: string;
+  sessionId?: string;
+  /** Auth token name */
+  clientId?: string;
+  instance?: string;
+  status?: 'success' | 'error';
+  since?: string;
+  until?: string;
+  limit?: number;
+}
+
+/**
+ * Details of a tool call to record
+ */
+export interface AuditRecord {
+  tool: string;
+  args: Record<string, any>;
+  result?: unknown;
+  error?: unknown;
+  sessionId?: string;
+  clientId?: string;
+  client?: string;
+  instance?: string;
+  approval?: AuditEntry['approval'];
+  durationMs: number;
+}
+
+/**
+ * Security event to record (auth failures, scope denials, session replacements)
+ */
+export interface SecurityAuditRecord {
+  event: string;
+  [key: string]: unknown;
+}
+
+/**
+ * Append-only JSONL audit log with size-based rotation
+ * Storage: audit.jsonl (current), audit.jsonl.1 … audit.jsonl.N (older)
+ *
+ * Security events go to their own rotated file (security.jsonl): anonymous
+ * clients can trigger them at will (auth failures), and must not be able to
+ * rotate tool call records out of the log.
+ */
+export class AuditLogService {
+  // Serializes appends and rotation so lines never interleave
+  private writeQueue: Promise<void> = Promise.resolve();
+
+  constructor(private config: AuditLogConfig) {}
+
+  isAudited(toolName: string): boolean {
+    return this.config.enabled && AUDITED_TOOLS.has(toolName);
+  }
+
+  /**
+   * Record a mutating tool call
+   * Never throws: audit failures are reported on stderr and must not fail the tool call
+   */
+  async record(record: AuditRecord): Promise<void> {
+    if (!this.isAudited(record.tool)) {
+      return;
+    }
+
+    const requestId = currentRequestId();
+    const entry: AuditEntry = {
+      timestamp: new Date().toISOString(),
+      ...(requestId && { requestId }),
+      sessionId: record.sessionId,
+      clientId: record.clientId,
+      client: record.client,
+      instance: record.instance,
+      tool: record.tool,
+      args: this.redactArgs(record.args),
+      status: record.error === undefined ? 'success' : 'error',
+      ...(record.error !== undefined && {
+        error: record.error instanceof Error ? record.error.message : String(record.error),
+      }),
+      durationMs: record.durationMs,
+      ...(record.approval && { approval: record.approval }),
+      affected: extractAffectedIds(record.tool, record.args, record.result),
+    };
+
+    return this.write(entry, this.config.filePath);
+  }
+
+  /**
+   * Record a security event as a `security:<event>` entry with status error
+   * Never throws, like record()
+   */
+  async recordSecurityEvent({ event, sessionId, clientId, ...details }: SecurityAuditRecord): Promise<void> {
+    if (!this.config.enabled) {
+      return;
+    }
+
+    const requestId = currentRequestId();
+    const entry: AuditEntry = {
+      timestamp: new Date().toISOString(),
+      ...(requestId && { requestId }),
+      sessionId: typeof sessionId === 'string' ? sessionId : undefined,
+      clientId: typeof clientId === 'string' ? clientId : undefined,
+      tool: `security:${event}`,
+      args: this.redactArgs(details),
+      status: 'error',
+      error: event,
+      durationMs: 0,
+      affected: { workflowIds: [], credentialIds: [] },
+    };
+    return this.write(entry, this.config.securityFilePath);
+  }
+
+  /**
+   * Read entries (newest first) across the current and rotated files of both logs
+   */
+  async query(filters: AuditQuery = {}): Promise<{ entries: AuditEntry[]; total: number }> {
+    const limit = Math.min(filters.limit ?? AUDIT_LIMITS.DEFAULT_QUERY_LIMIT, AUDIT_LIMITS.MAX_QUERY_LIMIT);
+    const since = filters.since ? Date.parse(filters.since) : undefined;
+    const until = filters.until ? Date.parse(filters.until) : undefined;
+
+    // Let pending writes land before reading
+    await this.writeQueue;
+
+    // security:<event> entries only live in the security log, tool calls only in the main one
+    const logs = filters.tool
+      ? [filters.tool.startsWith('security:') ? this.config.securityFilePath : this.config.filePath]
+      : [this.config.filePath, this.config.securityFilePath];
+
+    const matches: AuditEntry[] = [];
+    for (const file of logs.flatMap(log => this.filesNewestFirst(log))) {
+      const lines = await this.readLines(file);
+      for (let i = lines.length - 1; i >= 0; i--) {
+        const entry = parseEntry(lines[i]);
+        if (!entry) continue;
+
+        const time = Date.parse(entry.timestamp);
+        if (since !== undefined && time < since) continue;
+        if (until !== undefined && time > until) continue;
+        if (filters.tool && entry.tool !== filters.tool) continue;
+        if (filters.sessionId && entry.sessionId !== filters.sessionId) continue;
+        if (filters.clientId && entry.clientId !== filters.clientId) continue;
+        if (filters.instance && entry.instance !== filters.instance) continue;
+        if (filters.status && entry.status !== filters.status) continue;
+        if (filters.workflowId && !entry.affected?.workflowIds?.includes(filters.workflowId)) continue;
+        if (filters.credentialId && !entry.affected?.credentialIds?.includes(filters.credentialId)) continue;
+
+        matches.push(entry);
+      }
+    }
+
+    if (logs.length > 1) {
+      matches.sort((a, b) => Date.parse(b.timestamp) - Date.parse(a.timestamp));
+    }
+    return { entries: matches.slice(0, limit), total: matches.length };
+  }
+
+  // ===== INTERNALS =====
+
+  private write(entry: AuditEntry, filePath: string): Promise<void> {
+    const line = JSON.stringify(entry) + '\n';
+    this.writeQueue = this.writeQueue
+      .then(() => this.append(line, filePath))
+      .catch(error => {
+        logger.error('Failed to write audit log entry', { error });
+      });
+    return this.writeQueue;
+  }
+
+  private redactArgs(args: Record<string, any>): unknown {
+    const redacted = sanitizeCredentialData(args);
+    const size = Buffer.byteLength(JSON.stringify(redacted) ?? '', 'utf8');
+    if (size <= AUDIT_LIMITS.MAX_ARGS_SIZE) {
+      return redacted;
+    }
+    return {
+      _truncated: true,
+      originalSize: size,
+      keys: Object.keys(redacted ?? {}),
+    };
+  }
+
+  private async append(line: string, filePath: string): Promise<void> {
+    await fs.mkdir(path.dirname(filePath), { recursive: true });
+
+    const currentSize = await fs.stat(filePath).then(s => s.size, () => 0);
+    if (currentSize > 0 && currentSize + Buffer.byteLength(line) > this.config.maxFileSize) {
+      await this.rotate(filePath);
+    }
+
+    await fs.appendFile(filePath, line, { encoding: 'utf8', mode: 0o600 });
+  }
+
+  /**
+   * Shift audit.jsonl → .1 → .2 …, dropping files beyond maxFiles
+   */
+  private async rotate(filePath: string): Promise<void> {
+    const { maxFiles } = this.config;
+    await fs.rm(`${filePath}.${maxFiles}`, { force: true });
+    for (let i = maxFiles - 1; i >= 1; i--) {
+      await fs.rename(`${filePath}.${i}`, `${filePath}.${i + 1}`).catch(() => undefined);
+    }
+    await fs.rename(filePath, `${filePath}.1`);
+  }
+
+  private filesNewestFirst(filePath: string): string[] {
+    const { maxFiles } = this.config;
+    return [filePath, ...Array.from({ length: maxFiles }, (_, i) => `${filePath}.${i + 1}`)];
+  }
+
+  private async readLines(file: string): Promise<string[]> {
+    try {
+      const content = await fs.readFile(file, 'utf8');
+      return content.split('\n').filter(line => line.trim() !== '');
+    } catch (error: any) {
+      if (error?.code === 'ENOENT') {
+        return [];
+      }
+      throw error;
+    }
+  }
+}
+
+function parseEntry(line: string): AuditEntry | undefined {
+  try {
+    return JSON.parse(line) as AuditEntry;
+  } catch {
+    return undefined; // Skip partially written or corrupt lines
+  }
+}
+
+/**
+ * Work out which workflows/credentials a call touched from its arguments and result
+ */
+export function extractAffectedIds(
+  tool: string,
+  args: Record<string, any>,
+  result?: unknown
+): AuditEntry['affected'] {
+  const workflowIds = new Set<string>();
+  const credentialIds = new Set<string>();
+  const resultId = (result as { id?: unknown } | undefined)?.id;
+  const add = (set: Set<string>, value: unknown) => {
+    if (typeof value === 'string' || typeof value === 'number') {
+      set.add(String(value));
+    }
+  };
+
+  if (tool.endsWith('_credential')) {
+    add(credentialIds, args.id);
+    add(credentialIds, resultId);
+  } else {
+    add(workflowIds, args.id);
+    add(workflowIds, args.workflowId);
+    add(workflowIds, resultId);
+  }
+
+  return { workflowIds: [...workflowIds], credentialIds: [...credentialIds] };
+}
+
+// Export singleton instance
+export const auditLogService = new AuditLogService(serverConfig.audit);
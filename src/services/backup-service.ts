@@ -4,10 +4,14 @@ import { pipeline } from 'stream/promises';
 import { Readable } from 'stream';
 import path from 'path';
 import crypto from 'crypto';
-import { n8nApi } from './n8n-api-service.js';
+import { n8nApi, type N8nApiService } from './n8n-api-service.js';
 import { handleApiError } from '../utils/error-handler.js';
 import { validateSafePath, estimateJsonSize, SIZE_LIMITS } from '../utils/file-system-safety.js';
+import { serverConfig } from '../config/server-config.js';
+import type { RequestContext } from '../types/request-context.js';
 import type { N8nWorkflow } from '../types/n8n-types.js';
+import { logger } from '../utils/logger.js';
+import { withSpan } from '../utils/tracing.js';
 
 interface BackupMetadata {
   backupId: string;
@@ -25,6 +29,20 @@ interface WorkflowDiff {
   summary: string;
 }
 
+export const DEFAULT_BACKUP_ROOT = serverConfig.backups.root;
+
+// Free space kept on the backup volume after a write
+export const MIN_FREE_DISK_BYTES = 100 * 1024 * 1024;
+
+/**
+ * Writability and free space of the backup root (health checks)
+ */
+export interface BackupStorageStatus {
+  writable: boolean;
+  availableBytes?: number;
+  error?: string;
+}
+
 /**
  * Service for managing workflow backups
  * Storage: /backups/{workflowId}/{timestamp}.json
@@ -32,7 +50,7 @@ interface WorkflowDiff {
 export class BackupService {
   private backupRoot: string;
 
-  constructor(backupRoot: string = '/app/backups') {
+  constructor(backupRoot: string = DEFAULT_BACKUP_ROOT, private readonly api: N8nApiService = n8nApi) {
     this.backupRoot = backupRoot;
   }
 
@@ -55,14 +73,17 @@ export class BackupService {
    */
   async backupWorkflow(
     workflowId: string,
-    description?: string
+    description?: string,
+    context: RequestContext = {}
   ): Promise<BackupMetadata> {
+    const { signal, onProgress } = context;
     try {
       // Sanitize workflow ID for path traversal protection
       const sanitizedId = this.sanitizeWorkflowId(workflowId);
 
       // Fetch workflow from n8n
-      const workflow = await n8nApi.getWorkflow(workflowId);
+      onProgress?.({ progress: 1, total: 4, message: 'Fetching workflow' });
+      const workflow = await this.api.getWorkflow(workflowId, signal);
 
       // Estimate size before processing
       const estimatedSize = estimateJsonSize(workflow);
@@ -75,14 +96,13 @@ export class BackupService {
       }
 
       if (estimatedSize > SIZE_LIMITS.WARN_THRESHOLD) {
-        console.warn(
-          `Large workflow detected: ~${Math.round(estimatedSize / 1024 / 1024)}MB. ` +
-          `Using streaming write.`
-        );
+        logger.warn('Large workflow detected, using streaming write', { workflowId, estimatedBytes: estimatedSize });
       }
 
       // Check disk space before backup
-      await this.checkDiskSpace(workflow);
+      onProgress?.({ progress: 2, total: 4, message: 'Checking disk space' });
+      await withSpan('backup.check_disk_space', { 'n8n.workflow_id': workflowId }, () => this.checkDiskSpace(workflow));
+      signal?.throwIfAborted();
 
       // Generate backup ID with nonce to prevent race conditions
       const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
@@ -122,15 +142,24 @@ export class BackupService {
       };
 
       // Use streaming for large workflows
-      if (estimatedSize > SIZE_LIMITS.STREAM_THRESHOLD) {
-        await this.streamWriteJson(tempPath, backupData);
-      } else {
-        await fs.writeFile(tempPath, JSON.stringify(backupData, null, 2), 'utf-8');
-      }
-
-      await fs.rename(tempPath, backupPath);
+      onProgress?.({ progress: 3, total: 4, message: `Writing backup (~${this.formatFileSize(estimatedSize)})` });
+      const streamed = estimatedSize > SIZE_LIMITS.STREAM_THRESHOLD;
+      await withSpan('backup.write', {
+        'n8n.workflow_id': workflowId,
+        'backup.id': backupId,
+        'backup.estimated_bytes': estimatedSize,
+        'backup.streamed': streamed,
+      }, async () => {
+        if (streamed) {
+          await this.streamWriteJson(tempPath, backupData);
+        } else {
+          await fs.writeFile(tempPath, JSON.stringify(backupData, null, 2), 'utf-8');
+        }
+        await fs.rename(tempPath, backupPath);
+      });
 
       // Rotate old backups
+      onProgress?.({ progress: 4, total: 4, message: 'Rotating old backups' });
       await this.rotateBackups(sanitizedId);
 
       // Get file size
@@ -158,23 +187,27 @@ export class BackupService {
       const sanitizedId = this.sanitizeWorkflowId(workflowId);
       const workflowDir = path.join(this.backupRoot, sanitizedId);
 
-      // Check if directory exists
-      try {
-        await fs.access(workflowDir);
-      } catch {
-        return []; // No backups yet
-      }
+      const backups = await withSpan('backup.list', { 'n8n.workflow_id': workflowId }, async span => {
+        // Check if directory exists
+        try {
+          await fs.access(workflowDir);
+        } catch {
+          return []; // No backups yet
+        }
 
-      const files = await fs.readdir(workflowDir);
-      const backups: BackupMetadata[] = [];
+        const files = await fs.readdir(workflowDir);
+        const found: BackupMetadata[] = [];
 
-      for (const file of files) {
-        if (!file.endsWith('.json')) continue;
+        for (const file of files) {
+          if (!file.endsWith('.json')) continue;
 
-        const filePath = path.join(workflowDir, file);
-        const metadata = await this.getBackupMetadata(filePath);
-        backups.push(metadata);
-      }
+          const filePath = path.join(workflowDir, file);
+          const metadata = await this.getBackupMetadata(filePath);
+          found.push(metadata);
+        }
+        span.setAttribute('backup.count', found.length);
+        return found;
+      });
 
       // Sort by timestamp descending (newest first)
       return backups.sort(
@@ -185,32 +218,74 @@ export class BackupService {
     }
   }
 
+  /**
+   * Load a single backup (metadata + workflow snapshot)
+   */
+  async getBackup(
+    workflowId: string,
+    backupId: string
+  ): Promise<{ metadata: BackupMetadata; workflow: N8nWorkflow }> {
+    try {
+      const sanitizedId = this.sanitizeWorkflowId(workflowId);
+      const { backupData, stats } = await withSpan('backup.read', { 'n8n.workflow_id': workflowId, 'backup.id': backupId }, async () => {
+        const backupPath = await this.findBackupPath(sanitizedId, backupId);
+        return {
+          backupData: JSON.parse(await fs.readFile(backupPath, 'utf-8')),
+          stats: await fs.stat(backupPath),
+        };
+      });
+
+      this.validateBackupStructure(backupData);
+
+      return {
+        metadata: {
+          backupId: backupData.metadata.backupId,
+          workflowId: backupData.metadata.workflowId,
+          timestamp: backupData.metadata.timestamp,
+          description: backupData.metadata.description,
+          size: this.formatFileSize(stats.size),
+          workflowName: backupData.metadata.workflowName,
+        },
+        workflow: backupData.workflow,
+      };
+    } catch (error) {
+      throw handleApiError(error, `Failed to load backup ${backupId} for workflow ${workflowId}`);
+    }
+  }
+
   /**
    * Restore workflow from backup
    */
   async restoreWorkflow(
     workflowId: string,
     backupId: string,
-    autoBackupCurrent: boolean = true
+    autoBackupCurrent: boolean = true,
+    context: RequestContext = {}
   ): Promise<{ restored: boolean; currentBackup?: BackupMetadata }> {
+    const { signal, onProgress } = context;
     try {
       // Auto-backup current version before restore
       let currentBackup: BackupMetadata | undefined;
       if (autoBackupCurrent) {
-        currentBackup = await this.backupWorkflow(workflowId, 'Auto-backup before restore');
+        onProgress?.({ progress: 1, total: 3, message: 'Backing up current version' });
+        currentBackup = await this.backupWorkflow(workflowId, 'Auto-backup before restore', { signal });
       }
 
       // Find and load backup file
+      onProgress?.({ progress: 2, total: 3, message: 'Loading backup' });
       const sanitizedId = this.sanitizeWorkflowId(workflowId);
-      const backupPath = await this.findBackupPath(sanitizedId, backupId);
-      const backupContent = await fs.readFile(backupPath, 'utf-8');
+      const backupContent = await withSpan('backup.read', { 'n8n.workflow_id': workflowId, 'backup.id': backupId }, async () =>
+        fs.readFile(await this.findBackupPath(sanitizedId, backupId), 'utf-8')
+      );
       const backupData = JSON.parse(backupContent);
 
       // Validate backup structure
       this.validateBackupStructure(backupData);
 
       // Restore workflow via n8n API
-      await n8nApi.updateWorkflow(workflowId, backupData.workflow);
+      onProgress?.({ progress: 3, total: 3, message: 'Restoring workflow' });
+      signal?.throwIfAborted();
+      await this.api.updateWorkflow(workflowId, backupData.workflow, signal);
 
       return {
         restored: true,
@@ -230,15 +305,16 @@ export class BackupService {
     backupId2: string
   ): Promise<WorkflowDiff> {
     try {
-      const [backup1Path, backup2Path] = await Promise.all([
-        this.findBackupPath(workflowId, backupId1),
-        this.findBackupPath(workflowId, backupId2),
-      ]);
-
-      const [content1, content2] = await Promise.all([
-        fs.readFile(backup1Path, 'utf-8'),
-        fs.readFile(backup2Path, 'utf-8'),
-      ]);
+      const [content1, content2] = await withSpan('backup.read', { 'n8n.workflow_id': workflowId }, async () => {
+        const [backup1Path, backup2Path] = await Promise.all([
+          this.findBackupPath(workflowId, backupId1),
+          this.findBackupPath(workflowId, backupId2),
+        ]);
+        return Promise.all([
+          fs.readFile(backup1Path, 'utf-8'),
+          fs.readFile(backup2Path, 'utf-8'),
+        ]);
+      });
 
       const workflow1: N8nWorkflow = JSON.parse(content1).workflow;
       const workflow2: N8nWorkflow = JSON.parse(content2).workflow;
@@ -263,23 +339,25 @@ export class BackupService {
       const sanitizedId = this.sanitizeWorkflowId(workflowId);
       const workflowDir = path.join(this.backupRoot, sanitizedId);
 
-      for (const backup of toDelete) {
-        const { timestamp, nonce } = this.parseBackupId(backup.backupId);
-        const filePath = path.join(workflowDir, `${timestamp}_${nonce}.json`);
-        try {
-          await fs.unlink(filePath);
-        } catch (error: any) {
-          // Handle locked/busy files gracefully
-          if (error.code === 'EPERM' || error.code === 'EBUSY') {
-            console.warn(`Skipping locked backup file: ${filePath}`);
-            continue;
+      await withSpan('backup.rotate', { 'n8n.workflow_id': workflowId, 'backup.deleted': toDelete.length }, async () => {
+        for (const backup of toDelete) {
+          const { timestamp, nonce } = this.parseBackupId(backup.backupId);
+          const filePath = path.join(workflowDir, `${timestamp}_${nonce}.json`);
+          try {
+            await fs.unlink(filePath);
+          } catch (error: any) {
+            // Handle locked/busy files gracefully
+            if (error.code === 'EPERM' || error.code === 'EBUSY') {
+              logger.warn(`Skipping locked backup file: ${filePath}`);
+              continue;
+            }
+            // Log other errors but continue rotation
+            logger.warn(`Failed to delete backup file ${filePath}`, { error });
           }
-          // Log other errors but continue rotation
-          console.warn(`Failed to delete backup file ${filePath}:`, error.message);
         }
-      }
+      });
     } catch (error) {
-      console.error('Failed to rotate backups:', error);
+      logger.error('Failed to rotate backups', { error });
       // Don't throw - rotation failure shouldn't block backup creation
     }
   }
@@ -302,6 +380,23 @@ export class BackupService {
     };
   }
 
+  /**
+   * Check that backups can be written: creates the root if needed, writes and removes a probe file
+   */
+  async checkStorage(): Promise<BackupStorageStatus> {
+    const probeFile = path.join(this.backupRoot, `.healthcheck-${crypto.randomBytes(4).toString('hex')}`);
+    try {
+      await fs.mkdir(this.backupRoot, { recursive: true });
+      await fs.writeFile(probeFile, '');
+      await fs.unlink(probeFile);
+    } catch (error) {
+      const code = (error as NodeJS.ErrnoException).code;
+      return { writable: false, error: code || (error instanceof Error ? error.message : String(error)) };
+    }
+
+    return { writable: true, availableBytes: await this.getAvailableDiskSpace() };
+  }
+
   // ===== PRIVATE HELPERS =====
 
   private sanitizeWorkflowId(id: string): string {
@@ -316,39 +411,45 @@ export class BackupService {
     try {
       const estimatedSize = JSON.stringify(workflow).length * 1.2; // +20% buffer
 
-      let availableBytes = 0;
-
-      // Try fs.statfs first (Node.js 18.15+, cross-platform)
-      try {
-        const statfs = await fs.statfs(this.backupRoot);
-        // statfs returns block size and available blocks
-        availableBytes = statfs.bavail * statfs.bsize;
-      } catch {
-        // Fallback to df command on Unix systems
-        try {
-          const { exec } = await import('child_process');
-          const { promisify } = await import('util');
-          const execAsync = promisify(exec);
-
-          const { stdout } = await execAsync(`df -k "${this.backupRoot}" | tail -1 | awk '{print $4}'`);
-          const availableKB = parseInt(stdout.trim(), 10);
-          if (!isNaN(availableKB)) {
-            availableBytes = availableKB * 1024;
-          }
-        } catch {
-          // Could not determine disk space, skip check
-          console.warn('Could not determine available disk space, skipping check');
-          return;
-        }
+      const availableBytes = await this.getAvailableDiskSpace();
+      if (availableBytes === undefined) {
+        // Could not determine disk space, skip check
+        logger.warn('Could not determine available disk space, skipping check');
+        return;
       }
 
-      if (availableBytes > 0 && availableBytes < estimatedSize + 100 * 1024 * 1024) {
-        // Keep 100MB free
+      if (availableBytes > 0 && availableBytes < estimatedSize + MIN_FREE_DISK_BYTES) {
         throw new Error('Insufficient disk space for backup');
       }
     } catch (error) {
       // If disk check fails, log warning but continue
-      console.warn('Could not check disk space:', error);
+      logger.warn('Could not check disk space', { error });
+    }
+  }
+
+  /**
+   * Free bytes on the backup volume
+   * @returns undefined when neither statfs nor df can tell
+   */
+  private async getAvailableDiskSpace(): Promise<number | undefined> {
+    // Try fs.statfs first (Node.js 18.15+, cross-platform)
+    try {
+      const statfs = await fs.statfs(this.backupRoot);
+      // statfs returns block size and available blocks
+      return statfs.bavail * statfs.bsize;
+    } catch {
+      // Fallback to df command on Unix systems
+      try {
+        const { exec } = await import('child_process');
+        const { promisify } = await import('util');
+        const execAsync = promisify(exec);
+
+        const { stdout } = await execAsync(`df -k "${this.backupRoot}" | tail -1 | awk '{print $4}'`);
+        const availableKB = parseInt(stdout.trim(), 10);
+        return isNaN(availableKB) ? 0 : availableKB * 1024;
+      } catch {
+        return undefined;
+      }
     }
   }
 
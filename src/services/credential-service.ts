@@ -1,9 +1,15 @@
-import { n8nApi } from './n8n-api-service.js';
-import { credentialTestService } from './credential-test-service.js';
+import { n8nApi, type N8nApiService } from './n8n-api-service.js';
+import { credentialTestService, type CredentialTestService } from './credential-test-service.js';
 import { handleApiError } from '../utils/error-handler.js';
 import { TemplateCache } from '../utils/template-cache.js';
 import { credentialLockManager } from '../utils/credential-lock-manager.js';
+import { serverConfig } from '../config/server-config.js';
+import type { RequestContext } from '../types/request-context.js';
 import type { N8nCredential, N8nCredentialSchema } from '../types/n8n-types.js';
+import { logger } from '../utils/logger.js';
+
+// listCredentials progress is reported in percent: workflow scan = 0-90, DB fallback = 95
+const LIST_PROGRESS_SCAN_SHARE = 90;
 
 /**
  * Recursively sanitize object to prevent prototype pollution
@@ -33,14 +39,25 @@ function sanitizeObject(obj: any): any {
  * Handles credential CRUD, validation, testing, and usage tracking
  */
 export class CredentialService {
-  private cache: TemplateCache = new TemplateCache(5); // 5s cache for credentials (sensitive data)
+  private cache: TemplateCache = new TemplateCache(serverConfig.cache.credentialsTtlSeconds, 'credentials'); // Short TTL: credentials are sensitive
+
+  /**
+   * @param options.databaseFallback Query the DB_POSTGRESDB_* database when listing
+   *   (only meaningful for the instance that database belongs to)
+   */
+  constructor(
+    private readonly api: N8nApiService = n8nApi,
+    private readonly tester: CredentialTestService = credentialTestService,
+    private readonly options: { databaseFallback?: boolean } = {}
+  ) {}
+
   /**
    * Get schema for credential type
    * @throws McpError if credential type not found
    */
-  async getSchema(credentialType: string): Promise<N8nCredentialSchema> {
+  async getSchema(credentialType: string, context: RequestContext = {}): Promise<N8nCredentialSchema> {
     try {
-      return await n8nApi.getCredentialSchema(credentialType);
+      return await this.api.getCredentialSchema(credentialType, context.signal);
     } catch (error) {
       throw handleApiError(error, `Schema not found for ${credentialType}`);
     }
@@ -53,7 +70,8 @@ export class CredentialService {
    * 3. Fallback to psql if available
    * 4. Deduplicate and return
    */
-  async listCredentials(type?: string): Promise<N8nCredential[]> {
+  async listCredentials(type?: string, context: RequestContext = {}): Promise<N8nCredential[]> {
+    const { onProgress } = context;
     const cacheKey = `list:${type || 'all'}`;
     const cached = this.cache.get(cacheKey);
     if (cached) return cached;
@@ -61,20 +79,23 @@ export class CredentialService {
     const credentials = new Map<string, N8nCredential>();
 
     // Method 1: Parse from workflows
-    const credentialsFromWorkflows = await this.listFromWorkflows();
+    const credentialsFromWorkflows = await this.listFromWorkflows(context);
     credentialsFromWorkflows.forEach(cred => {
       credentials.set(cred.id!, cred);
     });
 
     // Method 2: Fallback to psql (if database accessible)
-    try {
-      const credentialsFromDb = await this.listFromDatabase();
-      credentialsFromDb.forEach(cred => {
-        credentials.set(cred.id!, cred);
-      });
-    } catch (error) {
-      // Database not accessible, use workflow data only
-      console.warn('Database query failed, using workflow data only');
+    if (this.options.databaseFallback !== false) {
+      onProgress?.({ progress: 95, total: 100, message: 'Querying credentials database' });
+      try {
+        const credentialsFromDb = await this.listFromDatabase(context.signal);
+        credentialsFromDb.forEach(cred => {
+          credentials.set(cred.id!, cred);
+        });
+      } catch (error) {
+        // Database not accessible, use workflow data only
+        logger.warn('Database query failed, using workflow data only', { error });
+      }
     }
 
     // Filter by type if specified
@@ -84,6 +105,7 @@ export class CredentialService {
     }
 
     this.cache.set(cacheKey, result);
+    onProgress?.({ progress: 100, total: 100, message: `Found ${result.length} credential(s)` });
     return result;
   }
 
@@ -91,11 +113,16 @@ export class CredentialService {
    * Parse credentials from all workflows
    * @private
    */
-  private async listFromWorkflows(): Promise<N8nCredential[]> {
-    const workflows = await n8nApi.listWorkflows({});
+  private async listFromWorkflows({ signal, onProgress }: RequestContext): Promise<N8nCredential[]> {
+    const workflows = await this.api.listWorkflows({}, signal);
     const credentialMap = new Map<string, N8nCredential>();
 
-    for (const workflow of workflows.data) {
+    for (const [index, workflow] of workflows.data.entries()) {
+      onProgress?.({
+        progress: Math.round(((index + 1) / workflows.data.length) * LIST_PROGRESS_SCAN_SHARE),
+        total: 100,
+        message: `Scanning workflow ${index + 1}/${workflows.data.length}`,
+      });
       if (!workflow.nodes) continue;
 
       for (const node of workflow.nodes) {
@@ -125,16 +152,17 @@ export class CredentialService {
    * Requires psql command and proper permissions
    * @private
    */
-  private async listFromDatabase(): Promise<N8nCredential[]> {
+  private async listFromDatabase(signal?: AbortSignal): Promise<N8nCredential[]> {
     const { execFile } = await import('child_process');
     const { promisify } = await import('util');
     const execFileAsync = promisify(execFile);
 
-    const dbHost = process.env.DB_POSTGRESDB_HOST || 'localhost';
-    const dbPort = process.env.DB_POSTGRESDB_PORT || '5432';
-    const dbName = process.env.DB_POSTGRESDB_DATABASE || 'n8n';
-    const dbUser = process.env.DB_POSTGRESDB_USER || 'n8n';
-    const dbPassword = process.env.DB_POSTGRESDB_PASSWORD || '';
+    const { database } = serverConfig;
+    const dbHost = database.host;
+    const dbPort = String(database.port);
+    const dbName = database.database;
+    const dbUser = database.user;
+    const dbPassword = database.password;
 
     // Validate host against whitelist pattern (hostname or IP)
     const validHostPattern = /^[a-zA-Z0-9][-a-zA-Z0-9.]*$/;
@@ -159,7 +187,7 @@ export class CredentialService {
     const { stdout } = await execFileAsync(
       'psql',
       ['-h', dbHost, '-p', dbPort, '-U', dbUser, '-d', dbName, '-t', '-A', '-F,', '-c', query],
-      { env }
+      { env, signal }
     );
 
     // Parse CSV output
@@ -175,14 +203,15 @@ export class CredentialService {
    */
   async validateCredentialData(
     type: string,
-    data: Record<string, any>
+    data: Record<string, any>,
+    context: RequestContext = {}
   ): Promise<{ valid: boolean; errors: string[] }> {
     // Null/undefined check for data parameter
     if (data === null || data === undefined) {
       return { valid: false, errors: ['Credential data is required'] };
     }
 
-    const schema = await this.getSchema(type);
+    const schema = await this.getSchema(type, context);
     const errors: string[] = [];
 
     // Protect against prototype pollution in credential data
@@ -226,10 +255,12 @@ export class CredentialService {
   }
 
   /**
-   * Create credential with validation
-   * Warns if duplicate name exists (n8n allows duplicates)
+   * Checks createCredential runs before calling the API (also used by dry runs):
+   * sanitizes the data, validates it against the schema and looks for duplicate names
+   * @returns warnings that do not block creation
+   * @throws Error on dangerous keys or data not matching the schema
    */
-  async createCredential(credential: N8nCredential): Promise<N8nCredential> {
+  async prepareCreate(credential: N8nCredential, context: RequestContext = {}): Promise<string[]> {
     // Sanitize credential data before validation
     if (credential.data) {
       const sanitized = Object.create(null);
@@ -245,7 +276,8 @@ export class CredentialService {
     // Validate data against schema
     const validation = await this.validateCredentialData(
       credential.type,
-      credential.data || {}
+      credential.data || {},
+      { signal: context.signal }
     );
 
     if (!validation.valid) {
@@ -253,24 +285,39 @@ export class CredentialService {
     }
 
     // Check for duplicate names (warning only)
-    const existing = await this.listCredentials();
+    const existing = await this.listCredentials(undefined, { signal: context.signal });
     const duplicate = existing.find(c => c.name === credential.name);
-    if (duplicate) {
-      console.warn(
-        `Warning: Credential name "${credential.name}" already exists (ID: ${duplicate.id})`
-      );
+    return duplicate
+      ? [`Credential name "${credential.name}" already exists (ID: ${duplicate.id})`]
+      : [];
+  }
+
+  /**
+   * Create credential with validation
+   * Warns if duplicate name exists (n8n allows duplicates)
+   */
+  async createCredential(credential: N8nCredential, context: RequestContext = {}): Promise<N8nCredential> {
+    const warnings = await this.prepareCreate(credential, context);
+    for (const warning of warnings) {
+      logger.warn(warning);
     }
 
     // Create via API
-    const created = await n8nApi.createCredential(credential);
+    const created = await this.api.createCredential(credential, context.signal);
     this.cache.clear();
     return created;
   }
 
   /**
-   * Update existing credential
+   * Checks updateCredential runs before calling the API (also used by dry runs)
+   * @returns the credential as currently listed (id, name, type)
+   * @throws Error on dangerous keys or when the credential does not exist
    */
-  async updateCredential(id: string, updates: Partial<N8nCredential>): Promise<N8nCredential> {
+  async prepareUpdate(
+    id: string,
+    updates: Partial<N8nCredential>,
+    context: RequestContext = {}
+  ): Promise<N8nCredential> {
     // Sanitize credential data if present in updates
     if (updates.data) {
       const sanitized = Object.create(null);
@@ -284,13 +331,25 @@ export class CredentialService {
     }
 
     // Verify credential exists first
-    const credentials = await this.listCredentials();
-    const exists = credentials.some(c => c.id === id);
-    if (!exists) {
+    const credentials = await this.listCredentials(undefined, { signal: context.signal });
+    const existing = credentials.find(c => c.id === id);
+    if (!existing) {
       throw new Error(`Credential ${id} not found`);
     }
+    return existing;
+  }
 
-    const updated = await n8nApi.updateCredential(id, updates);
+  /**
+   * Update existing credential
+   */
+  async updateCredential(
+    id: string,
+    updates: Partial<N8nCredential>,
+    context: RequestContext = {}
+  ): Promise<N8nCredential> {
+    await this.prepareUpdate(id, updates, context);
+
+    const updated = await this.api.updateCredential(id, updates, context.signal);
     this.cache.clear();
     return updated;
   }
@@ -299,8 +358,8 @@ export class CredentialService {
    * Find all workflows using a specific credential
    * Used for safety checks before deletion
    */
-  async getCredentialUsage(credentialId: string): Promise<string[]> {
-    const workflows = await n8nApi.listWorkflows({});
+  async getCredentialUsage(credentialId: string, context: RequestContext = {}): Promise<string[]> {
+    const workflows = await this.api.listWorkflows({}, context.signal);
     const usedBy: string[] = [];
 
     for (const workflow of workflows.data) {
@@ -322,11 +381,11 @@ export class CredentialService {
   }
 
   /**
-   * Delete credential with safety checks
-   * @param id Credential ID
-   * @param force Skip in-use check
+   * Safety checks deleteCredential runs before calling the API (also used by dry runs)
+   * @param force Skip the lock and in-use checks
+   * @throws Error when the credential is locked by an execution or used by workflows
    */
-  async deleteCredential(id: string, force: boolean = false): Promise<void> {
+  async prepareDelete(id: string, force: boolean = false, context: RequestContext = {}): Promise<void> {
     // Check if credential is locked by active execution
     if (!force && credentialLockManager.isLocked(id)) {
       const holders = credentialLockManager.getLockHolders(id);
@@ -337,7 +396,7 @@ export class CredentialService {
     }
 
     if (!force) {
-      const usedBy = await this.getCredentialUsage(id);
+      const usedBy = await this.getCredentialUsage(id, { signal: context.signal });
       if (usedBy.length > 0) {
         throw new Error(
           `Credential is used by ${usedBy.length} workflow(s): ${usedBy.join(', ')}. ` +
@@ -345,8 +404,17 @@ export class CredentialService {
         );
       }
     }
+  }
+
+  /**
+   * Delete credential with safety checks
+   * @param id Credential ID
+   * @param force Skip in-use check
+   */
+  async deleteCredential(id: string, force: boolean = false, context: RequestContext = {}): Promise<void> {
+    await this.prepareDelete(id, force, context);
 
-    await n8nApi.deleteCredential(id);
+    await this.api.deleteCredential(id, context.signal);
     this.cache.clear();
   }
 
@@ -354,20 +422,20 @@ export class CredentialService {
    * Test credential validity
    * Delegates to credential-test-service
    */
-  async testCredential(credentialId: string): Promise<{
+  async testCredential(credentialId: string, context: RequestContext = {}): Promise<{
     valid: boolean;
     message: string;
     testedAt: string;
   }> {
     // Get credential info to pass to test service
-    const credentials = await this.listCredentials();
+    const credentials = await this.listCredentials(undefined, { signal: context.signal });
     const credential = credentials.find(c => c.id === credentialId);
 
     if (!credential) {
       throw new Error(`Credential ${credentialId} not found`);
     }
 
-    return await credentialTestService.testCredential(credentialId, credential);
+    return await this.tester.testCredential(credentialId, credential, context);
   }
 
   /**
@@ -1,42 +1,61 @@
-import { n8nApi } from './n8n-api-service.js';
+import { n8nApi, type N8nApiService } from './n8n-api-service.js';
 import { handleApiError } from '../utils/error-handler.js';
+import { abortableSleep } from '../utils/abort.js';
+import type { RequestContext } from '../types/request-context.js';
 import type { N8nCredential } from '../types/n8n-types.js';
 
+const MAX_EXECUTION_RETRIES = 3;
+// Steps: create workflow + one per execution attempt + cleanup
+const TEST_PROGRESS_TOTAL = MAX_EXECUTION_RETRIES + 2;
+
 /**
  * Service for testing credential validity
  * Creates temporary workflows to validate credential connections
  */
 export class CredentialTestService {
+  constructor(private readonly api: N8nApiService = n8nApi) {}
+
   /**
    * Test credential validity by creating and executing a temporary workflow
    * Heavy operation - use sparingly
    *
+   * The temporary workflow is always deleted, including when the request is cancelled
+   *
    * @param credentialId Credential ID to test
+   * @param context Optional abort signal and step reporter (create, execute, cleanup)
    * @returns Test result with validity status and message
    */
   async testCredential(
     credentialId: string,
-    credential: N8nCredential
+    credential: N8nCredential,
+    context: RequestContext = {}
   ): Promise<{
     valid: boolean;
     message: string;
     testedAt: string;
   }> {
+    const { signal, onProgress } = context;
+    signal?.throwIfAborted();
+
     const testWorkflowName = `__test_credential_${credentialId}_${Date.now()}`;
+    let createdWorkflowId: string | undefined;
 
     try {
       // Create minimal test workflow based on credential type
+      onProgress?.({ progress: 1, total: TEST_PROGRESS_TOTAL, message: 'Creating test workflow' });
       const testWorkflow = this.createTestWorkflow(testWorkflowName, credential);
-      const createdWorkflow = await n8nApi.createWorkflow(testWorkflow);
+      const createdWorkflow = await this.api.createWorkflow(testWorkflow, signal);
+      createdWorkflowId = createdWorkflow.id;
 
       // Execute workflow with retry mechanism
-      const execution = await this.executeWithRetry(createdWorkflow.id!, 3);
+      const execution = await this.executeWithRetry(createdWorkflow.id!, MAX_EXECUTION_RETRIES, context);
 
       // Check execution result
       const success = execution.finished && !execution.data?.resultData?.error;
 
-      // Cleanup: delete test workflow
-      await n8nApi.deleteWorkflow(createdWorkflow.id!);
+      // Cleanup: delete test workflow (no signal - must complete even if cancelled)
+      onProgress?.({ progress: TEST_PROGRESS_TOTAL, total: TEST_PROGRESS_TOTAL, message: 'Cleaning up test workflow' });
+      await this.api.deleteWorkflow(createdWorkflow.id!);
 
       return {
         valid: success,
@@ -47,7 +66,8 @@ export class CredentialTestService {
       };
     } catch (error) {
       // Cleanup on error
-      await this.cleanupTestWorkflow(testWorkflowName);
+      onProgress?.({ progress: TEST_PROGRESS_TOTAL, total: TEST_PROGRESS_TOTAL, message: 'Cleaning up test workflow' });
+      await this.cleanupTestWorkflow(testWorkflowName, createdWorkflowId);
       throw handleApiError(error, 'Credential test failed');
     }
   }
@@ -58,24 +78,33 @@ export class CredentialTestService {
    */
   private async executeWithRetry(
     workflowId: string,
-    maxRetries: number
+    maxRetries: number,
+    { signal, onProgress }: RequestContext = {}
   ): Promise<any> {
     let lastError: Error | undefined;
 
     for (let i = 0; i < maxRetries; i++) {
+      onProgress?.({
+        progress: 2 + i,
+        total: TEST_PROGRESS_TOTAL,
+        message: `Executing test workflow (attempt ${i + 1}/${maxRetries})`,
+      });
       try {
-        const execution = await n8nApi.executeWorkflow(workflowId);
+        const execution = await this.api.executeWorkflow(workflowId, signal);
 
         // Wait a bit for execution to complete
-        await this.sleep(2000 * (i + 1));
+        await abortableSleep(2000 * (i + 1), signal);
 
         // Fetch execution result
-        return await n8nApi.getExecution(execution.id);
+        return await this.api.getExecution(execution.id, false, signal);
       } catch (error) {
+        // Cancelled: stop retrying immediately
+        if (signal?.aborted) throw error;
+
         lastError = error as Error;
         if (i < maxRetries - 1) {
           // Exponential backoff: 1s, 2s, 4s
-          await this.sleep(1000 * Math.pow(2, i));
+          await abortableSleep(1000 * Math.pow(2, i), signal);
         }
       }
     }
@@ -83,14 +112,6 @@ export class CredentialTestService {
     throw lastError || new Error('Execution failed after retries');
   }
 
-  /**
-   * Sleep utility for async delays
-   * @private
-   */
-  private sleep(ms: number): Promise<void> {
-    return new Promise(resolve => setTimeout(resolve, ms));
-  }
-
   /**
    * Create appropriate test workflow based on credential type
    * Maps credential types to minimal test configurations
@@ -161,14 +182,21 @@ export class CredentialTestService {
 
   /**
    * Cleanup test workflow if it still exists
+   * Deletes by ID when known, otherwise looks it up by name
+   * (creation may have succeeded server-side even if the request was aborted)
    * @private
    */
-  private async cleanupTestWorkflow(testWorkflowName: string): Promise<void> {
+  private async cleanupTestWorkflow(testWorkflowName: string, workflowId?: string): Promise<void> {
     try {
-      const workflows = await n8nApi.listWorkflows({});
+      if (workflowId) {
+        await this.api.deleteWorkflow(workflowId);
+        return;
+      }
+
+      const workflows = await this.api.listWorkflows({});
       const testWf = workflows.data.find(w => w.name === testWorkflowName);
       if (testWf) {
-        await n8nApi.deleteWorkflow(testWf.id!);
+        await this.api.deleteWorkflow(testWf.id!);
       }
     } catch {
       // Ignore cleanup errors
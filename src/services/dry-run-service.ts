@@ -0,0 +1,158 @@
+import { McpError, ErrorCode } from '@modelcontextprotocol/sdk/types.js';
+import { n8nApi, type N8nApiService } from './n8n-api-service.js';
+import { validationService, type ValidationService } from './validation-service.js';
+import { credentialService, type CredentialService } from './credential-service.js';
+import { backupService, type BackupService } from './backup-service.js';
+import { templateService, type TemplateService } from './template-service.js';
+import { validateRequired } from '../utils/error-handler.js';
+import { diffCredentials, diffWorkflows, redactCredentialData } from '../utils/resource-diff.js';
+import type { RequestContext } from '../types/request-context.js';
+import type { N8nCredential, N8nWorkflow } from '../types/n8n-types.js';
+import type { DryRunResult, PlannedApiCall, ResourceDiff } from '../types/dry-run.js';
+
+/**
+ * Plans mutating tool calls without sending them (`dryRun: true`)
+ *
+ * Runs the same checks as the real call (N8nApiService argument validation,
+ * CredentialService schema / lock / usage checks, backup and template loading),
+ * reads the live resource to diff against, and returns the requests the tool
+ * would send. Only GET requests reach n8n.
+ */
+export class DryRunService {
+  constructor(
+    private readonly api: N8nApiService = n8nApi,
+    private readonly validation: ValidationService = validationService,
+    private readonly credentials: CredentialService = credentialService,
+    private readonly backups: BackupService = backupService,
+    private readonly templates: TemplateService = templateService
+  ) {}
+
+  /**
+   * Dry run of a mutating tool, with the same arguments as its handler
+   * @throws the error the real call would fail with before reaching n8n
+   */
+  async plan(tool: string, args: Record<string, any>, context: RequestContext = {}): Promise<DryRunResult> {
+    const { signal } = context;
+
+    switch (tool) {
+      case 'create_workflow': {
+        validateRequired(args, ['name']);
+        const call = this.api.planCreateWorkflow(args);
+        return await this.planWorkflowChange(tool, call, undefined, args, context);
+      }
+
+      case 'update_workflow': {
+        validateRequired(args, ['id']);
+        const { id, ...updates } = args;
+        const call = this.api.planUpdateWorkflow(id, updates);
+        const current = await this.api.getWorkflow(id, signal);
+        return await this.planWorkflowChange(tool, call, current, { ...current, ...updates }, context);
+      }
+
+      case 'delete_workflow': {
+        validateRequired(args, ['id']);
+        const call = this.api.planDeleteWorkflow(args.id);
+        const current = await this.api.getWorkflow(args.id, signal);
+        return this.result(tool, [call], diffWorkflows(current, undefined));
+      }
+
+      case 'activate_workflow': {
+        validateRequired(args, ['id', 'active']);
+        const call = this.api.planActivateWorkflow(args.id, args.active);
+        const current = await this.api.getWorkflow(args.id, signal);
+        return await this.planWorkflowChange(tool, call, current, { ...current, active: args.active }, context);
+      }
+
+      case 'restore_workflow': {
+        validateRequired(args, ['workflowId', 'backupId']);
+        const backup = await this.backups.getBackup(args.workflowId, args.backupId);
+        const call = this.api.planUpdateWorkflow(args.workflowId, backup.workflow);
+        const current = await this.api.getWorkflow(args.workflowId, signal);
+        const result = await this.planWorkflowChange(tool, call, current, backup.workflow, context);
+        if (args.autoBackupCurrent ?? true) {
+          result.sideEffects = [`Back up the current version of workflow ${args.workflowId} before restoring`];
+        }
+        return result;
+      }
+
+      case 'import_template': {
+        validateRequired(args, ['templateId']);
+        const workflow = await this.templates.prepareImport(args.templateId, {
+          credentialMapping: args.credentialMapping,
+          skipNodeValidation: args.skipNodeValidation,
+          importInactive: args.importInactive !== false,
+        }, context);
+        const call = this.api.planCreateWorkflow(workflow);
+        return await this.planWorkflowChange(tool, call, undefined, workflow, context);
+      }
+
+      case 'create_credential': {
+        validateRequired(args, ['name', 'type', 'data']);
+        const credential = args as N8nCredential;
+        const warnings = await this.credentials.prepareCreate(credential, context);
+        const call = this.api.planCreateCredential(credential);
+        return this.result(tool, [redactCall(call)], diffCredentials(undefined, credential), warnings);
+      }
+
+      case 'update_credential': {
+        validateRequired(args, ['id']);
+        const { id, ...updates } = args;
+        const existing = await this.credentials.prepareUpdate(id, updates, context);
+        const call = this.api.planUpdateCredential(id, updates);
+        return this.result(tool, [redactCall(call)], diffCredentials(existing, updates));
+      }
+
+      case 'delete_credential': {
+        validateRequired(args, ['id']);
+        await this.credentials.prepareDelete(args.id, args.force || false, context);
+        const call = this.api.planDeleteCredential(args.id);
+        const existing = (await this.credentials.listCredentials(undefined, { signal })).find(c => c.id === args.id);
+        return this.result(
+          tool,
+          [call],
+          diffCredentials(existing ?? { id: args.id }, undefined),
+          existing ? [] : [`Credential ${args.id} was not found in list_credentials; n8n may reject the call`]
+        );
+      }
+
+      default:
+        throw new McpError(ErrorCode.InvalidParams, `Tool ${tool} does not support dryRun`);
+    }
+  }
+
+  /**
+   * Diff a workflow change and validate the resulting workflow (advisory, like validate_workflow_structure)
+   */
+  private async planWorkflowChange(
+    tool: string,
+    call: PlannedApiCall,
+    before: Partial<N8nWorkflow> | undefined,
+    after: Partial<N8nWorkflow>,
+    context: RequestContext
+  ): Promise<DryRunResult> {
+    const validation = await this.validation.validateWorkflowStructure(after, { signal: context.signal });
+    return { ...this.result(tool, [call], diffWorkflows(before, after)), validation };
+  }
+
+  private result(
+    tool: string,
+    plannedCalls: PlannedApiCall[],
+    diff: ResourceDiff,
+    warnings: string[] = []
+  ): DryRunResult {
+    if (diff.action === 'none') {
+      warnings = [...warnings, 'The call would not change anything'];
+    }
+    return { dryRun: true, tool, plannedCalls, diff, warnings };
+  }
+}
+
+/**
+ * Planned credential call with its data values hidden
+ */
+function redactCall(call: PlannedApiCall): PlannedApiCall {
+  return call.body ? { ...call, body: redactCredentialData(call.body as Partial<N8nCredential>) } : call;
+}
+
+// Export singleton instance
+export const dryRunService = new DryRunService();
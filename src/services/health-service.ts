@@ -0,0 +1,187 @@
+import { n8nApi, type N8nApiService } from './n8n-api-service.js';
+import { backupService, MIN_FREE_DISK_BYTES, type BackupService } from './backup-service.js';
+import { templateService, type TemplateService } from './template-service.js';
+import { metrics } from '../utils/metrics.js';
+import { serverConfig } from '../config/server-config.js';
+
+export type HealthStatus = 'pass' | 'warn' | 'fail';
+
+export type HealthCheckName = 'n8n_api' | 'webhook' | 'backup_storage' | 'template_api';
+
+/**
+ * Result of one check; `error` is a short code (ECONNREFUSED, HTTP_401, EACCES, LOW_DISK_SPACE, ...)
+ */
+export interface HealthCheck {
+  status: HealthStatus;
+  latencyMs: number;
+  httpStatus?: number;
+  availableBytes?: number;
+  error?: string;
+}
+
+export interface HealthReport {
+  status: HealthStatus;
+  checkedAt: string;
+  checks: Partial<Record<HealthCheckName, HealthCheck>>;
+}
+
+/**
+ * Health check settings (health section of the server config)
+ * - timeoutMs: per-check timeout (default 5000)
+ * - cacheMs: reuse results for this long so frequent probes don't hit n8n each time (default 5000)
+ * - checkTemplates: also probe the n8n.io template API (never fails readiness)
+ */
+export interface HealthConfig {
+  timeoutMs: number;
+  cacheMs: number;
+  checkTemplates: boolean;
+}
+
+// Local checks fail liveness (a restart may help); n8n checks only fail readiness
+const LOCAL_CHECKS: HealthCheckName[] = ['backup_storage'];
+
+const healthCheckUp = metrics.gauge('health_check_up', 'Result of the last health check (1 = pass/warn, 0 = fail)');
+
+/**
+ * Probes n8n and local storage for the /healthz and /readyz endpoints
+ */
+export class HealthService {
+  private cached?: { report: Omit<HealthReport, 'status'>; at: number };
+  private pending?: Promise<Omit<HealthReport, 'status'>>;
+
+  constructor(
+    private readonly config: HealthConfig,
+    private readonly api: N8nApiService = n8nApi,
+    private readonly backups: BackupService = backupService,
+    private readonly templates: TemplateService = templateService
+  ) {}
+
+  /**
+   * Liveness: fails only when the server itself is broken (backup storage)
+   * n8n outages are reported as warnings, restarting would not fix them
+   */
+  async liveness(now: number = Date.now()): Promise<HealthReport> {
+    const report = await this.getChecks(now);
+    return { status: overallStatus(report.checks, LOCAL_CHECKS), ...report };
+  }
+
+  /**
+   * Readiness: fails when n8n or backup storage is unusable
+   */
+  async readiness(now: number = Date.now()): Promise<HealthReport> {
+    const report = await this.getChecks(now);
+    return { status: overallStatus(report.checks), ...report };
+  }
+
+  private async getChecks(now: number): Promise<Omit<HealthReport, 'status'>> {
+    if (this.cached && now - this.cached.at < this.config.cacheMs) {
+      return this.cached.report;
+    }
+    // Concurrent probes share one run
+    if (!this.pending) {
+      this.pending = this.runChecks()
+        .then(report => {
+          this.cached = { report, at: Date.now() };
+          return report;
+        })
+        .finally(() => {
+          this.pending = undefined;
+        });
+    }
+    return this.pending;
+  }
+
+  private async runChecks(): Promise<Omit<HealthReport, 'status'>> {
+    const signal = AbortSignal.timeout(this.config.timeoutMs);
+
+    const [api, webhook, storage, templates] = await Promise.all([
+      timed(async (): Promise<Omit<HealthCheck, 'latencyMs'>> => {
+        const probe = await this.api.probeApi(signal);
+        return {
+          status: probe.authenticated ? 'pass' : 'fail',
+          ...(probe.status !== undefined && { httpStatus: probe.status }),
+          ...(probe.error && { error: probe.error }),
+        };
+      }),
+      timed(async (): Promise<Omit<HealthCheck, 'latencyMs'>> => {
+        const probe = await this.api.probeWebhookBase(signal);
+        return {
+          status: probe.reachable ? 'pass' : 'fail',
+          ...(probe.status !== undefined && { httpStatus: probe.status }),
+          ...(probe.error && { error: probe.error }),
+        };
+      }),
+      timed(async (): Promise<Omit<HealthCheck, 'latencyMs'>> => {
+        const storage = await this.backups.checkStorage();
+        if (!storage.writable) {
+          return { status: 'fail', error: storage.error };
+        }
+        // Same threshold as BackupService.checkDiskSpace (0 / undefined: unknown, not checked)
+        const lowDisk = storage.availableBytes !== undefined
+          && storage.availableBytes > 0
+          && storage.availableBytes < MIN_FREE_DISK_BYTES;
+        return {
+          status: lowDisk ? 'fail' : 'pass',
+          ...(storage.availableBytes !== undefined && { availableBytes: storage.availableBytes }),
+          ...(lowDisk && { error: 'LOW_DISK_SPACE' }),
+        };
+      }),
+      this.config.checkTemplates
+        ? timed(async (): Promise<Omit<HealthCheck, 'latencyMs'>> => {
+          const probe = await this.templates.probe(signal);
+          return {
+            // Optional dependency: only template tools are affected
+            status: probe.reachable && !probe.error ? 'pass' : 'warn',
+            ...(probe.status !== undefined && { httpStatus: probe.status }),
+            ...(probe.error && { error: probe.error }),
+          };
+        })
+        : undefined,
+    ]);
+
+    const checks: HealthReport['checks'] = {
+      n8n_api: api,
+      webhook,
+      backup_storage: storage,
+      ...(templates && { template_api: templates }),
+    };
+    for (const [name, check] of Object.entries(checks)) {
+      healthCheckUp.set({ check: name }, check.status === 'fail' ? 0 : 1);
+    }
+
+    return { checkedAt: new Date().toISOString(), checks };
+  }
+}
+
+async function timed(check: () => Promise<Omit<HealthCheck, 'latencyMs'>>): Promise<HealthCheck> {
+  const startedAt = Date.now();
+  try {
+    const result = await check();
+    return { ...result, latencyMs: Date.now() - startedAt };
+  } catch (error) {
+    return {
+      status: 'fail',
+      latencyMs: Date.now() - startedAt,
+      error: error instanceof Error ? error.name : 'UNKNOWN',
+    };
+  }
+}
+
+/**
+ * @param failing - Checks whose failure fails the report (all when omitted); other failures become warnings
+ */
+function overallStatus(checks: HealthReport['checks'], failing?: HealthCheckName[]): HealthStatus {
+  let status: HealthStatus = 'pass';
+  for (const [name, check] of Object.entries(checks) as [HealthCheckName, HealthCheck][]) {
+    if (check.status === 'fail' && (!failing || failing.includes(name))) {
+      return 'fail';
+    }
+    if (check.status !== 'pass') {
+      status = 'warn';
+    }
+  }
+  return status;
+}
+
+// Export singleton instance
+export const healthService = new HealthService(serverConfig.health);
@@ -0,0 +1,296 @@
+import { readFileSync } from 'fs';
+import crypto from 'crypto';
+import path from 'path';
+import { McpError, ErrorCode } from '@modelcontextprotocol/sdk/types.js';
+import { N8N_HOST, createN8nClients, normalizeHost } from '../config/env.js';
+import { serverConfig, type ServerConfig } from '../config/server-config.js';
+import { N8nApiService, n8nApi } from './n8n-api-service.js';
+import { CredentialService, credentialService } from './credential-service.js';
+import { CredentialTestService } from './credential-test-service.js';
+import { ValidationService, validationService } from './validation-service.js';
+import { TemplateService, templateService } from './template-service.js';
+import { BackupService, backupService, DEFAULT_BACKUP_ROOT } from './backup-service.js';
+import { DryRunService, dryRunService } from './dry-run-service.js';
+import { ResourceEventBus, resourceEvents } from '../utils/resource-events.js';
+import type { SessionCredentials } from '../utils/session-credentials.js';
+
+const INSTANCE_NAME_PATTERN = /^[A-Za-z0-9_-]{1,64}$/;
+
+/**
+ * Configured n8n instance
+ */
+export interface InstanceProfile {
+  name: string;
+  host: string;
+  apiKey: string;
+  backupRoot: string;
+}
+
+/**
+ * An n8n instance with its own API client and services
+ */
+export interface N8nInstance {
+  name: string;
+  host: string;
+  isDefault: boolean;
+  n8nApi: N8nApiService;
+  credentialService: CredentialService;
+  validationService: ValidationService;
+  templateService: TemplateService;
+  backupService: BackupService;
+  dryRunService: DryRunService;
+  /** Resource change events for sessions reading this instance */
+  events: ResourceEventBus;
+}
+
+/**
+ * Reachability report returned by list_instances
+ */
+export interface InstanceStatus {
+  name: string;
+  host: string;
+  default: boolean;
+  reachable: boolean;
+  authenticated: boolean;
+  version?: string;
+  latencyMs: number;
+  error?: string;
+}
+
+/**
+ * Parse additional instance profiles (JSON text or already parsed entries)
+ * Format: [{ "name": "staging", "host": "https://...", "apiKey": "..." | "apiKeyEnv": "STAGING_KEY", "backupRoot": "..." }]
+ * @throws Error on malformed configuration (fail fast at startup)
+ */
+export function parseInstanceProfiles(raw: string | unknown[], env: NodeJS.ProcessEnv = process.env): InstanceProfile[] {
+  let parsed: unknown = raw;
+  if (typeof raw === 'string') {
+    try {
+      parsed = JSON.parse(raw);
+    } catch {
+      throw new Error('Invalid n8n instance configuration: must be a JSON array');
+    }
+  }
+
+  if (!Array.isArray(parsed)) {
+    throw new Error('Invalid n8n instance configuration: must be a JSON array');
+  }
+
+  return parsed.map((entry: any, index) => {
+    if (!entry || typeof entry !== 'object') {
+      throw new Error(`Invalid n8n instance at index ${index}: must be an object`);
+    }
+    if (typeof entry.name !== 'string' || !INSTANCE_NAME_PATTERN.test(entry.name)) {
+      throw new Error(
+        `Invalid n8n instance at index ${index}: name is required (letters, digits, "_" and "-", max 64)`
+      );
+    }
+    if (typeof entry.host !== 'string' || !/^https?:\/\//.test(entry.host.trim())) {
+      throw new Error(`Invalid n8n instance '${entry.name}': host must be an http(s) URL`);
+    }
+
+    const apiKey = typeof entry.apiKeyEnv === 'string'
+      ? env[entry.apiKeyEnv]?.trim()
+      : typeof entry.apiKey === 'string' ? entry.apiKey.trim() : undefined;
+    if (!apiKey) {
+      throw new Error(
+        entry.apiKeyEnv
+          ? `Invalid n8n instance '${entry.name}': environment variable ${entry.apiKeyEnv} is not set`
+          : `Invalid n8n instance '${entry.name}': apiKey or apiKeyEnv is required`
+      );
+    }
+
+    if (entry.backupRoot !== undefined && typeof entry.backupRoot !== 'string') {
+      throw new Error(`Invalid n8n instance '${entry.name}': backupRoot must be a string`);
+    }
+
+    return {
+      name: entry.name,
+      host: normalizeHost(entry.host),
+      apiKey,
+      backupRoot: entry.backupRoot || path.join(DEFAULT_BACKUP_ROOT, 'instances', entry.name),
+    };
+  });
+}
+
+/**
+ * Load additional instances from instances.profilesFile (N8N_INSTANCES_FILE, path to JSON)
+ * or instances.profiles (N8N_INSTANCES)
+ * Returns empty array when only the N8N_HOST / N8N_API_KEY instance is used
+ */
+export function loadInstanceProfiles(
+  config: ServerConfig['instances'] = serverConfig.instances,
+  env: NodeJS.ProcessEnv = process.env
+): InstanceProfile[] {
+  if (config.profilesFile) {
+    return parseInstanceProfiles(readFileSync(config.profilesFile, 'utf-8'), env);
+  }
+  return parseInstanceProfiles(config.profiles, env);
+}
+
+/**
+ * Resolves the `instance` tool argument to a set of services
+ * The default instance (N8N_HOST / N8N_API_KEY) uses the shared singletons;
+ * other instances get their own clients and services, created on first use
+ */
+export class InstanceRegistry {
+  private profiles = new Map<string, InstanceProfile>();
+  private instances = new Map<string, N8nInstance>();
+
+  constructor(
+    profiles: InstanceProfile[],
+    private readonly defaultInstance: N8nInstance
+  ) {
+    for (const profile of profiles) {
+      if (profile.name === defaultInstance.name || this.profiles.has(profile.name)) {
+        throw new Error(`Duplicate n8n instance name: ${profile.name}`);
+      }
+      this.profiles.set(profile.name, profile);
+    }
+    this.instances.set(defaultInstance.name, defaultInstance);
+  }
+
+  get defaultName(): string {
+    return this.defaultInstance.name;
+  }
+
+  names(): string[] {
+    return [this.defaultInstance.name, ...this.profiles.keys()];
+  }
+
+  isDefault(name?: string): boolean {
+    return name === undefined || name === this.defaultInstance.name;
+  }
+
+  /**
+   * Get an instance by name (the default instance when omitted)
+   * @throws McpError InvalidParams for unknown names
+   */
+  get(name?: string): N8nInstance {
+    if (name === undefined) {
+      return this.defaultInstance;
+    }
+
+    const existing = this.instances.get(name);
+    if (existing) {
+      return existing;
+    }
+
+    const profile = this.profiles.get(name);
+    if (!profile) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        `Unknown n8n instance '${name}' (configured: ${this.names().join(', ')})`
+      );
+    }
+
+    const instance = createInstance(profile);
+    this.instances.set(name, instance);
+    return instance;
+  }
+
+  /**
+   * Resolve the `instance` argument of a tool call
+   * Sessions bound to their own n8n credentials can only use that instance
+   * @throws McpError InvalidParams for unknown names or when a bound session asks for another instance
+   */
+  resolve(name: string | undefined, sessionInstance?: N8nInstance): N8nInstance {
+    if (!sessionInstance) {
+      return this.get(name);
+    }
+    if (name !== undefined && name !== sessionInstance.name) {
+      throw new McpError(
+        ErrorCode.InvalidParams,
+        'This session uses its own n8n credentials; the instance argument cannot select another instance'
+      );
+    }
+    return sessionInstance;
+  }
+
+  /**
+   * Probe every instance: health endpoint, API key and version
+   */
+  async describe(signal?: AbortSignal): Promise<InstanceStatus[]> {
+    return Promise.all(this.names().map(name => probeInstance(this.get(name), signal)));
+  }
+}
+
+/**
+ * Build an isolated instance for an HTTP session that brought its own n8n credentials
+ * Backups are kept under a per-tenant root so tenants never see each other's snapshots
+ */
+export function createSessionInstance(credentials: SessionCredentials): N8nInstance {
+  const tenantDir = crypto.createHash('sha256').update(credentials.tenant).digest('hex').slice(0, 16);
+  return createInstance({
+    name: credentials.tenant,
+    host: credentials.host,
+    apiKey: credentials.apiKey,
+    backupRoot: path.join(DEFAULT_BACKUP_ROOT, 'tenants', tenantDir),
+  });
+}
+
+/**
+ * Build the clients and services for a non-default instance
+ */
+function createInstance(profile: InstanceProfile): N8nInstance {
+  const clients = createN8nClients({ host: profile.host, apiKey: profile.apiKey });
+  const api = new N8nApiService(clients);
+  // The DB_POSTGRESDB_* fallback belongs to the default instance only
+  const credentials = new CredentialService(api, new CredentialTestService(api), { databaseFallback: false });
+  const validation = new ValidationService(api, credentials);
+  const templates = new TemplateService(api);
+  const backups = new BackupService(profile.backupRoot, api);
+
+  return {
+    name: profile.name,
+    host: clients.host,
+    isDefault: false,
+    n8nApi: api,
+    credentialService: credentials,
+    validationService: validation,
+    templateService: templates,
+    backupService: backups,
+    dryRunService: new DryRunService(api, validation, credentials, backups, templates),
+    events: new ResourceEventBus(),
+  };
+}
+
+/**
+ * Check reachability, API key and version of one instance
+ */
+export async function probeInstance(instance: N8nInstance, signal?: AbortSignal): Promise<InstanceStatus> {
+  const startedAt = Date.now();
+  const [healthy, version, auth] = await Promise.all([
+    instance.n8nApi.checkHealth(signal),
+    instance.n8nApi.getVersion(signal),
+    instance.n8nApi.listWorkflows({ limit: 1 }, signal).then(
+      () => ({ ok: true, error: undefined }),
+      (error: unknown) => ({ ok: false, error: error instanceof Error ? error.message : String(error) })
+    ),
+  ]);
+
+  return {
+    name: instance.name,
+    host: instance.host,
+    default: instance.isDefault,
+    reachable: healthy || version !== undefined || auth.ok,
+    authenticated: auth.ok,
+    ...(version && { version }),
+    latencyMs: Date.now() - startedAt,
+    ...(auth.error && { error: auth.error }),
+  };
+}
+
+// Export singleton instance
+export const instanceRegistry = new InstanceRegistry(loadInstanceProfiles(), {
+  name: serverConfig.instances.defaultName,
+  host: N8N_HOST,
+  isDefault: true,
+  n8nApi,
+  credentialService,
+  validationService,
+  templateService,
+  backupService,
+  dryRunService,
+  events: resourceEvents,
+});
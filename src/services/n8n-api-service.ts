@@ -1,5 +1,5 @@
-import { n8nClient, webhookClient } from '../config/env.js';
-import { handleApiError } from '../utils/error-handler.js';
+import { n8nClient, webhookClient, type N8nClients } from '../config/env.js';
+import { handleApiError, describeProbeError, type EndpointProbe } from '../utils/error-handler.js';
 import type {
   N8nWorkflow,
   N8nExecution,
@@ -7,14 +7,28 @@ import type {
   N8nCredentialSchema,
   N8nNodeSchema
 } from '../types/n8n-types.js';
+import type { PlannedApiCall } from '../types/dry-run.js';
 
 /**
  * Service class wrapping n8n REST API v1
  * Handles all HTTP communication with n8n instance
+ * Every method accepts an optional AbortSignal to cancel the in-flight request
+ * Mutations are described by plan* methods (validation + request, nothing sent),
+ * which dry runs return and the mutating methods execute
  */
 export class N8nApiService {
   private nodeSchemaCache = new Map<string, N8nNodeSchema>();
   private readonly MAX_CACHE_SIZE = 100;
+  private readonly n8nClient: N8nClients['n8nClient'];
+  private readonly webhookClient: N8nClients['webhookClient'];
+
+  /**
+   * @param clients HTTP clients of the n8n instance to talk to (defaults to N8N_HOST)
+   */
+  constructor(clients: Pick<N8nClients, 'n8nClient' | 'webhookClient'> = { n8nClient, webhookClient }) {
+    this.n8nClient = clients.n8nClient;
+    this.webhookClient = clients.webhookClient;
+  }
 
   private validateWorkflowId(id: string): void {
     if (!id || id.trim() === '') {
@@ -47,28 +61,33 @@ export class N8nApiService {
     active?: boolean;
     limit?: number;
     tags?: string;
-  }): Promise<{ data: N8nWorkflow[] }> {
+  }, signal?: AbortSignal): Promise<{ data: N8nWorkflow[] }> {
     try {
-      const response = await n8nClient.get('/workflows', { params });
+      const response = await this.n8nClient.get('/workflows', { params, signal });
       return response.data;
     } catch (error) {
       throw handleApiError(error, 'Failed to list workflows');
     }
   }
 
-  async getWorkflow(id: string): Promise<N8nWorkflow> {
+  async getWorkflow(id: string, signal?: AbortSignal): Promise<N8nWorkflow> {
     this.validateWorkflowId(id);
     try {
-      const response = await n8nClient.get(`/workflows/${id}`);
+      const response = await this.n8nClient.get(`/workflows/${id}`, { signal });
       return response.data;
     } catch (error) {
       throw handleApiError(error, `Failed to get workflow ${id}`);
     }
   }
 
-  async createWorkflow(workflow: Partial<N8nWorkflow>): Promise<N8nWorkflow> {
+  planCreateWorkflow(workflow: Partial<N8nWorkflow>): PlannedApiCall {
+    return { method: 'POST', path: '/workflows', body: workflow };
+  }
+
+  async createWorkflow(workflow: Partial<N8nWorkflow>, signal?: AbortSignal): Promise<N8nWorkflow> {
+    const call = this.planCreateWorkflow(workflow);
     try {
-      const response = await n8nClient.post('/workflows', workflow);
+      const response = await this.n8nClient.post(call.path, call.body, { signal });
       return response.data;
     } catch (error) {
       throw handleApiError(error, 'Failed to create workflow');
@@ -97,31 +116,48 @@ export class N8nApiService {
     }
   }
 
-  async updateWorkflow(id: string, workflow: Partial<N8nWorkflow>): Promise<N8nWorkflow> {
+  /**
+   * @throws Error when the ID or the update is invalid
+   */
+  planUpdateWorkflow(id: string, workflow: Partial<N8nWorkflow>): PlannedApiCall {
     this.validateWorkflowId(id);
     this.validateWorkflowUpdate(workflow);
+    return { method: 'PUT', path: `/workflows/${id}`, body: workflow };
+  }
+
+  async updateWorkflow(id: string, workflow: Partial<N8nWorkflow>, signal?: AbortSignal): Promise<N8nWorkflow> {
+    const call = this.planUpdateWorkflow(id, workflow);
     try {
-      const response = await n8nClient.put(`/workflows/${id}`, workflow);
+      const response = await this.n8nClient.put(call.path, call.body, { signal });
       return response.data;
     } catch (error) {
       throw handleApiError(error, `Failed to update workflow ${id}`);
     }
   }
 
-  async deleteWorkflow(id: string): Promise<void> {
+  planDeleteWorkflow(id: string): PlannedApiCall {
     this.validateWorkflowId(id);
+    return { method: 'DELETE', path: `/workflows/${id}` };
+  }
+
+  async deleteWorkflow(id: string, signal?: AbortSignal): Promise<void> {
+    const call = this.planDeleteWorkflow(id);
     try {
-      await n8nClient.delete(`/workflows/${id}`);
+      await this.n8nClient.delete(call.path, { signal });
     } catch (error) {
       throw handleApiError(error, `Failed to delete workflow ${id}`);
     }
   }
 
-  async activateWorkflow(id: string, active: boolean): Promise<N8nWorkflow> {
+  planActivateWorkflow(id: string, active: boolean): PlannedApiCall {
     this.validateWorkflowId(id);
+    return { method: 'POST', path: `/workflows/${id}/${active ? 'activate' : 'deactivate'}` };
+  }
+
+  async activateWorkflow(id: string, active: boolean, signal?: AbortSignal): Promise<N8nWorkflow> {
+    const call = this.planActivateWorkflow(id, active);
     try {
-      const endpoint = active ? 'activate' : 'deactivate';
-      const response = await n8nClient.post(`/workflows/${id}/${endpoint}`);
+      const response = await this.n8nClient.post(call.path, undefined, { signal });
       return response.data;
     } catch (error) {
       throw handleApiError(error, `Failed to ${active ? 'activate' : 'deactivate'} workflow ${id}`);
@@ -135,27 +171,29 @@ export class N8nApiService {
     status?: string;
     limit?: number;
     includeData?: boolean;
-  }): Promise<{ data: N8nExecution[] }> {
+  }, signal?: AbortSignal): Promise<{ data: N8nExecution[] }> {
     try {
-      const response = await n8nClient.get('/executions', { params });
+      const response = await this.n8nClient.get('/executions', { params, signal });
       return response.data;
     } catch (error) {
       throw handleApiError(error, 'Failed to list executions');
     }
   }
 
-  async getExecution(id: string): Promise<N8nExecution> {
+  async getExecution(id: string, includeData?: boolean, signal?: AbortSignal): Promise<N8nExecution> {
     try {
-      const response = await n8nClient.get(`/executions/${id}`);
+      const response = includeData
+        ? await this.n8nClient.get(`/executions/${id}`, { params: { includeData: true }, signal })
+        : await this.n8nClient.get(`/executions/${id}`, { signal });
       return response.data;
     } catch (error) {
       throw handleApiError(error, `Failed to get execution ${id}`);
     }
   }
 
-  async executeWorkflow(id: string): Promise<N8nExecution> {
+  async executeWorkflow(id: string, signal?: AbortSignal): Promise<N8nExecution> {
     try {
-      const response = await n8nClient.post(`/workflows/${id}/execute`);
+      const response = await this.n8nClient.post(`/workflows/${id}/execute`, undefined, { signal });
       return response.data;
     } catch (error) {
       throw handleApiError(error, `Failed to execute workflow ${id}`);
@@ -171,7 +209,7 @@ export class N8nApiService {
     headers?: Record<string, string>;
     queryParams?: Record<string, string>;
     testMode?: boolean;
-  }): Promise<any> {
+  }, signal?: AbortSignal): Promise<any> {
     this.validateWebhookPath(params.path);
     try {
       const encodedPath = encodeURIComponent(params.path);
@@ -179,13 +217,14 @@ export class N8nApiService {
         ? `/webhook-test/${encodedPath}`
         : `/webhook/${encodedPath}`;
 
-      const response = await webhookClient.request({
+      const response = await this.webhookClient.request({
         method: params.method,
         url: endpoint,
         data: params.body,
         headers: params.headers,
         params: params.queryParams,
         validateStatus: () => true, // Don't throw on any status
+        signal,
       });
 
       return {
@@ -200,23 +239,23 @@ export class N8nApiService {
 
   // ===== NODE TYPES =====
 
-  async listNodeTypes(): Promise<any[]> {
+  async listNodeTypes(signal?: AbortSignal): Promise<any[]> {
     try {
-      const response = await n8nClient.get('/node-types');
+      const response = await this.n8nClient.get('/node-types', { signal });
       return response.data.data || response.data;
     } catch (error) {
       throw handleApiError(error, 'Failed to list node types');
     }
   }
 
-  async getNodeSchema(nodeName: string): Promise<N8nNodeSchema> {
+  async getNodeSchema(nodeName: string, signal?: AbortSignal): Promise<N8nNodeSchema> {
     // Check cache first
     if (this.nodeSchemaCache.has(nodeName)) {
       return this.nodeSchemaCache.get(nodeName)!;
     }
 
     try {
-      const response = await n8nClient.get(`/node-types/${nodeName}`);
+      const response = await this.n8nClient.get(`/node-types/${nodeName}`, { signal });
       let schema = response.data;
 
       // Handle potentially wrapped response (n8n API structure varies)
@@ -251,40 +290,110 @@ export class N8nApiService {
 
   // ===== CREDENTIALS (Phase 1 will extend) =====
 
-  async getCredentialSchema(credentialType: string): Promise<N8nCredentialSchema> {
+  async getCredentialSchema(credentialType: string, signal?: AbortSignal): Promise<N8nCredentialSchema> {
     try {
-      const response = await n8nClient.get(`/credentials/schema/${credentialType}`);
+      const response = await this.n8nClient.get(`/credentials/schema/${credentialType}`, { signal });
       return response.data;
     } catch (error) {
       throw handleApiError(error, `Failed to get schema for ${credentialType}`);
     }
   }
 
-  async createCredential(credential: N8nCredential): Promise<N8nCredential> {
+  planCreateCredential(credential: N8nCredential): PlannedApiCall {
+    return { method: 'POST', path: '/credentials', body: credential };
+  }
+
+  async createCredential(credential: N8nCredential, signal?: AbortSignal): Promise<N8nCredential> {
+    const call = this.planCreateCredential(credential);
     try {
-      const response = await n8nClient.post('/credentials', credential);
+      const response = await this.n8nClient.post(call.path, call.body, { signal });
       return response.data;
     } catch (error) {
       throw handleApiError(error, 'Failed to create credential');
     }
   }
 
-  async updateCredential(id: string, credential: Partial<N8nCredential>): Promise<N8nCredential> {
+  planUpdateCredential(id: string, credential: Partial<N8nCredential>): PlannedApiCall {
+    return { method: 'PUT', path: `/credentials/${id}`, body: credential };
+  }
+
+  async updateCredential(id: string, credential: Partial<N8nCredential>, signal?: AbortSignal): Promise<N8nCredential> {
+    const call = this.planUpdateCredential(id, credential);
     try {
-      const response = await n8nClient.put(`/credentials/${id}`, credential);
+      const response = await this.n8nClient.put(call.path, call.body, { signal });
       return response.data;
     } catch (error) {
       throw handleApiError(error, `Failed to update credential ${id}`);
     }
   }
 
-  async deleteCredential(id: string): Promise<void> {
+  planDeleteCredential(id: string): PlannedApiCall {
+    return { method: 'DELETE', path: `/credentials/${id}` };
+  }
+
+  async deleteCredential(id: string, signal?: AbortSignal): Promise<void> {
+    const call = this.planDeleteCredential(id);
     try {
-      await n8nClient.delete(`/credentials/${id}`);
+      await this.n8nClient.delete(call.path, { signal });
     } catch (error) {
       throw handleApiError(error, `Failed to delete credential ${id}`);
     }
   }
+
+  // ===== INSTANCE INFO =====
+
+  /**
+   * Check the instance health endpoint (no authentication)
+   */
+  async checkHealth(signal?: AbortSignal): Promise<boolean> {
+    try {
+      const response = await this.webhookClient.get('/healthz', { signal });
+      return response.status >= 200 && response.status < 300;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Check that the public API answers and accepts the API key (one-item workflow list)
+   */
+  async probeApi(signal?: AbortSignal): Promise<EndpointProbe & { authenticated: boolean }> {
+    try {
+      const response = await this.n8nClient.get('/workflows', { params: { limit: 1 }, signal });
+      return { reachable: true, authenticated: true, status: response.status };
+    } catch (error) {
+      return { ...describeProbeError(error), authenticated: false };
+    }
+  }
+
+  /**
+   * Check that the webhook base (`<host>/webhook/`) answers
+   * Any response below 500 counts: n8n replies 404 for unregistered webhook paths
+   */
+  async probeWebhookBase(signal?: AbortSignal): Promise<EndpointProbe> {
+    try {
+      const response = await this.webhookClient.get('/webhook/', { signal, validateStatus: () => true });
+      return response.status < 500
+        ? { reachable: true, status: response.status }
+        : { reachable: false, status: response.status, error: `HTTP_${response.status}` };
+    } catch (error) {
+      return describeProbeError(error);
+    }
+  }
+
+  /**
+   * n8n version from the settings endpoint the editor UI loads before login
+   * @returns undefined when the instance does not expose it
+   */
+  async getVersion(signal?: AbortSignal): Promise<string | undefined> {
+    try {
+      const response = await this.webhookClient.get('/rest/settings', { signal });
+      const version = response.data?.data?.versionCli ?? response.data?.versionCli;
+      return typeof version === 'string' ? version : undefined;
+    } catch {
+      return undefined;
+    }
+  }
 }
 
 // Export singleton instance
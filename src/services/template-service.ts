@@ -1,11 +1,13 @@
 import axios, { AxiosInstance } from 'axios';
-import { n8nApi } from './n8n-api-service.js';
+import { n8nApi, type N8nApiService } from './n8n-api-service.js';
 import {
   cleanWorkflowForImport,
   stripCredentialsFromWorkflow,
   stripSensitiveFields,
 } from '../utils/workflow-cleaner.js';
 import { TemplateCache } from '../utils/template-cache.js';
+import { serverConfig } from '../config/server-config.js';
+import { describeProbeError, type EndpointProbe } from '../utils/error-handler.js';
 import {
   applyCredentialMapping,
   checkNodeCompatibility,
@@ -17,6 +19,7 @@ import type {
   ExportWorkflowOptions,
   N8nWorkflow,
 } from '../types/n8n-types.js';
+import type { RequestContext } from '../types/request-context.js';
 
 /**
  * Service for managing n8n templates
@@ -24,9 +27,9 @@ import type {
  */
 export class TemplateService {
   private templateClient: AxiosInstance;
-  private cache: TemplateCache = new TemplateCache(3600); // 1 hour default TTL
+  private cache: TemplateCache = new TemplateCache(serverConfig.cache.templatesTtlSeconds); // 1 hour by default
 
-  constructor() {
+  constructor(private readonly api: N8nApiService = n8nApi) {
     this.templateClient = axios.create({
       baseURL: 'https://api.n8n.io',
       timeout: 10000,
@@ -41,7 +44,8 @@ export class TemplateService {
    */
   async searchTemplates(
     query: string,
-    category?: string
+    category?: string,
+    context: RequestContext = {}
   ): Promise<TemplateSearchResult> {
     const cacheKey = `search:${query}:${category || 'all'}`;
 
@@ -51,6 +55,7 @@ export class TemplateService {
     try {
       const response = await this.templateClient.get('/templates/search', {
         params: { q: query, category },
+        signal: context.signal,
       });
 
       const result: TemplateSearchResult = {
@@ -70,16 +75,30 @@ export class TemplateService {
     }
   }
 
+  /**
+   * Check that the n8n.io template API answers (health checks, bypasses the cache)
+   */
+  async probe(signal?: AbortSignal): Promise<EndpointProbe> {
+    try {
+      const response = await this.templateClient.get('/templates/search', { params: { rows: 1 }, signal });
+      return { reachable: true, status: response.status };
+    } catch (error) {
+      return describeProbeError(error);
+    }
+  }
+
   /**
    * Get full template details including workflow JSON
    */
-  async getTemplateDetails(id: number): Promise<N8nTemplate> {
+  async getTemplateDetails(id: number, context: RequestContext = {}): Promise<N8nTemplate> {
     const cacheKey = `template:${id}`;
     const cached = this.cache.get(cacheKey);
     if (cached) return cached;
 
     try {
-      const response = await this.templateClient.get(`/templates/workflows/${id}`);
+      const response = await this.templateClient.get(`/templates/workflows/${id}`, {
+        signal: context.signal,
+      });
       const template: N8nTemplate = response.data;
 
       this.cache.set(cacheKey, template);
@@ -90,18 +109,20 @@ export class TemplateService {
   }
 
   /**
-   * Import template as new workflow
+   * Workflow importTemplate would create (also used by dry runs)
+   * @throws Error when the template is unavailable or uses nodes this instance lacks
    */
-  async importTemplate(
+  async prepareImport(
     id: number,
-    options: ImportTemplateOptions = {}
-  ): Promise<N8nWorkflow> {
+    options: ImportTemplateOptions = {},
+    context: RequestContext = {}
+  ): Promise<Partial<N8nWorkflow>> {
     // 1. Get template
-    const template = await this.getTemplateDetails(id);
+    const template = await this.getTemplateDetails(id, context);
 
     // 2. Check node compatibility (unless skipped)
     if (!options.skipNodeValidation) {
-      const nodeTypes = await n8nApi.listNodeTypes();
+      const nodeTypes = await this.api.listNodeTypes(context.signal);
       const validation = await checkNodeCompatibility(template, nodeTypes);
       if (!validation.compatible) {
         throw new Error(
@@ -121,8 +142,21 @@ export class TemplateService {
     // 5. Set active status
     workflow.active = options.importInactive === false;
 
+    return workflow;
+  }
+
+  /**
+   * Import template as new workflow
+   */
+  async importTemplate(
+    id: number,
+    options: ImportTemplateOptions = {},
+    context: RequestContext = {}
+  ): Promise<N8nWorkflow> {
+    const workflow = await this.prepareImport(id, options, context);
+
     // 6. Create workflow via n8n API
-    const created = await n8nApi.createWorkflow(workflow);
+    const created = await this.api.createWorkflow(workflow, context.signal);
 
     return created;
   }
@@ -132,10 +166,11 @@ export class TemplateService {
    */
   async exportWorkflow(
     id: string,
-    options: ExportWorkflowOptions = {}
+    options: ExportWorkflowOptions = {},
+    context: RequestContext = {}
   ): Promise<any> {
     // 1. Get workflow
-    const workflow = await n8nApi.getWorkflow(id);
+    const workflow = await this.api.getWorkflow(id, context.signal);
 
     // 2. Strip credentials (default)
     let cleaned = workflow;
@@ -1,8 +1,9 @@
-import { n8nApi } from './n8n-api-service.js';
+import { n8nApi, type N8nApiService } from './n8n-api-service.js';
 import type { N8nWorkflow, N8nNode } from '../types/n8n-types.js';
 import { detectCircularDependencies, validateConnections } from '../utils/workflow-graph-analyzer.js';
-import { credentialService } from './credential-service.js';
+import { credentialService, type CredentialService } from './credential-service.js';
 import { extractExpressions, validateExpression } from '../utils/expression-validator.js';
+import type { RequestContext } from '../types/request-context.js';
 
 interface ValidationError {
   type: string;
@@ -42,6 +43,11 @@ interface ImprovementResult {
  * Catches errors early to prevent broken workflows
  */
 export class ValidationService {
+  constructor(
+    private readonly api: N8nApiService = n8nApi,
+    private readonly credentials: CredentialService = credentialService
+  ) {}
+
   /**
    * Validate workflow structure with comprehensive checks
    *
@@ -56,9 +62,13 @@ export class ValidationService {
    * 8. Disabled nodes with connections (warning)
    *
    * @param workflow - Workflow object to validate
+   * @param context - Optional abort signal for the node type lookup
    * @returns Validation result with errors and warnings
    */
-  async validateWorkflowStructure(workflow: Partial<N8nWorkflow>): Promise<ValidationResult> {
+  async validateWorkflowStructure(
+    workflow: Partial<N8nWorkflow>,
+    context: RequestContext = {}
+  ): Promise<ValidationResult> {
     const errors: ValidationError[] = [];
     const warnings: ValidationError[] = [];
 
@@ -121,7 +131,7 @@ export class ValidationService {
 
     // 4. Node types validation
     try {
-      const nodeTypes = await n8nApi.listNodeTypes();
+      const nodeTypes = await this.api.listNodeTypes(context.signal);
       const validTypes = new Set(nodeTypes.map((t: any) => t.name));
 
       for (const node of workflow.nodes) {
@@ -136,6 +146,7 @@ export class ValidationService {
         }
       }
     } catch (error) {
+      if (context.signal?.aborted) throw error;
       warnings.push({
         type: 'node_types_check_failed',
         message: 'Could not validate node types (n8n API unavailable)',
@@ -228,11 +239,13 @@ export class ValidationService {
    *
    * @param workflow - Workflow object to validate
    * @param testCredentials - Whether to test credential validity
+   * @param context - Optional abort signal (stops remaining credential tests)
    * @returns Validation result with errors and warnings
    */
   async validateWorkflowCredentials(
     workflow: Partial<N8nWorkflow>,
-    testCredentials = false
+    testCredentials = false,
+    context: RequestContext = {}
   ): Promise<ValidationResult> {
     const errors: ValidationError[] = [];
     const warnings: ValidationError[] = [];
@@ -244,7 +257,7 @@ export class ValidationService {
     // Get all credentials from the system
     let availableCredentials: Map<string, any>;
     try {
-      const credList = await credentialService.listCredentials();
+      const credList = await this.credentials.listCredentials(undefined, { signal: context.signal });
       availableCredentials = new Map(credList.map(c => [c.id!, c]));
     } catch (error) {
       warnings.push({
@@ -302,8 +315,9 @@ export class ValidationService {
 
         // Optionally test credential validity
         if (testCredentials) {
+          context.signal?.throwIfAborted();
           try {
-            const testResult = await credentialService.testCredential(credId);
+            const testResult = await this.credentials.testCredential(credId, { signal: context.signal });
             if (!testResult.valid) {
               warnings.push({
                 type: 'credential_test_failed',
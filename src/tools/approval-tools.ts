@@ -0,0 +1,60 @@
+import { Tool, McpError, ErrorCode } from '@modelcontextprotocol/sdk/types.js';
+import { z } from 'zod';
+import { approvalService } from '../services/approval-service.js';
+import type { RequestContext } from '../types/request-context.js';
+import { approvalDecisionOutputSchema, pendingApprovalsOutputSchema } from './output-schemas.js';
+import { defineTool } from './tool-definition.js';
+
+/**
+ * Tools for deciding on calls held for human approval (scope 'approvals')
+ */
+export const approvalTools: Tool[] = [
+  defineTool({
+    name: 'list_pending_approvals',
+    description: 'List tool calls held for human approval by the server approval rules, with their arguments (secrets redacted), requester and expiry.',
+    input: z.object({}),
+    outputSchema: pendingApprovalsOutputSchema,
+    perInstance: false,
+  }),
+  defineTool({
+    name: 'approve_operation',
+    description: 'Approve or reject a tool call held for human approval. Approving runs the stored call and returns its result. Only call this on an explicit decision of a human operator; needs an authenticated token with the approvals scope (HTTP with MCP_AUTH_TOKENS), which cannot approve its own calls.',
+    input: z.object({
+      approvalId: z.string().min(1).describe('approvalId returned by the held call'),
+      decision: z.enum(['approve', 'reject']).describe('approve runs the stored call, reject drops it'),
+      reason: z.string().max(500).optional().describe('Note recorded with the decision'),
+    }),
+    outputSchema: approvalDecisionOutputSchema,
+    perInstance: false,
+  }),
+];
+
+/**
+ * Handler for approval tool calls
+ */
+export async function handleApprovalTool(
+  name: string,
+  args: any,
+  { clientId }: RequestContext = {}
+): Promise<any> {
+  switch (name) {
+    case 'list_pending_approvals':
+      return { approvals: approvalService.list() };
+
+    case 'approve_operation':
+      // The approver must be a token distinct from the requester: stdio and tokenless HTTP have no identity to check
+      if (clientId === undefined) {
+        throw new McpError(
+          ErrorCode.InvalidRequest,
+          'approve_operation requires an authenticated token with the approvals scope (MCP_AUTH_TOKENS)'
+        );
+      }
+      return await approvalService.decide(args.approvalId, args.decision, {
+        decidedBy: clientId,
+        reason: args.reason,
+      });
+
+    default:
+      throw new Error(`Unknown approval tool: ${name}`);
+  }
+}
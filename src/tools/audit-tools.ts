@@ -0,0 +1,50 @@
+import { Tool } from '@modelcontextprotocol/sdk/types.js';
+import type { AuthInfo } from '@modelcontextprotocol/sdk/server/auth/types.js';
+import { z } from 'zod';
+import { auditLogService, AUDIT_LIMITS } from '../services/audit-log-service.js';
+import { auditLogOutputSchema } from './output-schemas.js';
+import { defineTool, coercedNumber, coercedString } from './tool-definition.js';
+
+/**
+ * Audit log tools
+ */
+export const auditTools: Tool[] = [
+  defineTool({
+    name: 'query_audit_log',
+    description: 'Query the audit log of mutating tool calls (who changed which workflow or credential, when, and through which client) and security events (tool "security:<event>", e.g. security:auth_failure). Newest entries first. Tokens without the audit scope only see their own entries.',
+    input: z.object({
+      workflowId: coercedString().optional().describe('Only entries that affected this workflow'),
+      credentialId: coercedString().optional().describe('Only entries that affected this credential'),
+      tool: z.string().optional().describe('Only calls to this tool (e.g., "update_workflow") or security events (e.g., "security:scope_denied")'),
+      sessionId: z.string().optional().describe('Only calls from this MCP session'),
+      clientId: z.string().optional().describe('Only calls from this auth token (needs the audit scope for other tokens)'),
+      instance: z.string().optional().describe('Only calls against this n8n instance'),
+      status: z.enum(['success', 'error']).optional(),
+      since: z.string().datetime({ offset: true }).optional().describe('ISO timestamp, inclusive lower bound'),
+      until: z.string().datetime({ offset: true }).optional().describe('ISO timestamp, inclusive upper bound'),
+      limit: coercedNumber(z.number().int().min(1).max(AUDIT_LIMITS.MAX_QUERY_LIMIT))
+        .default(AUDIT_LIMITS.DEFAULT_QUERY_LIMIT)
+        .describe(`Maximum entries to return (default ${AUDIT_LIMITS.DEFAULT_QUERY_LIMIT})`),
+    }),
+    outputSchema: auditLogOutputSchema,
+    perInstance: false,
+  }),
+];
+
+/**
+ * Handler for audit tool calls
+ * @param authInfo - Caller's token; without the audit scope the query is limited to its own entries
+ */
+export async function handleAuditTool(name: string, args: any, authInfo?: AuthInfo): Promise<any> {
+  switch (name) {
+    case 'query_audit_log':
+      // Tenants must not see each other's sessions, instances and changes
+      if (authInfo && !authInfo.scopes.includes('audit')) {
+        return await auditLogService.query({ ...args, clientId: authInfo.clientId });
+      }
+      return await auditLogService.query(args);
+
+    default:
+      throw new Error(`Unknown audit tool: ${name}`);
+  }
+}
@@ -1,116 +1,96 @@
 import { Tool } from '@modelcontextprotocol/sdk/types.js';
+import { z } from 'zod';
 import { backupService } from '../services/backup-service.js';
 import { validateRequired } from '../utils/error-handler.js';
+import type { RequestContext } from '../types/request-context.js';
+import {
+  backupListOutputSchema,
+  backupMetadataOutputSchema,
+  restoreOutputSchema,
+  workflowDiffOutputSchema,
+} from './output-schemas.js';
+import { defineTool, coercedBoolean, coercedString } from './tool-definition.js';
 
 /**
  * Define all 4 backup management tools
  */
 export const backupTools: Tool[] = [
-  {
+  defineTool({
     name: 'backup_workflow',
     description: 'Create a backup snapshot of a workflow before making changes',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        workflowId: {
-          type: 'string',
-          description: 'Workflow ID to backup',
-        },
-        description: {
-          type: 'string',
-          description: 'Optional description for this backup (e.g., "Before AI optimization")',
-        },
-      },
-      required: ['workflowId'],
-    },
-  },
-  {
+    input: z.object({
+      workflowId: coercedString().describe('Workflow ID to backup'),
+      description: z.string().optional()
+        .describe('Optional description for this backup (e.g., "Before AI optimization")'),
+    }),
+    outputSchema: backupMetadataOutputSchema,
+  }),
+  defineTool({
     name: 'list_workflow_backups',
     description: 'List all backup versions for a workflow with metadata (timestamp, size, description)',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        workflowId: {
-          type: 'string',
-          description: 'Workflow ID to list backups for',
-        },
-      },
-      required: ['workflowId'],
-    },
-  },
-  {
+    input: z.object({
+      workflowId: coercedString().describe('Workflow ID to list backups for'),
+    }),
+    outputSchema: backupListOutputSchema,
+  }),
+  defineTool({
     name: 'restore_workflow',
     description: 'Restore a workflow to a previous backup version (auto-backups current state first)',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        workflowId: {
-          type: 'string',
-          description: 'Workflow ID to restore',
-        },
-        backupId: {
-          type: 'string',
-          description: 'Backup ID from list_workflow_backups (e.g., "backup_123_2026-02-11T10-30-00-000Z")',
-        },
-        autoBackupCurrent: {
-          type: 'boolean',
-          description: 'Auto-backup current version before restore (default: true)',
-          default: true,
-        },
-      },
-      required: ['workflowId', 'backupId'],
-    },
-  },
-  {
+    input: z.object({
+      workflowId: coercedString().describe('Workflow ID to restore'),
+      backupId: z.string()
+        .describe('Backup ID from list_workflow_backups (e.g., "backup_123_2026-02-11T10-30-00-000Z")'),
+      autoBackupCurrent: coercedBoolean().default(true)
+        .describe('Auto-backup current version before restore (default: true)'),
+    }),
+    outputSchema: restoreOutputSchema,
+    dryRun: true,
+  }),
+  defineTool({
     name: 'diff_workflow_versions',
     description: 'Compare two workflow backup versions to see what changed (nodes added/removed/modified)',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        workflowId: {
-          type: 'string',
-          description: 'Workflow ID',
-        },
-        backupId1: {
-          type: 'string',
-          description: 'First backup ID to compare',
-        },
-        backupId2: {
-          type: 'string',
-          description: 'Second backup ID to compare',
-        },
-      },
-      required: ['workflowId', 'backupId1', 'backupId2'],
-    },
-  },
+    input: z.object({
+      workflowId: coercedString().describe('Workflow ID'),
+      backupId1: z.string().describe('First backup ID to compare'),
+      backupId2: z.string().describe('Second backup ID to compare'),
+    }),
+    outputSchema: workflowDiffOutputSchema,
+  }),
 ];
 
 /**
  * Handler for backup tool calls
  */
-export async function handleBackupTool(name: string, args: any): Promise<any> {
+export async function handleBackupTool(
+  name: string,
+  args: any,
+  context: RequestContext = {}
+): Promise<any> {
+  const backups = context.instance?.backupService ?? backupService;
+
   switch (name) {
     case 'backup_workflow':
       validateRequired(args, ['workflowId']);
-      return await backupService.backupWorkflow(args.workflowId, args.description);
+      return await backups.backupWorkflow(args.workflowId, args.description, context);
 
     case 'list_workflow_backups':
       validateRequired(args, ['workflowId']);
       return {
-        backups: await backupService.listBackups(args.workflowId),
+        backups: await backups.listBackups(args.workflowId),
       };
 
     case 'restore_workflow':
       validateRequired(args, ['workflowId', 'backupId']);
-      return await backupService.restoreWorkflow(
+      return await backups.restoreWorkflow(
         args.workflowId,
         args.backupId,
-        args.autoBackupCurrent ?? true
+        args.autoBackupCurrent ?? true,
+        context
       );
 
     case 'diff_workflow_versions':
       validateRequired(args, ['workflowId', 'backupId1', 'backupId2']);
-      return await backupService.diffVersions(
+      return await backups.diffVersions(
         args.workflowId,
         args.backupId1,
         args.backupId2
@@ -0,0 +1,40 @@
+import { Tool } from '@modelcontextprotocol/sdk/types.js';
+import { z } from 'zod';
+import { loadedServerConfig, redactServerConfig } from '../config/server-config.js';
+import type { RequestContext } from '../types/request-context.js';
+import { serverConfigOutputSchema } from './output-schemas.js';
+import { defineTool } from './tool-definition.js';
+
+/**
+ * Server configuration tools
+ */
+export const configTools: Tool[] = [
+  defineTool({
+    name: 'get_server_config',
+    description: 'Show the effective server configuration (config file merged with environment overrides) and where each setting came from. Secrets are redacted.',
+    input: z.object({}),
+    outputSchema: serverConfigOutputSchema,
+    perInstance: false,
+  }),
+];
+
+/**
+ * Handler for config tool calls
+ */
+export async function handleConfigTool(
+  name: string,
+  _args: any,
+  _context: RequestContext = {}
+): Promise<any> {
+  switch (name) {
+    case 'get_server_config':
+      return {
+        ...(loadedServerConfig.file && { file: loadedServerConfig.file }),
+        config: redactServerConfig(loadedServerConfig.config),
+        sources: loadedServerConfig.sources,
+      };
+
+    default:
+      throw new Error(`Unknown config tool: ${name}`);
+  }
+}
@@ -0,0 +1,39 @@
+import { Tool } from '@modelcontextprotocol/sdk/types.js';
+import { z } from 'zod';
+import { continuationStore } from '../utils/continuation-store.js';
+import { withPaginationMeta } from '../utils/structured-content.js';
+import type { RequestContext } from '../types/request-context.js';
+import { nextPageOutputSchema } from './output-schemas.js';
+import { defineTool } from './tool-definition.js';
+
+/**
+ * Tools for reading truncated responses
+ */
+export const continuationTools: Tool[] = [
+  defineTool({
+    name: 'get_next_page',
+    description: 'Fetch the next chunk of a truncated tool response. Pass _meta.pagination.nextCursor from the previous result; the chunk has the same shape as the original response and carries a new cursor while items remain. Cursors expire after a few minutes and only work in the session that received them.',
+    input: z.object({
+      cursor: z.string().min(1).describe('_meta.pagination.nextCursor of the truncated response'),
+    }),
+    outputSchema: nextPageOutputSchema,
+    perInstance: false,
+  }),
+];
+
+/**
+ * Handler for continuation tool calls
+ */
+export async function handleContinuationTool(
+  name: string,
+  args: any,
+  { sessionId }: RequestContext = {}
+): Promise<any> {
+  switch (name) {
+    case 'get_next_page':
+      return withPaginationMeta(continuationStore.next(args.cursor, sessionId));
+
+    default:
+      throw new Error(`Unknown continuation tool: ${name}`);
+  }
+}
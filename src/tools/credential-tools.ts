@@ -1,155 +1,120 @@
 import { Tool } from '@modelcontextprotocol/sdk/types.js';
+import { z } from 'zod';
 import { credentialService } from '../services/credential-service.js';
 import { validateRequired } from '../utils/error-handler.js';
+import type { RequestContext } from '../types/request-context.js';
+import {
+  credentialListOutputSchema,
+  credentialOutputSchema,
+  credentialSchemaOutputSchema,
+  credentialTestOutputSchema,
+  successOutputSchema,
+} from './output-schemas.js';
+import { defineTool, coercedBoolean, coercedString } from './tool-definition.js';
+
+const nodesAccessSchema = z.array(
+  z.object({
+    nodeType: z.string(),
+  })
+);
 
 /**
  * Define all 6 credential management tools
  */
 export const credentialTools: Tool[] = [
-  {
+  defineTool({
     name: 'get_credential_schema',
     description: 'Get required fields and structure for a credential type before creating it',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        credentialType: {
-          type: 'string',
-          description: 'Credential type name (e.g., "githubApi", "slackApi", "googleSheetsOAuth2Api")',
-        },
-      },
-      required: ['credentialType'],
-    },
-  },
-  {
+    input: z.object({
+      credentialType: z.string()
+        .describe('Credential type name (e.g., "githubApi", "slackApi", "googleSheetsOAuth2Api")'),
+    }),
+    outputSchema: credentialSchemaOutputSchema,
+  }),
+  defineTool({
     name: 'list_credentials',
     description: 'List all credentials available in n8n (parsed from workflows + database fallback)',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        type: {
-          type: 'string',
-          description: 'Optional: Filter by credential type (e.g., "githubApi")',
-        },
-      },
-    },
-  },
-  {
+    input: z.object({
+      type: z.string().optional().describe('Optional: Filter by credential type (e.g., "githubApi")'),
+    }),
+    outputSchema: credentialListOutputSchema,
+  }),
+  defineTool({
     name: 'create_credential',
     description: 'Create a new credential with automatic validation against schema',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        name: {
-          type: 'string',
-          description: 'Friendly name for the credential (e.g., "My GitHub Account")',
-        },
-        type: {
-          type: 'string',
-          description: 'Credential type (use get_credential_schema to see required fields)',
-        },
-        data: {
-          type: 'object',
-          description: 'Credential data - fields depend on type schema (e.g., {"accessToken": "ghp_..."})',
-        },
-        nodesAccess: {
-          type: 'array',
-          description: 'Optional: Restrict credential to specific node types',
-          items: {
-            type: 'object',
-            properties: {
-              nodeType: { type: 'string' },
-            },
-          },
-        },
-      },
-      required: ['name', 'type', 'data'],
-    },
-  },
-  {
+    input: z.object({
+      name: z.string().describe('Friendly name for the credential (e.g., "My GitHub Account")'),
+      type: z.string().describe('Credential type (use get_credential_schema to see required fields)'),
+      data: z.record(z.any())
+        .describe('Credential data - fields depend on type schema (e.g., {"accessToken": "ghp_..."})'),
+      nodesAccess: nodesAccessSchema.optional().describe('Optional: Restrict credential to specific node types'),
+    }),
+    outputSchema: credentialOutputSchema,
+    dryRun: true,
+  }),
+  defineTool({
     name: 'update_credential',
     description: 'Update an existing credential (name, data, or node access)',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        id: {
-          type: 'string',
-          description: 'Credential ID to update',
-        },
-        name: {
-          type: 'string',
-          description: 'New name for the credential',
-        },
-        data: {
-          type: 'object',
-          description: 'Updated credential data (partial update supported)',
-        },
-        nodesAccess: {
-          type: 'array',
-          description: 'Updated node access restrictions',
-        },
-      },
-      required: ['id'],
-    },
-  },
-  {
+    input: z.object({
+      id: coercedString().describe('Credential ID to update'),
+      name: z.string().optional().describe('New name for the credential'),
+      data: z.record(z.any()).optional().describe('Updated credential data (partial update supported)'),
+      nodesAccess: nodesAccessSchema.optional().describe('Updated node access restrictions'),
+    }),
+    outputSchema: credentialOutputSchema,
+    dryRun: true,
+  }),
+  defineTool({
     name: 'delete_credential',
     description: 'Delete a credential with safety checks (blocks if in use unless forced)',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        id: {
-          type: 'string',
-          description: 'Credential ID to delete',
-        },
-        force: {
-          type: 'boolean',
-          description: 'Force delete even if used by workflows (default: false)',
-        },
-      },
-      required: ['id'],
-    },
-  },
-  {
+    input: z.object({
+      id: coercedString().describe('Credential ID to delete'),
+      force: coercedBoolean().optional().describe('Force delete even if used by workflows (default: false)'),
+    }),
+    outputSchema: successOutputSchema,
+    dryRun: true,
+  }),
+  defineTool({
     name: 'test_credential',
     description: 'Test credential validity by creating a temporary workflow (heavy operation - use sparingly)',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        credentialId: {
-          type: 'string',
-          description: 'Credential ID to test',
-        },
-      },
-      required: ['credentialId'],
-    },
-  },
+    input: z.object({
+      credentialId: coercedString().describe('Credential ID to test'),
+    }),
+    outputSchema: credentialTestOutputSchema,
+  }),
 ];
 
 /**
  * Handle credential tool requests
  * Routes to appropriate credential service methods
  */
-export async function handleCredentialTool(name: string, args: any): Promise<any> {
+export async function handleCredentialTool(
+  name: string,
+  args: any,
+  context: RequestContext = {}
+): Promise<any> {
+  const credentials = context.instance?.credentialService ?? credentialService;
+
   switch (name) {
     case 'get_credential_schema':
       validateRequired(args, ['credentialType']);
-      return await credentialService.getSchema(args.credentialType);
+      return await credentials.getSchema(args.credentialType, context);
 
     case 'list_credentials':
-      return await credentialService.listCredentials(args.type);
+      return await credentials.listCredentials(args.type, context);
 
     case 'create_credential':
       validateRequired(args, ['name', 'type', 'data']);
-      return await credentialService.createCredential(args);
+      return await credentials.createCredential(args, context);
 
     case 'update_credential':
       validateRequired(args, ['id']);
       const { id, ...updateData } = args;
-      return await credentialService.updateCredential(id, updateData);
+      return await credentials.updateCredential(id, updateData, context);
 
     case 'delete_credential':
       validateRequired(args, ['id']);
-      await credentialService.deleteCredential(args.id, args.force || false);
+      await credentials.deleteCredential(args.id, args.force || false, context);
       return {
         success: true,
         message: `Credential ${args.id} deleted successfully`,
@@ -157,7 +122,7 @@ export async function handleCredentialTool(name: string, args: any): Promise<any
 
     case 'test_credential':
       validateRequired(args, ['credentialId']);
-      return await credentialService.testCredential(args.credentialId);
+      return await credentials.testCredential(args.credentialId, context);
 
     default:
       throw new Error(`Unknown credential tool: ${name}`);
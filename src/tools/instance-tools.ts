@@ -0,0 +1,41 @@
+import { Tool } from '@modelcontextprotocol/sdk/types.js';
+import { z } from 'zod';
+import { instanceRegistry, probeInstance } from '../services/instance-registry.js';
+import type { RequestContext } from '../types/request-context.js';
+import { instanceListOutputSchema } from './output-schemas.js';
+import { defineTool } from './tool-definition.js';
+
+/**
+ * n8n instance tools
+ */
+export const instanceTools: Tool[] = [
+  defineTool({
+    name: 'list_instances',
+    description: 'List the configured n8n instances with reachability, API key status and n8n version. Pass an instance name as the "instance" argument of other tools to target it.',
+    input: z.object({}),
+    outputSchema: instanceListOutputSchema,
+    perInstance: false,
+  }),
+];
+
+/**
+ * Handler for instance tool calls
+ */
+export async function handleInstanceTool(
+  name: string,
+  args: any,
+  { signal, instance }: RequestContext = {}
+): Promise<any> {
+  switch (name) {
+    case 'list_instances':
+      // Sessions with their own n8n credentials only see their own instance
+      return {
+        instances: instance
+          ? [await probeInstance(instance, signal)]
+          : await instanceRegistry.describe(signal),
+      };
+
+    default:
+      throw new Error(`Unknown instance tool: ${name}`);
+  }
+}
@@ -45,7 +45,7 @@ describe('nodeTools', () => {
 
     const result = await handleNodeTool('get_node_schema', { nodeName: 'testNode' });
 
-    expect(n8nApi.getNodeSchema).toHaveBeenCalledWith('testNode');
+    expect(n8nApi.getNodeSchema).toHaveBeenCalledWith('testNode', undefined);
     expect(result).toEqual({
       displayName: 'Test Node',
       name: 'testNode',
@@ -1,28 +1,29 @@
+import { Tool } from '@modelcontextprotocol/sdk/types.js';
 import { z } from 'zod';
 import { n8nApi } from '../services/n8n-api-service.js';
 import { cleanNodeSchema } from '../utils/schema-cleaner.js';
+import type { RequestContext } from '../types/request-context.js';
+import { nodeSchemaOutputSchema } from './output-schemas.js';
+import { defineTool } from './tool-definition.js';
 
-export const nodeTools = [
-  {
+export const nodeTools: Tool[] = [
+  defineTool({
     name: 'get_node_schema',
     description: 'Get the parameter schema for a specific n8n node type. Use this to understand what inputs/options a node accepts.',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        nodeName: {
-          type: 'string',
-          description: 'The internal name of the node (e.g., "n8n-nodes-base.httpRequest", "n8n-nodes-base.googleSheets")',
-        },
-      },
-      required: ['nodeName'],
-    },
-  },
+    input: z.object({
+      nodeName: z.string()
+        .describe('The internal name of the node (e.g., "n8n-nodes-base.httpRequest", "n8n-nodes-base.googleSheets")'),
+    }),
+    outputSchema: nodeSchemaOutputSchema,
+  }),
 ];
 
-export async function handleNodeTool(name: string, args: any) {
+export async function handleNodeTool(name: string, args: any, { signal, instance }: RequestContext = {}) {
+  const api = instance?.n8nApi ?? n8nApi;
+
   switch (name) {
     case 'get_node_schema':
-      const rawSchema = await n8nApi.getNodeSchema(args.nodeName);
+      const rawSchema = await api.getNodeSchema(args.nodeName, signal);
       return cleanNodeSchema(rawSchema);
     default:
       throw new Error(`Unknown node tool: ${name}`);
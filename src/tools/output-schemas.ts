@@ -0,0 +1,615 @@
+import { Tool } from '@modelcontextprotocol/sdk/types.js';
+
+/**
+ * JSON Schemas describing tool results (MCP outputSchema)
+ * Clients validate structuredContent against these, so only fields every
+ * n8n version returns are marked required; extra fields are allowed.
+ */
+export type OutputSchema = NonNullable<Tool['outputSchema']>;
+
+// ===== SHARED FRAGMENTS =====
+
+const workflowProperties = {
+  id: { type: 'string' },
+  name: { type: 'string' },
+  active: { type: 'boolean' },
+  nodes: { type: 'array', items: { type: 'object' } },
+  connections: { type: 'object' },
+  settings: { type: 'object' },
+  tags: { type: 'array' },
+  createdAt: { type: 'string' },
+  updatedAt: { type: 'string' },
+};
+
+const executionProperties = {
+  id: { type: 'string' },
+  finished: { type: 'boolean' },
+  status: { type: 'string' },
+  mode: { type: 'string' },
+  startedAt: { type: 'string' },
+  stoppedAt: { type: ['string', 'null'] },
+  workflowId: { type: 'string' },
+  data: { type: 'object' },
+};
+
+const credentialProperties = {
+  id: { type: 'string' },
+  name: { type: 'string' },
+  type: { type: 'string' },
+};
+
+const backupMetadataProperties = {
+  backupId: { type: 'string' },
+  workflowId: { type: 'string' },
+  timestamp: { type: 'string' },
+  description: { type: 'string' },
+  size: { type: 'string' },
+  workflowName: { type: 'string' },
+};
+
+const validationErrorItem = {
+  type: 'object',
+  properties: {
+    type: { type: 'string' },
+    message: { type: 'string' },
+    severity: { type: 'string', enum: ['error', 'warning'] },
+    nodeId: { type: 'string' },
+    nodeIds: { type: 'array', items: { type: 'string' } },
+  },
+  required: ['type', 'message', 'severity'],
+};
+
+/**
+ * Wrap an item schema for tools that return a bare array
+ * (structuredContent must be an object, so arrays are sent as { items })
+ */
+export function itemsOutputSchema(item: object): OutputSchema {
+  return {
+    type: 'object',
+    properties: {
+      items: { type: 'array', items: item },
+    },
+    required: ['items'],
+  };
+}
+
+// ===== WORKFLOWS & EXECUTIONS =====
+
+export const workflowOutputSchema: OutputSchema = {
+  type: 'object',
+  properties: workflowProperties,
+  required: ['name'],
+};
+
+export const workflowListOutputSchema: OutputSchema = {
+  type: 'object',
+  properties: {
+    data: { type: 'array', items: { type: 'object', properties: workflowProperties } },
+    nextCursor: { type: ['string', 'null'] },
+  },
+  required: ['data'],
+};
+
+export const executionOutputSchema: OutputSchema = {
+  type: 'object',
+  properties: executionProperties,
+};
+
+export const executionListOutputSchema: OutputSchema = {
+  type: 'object',
+  properties: {
+    data: { type: 'array', items: { type: 'object', properties: executionProperties } },
+    nextCursor: { type: ['string', 'null'] },
+  },
+  required: ['data'],
+};
+
+export const webhookResponseOutputSchema: OutputSchema = {
+  type: 'object',
+  properties: {
+    status: { type: 'number', description: 'HTTP status returned by the webhook' },
+    statusText: { type: 'string' },
+    data: { description: 'Webhook response body' },
+    url: { type: 'string', description: 'Full webhook URL that was called' },
+  },
+  required: ['status', 'url'],
+};
+
+export const nodeTypeListOutputSchema = itemsOutputSchema({ type: 'object' });
+
+export const nodeSchemaOutputSchema: OutputSchema = {
+  type: 'object',
+  properties: {
+    displayName: { type: 'string' },
+    name: { type: 'string' },
+    description: { type: 'string' },
+    properties: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          displayName: { type: 'string' },
+          name: { type: 'string' },
+          type: { type: 'string' },
+          description: { type: 'string' },
+          required: { type: 'boolean' },
+          options: { type: 'array' },
+        },
+        required: ['name', 'type'],
+      },
+    },
+  },
+  required: ['name', 'properties'],
+};
+
+// ===== GENERIC =====
+
+export const successOutputSchema: OutputSchema = {
+  type: 'object',
+  properties: {
+    success: { type: 'boolean' },
+    message: { type: 'string' },
+  },
+  required: ['success', 'message'],
+};
+
+// ===== DRY RUNS =====
+
+const stringArray = { type: 'array', items: { type: 'string' } };
+
+const dryRunProperties = {
+  dryRun: { type: 'boolean', const: true },
+  tool: { type: 'string' },
+  plannedCalls: {
+    type: 'array',
+    description: 'n8n API requests the call would send, in order (credential data redacted)',
+    items: {
+      type: 'object',
+      properties: {
+        method: { type: 'string', enum: ['POST', 'PUT', 'DELETE'] },
+        path: { type: 'string' },
+        body: {},
+      },
+      required: ['method', 'path'],
+    },
+  },
+  diff: {
+    type: 'object',
+    description: 'Structural diff against the live resource',
+    properties: {
+      resource: { type: 'string', enum: ['workflow', 'credential'] },
+      action: { type: 'string', enum: ['create', 'update', 'delete', 'none'] },
+      id: { type: 'string' },
+      name: { type: 'string' },
+      fields: {
+        type: 'array',
+        items: {
+          type: 'object',
+          properties: {
+            path: { type: 'string' },
+            change: { type: 'string', enum: ['added', 'removed', 'changed'] },
+            before: {},
+            after: {},
+          },
+          required: ['path', 'change'],
+        },
+      },
+      nodes: {
+        type: 'object',
+        properties: {
+          added: stringArray,
+          removed: stringArray,
+          modified: {
+            type: 'array',
+            items: {
+              type: 'object',
+              properties: { name: { type: 'string' }, changes: stringArray },
+              required: ['name', 'changes'],
+            },
+          },
+        },
+      },
+      connections: {
+        type: 'object',
+        properties: { added: stringArray, removed: stringArray },
+      },
+      summary: { type: 'string' },
+    },
+    required: ['resource', 'action', 'fields', 'summary'],
+  },
+  validation: {
+    type: 'object',
+    properties: {
+      valid: { type: 'boolean' },
+      errors: { type: 'array', items: validationErrorItem },
+      warnings: { type: 'array', items: validationErrorItem },
+    },
+  },
+  warnings: stringArray,
+  sideEffects: stringArray,
+};
+
+/**
+ * Output of a tool that supports `dryRun`: its own result, or a dry-run plan
+ * (the required fields of either shape must be present)
+ */
+export function withDryRunOutput(schema: OutputSchema): OutputSchema {
+  const { required, ...rest } = schema;
+  return {
+    ...rest,
+    properties: { ...schema.properties, ...dryRunProperties },
+    anyOf: [
+      { required: required ?? [] },
+      { required: ['dryRun', 'tool', 'plannedCalls', 'diff', 'warnings'] },
+    ],
+  };
+}
+
+// ===== APPROVALS =====
+
+const pendingApprovalProperties = {
+  approvalRequired: { type: 'boolean', const: true },
+  approvalId: { type: 'string', description: 'Pass to approve_operation once a human decided' },
+  tool: { type: 'string' },
+  expiresAt: { type: 'string', description: 'The call is dropped if nobody decides before then' },
+  message: { type: 'string' },
+};
+
+/**
+ * Output of a tool some approval rule may hold: its own result (or dry-run plan),
+ * or the pending approval returned instead of running it
+ */
+export function withApprovalOutput(schema: OutputSchema): OutputSchema {
+  const { required, anyOf, ...rest } = schema;
+  return {
+    ...rest,
+    properties: { ...schema.properties, ...pendingApprovalProperties },
+    anyOf: [
+      ...(Array.isArray(anyOf) ? anyOf : [{ required: required ?? [] }]),
+      { required: ['approvalRequired', 'approvalId', 'tool', 'expiresAt'] },
+    ],
+  };
+}
+
+export const pendingApprovalsOutputSchema: OutputSchema = {
+  type: 'object',
+  properties: {
+    approvals: {
+      type: 'array',
+      description: 'Oldest first; credential data and secrets redacted',
+      items: {
+        type: 'object',
+        properties: {
+          approvalId: { type: 'string' },
+          tool: { type: 'string' },
+          args: { type: 'object' },
+          instance: { type: 'string' },
+          requestedBy: {
+            type: 'object',
+            properties: {
+              clientId: { type: 'string', description: 'Auth token name' },
+              sessionId: { type: 'string' },
+              client: { type: 'string' },
+            },
+          },
+          rule: { type: 'object', description: 'Approval rule that matched the call' },
+          createdAt: { type: 'string' },
+          expiresAt: { type: 'string' },
+        },
+        required: ['approvalId', 'tool', 'args', 'requestedBy', 'rule', 'createdAt', 'expiresAt'],
+      },
+    },
+  },
+  required: ['approvals'],
+};
+
+export const approvalDecisionOutputSchema: OutputSchema = {
+  type: 'object',
+  properties: {
+    approvalId: { type: 'string' },
+    tool: { type: 'string' },
+    status: {
+      type: 'string',
+      enum: ['executed', 'rejected', 'failed'],
+      description: 'executed: approved and run; failed: approved but the call returned an error',
+    },
+    decidedBy: { type: 'string' },
+    reason: { type: 'string' },
+    result: { description: 'Result of the approved call' },
+    error: { type: 'string' },
+  },
+  required: ['approvalId', 'tool', 'status'],
+};
+
+// ===== CREDENTIALS =====
+
+export const credentialOutputSchema: OutputSchema = {
+  type: 'object',
+  properties: credentialProperties,
+  required: ['name', 'type'],
+};
+
+export const credentialListOutputSchema = itemsOutputSchema({
+  type: 'object',
+  properties: credentialProperties,
+  required: ['name', 'type'],
+});
+
+export const credentialSchemaOutputSchema: OutputSchema = {
+  type: 'object',
+  properties: {
+    type: { type: 'string' },
+    displayName: { type: 'string' },
+    properties: { type: 'array', items: { type: 'object' } },
+  },
+};
+
+export const credentialTestOutputSchema: OutputSchema = {
+  type: 'object',
+  properties: {
+    valid: { type: 'boolean' },
+    message: { type: 'string' },
+    testedAt: { type: 'string' },
+  },
+  required: ['valid', 'message', 'testedAt'],
+};
+
+// ===== VALIDATION =====
+
+export const validationResultOutputSchema: OutputSchema = {
+  type: 'object',
+  properties: {
+    valid: { type: 'boolean' },
+    errors: { type: 'array', items: validationErrorItem },
+    warnings: { type: 'array', items: validationErrorItem },
+  },
+  required: ['valid', 'errors', 'warnings'],
+};
+
+export const lintResultOutputSchema: OutputSchema = {
+  type: 'object',
+  properties: {
+    score: { type: 'number', description: 'Quality score (0-100)' },
+    issues: { type: 'array', items: validationErrorItem },
+    summary: { type: 'string' },
+  },
+  required: ['score', 'issues', 'summary'],
+};
+
+export const improvementResultOutputSchema: OutputSchema = {
+  type: 'object',
+  properties: {
+    suggestions: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          type: { type: 'string' },
+          title: { type: 'string' },
+          description: { type: 'string' },
+          priority: { type: 'string' },
+          nodeId: { type: 'string' },
+        },
+        required: ['type', 'title', 'description', 'priority'],
+      },
+    },
+    summary: { type: 'string' },
+  },
+  required: ['suggestions', 'summary'],
+};
+
+// ===== TEMPLATES =====
+
+export const templateSearchOutputSchema: OutputSchema = {
+  type: 'object',
+  properties: {
+    templates: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          id: { type: 'number' },
+          name: { type: 'string' },
+          description: { type: 'string' },
+          nodes: { type: 'number' },
+          categories: { type: 'array', items: { type: 'string' } },
+        },
+        required: ['id', 'name'],
+      },
+    },
+    total: { type: 'number' },
+  },
+  required: ['templates', 'total'],
+};
+
+export const templateOutputSchema: OutputSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'number' },
+    name: { type: 'string' },
+    description: { type: 'string' },
+    workflow: { type: 'object' },
+    nodes: { type: 'number' },
+    categories: { type: 'array', items: { type: 'string' } },
+    createdAt: { type: 'string' },
+  },
+  required: ['id', 'name'],
+};
+
+// ===== BACKUPS =====
+
+export const backupMetadataOutputSchema: OutputSchema = {
+  type: 'object',
+  properties: backupMetadataProperties,
+  required: ['backupId', 'workflowId', 'timestamp'],
+};
+
+export const backupListOutputSchema: OutputSchema = {
+  type: 'object',
+  properties: {
+    backups: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: backupMetadataProperties,
+        required: ['backupId', 'workflowId', 'timestamp'],
+      },
+    },
+  },
+  required: ['backups'],
+};
+
+export const restoreOutputSchema: OutputSchema = {
+  type: 'object',
+  properties: {
+    restored: { type: 'boolean' },
+    currentBackup: { type: 'object', properties: backupMetadataProperties },
+  },
+  required: ['restored'],
+};
+
+export const workflowDiffOutputSchema: OutputSchema = {
+  type: 'object',
+  properties: {
+    added: { type: 'array', items: { type: 'string' } },
+    removed: { type: 'array', items: { type: 'string' } },
+    modified: { type: 'array', items: { type: 'string' } },
+    summary: { type: 'string' },
+  },
+  required: ['added', 'removed', 'modified', 'summary'],
+};
+
+// ===== AUDIT =====
+
+export const auditLogOutputSchema: OutputSchema = {
+  type: 'object',
+  properties: {
+    entries: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          timestamp: { type: 'string' },
+          sessionId: { type: 'string' },
+          clientId: { type: 'string' },
+          client: { type: 'string' },
+          instance: { type: 'string' },
+          tool: { type: 'string' },
+          args: {},
+          status: { type: 'string', enum: ['success', 'error'] },
+          error: { type: 'string' },
+          durationMs: { type: 'number' },
+          affected: {
+            type: 'object',
+            properties: {
+              workflowIds: { type: 'array', items: { type: 'string' } },
+              credentialIds: { type: 'array', items: { type: 'string' } },
+            },
+          },
+        },
+        required: ['timestamp', 'tool', 'status'],
+      },
+    },
+    total: { type: 'number', description: 'Matching entries before applying limit' },
+  },
+  required: ['entries', 'total'],
+};
+
+// ===== INSTANCES =====
+
+export const instanceListOutputSchema: OutputSchema = {
+  type: 'object',
+  properties: {
+    instances: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          name: { type: 'string' },
+          host: { type: 'string' },
+          default: { type: 'boolean', description: 'Used when the instance argument is omitted' },
+          reachable: { type: 'boolean' },
+          authenticated: { type: 'boolean', description: 'API key accepted by the instance' },
+          version: { type: 'string', description: 'n8n version, when the instance exposes it' },
+          latencyMs: { type: 'number' },
+          error: { type: 'string' },
+        },
+        required: ['name', 'host', 'default', 'reachable', 'authenticated', 'latencyMs'],
+      },
+    },
+  },
+  required: ['instances'],
+};
+
+// ===== CONTINUATION =====
+
+export const nextPageOutputSchema: OutputSchema = {
+  type: 'object',
+  description: 'Next items in the shape of the original response (bare lists as { items })',
+  properties: {
+    items: { type: 'array' },
+    data: { type: 'array' },
+    _meta: {
+      type: 'object',
+      properties: {
+        truncated: { type: 'boolean', description: 'More items remain after this chunk' },
+        originalSize: { type: 'number' },
+        pagination: {
+          type: 'object',
+          properties: {
+            total: { type: 'number' },
+            offset: { type: 'number', description: 'Index of the first item in this chunk' },
+            returned: { type: 'number' },
+            hasMore: { type: 'boolean' },
+            nextCursor: { type: 'string', description: 'Pass to get_next_page for the following chunk' },
+          },
+          required: ['total', 'offset', 'returned', 'hasMore'],
+        },
+      },
+      required: ['pagination'],
+    },
+  },
+  required: ['_meta'],
+};
+
+// ===== SERVER CONFIG =====
+
+export const serverConfigOutputSchema: OutputSchema = {
+  type: 'object',
+  properties: {
+    file: { type: 'string', description: 'Configuration file (MCP_CONFIG_FILE), when one is used' },
+    config: {
+      type: 'object',
+      description: 'Effective configuration, secrets shown as [REDACTED]',
+      properties: {
+        server: { type: 'object' },
+        logging: { type: 'object' },
+        n8n: { type: 'object' },
+        instances: { type: 'object' },
+        retry: { type: 'object' },
+        backups: { type: 'object' },
+        cache: { type: 'object' },
+        responses: { type: 'object' },
+        tools: { type: 'object' },
+        auth: { type: 'object' },
+        sessions: { type: 'object' },
+        rateLimits: { type: 'object' },
+        audit: { type: 'object' },
+        approvals: { type: 'object' },
+        tracing: { type: 'object' },
+        health: { type: 'object' },
+        database: { type: 'object' },
+      },
+      required: [
+        'server', 'logging', 'n8n', 'instances', 'retry', 'backups', 'cache', 'responses', 'tools', 'auth',
+        'sessions', 'rateLimits', 'audit', 'approvals', 'tracing', 'health', 'database',
+      ],
+    },
+    sources: {
+      type: 'object',
+      description: 'Origin of each setting, keyed by path (e.g. "n8n.host")',
+      additionalProperties: { type: 'string', enum: ['default', 'file', 'env'] },
+    },
+  },
+  required: ['config', 'sources'],
+};
@@ -1,91 +1,59 @@
 import { Tool } from '@modelcontextprotocol/sdk/types.js';
+import { z } from 'zod';
 import { templateService } from '../services/template-service.js';
 import { validateRequired } from '../utils/error-handler.js';
+import type { RequestContext } from '../types/request-context.js';
+import {
+  templateOutputSchema,
+  templateSearchOutputSchema,
+  workflowOutputSchema,
+} from './output-schemas.js';
+import { defineTool, coercedBoolean, coercedNumber, coercedString } from './tool-definition.js';
 
 /**
  * Template management tools
  */
 export const templateTools: Tool[] = [
-  {
+  defineTool({
     name: 'search_templates',
     description: 'Search n8n.io template library for workflow templates',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        query: {
-          type: 'string',
-          description: 'Search query (e.g., "github slack", "customer onboarding")',
-        },
-        category: {
-          type: 'string',
-          description: 'Filter by category (e.g., "Development", "Marketing")',
-        },
-      },
-      required: ['query'],
-    },
-  },
-  {
+    input: z.object({
+      query: z.string().describe('Search query (e.g., "github slack", "customer onboarding")'),
+      category: z.string().optional().describe('Filter by category (e.g., "Development", "Marketing")'),
+    }),
+    outputSchema: templateSearchOutputSchema,
+  }),
+  defineTool({
     name: 'get_template_details',
     description: 'Get full workflow JSON for a template',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        id: {
-          type: 'number',
-          description: 'Template ID from search results',
-        },
-      },
-      required: ['id'],
-    },
-  },
-  {
+    input: z.object({
+      id: coercedNumber().describe('Template ID from search results'),
+    }),
+    outputSchema: templateOutputSchema,
+  }),
+  defineTool({
     name: 'import_template',
     description: 'Import template as new workflow with dependency resolution',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        templateId: {
-          type: 'number',
-          description: 'Template ID to import',
-        },
-        credentialMapping: {
-          type: 'object',
-          description: 'Map template credential IDs to existing credentials',
-        },
-        skipNodeValidation: {
-          type: 'boolean',
-          description: 'Skip checking if nodes exist (advanced)',
-        },
-        importInactive: {
-          type: 'boolean',
-          description: 'Import as inactive workflow (default: true)',
-        },
-      },
-      required: ['templateId'],
-    },
-  },
-  {
+    input: z.object({
+      templateId: coercedNumber().describe('Template ID to import'),
+      credentialMapping: z.record(z.string()).optional()
+        .describe('Map template credential IDs to existing credentials'),
+      skipNodeValidation: coercedBoolean().optional().describe('Skip checking if nodes exist (advanced)'),
+      importInactive: coercedBoolean().optional().describe('Import as inactive workflow (default: true)'),
+    }),
+    outputSchema: workflowOutputSchema,
+    dryRun: true,
+  }),
+  defineTool({
     name: 'export_workflow_as_template',
     description: 'Export workflow as JSON template (safe for sharing)',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        workflowId: {
-          type: 'string',
-          description: 'Workflow ID to export',
-        },
-        includeCredentials: {
-          type: 'boolean',
-          description: 'Include credential data (INSECURE - default: false)',
-        },
-        stripIds: {
-          type: 'boolean',
-          description: 'Remove n8n instance-specific IDs (default: true)',
-        },
-      },
-      required: ['workflowId'],
-    },
-  },
+    input: z.object({
+      workflowId: coercedString().describe('Workflow ID to export'),
+      includeCredentials: coercedBoolean().optional().describe('Include credential data (INSECURE - default: false)'),
+      stripIds: coercedBoolean().optional().describe('Remove n8n instance-specific IDs (default: true)'),
+    }),
+    outputSchema: workflowOutputSchema,
+  }),
 ];
 
 /**
@@ -93,31 +61,34 @@ export const templateTools: Tool[] = [
  */
 export async function handleTemplateTool(
   name: string,
-  args: Record<string, any>
+  args: Record<string, any>,
+  context: RequestContext = {}
 ): Promise<any> {
+  const templates = context.instance?.templateService ?? templateService;
+
   switch (name) {
     case 'search_templates':
       validateRequired(args, ['query']);
-      return await templateService.searchTemplates(args.query, args.category);
+      return await templates.searchTemplates(args.query, args.category, context);
 
     case 'get_template_details':
       validateRequired(args, ['id']);
-      return await templateService.getTemplateDetails(args.id);
+      return await templates.getTemplateDetails(args.id, context);
 
     case 'import_template':
       validateRequired(args, ['templateId']);
-      return await templateService.importTemplate(args.templateId, {
+      return await templates.importTemplate(args.templateId, {
         credentialMapping: args.credentialMapping,
         skipNodeValidation: args.skipNodeValidation,
         importInactive: args.importInactive !== false,
-      });
+      }, context);
 
     case 'export_workflow_as_template':
       validateRequired(args, ['workflowId']);
-      return await templateService.exportWorkflow(args.workflowId, {
+      return await templates.exportWorkflow(args.workflowId, {
         includeCredentials: args.includeCredentials === true,
         stripIds: args.stripIds !== false,
-      });
+      }, context);
 
     default:
       throw new Error(`Unknown template tool: ${name}`);
@@ -0,0 +1,177 @@
+import { Tool, McpError, ErrorCode } from '@modelcontextprotocol/sdk/types.js';
+import { z } from 'zod';
+import { zodToJsonSchema } from 'zod-to-json-schema';
+import { withDryRunOutput, type OutputSchema } from './output-schemas.js';
+
+/**
+ * Single source of truth for a tool: the zod schema validates arguments
+ * and the JSON inputSchema advertised to clients is generated from it
+ */
+export interface ToolDefinition {
+  name: string;
+  description: string;
+  input: z.AnyZodObject;
+  outputSchema?: OutputSchema;
+  /** Accept the optional `instance` argument (default true; off for server-level tools) */
+  perInstance?: boolean;
+  /** Accept the `dryRun` argument (mutating tools; planned by DryRunService instead of the handler) */
+  dryRun?: boolean;
+}
+
+/**
+ * One invalid argument reported back to the client
+ */
+export interface ToolArgumentIssue {
+  field: string;
+  message: string;
+  code: string;
+}
+
+/**
+ * Invalid tool arguments (JSON-RPC InvalidParams with per-field issues in `data`)
+ */
+export class ToolArgumentsError extends McpError {
+  constructor(public readonly tool: string, public readonly issues: ToolArgumentIssue[]) {
+    super(
+      ErrorCode.InvalidParams,
+      `Invalid arguments for tool '${tool}': ${issues.map(i => `${i.field}: ${i.message}`).join('; ')}`,
+      { tool, issues }
+    );
+    this.name = 'ToolArgumentsError';
+  }
+}
+
+// Registered argument schemas by tool name
+const inputSchemas = new Map<string, z.AnyZodObject>();
+const perInstanceTools = new Set<string>();
+const dryRunTools = new Set<string>();
+
+// Added to every per-instance tool; resolved by the server before the handler runs
+const instanceArgument = z.string().min(1).optional()
+  .describe('Name of the n8n instance to use (see list_instances). Defaults to the primary instance.');
+
+// Added to mutating tools that support dry runs; handled by the server like `instance`
+const dryRunArgument = coercedBoolean().optional()
+  .describe('Validate and return the planned n8n API calls and a diff against the live state, without changing anything');
+
+// ===== ARGUMENT COERCION =====
+
+/**
+ * String argument that also accepts numbers (e.g. numeric workflow IDs)
+ */
+export function coercedString() {
+  return z.preprocess(value => (typeof value === 'number' ? String(value) : value), z.string());
+}
+
+/**
+ * Number argument that also accepts numeric strings ("20")
+ * @param schema Inner number schema for bounds (e.g. z.number().int().min(1))
+ */
+export function coercedNumber(schema: z.ZodNumber = z.number()) {
+  return z.preprocess(
+    value => (typeof value === 'string' && value.trim() !== '' && !isNaN(Number(value)) ? Number(value) : value),
+    schema
+  );
+}
+
+/**
+ * Boolean argument that also accepts "true" / "false"
+ */
+export function coercedBoolean() {
+  return z.preprocess(
+    value => (value === 'true' ? true : value === 'false' ? false : value),
+    z.boolean()
+  );
+}
+
+// ===== DEFINITION & PARSING =====
+
+/**
+ * Convert a zod object schema to the JSON Schema used in tools/list
+ */
+export function toInputSchema(schema: z.AnyZodObject): Tool['inputSchema'] {
+  const { $schema, ...jsonSchema } = zodToJsonSchema(schema, {
+    target: 'jsonSchema7',
+    $refStrategy: 'none',
+  }) as Record<string, unknown>;
+  return jsonSchema as Tool['inputSchema'];
+}
+
+/**
+ * Build a Tool from its zod definition and register the schema for parsing
+ */
+export function defineTool({
+  name,
+  description,
+  input,
+  outputSchema,
+  perInstance = true,
+  dryRun = false,
+}: ToolDefinition): Tool {
+  let extended = perInstance ? input.extend({ instance: instanceArgument }) : input;
+  if (dryRun) {
+    extended = extended.extend({ dryRun: dryRunArgument });
+    dryRunTools.add(name);
+  }
+  // Unknown arguments are rejected instead of being forwarded to n8n
+  const schema = extended.strict();
+  inputSchemas.set(name, schema);
+  if (perInstance) {
+    perInstanceTools.add(name);
+  }
+  const output = outputSchema && dryRun ? withDryRunOutput(outputSchema) : outputSchema;
+  return {
+    name,
+    description,
+    inputSchema: toInputSchema(schema),
+    ...(output && { outputSchema: output }),
+  };
+}
+
+/**
+ * Whether the tool takes the `instance` argument (selects the n8n instance)
+ */
+export function acceptsInstanceArgument(name: string): boolean {
+  return perInstanceTools.has(name);
+}
+
+/**
+ * Whether the tool takes the `dryRun` argument
+ */
+export function supportsDryRun(name: string): boolean {
+  return dryRunTools.has(name);
+}
+
+/**
+ * Parse and coerce tool arguments against the registered schema
+ * Tools without a registered schema get their arguments back unchanged
+ */
+export function parseToolArguments(name: string, args: unknown): Record<string, any> {
+  const schema = inputSchemas.get(name);
+  if (!schema) {
+    return (args ?? {}) as Record<string, any>;
+  }
+
+  const result = schema.safeParse(args ?? {});
+  if (!result.success) {
+    throw new ToolArgumentsError(name, toArgumentIssues(result.error));
+  }
+  return result.data;
+}
+
+/**
+ * Flatten zod issues to one entry per bad field
+ */
+function toArgumentIssues(error: z.ZodError): ToolArgumentIssue[] {
+  return error.issues.flatMap((issue): ToolArgumentIssue[] => {
+    const path = issue.path.join('.');
+    if (issue.code === 'unrecognized_keys') {
+      return issue.keys.map(key => ({
+        field: path ? `${path}.${key}` : key,
+        message: 'Unknown argument',
+        code: issue.code,
+      }));
+    }
+    return [{ field: path || '(root)', message: issue.message, code: issue.code }];
+  });
+}
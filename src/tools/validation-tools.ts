@@ -1,138 +1,83 @@
 import { Tool } from '@modelcontextprotocol/sdk/types.js';
+import { z } from 'zod';
 import { validationService } from '../services/validation-service.js';
 import { validateRequired } from '../utils/error-handler.js';
+import type { RequestContext } from '../types/request-context.js';
+import {
+  improvementResultOutputSchema,
+  lintResultOutputSchema,
+  validationResultOutputSchema,
+} from './output-schemas.js';
+import { defineTool, coercedBoolean } from './tool-definition.js';
+
+const workflowNodesSchema = z.array(z.object({}).passthrough());
 
 /**
  * Define validation tools for workflow structure checking
  */
 export const validationTools: Tool[] = [
-  {
+  defineTool({
     name: 'validate_workflow_structure',
     description: 'Validate workflow structure before creation/deployment to catch errors early. Checks for: required fields, unique node IDs/names, valid node types, valid connections, circular dependencies, trigger nodes, and disabled node warnings.',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        workflow: {
-          type: 'object',
-          description: 'Workflow object to validate',
-          properties: {
-            name: { type: 'string', description: 'Workflow name' },
-            nodes: {
-              type: 'array',
-              description: 'Array of node objects',
-              items: { type: 'object' }
-            },
-            connections: {
-              type: 'object',
-              description: 'Connections between nodes'
-            },
-            active: {
-              type: 'boolean',
-              description: 'Whether workflow should be active'
-            },
-          },
-          required: ['name', 'nodes'],
-        },
-      },
-      required: ['workflow'],
-    },
-  },
-  {
+    input: z.object({
+      workflow: z.object({
+        name: z.string().describe('Workflow name'),
+        nodes: workflowNodesSchema.describe('Array of node objects'),
+        connections: z.record(z.any()).optional().describe('Connections between nodes'),
+        active: coercedBoolean().optional().describe('Whether workflow should be active'),
+      }).passthrough().describe('Workflow object to validate'),
+    }),
+    outputSchema: validationResultOutputSchema,
+  }),
+  defineTool({
     name: 'validate_workflow_credentials',
     description: 'Validate workflow credentials before deployment. Checks: credential IDs exist, credential types match node requirements, and optionally tests credential validity.',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        workflow: {
-          type: 'object',
-          description: 'Workflow object to validate',
-          properties: {
-            name: { type: 'string' },
-            nodes: {
-              type: 'array',
-              items: { type: 'object' }
-            },
-          },
-          required: ['name', 'nodes'],
-        },
-        testCredentials: {
-          type: 'boolean',
-          description: 'Whether to test credential validity (default: false)',
-          default: false,
-        },
-      },
-      required: ['workflow'],
-    },
-  },
-  {
+    input: z.object({
+      workflow: z.object({
+        name: z.string(),
+        nodes: workflowNodesSchema,
+      }).passthrough().describe('Workflow object to validate'),
+      testCredentials: coercedBoolean().default(false)
+        .describe('Whether to test credential validity (default: false)'),
+    }),
+    outputSchema: validationResultOutputSchema,
+  }),
+  defineTool({
     name: 'validate_workflow_expressions',
     description: 'Validate n8n expressions {{ }} in workflow. Checks: syntax errors in expressions, valid variable references ($json, $node, $vars), and warns about complex logic that should use Code node.',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        workflow: {
-          type: 'object',
-          description: 'Workflow object to validate',
-          properties: {
-            name: { type: 'string' },
-            nodes: {
-              type: 'array',
-              items: { type: 'object' }
-            },
-          },
-          required: ['name', 'nodes'],
-        },
-      },
-      required: ['workflow'],
-    },
-  },
-  {
+    input: z.object({
+      workflow: z.object({
+        name: z.string(),
+        nodes: workflowNodesSchema,
+      }).passthrough().describe('Workflow object to validate'),
+    }),
+    outputSchema: validationResultOutputSchema,
+  }),
+  defineTool({
     name: 'lint_workflow',
     description: 'Lint workflow for best practices. Checks: orphaned nodes, missing error handling, generic node names, hardcoded secrets, and loops without limits. Returns score (0-100) and list of issues.',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        workflow: {
-          type: 'object',
-          description: 'Workflow object to lint',
-          properties: {
-            name: { type: 'string' },
-            nodes: {
-              type: 'array',
-              items: { type: 'object' }
-            },
-            connections: { type: 'object' },
-          },
-          required: ['name', 'nodes'],
-        },
-      },
-      required: ['workflow'],
-    },
-  },
-  {
+    input: z.object({
+      workflow: z.object({
+        name: z.string(),
+        nodes: workflowNodesSchema,
+        connections: z.record(z.any()).optional(),
+      }).passthrough().describe('Workflow object to lint'),
+    }),
+    outputSchema: lintResultOutputSchema,
+  }),
+  defineTool({
     name: 'suggest_workflow_improvements',
     description: 'Analyze workflow and suggest improvements. Identifies: missing Set nodes for data transformation, missing error handling, slow loops, hardcoded values that should use credentials, missing triggers, and opportunities for merge nodes.',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        workflow: {
-          type: 'object',
-          description: 'Workflow object to analyze',
-          properties: {
-            name: { type: 'string' },
-            nodes: {
-              type: 'array',
-              items: { type: 'object' }
-            },
-            connections: { type: 'object' },
-            active: { type: 'boolean' },
-          },
-          required: ['name', 'nodes'],
-        },
-      },
-      required: ['workflow'],
-    },
-  },
+    input: z.object({
+      workflow: z.object({
+        name: z.string(),
+        nodes: workflowNodesSchema,
+        connections: z.record(z.any()).optional(),
+        active: coercedBoolean().optional(),
+      }).passthrough().describe('Workflow object to analyze'),
+    }),
+    outputSchema: improvementResultOutputSchema,
+  }),
 ];
 
 /**
@@ -142,30 +87,37 @@ export const validationTools: Tool[] = [
  * @param args - Tool arguments
  * @returns Validation result with errors and warnings
  */
-export async function handleValidationTool(name: string, args: any): Promise<any> {
+export async function handleValidationTool(
+  name: string,
+  args: any,
+  context: RequestContext = {}
+): Promise<any> {
+  const validation = context.instance?.validationService ?? validationService;
+
   switch (name) {
     case 'validate_workflow_structure':
       validateRequired(args, ['workflow']);
-      return await validationService.validateWorkflowStructure(args.workflow);
+      return await validation.validateWorkflowStructure(args.workflow, context);
 
     case 'validate_workflow_credentials':
       validateRequired(args, ['workflow']);
-      return await validationService.validateWorkflowCredentials(
+      return await validation.validateWorkflowCredentials(
         args.workflow,
-        args.testCredentials || false
+        args.testCredentials || false,
+        context
       );
 
     case 'validate_workflow_expressions':
       validateRequired(args, ['workflow']);
-      return await validationService.validateWorkflowExpressions(args.workflow);
+      return await validation.validateWorkflowExpressions(args.workflow);
 
     case 'lint_workflow':
       validateRequired(args, ['workflow']);
-      return await validationService.lintWorkflow(args.workflow);
+      return await validation.lintWorkflow(args.workflow);
 
     case 'suggest_workflow_improvements':
       validateRequired(args, ['workflow']);
-      return await validationService.suggestWorkflowImprovements(args.workflow);
+      return await validation.suggestWorkflowImprovements(args.workflow);
 
     default:
       throw new Error(`Unknown validation tool: ${name}`);
@@ -1,216 +1,244 @@
 import { Tool } from '@modelcontextprotocol/sdk/types.js';
+import { z } from 'zod';
 import { n8nApi } from '../services/n8n-api-service.js';
 import { validateRequired } from '../utils/error-handler.js';
+import {
+  applyDocumentView,
+  parseFieldSelector,
+  summarizeExecution,
+  summarizeWorkflow,
+  DOCUMENT_VIEWS,
+} from '../utils/document-views.js';
 import { N8N_HOST } from '../config/env.js';
+import type { RequestContext } from '../types/request-context.js';
+import {
+  executionListOutputSchema,
+  executionOutputSchema,
+  nodeTypeListOutputSchema,
+  successOutputSchema,
+  webhookResponseOutputSchema,
+  workflowListOutputSchema,
+  workflowOutputSchema,
+} from './output-schemas.js';
+import { defineTool, coercedBoolean, coercedNumber, coercedString } from './tool-definition.js';
+
+// Projection arguments of get_workflow / get_execution
+const viewArgument = z.enum(DOCUMENT_VIEWS).optional();
+
+const fieldsArgument = z.array(
+  z.string().min(1).superRefine((selector, ctx) => {
+    try {
+      parseFieldSelector(selector);
+    } catch (error) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: (error as Error).message });
+    }
+  })
+).optional().describe(
+  'Only return these fields (JSONPath-like selectors, e.g. "nodes[*].name", "settings", "data.resultData.runData.HTTP Request")'
+);
 
 /**
  * Define all 12 existing workflow management tools
  */
 export const workflowTools: Tool[] = [
   // WORKFLOW MANAGEMENT
-  {
+  defineTool({
     name: 'list_workflows',
     description: 'List all workflows in n8n',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        active: { type: 'boolean', description: 'Filter by active status' },
-        limit: { type: 'number', description: 'Limit number of results' },
-        tags: { type: 'string', description: 'Filter by tags (comma separated)' },
-      },
-    },
-  },
-  {
+    input: z.object({
+      active: coercedBoolean().optional().describe('Filter by active status'),
+      limit: coercedNumber().optional().describe('Limit number of results'),
+      tags: z.string().optional().describe('Filter by tags (comma separated)'),
+    }),
+    outputSchema: workflowListOutputSchema,
+  }),
+  defineTool({
     name: 'get_workflow',
-    description: 'Get detailed information about a workflow (nodes, connections, settings)',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        id: { type: 'string', description: 'The workflow ID' },
-      },
-      required: ['id'],
-    },
-  },
-  {
+    description: 'Get detailed information about a workflow (nodes, connections, settings). Use view "summary" (node names, types and connections without parameters) or "structure", or pick fields, to keep large workflows small.',
+    input: z.object({
+      id: coercedString().describe('The workflow ID'),
+      view: viewArgument.describe('summary: nodes and connections without parameters; structure: key skeleton; full (default): whole workflow'),
+      fields: fieldsArgument,
+    }),
+    outputSchema: workflowOutputSchema,
+  }),
+  defineTool({
     name: 'create_workflow',
     description: 'Create a new workflow',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        name: { type: 'string', description: 'Name of the workflow' },
-        nodes: { type: 'array', description: 'Array of node objects' },
-        connections: { type: 'object', description: 'Object defining connections' },
-        active: { type: 'boolean', description: 'Whether active' },
-        settings: { type: 'object', description: 'Workflow settings' },
-      },
-      required: ['name'],
-    },
-  },
-  {
+    input: z.object({
+      name: z.string().describe('Name of the workflow'),
+      nodes: z.array(z.any()).optional().describe('Array of node objects'),
+      connections: z.record(z.any()).optional().describe('Object defining connections'),
+      active: coercedBoolean().optional().describe('Whether active'),
+      settings: z.record(z.any()).optional().describe('Workflow settings'),
+    }),
+    outputSchema: workflowOutputSchema,
+    dryRun: true,
+  }),
+  defineTool({
     name: 'update_workflow',
     description: 'Update an existing workflow',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        id: { type: 'string', description: 'Workflow ID' },
-        name: { type: 'string' },
-        nodes: { type: 'array' },
-        connections: { type: 'object' },
-        active: { type: 'boolean' },
-        settings: { type: 'object' },
-      },
-      required: ['id'],
-    },
-  },
-  {
+    input: z.object({
+      id: coercedString().describe('Workflow ID'),
+      name: z.string().optional(),
+      nodes: z.array(z.any()).optional(),
+      connections: z.record(z.any()).optional(),
+      active: coercedBoolean().optional(),
+      settings: z.record(z.any()).optional(),
+    }),
+    outputSchema: workflowOutputSchema,
+    dryRun: true,
+  }),
+  defineTool({
     name: 'delete_workflow',
     description: 'Delete a workflow',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        id: { type: 'string', description: 'Workflow ID' },
-      },
-      required: ['id'],
-    },
-  },
-  {
+    input: z.object({
+      id: coercedString().describe('Workflow ID'),
+    }),
+    outputSchema: successOutputSchema,
+    dryRun: true,
+  }),
+  defineTool({
     name: 'activate_workflow',
     description: 'Activate or deactivate a workflow',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        id: { type: 'string', description: 'Workflow ID' },
-        active: { type: 'boolean', description: 'True to activate' },
-      },
-      required: ['id', 'active'],
-    },
-  },
+    input: z.object({
+      id: coercedString().describe('Workflow ID'),
+      active: coercedBoolean().describe('True to activate'),
+    }),
+    outputSchema: workflowOutputSchema,
+    dryRun: true,
+  }),
 
   // EXECUTION & TESTING
-  {
+  defineTool({
     name: 'execute_workflow',
     description: 'Manually trigger a workflow',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        id: { type: 'string', description: 'Workflow ID' },
-      },
-      required: ['id'],
-    },
-  },
-  {
+    input: z.object({
+      id: coercedString().describe('Workflow ID'),
+    }),
+    outputSchema: executionOutputSchema,
+  }),
+  defineTool({
     name: 'trigger_webhook',
     description: 'Trigger a webhook endpoint for testing',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        webhook_path: { type: 'string', description: 'Webhook path/UUID' },
-        method: { type: 'string', enum: ['GET', 'POST', 'PUT', 'DELETE'], default: 'POST' },
-        body: { type: 'object', description: 'JSON body payload' },
-        headers: { type: 'object', description: 'Custom headers' },
-        query_params: { type: 'object', description: 'Query parameters' },
-        test_mode: { type: 'boolean', description: 'Use /webhook-test/ endpoint if true' },
-      },
-      required: ['webhook_path'],
-    },
-  },
+    input: z.object({
+      webhook_path: z.string().describe('Webhook path/UUID'),
+      method: z.enum(['GET', 'POST', 'PUT', 'DELETE']).default('POST'),
+      body: z.record(z.any()).optional().describe('JSON body payload'),
+      headers: z.record(z.string()).optional().describe('Custom headers'),
+      query_params: z.record(z.string()).optional().describe('Query parameters'),
+      test_mode: coercedBoolean().optional().describe('Use /webhook-test/ endpoint if true'),
+    }),
+    outputSchema: webhookResponseOutputSchema,
+  }),
 
   // DEBUGGING & MONITORING
-  {
+  defineTool({
     name: 'list_executions',
     description: 'List recent workflow executions to check status',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        includeData: { type: 'boolean', description: 'Include execution data' },
-        status: { type: 'string', enum: ['error', 'success', 'waiting'] },
-        limit: { type: 'number', default: 20 },
-        workflowId: { type: 'string', description: 'Filter by workflow ID' },
-      },
-    },
-  },
-  {
+    input: z.object({
+      includeData: coercedBoolean().optional().describe('Include execution data'),
+      status: z.enum(['error', 'success', 'waiting']).optional(),
+      limit: coercedNumber().optional().describe('Maximum executions to return (n8n default: 100)'),
+      workflowId: coercedString().optional().describe('Filter by workflow ID'),
+    }),
+    outputSchema: executionListOutputSchema,
+  }),
+  defineTool({
     name: 'get_execution',
-    description: 'Get full details of a specific execution for debugging',
-    inputSchema: {
-      type: 'object',
-      properties: {
-        id: { type: 'string', description: 'Execution ID' },
-      },
-      required: ['id'],
-    },
-  },
-  {
+    description: 'Get full details of a specific execution for debugging. Without view or fields, run data is not included; view "summary" gives per-node status and item counts, "full" the complete run data, and fields select parts of it.',
+    input: z.object({
+      id: coercedString().describe('Execution ID'),
+      view: viewArgument.describe('summary: status and per-node results without item data; structure: key skeleton; full: everything including run data'),
+      fields: fieldsArgument,
+    }),
+    outputSchema: executionOutputSchema,
+  }),
+  defineTool({
     name: 'list_node_types',
     description: 'List available node types in this n8n instance',
-    inputSchema: {
-      type: 'object',
-      properties: {},
-    },
-  },
+    input: z.object({}),
+    outputSchema: nodeTypeListOutputSchema,
+  }),
 ];
 
 /**
  * Handle execution of workflow tools
  */
-export async function handleWorkflowTool(name: string, args: any): Promise<any> {
+export async function handleWorkflowTool(
+  name: string,
+  args: any,
+  { signal, instance }: RequestContext = {}
+): Promise<any> {
+  const api = instance?.n8nApi ?? n8nApi;
+
   switch (name) {
     case 'list_workflows':
-      return await n8nApi.listWorkflows(args);
+      return await api.listWorkflows(args, signal);
 
     case 'get_workflow':
       validateRequired(args, ['id']);
-      return await n8nApi.getWorkflow(args.id);
+      return applyDocumentView(await api.getWorkflow(args.id, signal), summarizeWorkflow, {
+        view: args.view,
+        fields: args.fields,
+        keep: ['id', 'name'],
+      });
 
     case 'create_workflow':
       validateRequired(args, ['name']);
-      return await n8nApi.createWorkflow(args);
+      return await api.createWorkflow(args, signal);
 
     case 'update_workflow':
       validateRequired(args, ['id']);
       const { id: updateId, ...updateData } = args;
-      return await n8nApi.updateWorkflow(updateId, updateData);
+      return await api.updateWorkflow(updateId, updateData, signal);
 
     case 'delete_workflow':
       validateRequired(args, ['id']);
-      await n8nApi.deleteWorkflow(args.id);
+      await api.deleteWorkflow(args.id, signal);
       return { success: true, message: `Workflow ${args.id} deleted` };
 
     case 'activate_workflow':
       validateRequired(args, ['id', 'active']);
-      return await n8nApi.activateWorkflow(args.id, args.active);
+      return await api.activateWorkflow(args.id, args.active, signal);
 
     case 'execute_workflow':
       validateRequired(args, ['id']);
-      return await n8nApi.executeWorkflow(args.id);
+      return await api.executeWorkflow(args.id, signal);
 
     case 'trigger_webhook':
       validateRequired(args, ['webhook_path']);
-      const result = await n8nApi.triggerWebhook({
+      const result = await api.triggerWebhook({
         path: args.webhook_path,
         method: args.method || 'POST',
         body: args.body,
         headers: args.headers,
         queryParams: args.query_params,
         testMode: args.test_mode,
-      });
+      }, signal);
 
       // Add full URL to response for debugging
       const endpoint = args.test_mode ? 'webhook-test' : 'webhook';
       return {
         ...result,
-        url: `${N8N_HOST}/${endpoint}/${args.webhook_path}`,
+        url: `${instance?.host ?? N8N_HOST}/${endpoint}/${args.webhook_path}`,
       };
 
     case 'list_executions':
-      return await n8nApi.listExecutions(args);
+      return await api.listExecutions(args, signal);
 
     case 'get_execution':
       validateRequired(args, ['id']);
-      return await n8nApi.getExecution(args.id);
+      // Run data is only fetched when a view or projection may need it
+      const includeData = Boolean(args.view || args.fields?.length);
+      return applyDocumentView(await api.getExecution(args.id, includeData, signal), summarizeExecution, {
+        view: args.view,
+        fields: args.fields,
+        keep: ['id'],
+      });
 
     case 'list_node_types':
-      return await n8nApi.listNodeTypes();
+      return await api.listNodeTypes(signal);
 
     default:
       throw new Error(`Unknown workflow tool: ${name}`);
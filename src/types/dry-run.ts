@@ -0,0 +1,69 @@
+// Dry-run types: what a mutating tool would send to n8n, without sending it
+
+/**
+ * An n8n API request a mutating tool would make
+ */
+export interface PlannedApiCall {
+  method: 'POST' | 'PUT' | 'DELETE';
+  /** Path relative to the n8n API base URL (e.g. /workflows/12) */
+  path: string;
+  /** Request body; credential data values are redacted */
+  body?: unknown;
+}
+
+/**
+ * One changed field of a workflow or credential
+ */
+export interface FieldChange {
+  /** Dotted path (e.g. settings.timezone, data.apiKey) */
+  path: string;
+  change: 'added' | 'removed' | 'changed';
+  /** Scalar values only; omitted for objects and credential data */
+  before?: unknown;
+  after?: unknown;
+}
+
+/**
+ * Structural difference between the live resource and the result of the call
+ */
+export interface ResourceDiff {
+  resource: 'workflow' | 'credential';
+  action: 'create' | 'update' | 'delete' | 'none';
+  id?: string;
+  name?: string;
+  /** Changes outside nodes and connections */
+  fields: FieldChange[];
+  /** Nodes by name; modified nodes list their changed keys (e.g. parameters.url) */
+  nodes?: {
+    added: string[];
+    removed: string[];
+    modified: Array<{ name: string; changes: string[] }>;
+  };
+  /** Connection edges as "Source.main[0] -> Target.main[0]" */
+  connections?: {
+    added: string[];
+    removed: string[];
+  };
+  summary: string;
+}
+
+/**
+ * Result of a mutating tool called with `dryRun: true`
+ */
+export interface DryRunResult {
+  dryRun: true;
+  tool: string;
+  /** Requests the tool would send, in order */
+  plannedCalls: PlannedApiCall[];
+  diff: ResourceDiff;
+  /** ValidationService report on the resulting workflow (advisory, as in validate_workflow_structure) */
+  validation?: {
+    valid: boolean;
+    errors: Array<{ type: string; message: string; severity: 'error' | 'warning' }>;
+    warnings: Array<{ type: string; message: string; severity: 'error' | 'warning' }>;
+  };
+  /** Non-blocking findings (duplicate names, no-op changes) */
+  warnings: string[];
+  /** Local effects besides the API calls (e.g. auto-backup before restore) */
+  sideEffects?: string[];
+}
@@ -30,6 +30,7 @@ export interface N8nNode {
 export interface N8nExecution {
   id: string;
   finished: boolean;
+  status?: string;
   mode: string;
   startedAt: string;
   stoppedAt?: string;
@@ -0,0 +1,41 @@
+import type { Tool } from '@modelcontextprotocol/sdk/types.js';
+import type { RequestContext } from './request-context.js';
+import type { N8nApiService } from '../services/n8n-api-service.js';
+import type { BackupService } from '../services/backup-service.js';
+import type { ValidationService } from '../services/validation-service.js';
+
+/**
+ * Server services handed to plugin handlers
+ * (those of the session's n8n instance, the default instance otherwise)
+ */
+export interface PluginServices {
+  n8nApi: N8nApiService;
+  backupService: BackupService;
+  validationService: ValidationService;
+}
+
+/**
+ * Context passed to plugin handlers: the request context plus shared services
+ */
+export interface PluginToolContext extends RequestContext {
+  services: PluginServices;
+}
+
+/**
+ * Same shape as handleWorkflowTool & co; the return value becomes the tool result
+ */
+export type PluginToolHandler = (
+  name: string,
+  args: Record<string, any>,
+  context: PluginToolContext
+) => Promise<unknown> | unknown;
+
+/**
+ * A plugin module from MCP_PLUGIN_DIR
+ */
+export interface LoadedPlugin {
+  /** File name inside the plugin directory */
+  file: string;
+  tools: Tool[];
+  handler: PluginToolHandler;
+}
@@ -0,0 +1,23 @@
+import type { ProgressCallback } from '../utils/progress.js';
+import type { N8nInstance } from '../services/instance-registry.js';
+
+/**
+ * Per-request context threaded from the MCP request handler
+ * through tool handlers into services
+ */
+export interface RequestContext {
+  /** Aborted when the client sends notifications/cancelled */
+  signal?: AbortSignal;
+  /** Set when the client asked for notifications/progress */
+  onProgress?: ProgressCallback;
+  /** MCP session the call belongs to (HTTP transports only) */
+  sessionId?: string;
+  /** Auth token name of the caller (HTTP with MCP_AUTH_TOKENS) */
+  clientId?: string;
+  /** Calling MCP client as "name/version", from the initialize handshake */
+  client?: string;
+  /** n8n instance the call runs against: the session's own or the one selected by `instance` (handlers fall back to the default services) */
+  instance?: N8nInstance;
+  /** Set when a call held for approval is run after a human approved it (approval rules are not applied again) */
+  approval?: { id: string; approvedBy?: string };
+}
@@ -0,0 +1,31 @@
+import { isCancel } from 'axios';
+
+/**
+ * Check whether an error was caused by an aborted request
+ * Covers axios CanceledError and native AbortError / TimeoutError reasons
+ */
+export function isAbortError(error: unknown): boolean {
+  if (isCancel(error)) return true;
+  return error instanceof Error && error.name === 'AbortError';
+}
+
+/**
+ * Sleep that rejects immediately when the signal is aborted
+ */
+export function abortableSleep(ms: number, signal?: AbortSignal): Promise<void> {
+  if (signal?.aborted) {
+    return Promise.reject(signal.reason);
+  }
+
+  return new Promise((resolve, reject) => {
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
@@ -1,4 +1,8 @@
 import { AxiosError, AxiosInstance, InternalAxiosRequestConfig } from 'axios';
+import { abortableSleep } from './abort.js';
+import { apiRetriesTotal, normalizeEndpoint } from './metrics.js';
+import { logger } from './logger.js';
+import { withSpan } from './tracing.js';
 
 /**
  * Simple mutex for serializing write operations
@@ -55,13 +59,6 @@ const DEFAULT_RETRY_CONFIG: RetryConfig = {
   retryableStatuses: [408, 429, 500, 502, 503, 504],
 };
 
-/**
- * Sleep utility
- */
-function sleep(ms: number): Promise<void> {
-  return new Promise(resolve => setTimeout(resolve, ms));
-}
-
 /**
  * Calculate exponential backoff delay
  */
@@ -72,6 +69,7 @@ function getBackoffDelay(attempt: number, config: RetryConfig): number {
 
 /**
  * Add retry interceptor to axios instance
+ * Retries stop as soon as the request's AbortSignal fires
  */
 export function addRetryInterceptor(
   client: AxiosInstance,
@@ -96,23 +94,37 @@ export function addRetryInterceptor(
       const isRetryable = status && retryConfig.retryableStatuses.includes(status);
       const hasRetriesLeft = originalConfig._retryCount < retryConfig.maxRetries;
 
-      if (!isRetryable || !hasRetriesLeft) {
+      const signal = originalConfig.signal as AbortSignal | undefined;
+
+      if (!isRetryable || !hasRetriesLeft || signal?.aborted) {
         return Promise.reject(error);
       }
 
       // Increment retry count
       originalConfig._retryCount++;
+      apiRetriesTotal.inc({ endpoint: normalizeEndpoint(originalConfig.url), status: String(status) });
 
       // Calculate delay
       const delay = getBackoffDelay(originalConfig._retryCount - 1, retryConfig);
 
-      console.warn(
-        `Retry ${originalConfig._retryCount}/${retryConfig.maxRetries} ` +
-        `for ${originalConfig.method?.toUpperCase()} ${originalConfig.url} ` +
-        `after ${delay}ms (status: ${status})`
-      );
+      logger.warn(`Retrying n8n API request ${originalConfig._retryCount}/${retryConfig.maxRetries}`, {
+        method: originalConfig.method?.toUpperCase(),
+        url: originalConfig.url,
+        status,
+        delayMs: delay,
+      });
 
-      await sleep(delay);
+      try {
+        // Backoff gets its own span so traces tell retry waits from time spent in n8n
+        await withSpan('n8n.retry', {
+          'n8n.retry.attempt': originalConfig._retryCount,
+          'n8n.retry.delay_ms': delay,
+          'http.response.status_code': status,
+        }, () => abortableSleep(delay, signal));
+      } catch {
+        // Cancelled during backoff: surface the original failure
+        return Promise.reject(error);
+      }
 
       return client.request(originalConfig);
     }
@@ -156,7 +168,7 @@ export function createApiKeyRefreshHandler(
           originalConfig._retried = true;
           originalConfig.headers.set('X-N8N-API-KEY', newKey);
 
-          console.log('API key refreshed, retrying request');
+          logger.info('API key refreshed, retrying request');
           return client.request(originalConfig);
         }
       } finally {
@@ -0,0 +1,307 @@
+import crypto from 'crypto';
+import { readFileSync } from 'fs';
+import type { Request, Response, NextFunction } from 'express';
+import type { AuthInfo } from '@modelcontextprotocol/sdk/server/auth/types.js';
+import { McpError, ErrorCode } from '@modelcontextprotocol/sdk/types.js';
+import { logSecurityEvent } from './security-log.js';
+import { serverConfig, type ServerConfig } from '../config/server-config.js';
+import type { TokenN8nCredentials } from './session-credentials.js';
+
+/**
+ * Token scopes
+ * - read: inspect workflows, executions, templates, backups
+ * - write: create/modify/delete/execute workflows, backups, imports
+ * - credentials: manage and test credentials
+ * - approvals: approve or reject tool calls held for human approval
+ * - audit: read every token's audit log entries (without it, query_audit_log only returns the caller's own)
+ */
+export const AUTH_SCOPES = ['read', 'write', 'credentials', 'approvals', 'audit'] as const;
+export type AuthScope = typeof AUTH_SCOPES[number];
+
+/**
+ * Configured API token
+ */
+export interface AuthToken {
+  name: string;
+  token: string;
+  scopes: AuthScope[];
+  /** n8n credentials every session of this token uses (multi-tenant deployments) */
+  n8n?: TokenN8nCredentials;
+}
+
+/**
+ * Scope required by each built-in tool
+ * Tools not listed here require 'write' (safe default)
+ */
+export const TOOL_SCOPES: Record<string, AuthScope> = {
+  // Workflows & executions
+  list_workflows: 'read',
+  get_workflow: 'read',
+  create_workflow: 'write',
+  update_workflow: 'write',
+  delete_workflow: 'write',
+  activate_workflow: 'write',
+  execute_workflow: 'write',
+  trigger_webhook: 'write',
+  list_executions: 'read',
+  get_execution: 'read',
+  list_node_types: 'read',
+  get_node_schema: 'read',
+
+  // Credentials
+  get_credential_schema: 'credentials',
+  list_credentials: 'credentials',
+  create_credential: 'credentials',
+  update_credential: 'credentials',
+  delete_credential: 'credentials',
+  test_credential: 'credentials',
+
+  // Validation
+  validate_workflow_structure: 'read',
+  validate_workflow_credentials: 'read',
+  validate_workflow_expressions: 'read',
+  lint_workflow: 'read',
+  suggest_workflow_improvements: 'read',
+
+  // Templates
+  search_templates: 'read',
+  get_template_details: 'read',
+  import_template: 'write',
+  export_workflow_as_template: 'read',
+
+  // Backups
+  backup_workflow: 'write',
+  list_workflow_backups: 'read',
+  restore_workflow: 'write',
+  diff_workflow_versions: 'read',
+
+  // Audit
+  query_audit_log: 'read',
+
+  // Instances
+  list_instances: 'read',
+
+  // Server
+  get_server_config: 'read',
+  get_next_page: 'read',
+
+  // Approvals
+  list_pending_approvals: 'approvals',
+  approve_operation: 'approvals',
+};
+
+/**
+ * Get scope required to call a tool
+ */
+export function getRequiredScope(toolName: string): AuthScope {
+  return TOOL_SCOPES[toolName] ?? 'write';
+}
+
+/**
+ * Parse token configuration (JSON text or already parsed entries)
+ * Format: [{ "name": "ci", "token": "...", "scopes": ["read"],
+ *            "n8n": { "host": "https://...", "apiKey": "..." | "apiKeyEnv": "TEAM_KEY" } }]
+ * @throws Error on malformed configuration (fail fast at startup)
+ */
+export function parseAuthTokens(raw: string | unknown[], env: NodeJS.ProcessEnv = process.env): AuthToken[] {
+  let parsed: unknown = raw;
+  if (typeof raw === 'string') {
+    try {
+      parsed = JSON.parse(raw);
+    } catch {
+      throw new Error('Invalid auth token configuration: must be a JSON array');
+    }
+  }
+
+  if (!Array.isArray(parsed)) {
+    throw new Error('Invalid auth token configuration: must be a JSON array');
+  }
+
+  const names = new Set<string>();
+  return parsed.map((entry: any, index) => {
+    if (!entry || typeof entry !== 'object') {
+      throw new Error(`Invalid auth token at index ${index}: must be an object`);
+    }
+    if (typeof entry.name !== 'string' || entry.name.trim() === '') {
+      throw new Error(`Invalid auth token at index ${index}: name is required`);
+    }
+    if (typeof entry.token !== 'string' || entry.token.length < 16) {
+      throw new Error(`Invalid auth token '${entry.name}': token must be at least 16 characters`);
+    }
+    if (!Array.isArray(entry.scopes) || entry.scopes.length === 0) {
+      throw new Error(`Invalid auth token '${entry.name}': scopes must be a non-empty array`);
+    }
+    for (const scope of entry.scopes) {
+      if (!AUTH_SCOPES.includes(scope)) {
+        throw new Error(
+          `Invalid auth token '${entry.name}': unknown scope '${scope}' (allowed: ${AUTH_SCOPES.join(', ')})`
+        );
+      }
+    }
+    if (names.has(entry.name)) {
+      throw new Error(`Duplicate auth token name: ${entry.name}`);
+    }
+    names.add(entry.name);
+
+    return {
+      name: entry.name,
+      token: entry.token,
+      scopes: [...new Set(entry.scopes as AuthScope[])],
+      ...(entry.n8n !== undefined && { n8n: parseTokenN8nCredentials(entry.name, entry.n8n, env) }),
+    };
+  });
+}
+
+/**
+ * Validate the optional n8n credentials bound to a token
+ */
+function parseTokenN8nCredentials(name: string, value: any, env: NodeJS.ProcessEnv): TokenN8nCredentials {
+  if (!value || typeof value !== 'object') {
+    throw new Error(`Invalid auth token '${name}': n8n must be an object`);
+  }
+  if (value.host !== undefined && (typeof value.host !== 'string' || !/^https?:\/\//.test(value.host.trim()))) {
+    throw new Error(`Invalid auth token '${name}': n8n.host must be an http(s) URL`);
+  }
+
+  const apiKey = typeof value.apiKeyEnv === 'string'
+    ? env[value.apiKeyEnv]?.trim()
+    : typeof value.apiKey === 'string' ? value.apiKey.trim() : undefined;
+  if (!apiKey) {
+    throw new Error(
+      value.apiKeyEnv
+        ? `Invalid auth token '${name}': environment variable ${value.apiKeyEnv} is not set`
+        : `Invalid auth token '${name}': n8n.apiKey or n8n.apiKeyEnv is required`
+    );
+  }
+
+  return { ...(value.host && { host: value.host.trim() }), apiKey };
+}
+
+/**
+ * Load tokens from auth.tokensFile (MCP_AUTH_TOKENS_FILE, path to JSON) or auth.tokens (MCP_AUTH_TOKENS)
+ * Returns empty array when authentication is not configured
+ */
+export function loadAuthTokens(
+  config: ServerConfig['auth'] = serverConfig.auth,
+  env: NodeJS.ProcessEnv = process.env
+): AuthToken[] {
+  if (config.tokensFile) {
+    return parseAuthTokens(readFileSync(config.tokensFile, 'utf-8'), env);
+  }
+  return parseAuthTokens(config.tokens, env);
+}
+
+/**
+ * Hash token for constant-time comparison (equal-length buffers)
+ */
+function hashToken(token: string): Buffer {
+  return crypto.createHash('sha256').update(token).digest();
+}
+
+/**
+ * Resolve a presented bearer token to its configured entry
+ */
+export function authenticateToken(tokens: AuthToken[], presented: string): AuthToken | undefined {
+  const presentedHash = hashToken(presented);
+  let match: AuthToken | undefined;
+
+  // Compare against every token to avoid leaking position via timing
+  for (const entry of tokens) {
+    if (crypto.timingSafeEqual(presentedHash, hashToken(entry.token))) {
+      match = entry;
+    }
+  }
+  return match;
+}
+
+/**
+ * Extract bearer token from Authorization header
+ */
+function extractBearerToken(req: Request): string | undefined {
+  const header = req.headers.authorization;
+  if (!header) return undefined;
+
+  const match = header.match(/^Bearer\s+(\S+)$/i);
+  return match ? match[1] : undefined;
+}
+
+/**
+ * Express middleware enforcing bearer-token authentication
+ * Attaches MCP AuthInfo to req.auth so transports forward it to request handlers
+ */
+export function createAuthMiddleware(tokens: AuthToken[]) {
+  return (req: Request & { auth?: AuthInfo }, res: Response, next: NextFunction) => {
+    // CORS preflight carries no credentials
+    if (req.method === 'OPTIONS') {
+      return next();
+    }
+
+    const presented = extractBearerToken(req);
+    const entry = presented ? authenticateToken(tokens, presented) : undefined;
+
+    if (!presented || !entry) {
+      logSecurityEvent({
+        event: 'auth_failure',
+        reason: presented ? 'invalid_token' : 'missing_token',
+        method: req.method,
+        path: req.path,
+        ip: req.ip,
+      });
+
+      res.setHeader('WWW-Authenticate', 'Bearer realm="n8n-custom-mcp"');
+      return res.status(401).json({
+        jsonrpc: '2.0',
+        error: {
+          code: -32001,
+          message: 'Unauthorized: valid bearer token required'
+        },
+        id: null
+      });
+    }
+
+    req.auth = {
+      token: entry.token,
+      clientId: entry.name,
+      scopes: entry.scopes,
+      ...(entry.n8n && { extra: { n8n: entry.n8n } }),
+    };
+    next();
+  };
+}
+
+/**
+ * Check whether the caller's token grants the scope a tool requires
+ * Always true when authInfo is absent (stdio transport, auth disabled)
+ */
+export function hasToolScope(toolName: string, authInfo?: AuthInfo): boolean {
+  if (!authInfo) return true;
+  return authInfo.scopes.includes(getRequiredScope(toolName));
+}
+
+/**
+ * Reject requests whose token lacks the given scope
+ * @param target - What is being accessed (tool name, resource URI) for error/audit context
+ */
+export function assertScope(scope: AuthScope, authInfo: AuthInfo | undefined, target: string): void {
+  if (!authInfo || authInfo.scopes.includes(scope)) return;
+
+  logSecurityEvent({
+    event: 'scope_denied',
+    clientId: authInfo.clientId,
+    target,
+    requiredScope: scope,
+    grantedScopes: authInfo.scopes,
+  });
+
+  throw new McpError(
+    ErrorCode.InvalidRequest,
+    `Forbidden: '${target}' requires scope '${scope}'`
+  );
+}
+
+/**
+ * Reject tool calls outside the caller's token scope
+ */
+export function assertToolScope(toolName: string, authInfo?: AuthInfo): void {
+  assertScope(getRequiredScope(toolName), authInfo, toolName);
+}
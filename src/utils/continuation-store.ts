@@ -0,0 +1,222 @@
+import { randomUUID } from 'crypto';
+import { McpError, ErrorCode } from '@modelcontextprotocol/sdk/types.js';
+import { serverConfig } from '../config/server-config.js';
+import { limitResponse, RESPONSE_LIMITS, type LimitedResponse } from './response-limiter.js';
+import { metrics } from './metrics.js';
+
+// Room left in each continuation page for the _meta block
+const META_RESERVE_BYTES = 1024;
+
+/**
+ * Continuation store limits (responses section of the server config)
+ */
+export interface ContinuationStoreConfig {
+  /** Lifetime of a cursor */
+  ttlMs: number;
+  /** Stored truncated responses; 0 disables cursors */
+  maxEntries: number;
+  /** Total size of stored responses */
+  maxBytes: number;
+}
+
+/**
+ * Remainder of a truncated response, waiting for get_next_page
+ */
+interface Continuation {
+  /** Session that received the cursor (undefined on stdio) */
+  owner?: string;
+  /** All items of the original response */
+  items: unknown[];
+  /** Other fields of `{ data: [...] }` responses (n8n API style) */
+  wrapper?: Record<string, unknown>;
+  /** Index of the next item to return */
+  offset: number;
+  size: number;
+  expiresAt: number;
+}
+
+/**
+ * Server-side store for truncated tool responses
+ *
+ * When a response is cut to the size limit, the full item list is kept under
+ * an opaque cursor (returned in `_meta.pagination.nextCursor`). Each
+ * get_next_page call returns the next chunk and a fresh cursor; cursors are
+ * bound to the session that received them and expire after a TTL.
+ */
+export class ContinuationStore {
+  // Map keeps insertion order: first entry is the oldest
+  private entries = new Map<string, Continuation>();
+  private totalBytes = 0;
+
+  constructor(private readonly config: ContinuationStoreConfig) {}
+
+  get size(): number {
+    return this.entries.size;
+  }
+
+  /**
+   * Bytes of stored responses
+   */
+  get bytes(): number {
+    return this.totalBytes;
+  }
+
+  /**
+   * Limit a tool response; truncated lists get a continuation cursor
+   */
+  paginate(
+    data: any,
+    owner?: string,
+    maxSize: number = RESPONSE_LIMITS.MAX_RESPONSE_SIZE,
+    now: number = Date.now()
+  ): LimitedResponse {
+    const limited = limitResponse(data, maxSize);
+    if (!limited.pagination) {
+      return limited;
+    }
+
+    const items: unknown[] = Array.isArray(data) ? data : data.data;
+    const cursor = this.save({
+      owner,
+      items,
+      wrapper: Array.isArray(data) ? undefined : omitData(data),
+      offset: limited.pagination.returned,
+      size: limited.originalSize,
+      expiresAt: now + this.config.ttlMs,
+    }, now);
+
+    return {
+      ...limited,
+      pagination: { ...limited.pagination, offset: 0, ...(cursor && { nextCursor: cursor }) },
+    };
+  }
+
+  /**
+   * Next chunk of a truncated response, in the shape of the original one
+   * @throws McpError InvalidParams when the cursor is unknown, expired or belongs to another session
+   */
+  next(
+    cursor: string,
+    owner?: string,
+    maxSize: number = RESPONSE_LIMITS.MAX_RESPONSE_SIZE,
+    now: number = Date.now()
+  ): LimitedResponse {
+    this.sweep(now);
+    const entry = this.entries.get(cursor);
+    // Same error for other sessions' cursors: do not reveal they exist
+    if (!entry || entry.owner !== owner) {
+      throw new McpError(ErrorCode.InvalidParams, `Unknown or expired cursor: ${cursor}`);
+    }
+    this.remove(cursor);
+
+    const rest = entry.items.slice(entry.offset);
+    const page = limitResponse(
+      entry.wrapper ? { ...entry.wrapper, data: rest } : rest,
+      Math.max(maxSize - META_RESERVE_BYTES, 1)
+    );
+    const returned = page.pagination?.returned ?? rest.length;
+    const offset = entry.offset + returned;
+    const hasMore = offset < entry.items.length;
+    const nextCursor = hasMore
+      ? this.save({ ...entry, offset, expiresAt: now + this.config.ttlMs }, now)
+      : undefined;
+
+    return {
+      data: page.data,
+      truncated: hasMore,
+      originalSize: entry.size,
+      truncatedSize: page.truncatedSize,
+      pagination: {
+        total: entry.items.length,
+        returned,
+        hasMore,
+        offset: entry.offset,
+        ...(nextCursor && { nextCursor }),
+      },
+    };
+  }
+
+  /**
+   * Drop the cursors of a closed session
+   */
+  dropOwner(owner: string): void {
+    for (const [cursor, entry] of this.entries) {
+      if (entry.owner === owner) {
+        this.remove(cursor);
+      }
+    }
+  }
+
+  /**
+   * Remove expired cursors
+   */
+  sweep(now: number = Date.now()): void {
+    for (const [cursor, entry] of this.entries) {
+      if (entry.expiresAt <= now) {
+        this.remove(cursor);
+      }
+    }
+  }
+
+  /**
+   * Store a continuation, evicting the oldest ones to stay within limits
+   * @returns the cursor, or undefined when cursors are disabled or the response is too large to keep
+   */
+  private save(entry: Continuation, now: number): string | undefined {
+    if (this.config.maxEntries === 0 || entry.size > this.config.maxBytes) {
+      return undefined;
+    }
+
+    this.sweep(now);
+    while (
+      this.entries.size >= this.config.maxEntries ||
+      this.totalBytes + entry.size > this.config.maxBytes
+    ) {
+      const oldest = this.entries.keys().next().value;
+      if (oldest === undefined) {
+        break;
+      }
+      this.remove(oldest);
+    }
+
+    const cursor = randomUUID();
+    this.entries.set(cursor, entry);
+    this.totalBytes += entry.size;
+    return cursor;
+  }
+
+  private remove(cursor: string): void {
+    const entry = this.entries.get(cursor);
+    if (entry) {
+      this.entries.delete(cursor);
+      this.totalBytes -= entry.size;
+    }
+  }
+}
+
+function omitData(data: Record<string, unknown>): Record<string, unknown> {
+  const { data: _items, ...wrapper } = data;
+  return wrapper;
+}
+
+const continuationEntries = metrics.gauge(
+  'response_continuations',
+  'Truncated tool responses kept for get_next_page'
+);
+const continuationBytes = metrics.gauge(
+  'response_continuation_bytes',
+  'Size of the truncated tool responses kept for get_next_page'
+);
+
+// Export singleton instance
+export const continuationStore = new ContinuationStore({
+  ttlMs: serverConfig.responses.continuationTtlMs,
+  maxEntries: serverConfig.responses.maxContinuations,
+  maxBytes: serverConfig.responses.maxContinuationBytes,
+});
+
+metrics.addCollector(() => {
+  continuationStore.sweep();
+  continuationEntries.set({}, continuationStore.size);
+  continuationBytes.set({}, continuationStore.bytes);
+});
@@ -1,3 +1,5 @@
+import { logger } from './logger.js';
+
 /**
  * In-memory lock manager for credentials during workflow execution
  * Prevents deletion of credentials while workflows are using them
@@ -110,7 +112,7 @@ class CredentialLockManager {
       const timestamp = this.lockTimestamps.get(lockKey);
 
       if (timestamp && now - timestamp > this.LOCK_TIMEOUT_MS) {
-        console.warn(`Cleaning up stale lock: ${lockKey}`);
+        logger.warn(`Cleaning up stale lock: ${lockKey}`);
         this.releaseLock(credentialId, executionId);
       }
     }
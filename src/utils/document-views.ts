@@ -0,0 +1,347 @@
+import { safeStringify } from './safe-json.js';
+
+/**
+ * Views of a document returned by get_workflow / get_execution
+ * - summary: names, types, connections and statuses, no parameters or item data
+ * - structure: key skeleton with value types and array lengths
+ * - full: the whole document
+ */
+export type DocumentView = 'summary' | 'structure' | 'full';
+
+export const DOCUMENT_VIEWS = ['summary', 'structure', 'full'] as const;
+
+/** One step of a field selector: property name, array index or wildcard */
+export type SelectorToken = string | number | { wildcard: true };
+
+const WILDCARD = { wildcard: true } as const;
+
+// Skeleton depth and number of array items merged into the item skeleton
+const STRUCTURE_MAX_DEPTH = 6;
+const STRUCTURE_SAMPLE_ITEMS = 50;
+
+/**
+ * Parse a JSONPath-like selector: `nodes[*].name`, `data.resultData.runData.HTTP Request`,
+ * `nodes[0]`, `runData["Set.Values"]` (a leading `$.` is accepted)
+ * @throws Error on malformed selectors
+ */
+export function parseFieldSelector(selector: string): SelectorToken[] {
+  const source = selector.trim().replace(/^\$\.?/, '');
+  const tokens: SelectorToken[] = [];
+  let i = 0;
+
+  while (i < source.length) {
+    if (source[i] === '.') {
+      i++;
+      if (i >= source.length || source[i] === '.') {
+        throw new Error(`Invalid field selector "${selector}": empty segment`);
+      }
+      continue;
+    }
+
+    if (source[i] === '[') {
+      const end = source.indexOf(']', i);
+      if (end === -1) {
+        throw new Error(`Invalid field selector "${selector}": missing "]"`);
+      }
+      const inner = source.slice(i + 1, end).trim();
+      if (inner === '*') {
+        tokens.push(WILDCARD);
+      } else if (/^\d+$/.test(inner)) {
+        tokens.push(Number(inner));
+      } else if (/^(["']).*\1$/.test(inner) && inner.length >= 2) {
+        tokens.push(inner.slice(1, -1));
+      } else {
+        throw new Error(`Invalid field selector "${selector}": expected [*], [index] or ["key"]`);
+      }
+      i = end + 1;
+      continue;
+    }
+
+    let end = i;
+    while (end < source.length && source[end] !== '.' && source[end] !== '[') {
+      end++;
+    }
+    const name = source.slice(i, end).trim();
+    tokens.push(name === '*' ? WILDCARD : name);
+    i = end;
+  }
+
+  if (tokens.length === 0) {
+    throw new Error(`Invalid field selector "${selector}": empty`);
+  }
+  return tokens;
+}
+
+/**
+ * Keep only the selected fields, in their original structure
+ * (`nodes[*].name` → `{ nodes: [{ name }] }`); selectors that match nothing are skipped
+ * @param keep - Top-level keys always kept (document identity, required by the outputSchema)
+ */
+export function projectFields(
+  document: Record<string, unknown>,
+  selectors: string[],
+  keep: string[] = []
+): Record<string, unknown> {
+  let projected: Record<string, unknown> = {};
+  for (const key of keep) {
+    if (document[key] !== undefined) {
+      projected[key] = document[key];
+    }
+  }
+
+  for (const selector of selectors) {
+    const picked = pick(document, parseFieldSelector(selector));
+    if (picked !== undefined) {
+      projected = merge(projected, picked) as Record<string, unknown>;
+    }
+  }
+  return projected;
+}
+
+/**
+ * Replace values by their type, keeping keys and array lengths
+ * (array items are merged into one skeleton: `{ "array(12)": { name: "string", ... } }`)
+ */
+export function describeStructure(value: unknown, depth: number = 0): unknown {
+  if (value === null) {
+    return 'null';
+  }
+  if (Array.isArray(value)) {
+    if (value.length === 0) {
+      return 'array(0)';
+    }
+    if (depth >= STRUCTURE_MAX_DEPTH) {
+      return `array(${value.length})`;
+    }
+    const itemSkeleton = value
+      .slice(0, STRUCTURE_SAMPLE_ITEMS)
+      .map(item => describeStructure(item, depth + 1))
+      .reduce(mergeSkeletons);
+    return { [`array(${value.length})`]: itemSkeleton };
+  }
+  if (typeof value === 'object') {
+    if (depth >= STRUCTURE_MAX_DEPTH) {
+      return 'object';
+    }
+    return Object.fromEntries(
+      Object.entries(value as Record<string, unknown>).map(([key, child]) => [key, describeStructure(child, depth + 1)])
+    );
+  }
+  return typeof value;
+}
+
+/**
+ * Workflow without node parameters, credentials or positions
+ * Connections are compacted to target node names (`"Node#1"` for input index 1)
+ */
+export function summarizeWorkflow(workflow: Record<string, any>): Record<string, unknown> {
+  const nodes: any[] = Array.isArray(workflow.nodes) ? workflow.nodes : [];
+  const connections: Record<string, Record<string, string[][]>> = {};
+
+  for (const [source, outputs] of Object.entries<Record<string, any>>(workflow.connections ?? {})) {
+    connections[source] = {};
+    for (const [type, branches] of Object.entries(outputs ?? {})) {
+      connections[source][type] = (Array.isArray(branches) ? branches : []).map((targets: any[]) =>
+        (targets ?? []).map(target => (target.index ? `${target.node}#${target.index}` : target.node))
+      );
+    }
+  }
+
+  return omitUndefined({
+    id: workflow.id,
+    name: workflow.name,
+    active: workflow.active,
+    tags: Array.isArray(workflow.tags) ? workflow.tags.map((tag: any) => tag?.name ?? tag) : undefined,
+    nodes: nodes.map(node => omitUndefined({
+      name: node.name,
+      type: node.type,
+      typeVersion: node.typeVersion,
+      disabled: node.disabled || undefined,
+    })),
+    connections,
+    updatedAt: workflow.updatedAt,
+  });
+}
+
+/**
+ * Execution status with one line per executed node (no item data)
+ */
+export function summarizeExecution(execution: Record<string, any>): Record<string, unknown> {
+  const resultData = execution.data?.resultData ?? {};
+  const runData: Record<string, any[]> = resultData.runData ?? {};
+
+  const nodes = Object.entries(runData).map(([name, runs]) => {
+    const lastRun = Array.isArray(runs) ? runs[runs.length - 1] ?? {} : {};
+    const output: unknown[][] = lastRun.data?.main ?? [];
+    return omitUndefined({
+      name,
+      status: lastRun.executionStatus ?? (lastRun.error ? 'error' : 'success'),
+      runs: Array.isArray(runs) ? runs.length : 0,
+      items: output.reduce((sum, branch) => sum + (Array.isArray(branch) ? branch.length : 0), 0),
+      executionTimeMs: lastRun.executionTime,
+      error: lastRun.error?.message,
+    });
+  });
+
+  return omitUndefined({
+    id: execution.id,
+    workflowId: execution.workflowId,
+    status: execution.status,
+    mode: execution.mode,
+    finished: execution.finished,
+    startedAt: execution.startedAt,
+    stoppedAt: execution.stoppedAt,
+    error: resultData.error
+      ? omitUndefined({ message: resultData.error.message, node: resultData.error.node?.name ?? resultData.error.node })
+      : undefined,
+    lastNodeExecuted: resultData.lastNodeExecuted,
+    nodes,
+  });
+}
+
+/**
+ * Apply the `view` and `fields` arguments of a read tool
+ * Runs on a JSON-safe copy (safeStringify), before the response limiter truncates the result
+ * @param keep - Top-level keys kept by projections and the structure view
+ */
+export function applyDocumentView(
+  document: Record<string, any>,
+  summarize: (document: Record<string, any>) => Record<string, unknown>,
+  { view, fields, keep = [] }: { view?: DocumentView; fields?: string[]; keep?: string[] }
+): Record<string, unknown> {
+  if ((!view || view === 'full') && !fields?.length) {
+    return document;
+  }
+
+  const safe = JSON.parse(safeStringify(document, 0)) as Record<string, any>;
+  let shaped: Record<string, unknown> = safe;
+  if (view === 'summary') {
+    shaped = summarize(safe);
+  } else if (view === 'structure') {
+    shaped = {
+      ...Object.fromEntries(keep.filter(key => safe[key] !== undefined).map(key => [key, safe[key]])),
+      structure: describeStructure(safe),
+    };
+  }
+
+  return fields?.length ? projectFields(shaped, fields, keep) : shaped;
+}
+
+// ===== HELPERS =====
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function omitUndefined<T extends Record<string, unknown>>(value: T): T {
+  return Object.fromEntries(Object.entries(value).filter(([, v]) => v !== undefined)) as T;
+}
+
+/**
+ * Value at the selector path, wrapped in its parent keys (undefined when missing)
+ * A property step on an array applies to every item (`nodes.name` = `nodes[*].name`)
+ */
+function pick(value: unknown, tokens: SelectorToken[]): unknown {
+  if (tokens.length === 0) {
+    return value;
+  }
+  const [token, ...rest] = tokens;
+
+  if (typeof token === 'object') {
+    if (Array.isArray(value)) {
+      return value.map(item => pick(item, rest) ?? (rest.length > 0 ? {} : item));
+    }
+    if (isPlainObject(value)) {
+      const entries = Object.entries(value)
+        .map(([key, child]) => [key, pick(child, rest)] as const)
+        .filter(([, picked]) => picked !== undefined);
+      return entries.length > 0 ? Object.fromEntries(entries) : undefined;
+    }
+    return undefined;
+  }
+
+  if (typeof token === 'number') {
+    if (!Array.isArray(value) || token >= value.length) {
+      return undefined;
+    }
+    const picked = pick(value[token], rest);
+    return picked === undefined ? undefined : [picked];
+  }
+
+  if (Array.isArray(value)) {
+    return pick(value, [WILDCARD, ...tokens]);
+  }
+  if (!isPlainObject(value) || !(token in value)) {
+    return undefined;
+  }
+  const picked = pick(value[token], rest);
+  return picked === undefined ? undefined : { [token]: picked };
+}
+
+/**
+ * Combine two projections: objects by key, arrays item by item
+ */
+function merge(a: unknown, b: unknown): unknown {
+  if (isPlainObject(a) && isPlainObject(b)) {
+    const merged: Record<string, unknown> = { ...a };
+    for (const [key, value] of Object.entries(b)) {
+      merged[key] = key in merged ? merge(merged[key], value) : value;
+    }
+    return merged;
+  }
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return Array.from({ length: Math.max(a.length, b.length) }, (_, i) =>
+      i in a && i in b ? merge(a[i], b[i]) : (i in b ? b[i] : a[i])
+    );
+  }
+  return b;
+}
+
+/**
+ * Union of two skeletons (keys of both objects, "string|number" for differing types)
+ */
+function mergeSkeletons(a: unknown, b: unknown): unknown {
+  const arrayA = arraySkeleton(a);
+  const arrayB = arraySkeleton(b);
+  if (arrayA && arrayB) {
+    // Nested arrays of different lengths: "array(2-5)"
+    const min = Math.min(arrayA.min, arrayB.min);
+    const max = Math.max(arrayA.max, arrayB.max);
+    const key = min === max ? `array(${min})` : `array(${min}-${max})`;
+    if (arrayA.item === undefined || arrayB.item === undefined) {
+      const item = arrayA.item ?? arrayB.item;
+      return item === undefined ? key : { [key]: item };
+    }
+    return { [key]: mergeSkeletons(arrayA.item, arrayB.item) };
+  }
+
+  if (isPlainObject(a) && isPlainObject(b)) {
+    const merged: Record<string, unknown> = { ...a };
+    for (const [key, value] of Object.entries(b)) {
+      merged[key] = key in merged ? mergeSkeletons(merged[key], value) : value;
+    }
+    return merged;
+  }
+  if (typeof a === 'string' && typeof b === 'string') {
+    return [...new Set([...a.split('|'), ...b.split('|')])].join('|');
+  }
+  return a;
+}
+
+/**
+ * Length range and item skeleton of an array skeleton ("array(3)" or { "array(3)": item })
+ */
+function arraySkeleton(skeleton: unknown): { min: number; max: number; item?: unknown } | undefined {
+  const key = typeof skeleton === 'string'
+    ? skeleton
+    : isPlainObject(skeleton) && Object.keys(skeleton).length === 1 ? Object.keys(skeleton)[0] : undefined;
+  const match = key?.match(/^array\((\d+)(?:-(\d+))?\)$/);
+  if (!match) {
+    return undefined;
+  }
+  return {
+    min: Number(match[1]),
+    max: Number(match[2] ?? match[1]),
+    item: typeof skeleton === 'string' ? undefined : (skeleton as Record<string, unknown>)[key!],
+  };
+}
@@ -1,5 +1,6 @@
 import { McpError, ErrorCode } from '@modelcontextprotocol/sdk/types.js';
 import { AxiosError } from 'axios';
+import { isAbortError } from './abort.js';
 
 /**
  * Convert axios error to standardized MCP error
@@ -31,6 +32,10 @@ function extractErrorMessage(data: unknown, fallbackMessage: string): string {
 }
 
 export function handleApiError(error: unknown, context: string): McpError {
+  if (isAbortError(error)) {
+    return new McpError(ErrorCode.InternalError, `${context}: Request cancelled`);
+  }
+
   if (error instanceof AxiosError) {
     const status = error.response?.status;
     let message = extractErrorMessage(error.response?.data, error.message);
@@ -140,3 +145,27 @@ export function createSafeObject<T = any>(data: Record<string, any>): T {
   }
   return safe;
 }
+
+/**
+ * Result of probing an n8n endpoint (health checks)
+ * `error` is a short code such as ECONNREFUSED or HTTP_401, never a raw message
+ */
+export interface EndpointProbe {
+  reachable: boolean;
+  status?: number;
+  error?: string;
+}
+
+/**
+ * Map a failed probe request to a status without leaking hosts or response bodies
+ */
+export function describeProbeError(error: unknown): EndpointProbe {
+  if (error instanceof AxiosError && error.response) {
+    return { reachable: true, status: error.response.status, error: `HTTP_${error.response.status}` };
+  }
+  if (isAbortError(error)) {
+    return { reachable: false, error: 'TIMEOUT' };
+  }
+  const code = (error as { code?: unknown } | null)?.code;
+  return { reachable: false, error: typeof code === 'string' && code ? code : 'UNREACHABLE' };
+}
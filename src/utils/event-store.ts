@@ -0,0 +1,136 @@
+import type { EventStore, EventId, StreamId } from '@modelcontextprotocol/sdk/server/streamableHttp.js';
+import type { JSONRPCMessage } from '@modelcontextprotocol/sdk/types.js';
+
+/**
+ * Stored SSE event
+ */
+interface StoredEvent {
+  eventId: EventId;
+  streamId: StreamId;
+  message: JSONRPCMessage;
+  storedAt: number;
+}
+
+/**
+ * Event store limits
+ */
+export const EVENT_STORE_LIMITS = {
+  MAX_EVENTS_PER_STREAM: 100,     // Replay window per stream
+  MAX_STREAMS: 1000,              // Prevent memory leak
+  EVENT_TTL_MS: 5 * 60 * 1000,    // 5 minutes
+} as const;
+
+/**
+ * In-memory event store for resumable Streamable HTTP streams
+ *
+ * Event IDs have the form `{streamId}_{sequence}` so the stream can be
+ * recovered from a client's Last-Event-ID header. Each stream keeps a
+ * bounded replay window and events expire after a TTL.
+ */
+export class InMemoryEventStore implements EventStore {
+  private streams = new Map<StreamId, StoredEvent[]>();
+  private sequence = 0;
+
+  constructor(
+    private readonly maxEventsPerStream: number = EVENT_STORE_LIMITS.MAX_EVENTS_PER_STREAM,
+    private readonly ttlMs: number = EVENT_STORE_LIMITS.EVENT_TTL_MS
+  ) {}
+
+  /**
+   * Store an event and return its ID
+   */
+  async storeEvent(streamId: StreamId, message: JSONRPCMessage): Promise<EventId> {
+    this.sequence++;
+    const eventId = `${streamId}_${this.sequence.toString().padStart(12, '0')}`;
+
+    let events = this.streams.get(streamId);
+    if (!events) {
+      // Evict oldest stream if store is full
+      if (this.streams.size >= EVENT_STORE_LIMITS.MAX_STREAMS) {
+        const firstKey = this.streams.keys().next().value;
+        if (firstKey !== undefined) {
+          this.streams.delete(firstKey);
+        }
+      }
+      events = [];
+      this.streams.set(streamId, events);
+    }
+
+    events.push({ eventId, streamId, message, storedAt: Date.now() });
+
+    // Keep only the replay window
+    if (events.length > this.maxEventsPerStream) {
+      events.splice(0, events.length - this.maxEventsPerStream);
+    }
+
+    return eventId;
+  }
+
+  /**
+   * Resolve the stream an event belongs to
+   */
+  async getStreamIdForEventId(eventId: EventId): Promise<StreamId | undefined> {
+    const streamId = this.parseStreamId(eventId);
+    if (!streamId || !this.streams.has(streamId)) {
+      return undefined;
+    }
+    return streamId;
+  }
+
+  /**
+   * Replay all events stored after lastEventId on the same stream
+   */
+  async replayEventsAfter(
+    lastEventId: EventId,
+    { send }: { send: (eventId: EventId, message: JSONRPCMessage) => Promise<void> }
+  ): Promise<StreamId> {
+    const streamId = this.parseStreamId(lastEventId);
+    if (!streamId) {
+      return '';
+    }
+
+    const events = this.pruneExpired(streamId);
+    const index = events.findIndex(e => e.eventId === lastEventId);
+    if (index === -1) {
+      // Event fell out of the replay window - nothing we can safely resend
+      return streamId;
+    }
+
+    for (const event of events.slice(index + 1)) {
+      await send(event.eventId, event.message);
+    }
+
+    return streamId;
+  }
+
+  /**
+   * Number of streams currently tracked
+   */
+  get size(): number {
+    return this.streams.size;
+  }
+
+  // ===== PRIVATE HELPERS =====
+
+  private parseStreamId(eventId: EventId): StreamId | undefined {
+    const separator = eventId.lastIndexOf('_');
+    if (separator <= 0) {
+      return undefined;
+    }
+    return eventId.slice(0, separator);
+  }
+
+  private pruneExpired(streamId: StreamId): StoredEvent[] {
+    const events = this.streams.get(streamId) || [];
+    const cutoff = Date.now() - this.ttlMs;
+    const live = events.filter(e => e.storedAt >= cutoff);
+
+    if (live.length === 0) {
+      this.streams.delete(streamId);
+    } else if (live.length !== events.length) {
+      this.streams.set(streamId, live);
+    }
+
+    return live;
+  }
+}
@@ -0,0 +1,136 @@
+import { AsyncLocalStorage } from 'async_hooks';
+import { randomUUID } from 'crypto';
+import { serverConfig } from '../config/server-config.js';
+import { safeStringify } from './safe-json.js';
+import { sanitizeCredentialData, sanitizeErrorData } from './sensitive-data-sanitizer.js';
+
+export const LOG_LEVELS = ['debug', 'info', 'warn', 'error'] as const;
+export type LogLevel = typeof LOG_LEVELS[number];
+
+/**
+ * Logger settings (logging section of the server config)
+ * - level: entries below it are dropped
+ * - format: json (one object per line) or text (for local development)
+ */
+export interface LoggerConfig {
+  level: LogLevel;
+  format: 'json' | 'text';
+}
+
+/**
+ * Fields of the request being handled, added to every entry logged while it runs
+ */
+export interface LogContext {
+  /** Correlation ID: X-Request-Id of the HTTP request, or generated per tool call */
+  requestId: string;
+  tool?: string;
+  /** Auth token name */
+  clientId?: string;
+}
+
+// Accepted from clients as X-Request-Id; anything else is replaced by a generated ID
+const REQUEST_ID_PATTERN = /^[A-Za-z0-9._:-]{1,128}$/;
+
+const logContext = new AsyncLocalStorage<LogContext>();
+
+/**
+ * Run `fn` with a log context; async work started inside inherits it
+ */
+export function runWithLogContext<T>(context: LogContext, fn: () => T): T {
+  return logContext.run(context, fn);
+}
+
+export function currentLogContext(): LogContext | undefined {
+  return logContext.getStore();
+}
+
+/**
+ * Correlation ID of the request being handled, if any
+ */
+export function currentRequestId(): string | undefined {
+  return logContext.getStore()?.requestId;
+}
+
+/**
+ * Correlation ID for a new request, reusing the caller's X-Request-Id when it is well-formed
+ */
+export function createRequestId(incoming?: string): string {
+  return incoming && REQUEST_ID_PATTERN.test(incoming) ? incoming : randomUUID();
+}
+
+/**
+ * Structured logger writing to stderr (stdout carries the stdio transport)
+ *
+ * Every field passes through sanitizeErrorData (errors) and
+ * sanitizeCredentialData (everything else) before it is written, and entries
+ * carry the current request's correlation ID.
+ */
+export class Logger {
+  constructor(
+    private readonly config: LoggerConfig,
+    private readonly bindings: Record<string, unknown> = {}
+  ) {}
+
+  /**
+   * Logger adding `bindings` to each entry (e.g. { component: 'backup' })
+   */
+  child(bindings: Record<string, unknown>): Logger {
+    return new Logger(this.config, { ...this.bindings, ...bindings });
+  }
+
+  isEnabled(level: LogLevel): boolean {
+    return LOG_LEVELS.indexOf(level) >= LOG_LEVELS.indexOf(this.config.level);
+  }
+
+  debug(message: string, fields?: Record<string, unknown>): void {
+    this.log('debug', message, fields);
+  }
+
+  info(message: string, fields?: Record<string, unknown>): void {
+    this.log('info', message, fields);
+  }
+
+  warn(message: string, fields?: Record<string, unknown>): void {
+    this.log('warn', message, fields);
+  }
+
+  error(message: string, fields?: Record<string, unknown>): void {
+    this.log('error', message, fields);
+  }
+
+  log(level: LogLevel, message: string, fields: Record<string, unknown> = {}): void {
+    if (!this.isEnabled(level)) {
+      return;
+    }
+
+    const entry = {
+      timestamp: new Date().toISOString(),
+      level,
+      msg: message,
+      ...logContext.getStore(),
+      ...this.bindings,
+      ...sanitizeFields(fields),
+    };
+    const line = this.config.format === 'json' ? safeStringify(entry, 0) : formatText(entry);
+    // Both go to stderr; warn is kept apart so tests and hosts can tell it from errors
+    (level === 'warn' ? console.warn : console.error)(line);
+  }
+}
+
+function sanitizeFields(fields: Record<string, unknown>): Record<string, unknown> {
+  const withErrors = Object.fromEntries(
+    Object.entries(fields).map(([key, value]) => [key, value instanceof Error ? sanitizeErrorData(value) : value])
+  );
+  return sanitizeCredentialData(withErrors);
+}
+
+/**
+ * "2026-01-01T00:00:00.000Z WARN  message [requestId] {fields}"
+ */
+function formatText({ timestamp, level, msg, requestId, ...fields }: Record<string, unknown>): string {
+  const rest = Object.keys(fields).length > 0 ? ` ${safeStringify(fields, 0)}` : '';
+  return `${timestamp} ${String(level).toUpperCase().padEnd(5)} ${msg}${requestId ? ` [${requestId}]` : ''}${rest}`;
+}
+
+// Export singleton instance
+export const logger = new Logger(serverConfig.logging);
@@ -0,0 +1,358 @@
+import type { AxiosInstance, InternalAxiosRequestConfig } from 'axios';
+import { isAbortError } from './abort.js';
+import { logger } from './logger.js';
+
+/**
+ * Minimal Prometheus metrics registry (text exposition format 0.0.4)
+ */
+
+type Labels = Record<string, string>;
+
+interface Series<T> {
+  labels: Labels;
+  value: T;
+}
+
+export const METRICS_CONTENT_TYPE = 'text/plain; version=0.0.4; charset=utf-8';
+
+const PREFIX = 'n8n_mcp_';
+
+function seriesKey(labels: Labels): string {
+  return JSON.stringify(Object.keys(labels).sort().map(key => [key, labels[key]]));
+}
+
+function escapeLabelValue(value: string): string {
+  return value.replace(/\\/g, '\\\\').replace(/"/g, '\\"').replace(/\n/g, '\\n');
+}
+
+function formatLabels(labels: Labels): string {
+  const entries = Object.entries(labels);
+  if (entries.length === 0) {
+    return '';
+  }
+  return `{${entries.map(([key, value]) => `${key}="${escapeLabelValue(value)}"`).join(',')}}`;
+}
+
+function formatValue(value: number): string {
+  if (value === Infinity) return '+Inf';
+  if (value === -Infinity) return '-Inf';
+  return String(value);
+}
+
+abstract class Metric<T> {
+  protected series = new Map<string, Series<T>>();
+
+  constructor(
+    readonly name: string,
+    readonly help: string,
+    readonly type: 'counter' | 'gauge' | 'histogram'
+  ) {}
+
+  protected getOrCreate(labels: Labels, init: () => T): Series<T> {
+    const key = seriesKey(labels);
+    let entry = this.series.get(key);
+    if (!entry) {
+      entry = { labels: { ...labels }, value: init() };
+      this.series.set(key, entry);
+    }
+    return entry;
+  }
+
+  reset(): void {
+    this.series.clear();
+  }
+
+  render(): string[] {
+    return [
+      `# HELP ${this.name} ${this.help}`,
+      `# TYPE ${this.name} ${this.type}`,
+      ...this.renderSeries(),
+    ];
+  }
+
+  protected abstract renderSeries(): string[];
+}
+
+export class Counter extends Metric<number> {
+  constructor(name: string, help: string) {
+    super(name, help, 'counter');
+  }
+
+  inc(labels: Labels = {}, value: number = 1): void {
+    this.getOrCreate(labels, () => 0).value += value;
+  }
+
+  get(labels: Labels = {}): number {
+    return this.series.get(seriesKey(labels))?.value ?? 0;
+  }
+
+  protected renderSeries(): string[] {
+    return [...this.series.values()].map(s => `${this.name}${formatLabels(s.labels)} ${formatValue(s.value)}`);
+  }
+}
+
+export class Gauge extends Metric<number> {
+  constructor(name: string, help: string) {
+    super(name, help, 'gauge');
+  }
+
+  set(labels: Labels, value: number): void {
+    this.getOrCreate(labels, () => 0).value = value;
+  }
+
+  get(labels: Labels = {}): number | undefined {
+    return this.series.get(seriesKey(labels))?.value;
+  }
+
+  protected renderSeries(): string[] {
+    return [...this.series.values()].map(s => `${this.name}${formatLabels(s.labels)} ${formatValue(s.value)}`);
+  }
+}
+
+interface HistogramValue {
+  buckets: number[];
+  sum: number;
+  count: number;
+}
+
+export class Histogram extends Metric<HistogramValue> {
+  constructor(name: string, help: string, readonly bounds: number[]) {
+    super(name, help, 'histogram');
+  }
+
+  observe(labels: Labels, value: number): void {
+    const entry = this.getOrCreate(labels, () => ({
+      buckets: this.bounds.map(() => 0),
+      sum: 0,
+      count: 0,
+    }));
+    this.bounds.forEach((bound, i) => {
+      if (value <= bound) {
+        entry.value.buckets[i]++;
+      }
+    });
+    entry.value.sum += value;
+    entry.value.count++;
+  }
+
+  /**
+   * Start a timer; calling the returned function records the elapsed seconds
+   */
+  startTimer(): (labels: Labels) => void {
+    const start = process.hrtime.bigint();
+    return labels => this.observe(labels, Number(process.hrtime.bigint() - start) / 1e9);
+  }
+
+  getCount(labels: Labels = {}): number {
+    return this.series.get(seriesKey(labels))?.value.count ?? 0;
+  }
+
+  protected renderSeries(): string[] {
+    const lines: string[] = [];
+    for (const { labels, value } of this.series.values()) {
+      this.bounds.forEach((bound, i) => {
+        lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: formatValue(bound) })} ${value.buckets[i]}`);
+      });
+      lines.push(`${this.name}_bucket${formatLabels({ ...labels, le: '+Inf' })} ${value.count}`);
+      lines.push(`${this.name}_sum${formatLabels(labels)} ${value.sum}`);
+      lines.push(`${this.name}_count${formatLabels(labels)} ${value.count}`);
+    }
+    return lines;
+  }
+}
+
+/**
+ * Holds all metrics; collectors refresh scrape-time gauges before rendering
+ */
+export class MetricsRegistry {
+  private metrics: Metric<unknown>[] = [];
+  private collectors: Array<() => void> = [];
+
+  counter(name: string, help: string): Counter {
+    return this.register(new Counter(PREFIX + name, help));
+  }
+
+  gauge(name: string, help: string): Gauge {
+    return this.register(new Gauge(PREFIX + name, help));
+  }
+
+  histogram(name: string, help: string, bounds: number[]): Histogram {
+    return this.register(new Histogram(PREFIX + name, help, bounds));
+  }
+
+  /**
+   * Register a callback run on every scrape (e.g. to read session counts)
+   */
+  addCollector(collector: () => void): void {
+    this.collectors.push(collector);
+  }
+
+  render(): string {
+    for (const collect of this.collectors) {
+      try {
+        collect();
+      } catch (error) {
+        logger.error('Metrics collector failed', { error });
+      }
+    }
+    return this.metrics.map(m => m.render().join('\n')).join('\n') + '\n';
+  }
+
+  reset(): void {
+    this.metrics.forEach(m => m.reset());
+  }
+
+  private register<M extends Metric<any>>(metric: M): M {
+    this.metrics.push(metric);
+    return metric;
+  }
+}
+
+export const metrics = new MetricsRegistry();
+
+// ===== METRIC DEFINITIONS =====
+
+export const toolCallDuration = metrics.histogram(
+  'tool_call_duration_seconds',
+  'MCP tool call latency by tool and outcome',
+  [0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30, 60]
+);
+
+export const apiRequestsTotal = metrics.counter(
+  'api_requests_total',
+  'n8n API requests by endpoint, method and status'
+);
+
+export const apiRequestDuration = metrics.histogram(
+  'api_request_duration_seconds',
+  'n8n API request latency by endpoint, method and status',
+  [0.01, 0.025, 0.05, 0.1, 0.25, 0.5, 1, 2.5, 5, 10, 30]
+);
+
+export const apiRetriesTotal = metrics.counter(
+  'api_retries_total',
+  'n8n API request retries by endpoint and triggering status'
+);
+
+export const responseTruncationsTotal = metrics.counter(
+  'response_truncations_total',
+  'Tool responses truncated by the response size limit'
+);
+
+export const cacheRequestsTotal = metrics.counter(
+  'cache_requests_total',
+  'Cache lookups by cache and result (hit/miss)'
+);
+
+export const cacheHitRatio = metrics.gauge(
+  'cache_hit_ratio',
+  'Cache hit ratio since start by cache'
+);
+
+export const activeSessionsGauge = metrics.gauge('sessions_active', 'Open MCP sessions by transport');
+
+export const sessionsCreatedTotal = metrics.counter('sessions_created_total', 'MCP sessions created by transport');
+
+export const sessionCollisionsTotal = metrics.counter('session_id_collisions_total', 'Session ID collisions');
+sessionCollisionsTotal.inc({}, 0);
+
+export const sessionsClosedTotal = metrics.counter(
+  'sessions_closed_total',
+  'MCP sessions closed by transport and reason (client, idle_timeout, max_lifetime, replaced, shutdown)'
+);
+
+export const sessionsRejectedTotal = metrics.counter(
+  'sessions_rejected_total',
+  'New MCP sessions refused by reason (max_sessions, shutting_down)'
+);
+
+export const processMemoryBytes = metrics.gauge(
+  'process_memory_bytes',
+  'Process memory usage by type (rss, heapUsed, heapTotal, external)'
+);
+
+export const processUptimeSeconds = metrics.gauge(
+  'process_uptime_seconds',
+  'Process uptime in seconds'
+);
+
+metrics.addCollector(() => {
+  const memory = process.memoryUsage();
+  for (const type of ['rss', 'heapUsed', 'heapTotal', 'external'] as const) {
+    processMemoryBytes.set({ type }, memory[type]);
+  }
+  processUptimeSeconds.set({}, process.uptime());
+});
+
+// ===== HELPERS =====
+
+// Path segments kept verbatim when normalizing endpoints (everything else is an ID)
+const STATIC_SEGMENTS = new Set([
+  'workflows', 'executions', 'credentials', 'node-types', 'tags', 'users',
+  'activate', 'deactivate', 'execute', 'schema', 'transfer',
+]);
+
+/**
+ * Collapse IDs and names in a request path so the endpoint label stays low-cardinality
+ * e.g. /workflows/abc123/activate → /workflows/:id/activate
+ */
+export function normalizeEndpoint(url: string | undefined): string {
+  if (!url) {
+    return 'unknown';
+  }
+  const path = url.split('?')[0];
+  const segments = path.split('/').filter(Boolean);
+  return '/' + segments.map(s => (STATIC_SEGMENTS.has(s) ? s : ':id')).join('/');
+}
+
+type TimedConfig = InternalAxiosRequestConfig & { _metricsStart?: bigint };
+
+/**
+ * Record count and latency of every request made through an axios client
+ * Register before the retry interceptor so each attempt is recorded once
+ */
+export function instrumentAxios(client: AxiosInstance): void {
+  client.interceptors.request.use(config => {
+    (config as TimedConfig)._metricsStart = process.hrtime.bigint();
+    return config;
+  });
+
+  const record = (config: TimedConfig | undefined, status: string) => {
+    if (!config) {
+      return;
+    }
+    const labels = {
+      endpoint: normalizeEndpoint(config.url),
+      method: (config.method || 'get').toUpperCase(),
+      status,
+    };
+    apiRequestsTotal.inc(labels);
+    if (config._metricsStart !== undefined) {
+      apiRequestDuration.observe(labels, Number(process.hrtime.bigint() - config._metricsStart) / 1e9);
+    }
+  };
+
+  client.interceptors.response.use(
+    response => {
+      record(response.config, String(response.status));
+      return response;
+    },
+    error => {
+      const status = error?.response?.status
+        ? String(error.response.status)
+        : isAbortError(error) ? 'cancelled' : 'error';
+      record(error?.config, status);
+      return Promise.reject(error);
+    }
+  );
+}
+
+/**
+ * Count a cache lookup and refresh that cache's hit ratio
+ */
+export function recordCacheLookup(cache: string, hit: boolean): void {
+  cacheRequestsTotal.inc({ cache, result: hit ? 'hit' : 'miss' });
+  const hits = cacheRequestsTotal.get({ cache, result: 'hit' });
+  const misses = cacheRequestsTotal.get({ cache, result: 'miss' });
+  cacheHitRatio.set({ cache }, hits / (hits + misses));
+}
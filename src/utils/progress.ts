@@ -0,0 +1,51 @@
+import type { ProgressNotification, ProgressToken } from '@modelcontextprotocol/sdk/types.js';
+import { logger } from './logger.js';
+
+export interface ProgressUpdate {
+  progress: number;
+  total?: number;
+  message?: string;
+}
+
+/**
+ * Optional callback passed from tool handlers into services
+ * Services report steps; the transport decides whether anyone is listening
+ */
+export type ProgressCallback = (update: ProgressUpdate) => void;
+
+export const PROGRESS_LIMITS = {
+  MIN_INTERVAL_MS: 100, // Throttle intermediate updates (first/final always sent)
+} as const;
+
+/**
+ * Create a progress callback that emits notifications/progress for a request
+ * - Drops updates that do not increase progress (required by MCP spec)
+ * - Throttles intermediate updates to avoid flooding the client
+ * - Never throws: progress is best-effort and must not fail the tool call
+ */
+export function createProgressNotifier(
+  progressToken: ProgressToken,
+  sendNotification: (notification: ProgressNotification) => Promise<void>,
+  minIntervalMs: number = PROGRESS_LIMITS.MIN_INTERVAL_MS
+): ProgressCallback {
+  let lastProgress = -Infinity;
+  let lastSentAt = 0;
+
+  return (update: ProgressUpdate) => {
+    if (update.progress <= lastProgress) return;
+
+    const now = Date.now();
+    const isFinal = update.total !== undefined && update.progress >= update.total;
+    if (!isFinal && lastSentAt > 0 && now - lastSentAt < minIntervalMs) return;
+
+    lastProgress = update.progress;
+    lastSentAt = now;
+
+    sendNotification({
+      method: 'notifications/progress',
+      params: { progressToken, ...update },
+    }).catch(err => {
+      logger.error('Failed to send progress notification', { error: err });
+    });
+  };
+}
@@ -0,0 +1,279 @@
+import { McpError } from '@modelcontextprotocol/sdk/types.js';
+import { metrics } from './metrics.js';
+import { serverConfig, DEFAULT_SERVER_CONFIG, type ServerConfig } from '../config/server-config.js';
+
+/**
+ * JSON-RPC error code for rejected calls (implementation-defined server error range)
+ */
+export const RATE_LIMIT_ERROR_CODE = -32029;
+
+export const DEFAULT_EXPENSIVE_TOOLS = DEFAULT_SERVER_CONFIG.rateLimits.expensiveTools;
+
+// Hint returned when the concurrency cap is hit (no bucket to compute it from)
+const CONCURRENCY_RETRY_AFTER_MS = 1000;
+// Buckets of clients idle this long are dropped (checked at most once per interval)
+const IDLE_CLIENT_TTL_MS = 10 * 60 * 1000;
+const SWEEP_INTERVAL_MS = 60 * 1000;
+
+export type RateLimitKind = 'rate' | 'expensive' | 'concurrency';
+
+/**
+ * Per-client limits on the HTTP transport (rateLimits section of the server config, 0 disables a limit)
+ * - perMinute / burst: all tool calls, resources/list, resources/read and prompts/get
+ * - expensivePerMinute / expensiveBurst: expensive tools only
+ * - expensiveTools: tool names (default execute_workflow, trigger_webhook, test_credential, list_credentials)
+ * - maxConcurrent: in-flight tool calls per client
+ * - scope: "token" (per auth token, per session when unauthenticated) or "session"
+ */
+export interface RateLimitConfig {
+  perMinute: number;
+  burst: number;
+  expensivePerMinute: number;
+  expensiveBurst: number;
+  expensiveTools: string[];
+  maxConcurrent: number;
+  scope: 'token' | 'session';
+}
+
+/**
+ * Limits from the server config; a burst of 0 means the per-minute rate
+ */
+export function loadRateLimitConfig(config: ServerConfig['rateLimits'] = serverConfig.rateLimits): RateLimitConfig {
+  return {
+    ...config,
+    burst: config.burst || config.perMinute,
+    expensiveBurst: config.expensiveBurst || config.expensivePerMinute,
+  };
+}
+
+/**
+ * Rejected tool call; `data.retryAfter` tells the client when to try again
+ */
+export class RateLimitError extends McpError {
+  constructor(
+    public readonly kind: RateLimitKind,
+    public readonly tool: string,
+    public readonly retryAfterMs: number
+  ) {
+    const retryAfter = Math.max(1, Math.ceil(retryAfterMs / 1000));
+    super(
+      RATE_LIMIT_ERROR_CODE,
+      kind === 'concurrency'
+        ? `Too many concurrent tool calls; retry after ${retryAfter}s`
+        : `Rate limit exceeded${kind === 'expensive' ? ` for expensive tool '${tool}'` : ''}; retry after ${retryAfter}s`,
+      { limit: kind, tool, retryAfter, retryAfterMs: Math.ceil(retryAfterMs) }
+    );
+    this.name = 'RateLimitError';
+  }
+}
+
+/**
+ * Token bucket: holds up to `capacity` calls, refilled continuously at `perMinute`
+ */
+export class TokenBucket {
+  private tokens: number;
+  private updatedAt: number;
+
+  constructor(
+    private readonly capacity: number,
+    private readonly perMinute: number,
+    now: number = Date.now()
+  ) {
+    this.tokens = capacity;
+    this.updatedAt = now;
+  }
+
+  /**
+   * Milliseconds until one token is available (0 when available now)
+   */
+  waitTime(now: number = Date.now()): number {
+    this.refill(now);
+    return this.tokens >= 1 ? 0 : ((1 - this.tokens) * 60_000) / this.perMinute;
+  }
+
+  take(now: number = Date.now()): void {
+    this.refill(now);
+    this.tokens -= 1;
+  }
+
+  available(now: number = Date.now()): number {
+    this.refill(now);
+    return this.tokens;
+  }
+
+  private refill(now: number): void {
+    const elapsed = Math.max(0, now - this.updatedAt);
+    this.tokens = Math.min(this.capacity, this.tokens + (elapsed * this.perMinute) / 60_000);
+    this.updatedAt = now;
+  }
+}
+
+interface ClientState {
+  calls?: TokenBucket;
+  expensive?: TokenBucket;
+  inFlight: number;
+  lastSeen: number;
+}
+
+/**
+ * Per-client token buckets and in-flight counters for tool calls
+ */
+export class RateLimiter {
+  private clients = new Map<string, ClientState>();
+  private expensiveTools: Set<string>;
+  private lastSweep = 0;
+
+  constructor(private readonly config: RateLimitConfig) {
+    this.expensiveTools = new Set(config.expensiveTools);
+  }
+
+  get enabled(): boolean {
+    return this.config.perMinute > 0 || this.config.expensivePerMinute > 0 || this.config.maxConcurrent > 0;
+  }
+
+  isExpensive(tool: string): boolean {
+    return this.expensiveTools.has(tool);
+  }
+
+  /**
+   * Client key for a call: the auth token, or the session when unauthenticated / scope=session
+   * @returns undefined for stdio (no session, not limited)
+   */
+  clientKey(clientId: string | undefined, sessionId: string | undefined): string | undefined {
+    if (clientId && this.config.scope === 'token') {
+      return `token:${clientId}`;
+    }
+    return sessionId ? `session:${sessionId}` : undefined;
+  }
+
+  /**
+   * Reserve a call slot; the returned function releases the concurrency slot when the call ends
+   * @throws RateLimitError when any limit is exhausted (nothing is consumed in that case)
+   */
+  acquire(key: string, tool: string, now: number = Date.now()): () => void {
+    this.sweep(now);
+    const state = this.getState(key, tool, now);
+
+    if (this.config.maxConcurrent > 0 && state.inFlight >= this.config.maxConcurrent) {
+      throw this.reject('concurrency', tool, CONCURRENCY_RETRY_AFTER_MS);
+    }
+
+    const callsWait = state.calls?.waitTime(now) ?? 0;
+    if (callsWait > 0) {
+      throw this.reject('rate', tool, callsWait);
+    }
+    const expensive = this.isExpensive(tool) ? state.expensive : undefined;
+    const expensiveWait = expensive?.waitTime(now) ?? 0;
+    if (expensiveWait > 0) {
+      throw this.reject('expensive', tool, expensiveWait);
+    }
+
+    state.calls?.take(now);
+    expensive?.take(now);
+    state.inFlight++;
+
+    let released = false;
+    return () => {
+      if (!released) {
+        released = true;
+        state.inFlight--;
+        state.lastSeen = Date.now();
+      }
+    };
+  }
+
+  /**
+   * Run a request under the client's quota (resources and prompts share the tool call budget)
+   * @param label - Request label for errors and metrics (e.g. "resources/read")
+   */
+  async run<T>(
+    clientId: string | undefined,
+    sessionId: string | undefined,
+    label: string,
+    fn: () => Promise<T>
+  ): Promise<T> {
+    const key = this.enabled ? this.clientKey(clientId, sessionId) : undefined;
+    if (!key) {
+      return fn();
+    }
+    const release = this.acquire(key, label);
+    try {
+      return await fn();
+    } finally {
+      release();
+    }
+  }
+
+  /**
+   * Current limiter state for /metrics
+   */
+  snapshot(now: number = Date.now()): { clients: number; inFlight: number; exhaustedClients: number } {
+    let inFlight = 0;
+    let exhaustedClients = 0;
+    for (const state of this.clients.values()) {
+      inFlight += state.inFlight;
+      if ((state.calls && state.calls.available(now) < 1) || (state.expensive && state.expensive.available(now) < 1)) {
+        exhaustedClients++;
+      }
+    }
+    return { clients: this.clients.size, inFlight, exhaustedClients };
+  }
+
+  private getState(key: string, tool: string, now: number): ClientState {
+    let state = this.clients.get(key);
+    if (!state) {
+      state = {
+        ...(this.config.perMinute > 0 && { calls: new TokenBucket(this.config.burst, this.config.perMinute, now) }),
+        inFlight: 0,
+        lastSeen: now,
+      };
+      this.clients.set(key, state);
+    }
+    if (!state.expensive && this.config.expensivePerMinute > 0 && this.isExpensive(tool)) {
+      state.expensive = new TokenBucket(this.config.expensiveBurst, this.config.expensivePerMinute, now);
+    }
+    state.lastSeen = now;
+    return state;
+  }
+
+  private reject(kind: RateLimitKind, tool: string, retryAfterMs: number): RateLimitError {
+    rateLimitRejectionsTotal.inc({ limit: kind, tool });
+    return new RateLimitError(kind, tool, retryAfterMs);
+  }
+
+  private sweep(now: number): void {
+    if (now - this.lastSweep < SWEEP_INTERVAL_MS) {
+      return;
+    }
+    this.lastSweep = now;
+    for (const [key, state] of this.clients) {
+      if (state.inFlight === 0 && now - state.lastSeen > IDLE_CLIENT_TTL_MS) {
+        this.clients.delete(key);
+      }
+    }
+  }
+}
+
+// ===== METRICS =====
+
+export const rateLimitRejectionsTotal = metrics.counter(
+  'rate_limit_rejections_total',
+  'Tool calls rejected by the rate limiter by limit (rate/expensive/concurrency) and tool'
+);
+
+const rateLimitClients = metrics.gauge('rate_limit_clients', 'Clients tracked by the rate limiter');
+const rateLimitInFlight = metrics.gauge('rate_limit_in_flight_calls', 'Tool calls currently in flight across clients');
+const rateLimitExhausted = metrics.gauge(
+  'rate_limit_exhausted_clients',
+  'Clients with an empty token bucket (next call would be rejected)'
+);
+
+// Export singleton instance
+export const rateLimiter = new RateLimiter(loadRateLimitConfig());
+
+metrics.addCollector(() => {
+  const state = rateLimiter.snapshot();
+  rateLimitClients.set({}, state.clients);
+  rateLimitInFlight.set({}, state.inFlight);
+  rateLimitExhausted.set({}, state.exhaustedClients);
+});
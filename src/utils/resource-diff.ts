@@ -0,0 +1,230 @@
+import type { N8nCredential, N8nWorkflow } from '../types/n8n-types.js';
+import type { FieldChange, ResourceDiff } from '../types/dry-run.js';
+
+// Set by n8n on every save; not part of a planned change
+const VOLATILE_WORKFLOW_FIELDS = new Set(['id', 'createdAt', 'updatedAt', 'versionId', 'shared', 'meta']);
+
+// Node keys are compared down to `parameters.options.timeout`, deeper changes are reported on the parent
+const NODE_DIFF_DEPTH = 3;
+
+/**
+ * Structural diff of two workflow versions
+ * @param before - Live workflow (undefined when the call creates it)
+ * @param after - Workflow as the call would leave it (undefined when the call deletes it)
+ */
+export function diffWorkflows(
+  before: Partial<N8nWorkflow> | undefined,
+  after: Partial<N8nWorkflow> | undefined
+): ResourceDiff {
+  const beforeNodes = nodesByName(before);
+  const afterNodes = nodesByName(after);
+
+  const nodes: NonNullable<ResourceDiff['nodes']> = { added: [], removed: [], modified: [] };
+  for (const [name, node] of afterNodes) {
+    const previous = beforeNodes.get(name);
+    if (!previous) {
+      nodes.added.push(name);
+      continue;
+    }
+    const changes = diffFields(previous, node, '', NODE_DIFF_DEPTH).map(change => change.path);
+    if (changes.length > 0) {
+      nodes.modified.push({ name, changes });
+    }
+  }
+  for (const name of beforeNodes.keys()) {
+    if (!afterNodes.has(name)) {
+      nodes.removed.push(name);
+    }
+  }
+
+  const beforeEdges = connectionEdges(before);
+  const afterEdges = connectionEdges(after);
+  const connections = {
+    added: [...afterEdges].filter(edge => !beforeEdges.has(edge)),
+    removed: [...beforeEdges].filter(edge => !afterEdges.has(edge)),
+  };
+
+  const fields = diffFields(workflowFields(before), workflowFields(after), '', Infinity);
+  const action = diffAction(before, after, fields.length + nodes.added.length + nodes.removed.length +
+    nodes.modified.length + connections.added.length + connections.removed.length);
+
+  return {
+    resource: 'workflow',
+    action,
+    ...optional('id', before?.id ?? after?.id),
+    ...optional('name', after?.name ?? before?.name),
+    fields,
+    nodes,
+    connections,
+    summary: summarize('workflow', action, after?.name ?? before?.name, [
+      count(nodes.added.length, 'node(s) added'),
+      count(nodes.removed.length, 'node(s) removed'),
+      count(nodes.modified.length, 'node(s) modified'),
+      count(connections.added.length, 'connection(s) added'),
+      count(connections.removed.length, 'connection(s) removed'),
+      count(fields.length, 'field(s) changed'),
+    ]),
+  };
+}
+
+/**
+ * Diff of a credential; data is compared by key only, values never appear
+ * @param before - Live credential (n8n never returns its data)
+ * @param after - Credential as the call would leave it
+ */
+export function diffCredentials(
+  before: Partial<N8nCredential> | undefined,
+  after: Partial<N8nCredential> | undefined
+): ResourceDiff {
+  const { id: _beforeId, data: _beforeData, ...beforeFields } = before ?? {};
+  const { id: _afterId, data: afterData, ...afterFields } = after ?? {};
+
+  // Fields absent from an update are left unchanged
+  const fields = diffFields(beforeFields, after ? { ...beforeFields, ...afterFields } : {}, '', Infinity);
+  for (const key of Object.keys(afterData ?? {})) {
+    fields.push({ path: `data.${key}`, change: before ? 'changed' : 'added' });
+  }
+
+  const action = diffAction(before, after, fields.length);
+  return {
+    resource: 'credential',
+    action,
+    ...optional('id', before?.id ?? after?.id),
+    ...optional('name', after?.name ?? before?.name),
+    fields,
+    summary: summarize('credential', action, after?.name ?? before?.name, [count(fields.length, 'field(s) changed')]),
+  };
+}
+
+/**
+ * Credential body with every data value replaced (planned calls are returned to the client)
+ */
+export function redactCredentialData<T extends Partial<N8nCredential>>(credential: T): T {
+  if (!credential.data) {
+    return credential;
+  }
+  return {
+    ...credential,
+    data: Object.fromEntries(Object.keys(credential.data).map(key => [key, '[REDACTED]'])),
+  };
+}
+
+// ===== HELPERS =====
+
+function isPlainObject(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value);
+}
+
+function isScalar(value: unknown): boolean {
+  return value === null || (typeof value !== 'object' && value !== undefined);
+}
+
+function optional<K extends string>(key: K, value: string | undefined): Partial<Record<K, string>> {
+  return value === undefined ? {} : { [key]: value } as Record<K, string>;
+}
+
+function count(n: number, label: string): string | undefined {
+  return n > 0 ? `${n} ${label}` : undefined;
+}
+
+function diffAction(before: unknown, after: unknown, changes: number): ResourceDiff['action'] {
+  if (!before) return 'create';
+  if (!after) return 'delete';
+  return changes > 0 ? 'update' : 'none';
+}
+
+function summarize(
+  resource: ResourceDiff['resource'],
+  action: ResourceDiff['action'],
+  name: string | undefined,
+  parts: Array<string | undefined>
+): string {
+  const label = name ? `${resource} "${name}"` : resource;
+  const details = parts.filter(Boolean).join(', ');
+  switch (action) {
+    case 'create':
+      return `Create ${label}${details ? `: ${details}` : ''}`;
+    case 'delete':
+      return `Delete ${label}${details ? `: ${details}` : ''}`;
+    case 'update':
+      return `Update ${label}: ${details}`;
+    default:
+      return 'No changes detected';
+  }
+}
+
+function nodesByName(workflow: Partial<N8nWorkflow> | undefined): Map<string, Record<string, unknown>> {
+  const nodes = Array.isArray(workflow?.nodes) ? workflow.nodes : [];
+  return new Map(nodes.filter(node => node?.name).map(node => [node.name, { ...node }]));
+}
+
+function workflowFields(workflow: Partial<N8nWorkflow> | undefined): Record<string, unknown> {
+  return Object.fromEntries(
+    Object.entries(workflow ?? {}).filter(([key]) =>
+      key !== 'nodes' && key !== 'connections' && !VOLATILE_WORKFLOW_FIELDS.has(key)
+    )
+  );
+}
+
+/**
+ * Connections as "Source.main[0] -> Target.main[0]" (output index → input index)
+ */
+function connectionEdges(workflow: Partial<N8nWorkflow> | undefined): Set<string> {
+  const edges = new Set<string>();
+  for (const [source, outputs] of Object.entries<Record<string, any>>(workflow?.connections ?? {})) {
+    for (const [type, branches] of Object.entries(outputs ?? {})) {
+      (Array.isArray(branches) ? branches : []).forEach((targets: any[], outputIndex: number) => {
+        for (const target of targets ?? []) {
+          if (target?.node) {
+            edges.add(`${source}.${type}[${outputIndex}] -> ${target.node}.${target.type ?? type}[${target.index ?? 0}]`);
+          }
+        }
+      });
+    }
+  }
+  return edges;
+}
+
+/**
+ * Leaf changes between two objects; values are kept when both sides are scalars
+ * @param depth - Object levels to descend; below it, a differing subtree is one change
+ */
+function diffFields(
+  before: Record<string, unknown>,
+  after: Record<string, unknown>,
+  prefix: string,
+  depth: number
+): FieldChange[] {
+  const changes: FieldChange[] = [];
+  const keys = new Set([...Object.keys(before), ...Object.keys(after)]);
+
+  for (const key of keys) {
+    const path = `${prefix}${key}`;
+    const a = before[key];
+    const b = after[key];
+    if (a === undefined && b === undefined) {
+      continue;
+    }
+    if (a === undefined || b === undefined) {
+      const value = a === undefined ? b : a;
+      changes.push({
+        path,
+        change: a === undefined ? 'added' : 'removed',
+        ...(isScalar(value) && (a === undefined ? { after: value } : { before: value })),
+      });
+      continue;
+    }
+    if (isPlainObject(a) && isPlainObject(b) && depth > 1) {
+      changes.push(...diffFields(a, b, `${path}.`, depth - 1));
+      continue;
+    }
+    if (JSON.stringify(a) !== JSON.stringify(b)) {
+      changes.push({
+        path,
+        change: 'changed',
+        ...(isScalar(a) && isScalar(b) && { before: a, after: b }),
+      });
+    }
+  }
+  return changes;
+}
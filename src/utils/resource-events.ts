@@ -0,0 +1,27 @@
+import { EventEmitter } from 'events';
+
+/**
+ * Resource change events emitted when our own tools modify n8n state
+ * - updated: content of a specific resource URI changed
+ * - listChanged: set of listable resources changed (created/deleted)
+ *
+ * One bus per n8n instance; the default bus is shared across all MCP server
+ * instances (one per session) so every connected client can be notified.
+ */
+export class ResourceEventBus extends EventEmitter {
+  constructor() {
+    super();
+    // One listener per connected session - no fixed limit
+    this.setMaxListeners(0);
+  }
+
+  emitUpdated(uri: string): void {
+    this.emit('updated', uri);
+  }
+
+  emitListChanged(): void {
+    this.emit('listChanged');
+  }
+}
+
+export const resourceEvents = new ResourceEventBus();
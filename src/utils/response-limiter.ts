@@ -1,16 +1,19 @@
+import { serverConfig } from '../config/server-config.js';
+import { logger } from './logger.js';
+
 /**
- * Response size limits
+ * Response size limits (responses section of the server config)
  */
 export const RESPONSE_LIMITS = {
-  MAX_RESPONSE_SIZE: 1 * 1024 * 1024,      // 1MB
-  WARN_THRESHOLD: 512 * 1024,              // 512KB
-  MAX_ITEMS_PER_PAGE: 100,                 // Pagination limit
+  MAX_RESPONSE_SIZE: serverConfig.responses.maxResponseBytes,   // 1MB by default
+  WARN_THRESHOLD: serverConfig.responses.warnThresholdBytes,    // 512KB by default
+  MAX_ITEMS_PER_PAGE: serverConfig.responses.maxItemsPerPage,   // Pagination limit
 } as const;
 
 /**
  * Result of limiting a response
  */
-interface LimitedResponse {
+export interface LimitedResponse {
   data: any;
   truncated: boolean;
   originalSize: number;
@@ -19,16 +22,19 @@ interface LimitedResponse {
     total: number;
     returned: number;
     hasMore: boolean;
+    /** Index of the first returned item (continuation pages) */
+    offset?: number;
+    /** Pass to get_next_page for the following items */
     nextCursor?: string;
   };
 }
 
 /**
- * Estimate JSON size without full serialization
+ * Estimate JSON size in UTF-8 bytes without full serialization
  */
 function estimateSize(data: any): number {
   if (typeof data === 'string') {
-    return data.length;
+    return Buffer.byteLength(data, 'utf8');
   }
 
   // Quick estimate based on JSON stringify of sample
@@ -138,7 +144,7 @@ export function limitResponse(
 
   // Handle object with other structures - truncate at string level
   const jsonString = JSON.stringify(data);
-  if (jsonString.length > maxSize) {
+  if (Buffer.byteLength(jsonString, 'utf8') > maxSize) {
     // Can't intelligently truncate, return error indicator
     return {
       data: {
@@ -203,10 +209,7 @@ export function addSizeWarning(data: any): any {
   const size = estimateSize(data);
 
   if (size > RESPONSE_LIMITS.WARN_THRESHOLD) {
-    console.warn(
-      `Large response: ${Math.round(size / 1024)}KB ` +
-      `(warning threshold: ${RESPONSE_LIMITS.WARN_THRESHOLD / 1024}KB)`
-    );
+    logger.warn('Large response', { sizeBytes: size, warnThresholdBytes: RESPONSE_LIMITS.WARN_THRESHOLD });
   }
 
   return data;
@@ -0,0 +1,21 @@
+import { logger } from './logger.js';
+import { auditLogService } from '../services/audit-log-service.js';
+
+/**
+ * Security audit event
+ */
+export interface SecurityEvent {
+  event: string;
+  [key: string]: unknown;
+}
+
+/**
+ * Record a security event (auth failures, scope denials, session replacements)
+ * Written as a warn-level log entry with `security: true` so log collectors can pick it up,
+ * and to the audit log as a `security:<event>` entry.
+ * Callers must never include token values or credential data.
+ */
+export function logSecurityEvent(event: SecurityEvent): void {
+  logger.warn(`Security event: ${event.event}`, { security: true, ...event });
+  void auditLogService.recordSecurityEvent(event);
+}
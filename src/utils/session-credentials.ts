@@ -0,0 +1,127 @@
+import crypto from 'crypto';
+import type { IncomingHttpHeaders } from 'http';
+import type { AuthInfo } from '@modelcontextprotocol/sdk/server/auth/types.js';
+import { serverConfig, type ServerConfig } from '../config/server-config.js';
+
+/**
+ * Connection headers carrying a session's own n8n credentials
+ */
+export const SESSION_HEADERS = {
+  HOST: 'x-n8n-host',
+  API_KEY: 'x-n8n-api-key',
+} as const;
+
+/**
+ * n8n credentials a session uses instead of N8N_HOST / N8N_API_KEY
+ */
+export interface SessionCredentials {
+  tenant: string;   // "token:<name>" or "key:<hash>" - never the key itself
+  host: string;
+  apiKey: string;
+}
+
+/**
+ * n8n credentials bound to an auth token (AuthInfo.extra.n8n)
+ */
+export interface TokenN8nCredentials {
+  host?: string;
+  apiKey: string;
+}
+
+/**
+ * Session credential configuration (from the sessions section of the server config)
+ * - allowedHosts: hosts sessions may target besides N8N_HOST (MCP_SESSION_N8N_HOSTS)
+ * - required: reject sessions without their own credentials (MCP_REQUIRE_SESSION_CREDENTIALS);
+ *   the server's N8N_API_KEY is then never used for HTTP clients
+ */
+export interface SessionCredentialsConfig {
+  defaultHost: string;
+  allowedHosts: string[];
+  required: boolean;
+}
+
+/**
+ * Rejected session credentials (mapped to an HTTP error before the session starts)
+ */
+export class SessionCredentialsError extends Error {
+  constructor(message: string, public readonly status: 400 | 401 | 403) {
+    super(message);
+    this.name = 'SessionCredentialsError';
+  }
+}
+
+function normalizeSessionHost(host: string): string {
+  return host.trim().replace(/\/$/, '');
+}
+
+export function loadSessionCredentialsConfig(
+  defaultHost: string,
+  config: ServerConfig['sessions'] = serverConfig.sessions
+): SessionCredentialsConfig {
+  return {
+    defaultHost: normalizeSessionHost(defaultHost),
+    allowedHosts: config.allowedN8nHosts.map(normalizeSessionHost).filter(Boolean),
+    required: config.requireN8nCredentials,
+  };
+}
+
+function singleHeader(headers: IncomingHttpHeaders, name: string): string | undefined {
+  const value = headers[name];
+  const first = Array.isArray(value) ? value[0] : value;
+  return first?.trim() || undefined;
+}
+
+/**
+ * Work out which n8n credentials a new session uses
+ * Token-bound credentials take precedence and cannot be overridden by headers.
+ * @returns undefined when the session uses the server's default instance
+ * @throws SessionCredentialsError for missing, conflicting or disallowed credentials
+ */
+export function resolveSessionCredentials(
+  headers: IncomingHttpHeaders,
+  authInfo: AuthInfo | undefined,
+  config: SessionCredentialsConfig
+): SessionCredentials | undefined {
+  const headerHost = singleHeader(headers, SESSION_HEADERS.HOST);
+  const headerKey = singleHeader(headers, SESSION_HEADERS.API_KEY);
+  const bound = authInfo?.extra?.n8n as TokenN8nCredentials | undefined;
+
+  if (bound) {
+    if (headerHost || headerKey) {
+      throw new SessionCredentialsError(
+        'This token is bound to n8n credentials; X-N8N-Host / X-N8N-API-Key headers are not allowed',
+        400
+      );
+    }
+    return {
+      tenant: `token:${authInfo!.clientId}`,
+      host: normalizeSessionHost(bound.host || config.defaultHost),
+      apiKey: bound.apiKey,
+    };
+  }
+
+  if (!headerKey) {
+    if (headerHost) {
+      throw new SessionCredentialsError('X-N8N-Host requires X-N8N-API-Key', 400);
+    }
+    if (config.required) {
+      throw new SessionCredentialsError(
+        'n8n credentials required: send X-N8N-API-Key (and optionally X-N8N-Host)',
+        401
+      );
+    }
+    return undefined;
+  }
+
+  const host = normalizeSessionHost(headerHost || config.defaultHost);
+  if (!/^https?:\/\//.test(host)) {
+    throw new SessionCredentialsError('X-N8N-Host must be an http(s) URL', 400);
+  }
+  // Only known hosts: the server must not be usable to reach arbitrary URLs
+  if (host !== config.defaultHost && !config.allowedHosts.includes(host)) {
+    throw new SessionCredentialsError(`n8n host not allowed: ${host}`, 403);
+  }
+
+  const fingerprint = crypto.createHash('sha256').update(`${host}\0${headerKey}`).digest('hex').slice(0, 16);
+  return { tenant: `key:${fingerprint}`, host, apiKey: headerKey };
+}
@@ -0,0 +1,239 @@
+import type { ServerResponse } from 'http';
+import { logger } from './logger.js';
+import { serverConfig } from '../config/server-config.js';
+
+export type SessionTransportKind = 'sse' | 'streamable_http';
+
+export type SessionCloseReason = 'client' | 'idle_timeout' | 'max_lifetime' | 'replaced' | 'shutdown';
+
+/**
+ * HTTP session lifecycle limits (sessions section of the server config, 0 disables a limit)
+ * - idleTimeoutMs: close sessions without requests for this long (default 30 minutes)
+ * - maxLifetimeMs: close sessions this long after they opened (default off)
+ * - maxSessions: concurrent sessions across transports; new ones get 503 (default off)
+ * - heartbeatMs: comment line written to open SSE streams (default 30 seconds)
+ * - shutdownTimeoutMs: how long SIGTERM waits for in-flight tool calls (default 30 seconds)
+ */
+export interface SessionLifecycleConfig {
+  idleTimeoutMs: number;
+  maxLifetimeMs: number;
+  maxSessions: number;
+  heartbeatMs: number;
+  shutdownTimeoutMs: number;
+}
+
+interface TrackedSession {
+  transport: SessionTransportKind;
+  createdAt: number;
+  lastActivity: number;
+  inFlight: number;
+  closeReason?: SessionCloseReason;
+  close: () => Promise<void> | void;
+}
+
+/**
+ * Tracks open HTTP sessions and in-flight tool calls:
+ * expires idle / old sessions, caps the session count and drains calls on shutdown
+ */
+export class SessionLifecycle {
+  private sessions = new Map<string, TrackedSession>();
+  private inFlightCalls = 0;
+  private drainWaiters: Array<() => void> = [];
+  private sweepTimer?: NodeJS.Timeout;
+  private isDraining = false;
+
+  constructor(private readonly config: SessionLifecycleConfig) {}
+
+  get draining(): boolean {
+    return this.isDraining;
+  }
+
+  get size(): number {
+    return this.sessions.size;
+  }
+
+  get inFlight(): number {
+    return this.inFlightCalls;
+  }
+
+  /**
+   * Whether a new session may be opened (not shutting down, below MCP_MAX_SESSIONS)
+   */
+  canAccept(): boolean {
+    return !this.isDraining && (this.config.maxSessions === 0 || this.sessions.size < this.config.maxSessions);
+  }
+
+  /**
+   * @param close - Closes the transport; its onclose handler must call release()
+   */
+  register(
+    sessionId: string,
+    transport: SessionTransportKind,
+    close: () => Promise<void> | void,
+    now: number = Date.now()
+  ): void {
+    this.sessions.set(sessionId, { transport, createdAt: now, lastActivity: now, inFlight: 0, close });
+  }
+
+  /**
+   * Record client activity on a session (resets the idle timer)
+   */
+  touch(sessionId: string | undefined, now: number = Date.now()): void {
+    const session = sessionId ? this.sessions.get(sessionId) : undefined;
+    if (session) {
+      session.lastActivity = now;
+    }
+  }
+
+  /**
+   * Forget a closed session (called from the transport's onclose)
+   * @returns why it was closed ('client' unless the lifecycle closed it), undefined if not tracked
+   */
+  release(sessionId: string): { transport: SessionTransportKind; reason: SessionCloseReason } | undefined {
+    const session = this.sessions.get(sessionId);
+    if (!session) {
+      return undefined;
+    }
+    this.sessions.delete(sessionId);
+    return { transport: session.transport, reason: session.closeReason ?? 'client' };
+  }
+
+  /**
+   * Close a session for the given reason (no-op for unknown sessions)
+   */
+  async close(sessionId: string, reason: SessionCloseReason): Promise<void> {
+    const session = this.sessions.get(sessionId);
+    if (!session || session.closeReason) {
+      return;
+    }
+    session.closeReason = reason;
+    try {
+      await session.close();
+    } catch (error) {
+      logger.error(`Error closing session ${sessionId}`, { error });
+    }
+  }
+
+  /**
+   * Mark a tool call as in flight; the returned function ends it (idempotent)
+   * Sessions with in-flight calls are never expired
+   */
+  trackCall(sessionId?: string): () => void {
+    const session = sessionId ? this.sessions.get(sessionId) : undefined;
+    this.inFlightCalls++;
+    if (session) {
+      session.inFlight++;
+    }
+
+    let ended = false;
+    return () => {
+      if (ended) {
+        return;
+      }
+      ended = true;
+      this.inFlightCalls--;
+      if (session) {
+        session.inFlight--;
+        session.lastActivity = Date.now();
+      }
+      if (this.inFlightCalls === 0) {
+        this.drainWaiters.splice(0).forEach(resolve => resolve());
+      }
+    };
+  }
+
+  /**
+   * Close sessions past the idle timeout or maximum lifetime
+   * @returns number of sessions closed
+   */
+  async sweep(now: number = Date.now()): Promise<number> {
+    const expired: Array<[string, SessionCloseReason]> = [];
+    for (const [sessionId, session] of this.sessions) {
+      if (session.inFlight > 0 || session.closeReason) {
+        continue;
+      }
+      if (this.config.maxLifetimeMs > 0 && now - session.createdAt >= this.config.maxLifetimeMs) {
+        expired.push([sessionId, 'max_lifetime']);
+      } else if (this.config.idleTimeoutMs > 0 && now - session.lastActivity >= this.config.idleTimeoutMs) {
+        expired.push([sessionId, 'idle_timeout']);
+      }
+    }
+
+    await Promise.all(expired.map(([sessionId, reason]) => this.close(sessionId, reason)));
+    return expired.length;
+  }
+
+  /**
+   * Start the periodic sweep (does not keep the process alive)
+   */
+  start(): void {
+    const limits = [this.config.idleTimeoutMs, this.config.maxLifetimeMs].filter(ms => ms > 0);
+    if (this.sweepTimer || limits.length === 0) {
+      return;
+    }
+    // Check often enough that sessions outlive their limit by at most ~10%
+    const interval = Math.min(60_000, Math.max(1000, Math.floor(Math.min(...limits) / 10)));
+    this.sweepTimer = setInterval(() => {
+      this.sweep().catch(error => logger.error('Session sweep failed', { error }));
+    }, interval);
+    this.sweepTimer.unref();
+  }
+
+  /**
+   * Write SSE comment lines to an open event stream until the response ends
+   * Keeps proxies and load balancers from dropping quiet streams
+   */
+  startHeartbeat(res: ServerResponse): void {
+    if (this.config.heartbeatMs === 0) {
+      return;
+    }
+    const timer = setInterval(() => {
+      if (res.writableEnded || res.destroyed) {
+        clearInterval(timer);
+        return;
+      }
+      // Only once the transport has opened an event stream on this response
+      const contentType = res.headersSent ? String(res.getHeader('content-type') ?? '') : '';
+      if (contentType.startsWith('text/event-stream')) {
+        res.write(': heartbeat\n\n');
+      }
+    }, this.config.heartbeatMs);
+    timer.unref();
+    res.on('close', () => clearInterval(timer));
+  }
+
+  /**
+   * Stop accepting sessions, wait for in-flight tool calls (up to MCP_SHUTDOWN_TIMEOUT_MS),
+   * then close every session
+   * @returns whether all calls finished before the timeout
+   */
+  async shutdown(): Promise<boolean> {
+    this.isDraining = true;
+    if (this.sweepTimer) {
+      clearInterval(this.sweepTimer);
+      this.sweepTimer = undefined;
+    }
+
+    const drained = await this.waitForCalls(this.config.shutdownTimeoutMs);
+    // Handlers resolve before the SDK writes their responses: let those go out first
+    await new Promise(resolve => setImmediate(resolve));
+    await Promise.all([...this.sessions.keys()].map(sessionId => this.close(sessionId, 'shutdown')));
+    return drained;
+  }
+
+  private waitForCalls(timeoutMs: number): Promise<boolean> {
+    if (this.inFlightCalls === 0) {
+      return Promise.resolve(true);
+    }
+    return new Promise(resolve => {
+      const timer = setTimeout(() => resolve(false), timeoutMs);
+      this.drainWaiters.push(() => {
+        clearTimeout(timer);
+        resolve(true);
+      });
+    });
+  }
+}
+
+// Export singleton instance
+export const sessionLifecycle = new SessionLifecycle(serverConfig.sessions);
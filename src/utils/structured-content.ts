@@ -0,0 +1,57 @@
+import type { CallToolResult } from '@modelcontextprotocol/sdk/types.js';
+import { safeStringify } from './safe-json.js';
+import type { LimitedResponse } from './response-limiter.js';
+
+/**
+ * Convert a tool result into structuredContent
+ * structuredContent must be a JSON object, so bare arrays are wrapped as { items }
+ */
+export function toStructuredContent(data: unknown): Record<string, unknown> {
+  if (Array.isArray(data)) {
+    return { items: data };
+  }
+  if (data !== null && typeof data === 'object') {
+    return data as Record<string, unknown>;
+  }
+  return { value: data ?? null };
+}
+
+/**
+ * Tool payload with `_meta` truncation/pagination info when the response was paged
+ */
+export function withPaginationMeta(limited: LimitedResponse): unknown {
+  if (!limited.pagination) {
+    return limited.data;
+  }
+  return {
+    ...toStructuredContent(limited.data),
+    _meta: {
+      truncated: limited.truncated,
+      originalSize: limited.originalSize,
+      pagination: limited.pagination,
+    },
+  };
+}
+
+/**
+ * Build a CallTool result with a JSON text block and matching structuredContent
+ */
+export function buildToolResult(limited: LimitedResponse): CallToolResult {
+  // Payload was replaced by a size error that no longer matches the tool's outputSchema
+  if (limited.truncated && !limited.pagination) {
+    return {
+      content: [{ type: 'text', text: safeStringify(limited.data) }],
+      isError: true,
+    };
+  }
+
+  const payload = withPaginationMeta(limited);
+
+  // Round-trip through safeStringify so both views are plain JSON (no cycles/BigInt)
+  const text = safeStringify(payload);
+
+  return {
+    content: [{ type: 'text', text }],
+    structuredContent: toStructuredContent(JSON.parse(text)),
+  };
+}
@@ -1,4 +1,5 @@
 import type { TemplateCacheEntry } from '../types/n8n-types.js';
+import { recordCacheLookup } from './metrics.js';
 
 /**
  * Simple in-memory cache with TTL support
@@ -8,7 +9,11 @@ export class TemplateCache {
   private readonly defaultTtl: number;
   private readonly MAX_CACHE_SIZE = 100; // Prevent memory leak
 
-  constructor(ttlSeconds: number = 3600) {
+  /**
+   * @param ttlSeconds Default TTL for entries
+   * @param name Cache name used as the `cache` label in metrics
+   */
+  constructor(ttlSeconds: number = 3600, private readonly name: string = 'template') {
     this.defaultTtl = ttlSeconds;
   }
 
@@ -21,14 +26,19 @@ export class TemplateCache {
     }
 
     const entry = this.cache.get(key);
-    if (!entry) return null;
+    if (!entry) {
+      recordCacheLookup(this.name, false);
+      return null;
+    }
 
     const now = Date.now();
     if (now - entry.timestamp > entry.ttl * 1000) {
       this.cache.delete(key);
+      recordCacheLookup(this.name, false);
       return null;
     }
 
+    recordCacheLookup(this.name, true);
     return entry.data;
   }
 
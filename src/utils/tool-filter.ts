@@ -0,0 +1,71 @@
+import type { Tool } from '@modelcontextprotocol/sdk/types.js';
+import { logger } from './logger.js';
+
+/**
+ * Built-in tool profiles
+ * - full: every registered tool
+ * - read-only: inspection tools only, nothing that changes n8n state
+ */
+export const TOOL_PROFILES = {
+  'full': ['*'],
+  'read-only': ['list_*', 'get_*', 'validate_*', 'lint_workflow', 'diff_*', 'query_audit_log'],
+} as const;
+
+export type ToolProfile = keyof typeof TOOL_PROFILES;
+
+/**
+ * Tool exposure configuration (tools section of the server config)
+ * - profile: full (default) | read-only (MCP_TOOL_PROFILE)
+ * - allowlist: names/patterns to expose (MCP_TOOL_ALLOWLIST, comma-separated)
+ * - denylist: names/patterns to hide (MCP_TOOL_DENYLIST, comma-separated)
+ */
+export interface ToolFilterConfig {
+  profile: ToolProfile;
+  allowlist: string[];
+  denylist: string[];
+}
+
+/**
+ * Check if tool name matches a pattern (supports trailing/leading `*` wildcards)
+ */
+export function matchesToolPattern(name: string, pattern: string): boolean {
+  if (pattern === '*') return true;
+  if (!pattern.includes('*')) return name === pattern;
+
+  const escaped = pattern
+    .split('*')
+    .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'))
+    .join('.*');
+  return new RegExp(`^${escaped}$`).test(name);
+}
+
+/**
+ * Check whether a tool is exposed under the given configuration
+ * Profile narrows first, then allowlist (if set), then denylist removes
+ */
+export function isToolAllowed(name: string, config: ToolFilterConfig): boolean {
+  const profilePatterns: readonly string[] = TOOL_PROFILES[config.profile];
+  if (!profilePatterns.some(p => matchesToolPattern(name, p))) {
+    return false;
+  }
+
+  if (config.allowlist.length > 0 && !config.allowlist.some(p => matchesToolPattern(name, p))) {
+    return false;
+  }
+
+  return !config.denylist.some(p => matchesToolPattern(name, p));
+}
+
+/**
+ * Filter registered tools down to the exposed set
+ * Warns about allowlist/denylist entries that match nothing (likely typos)
+ */
+export function filterTools<T extends Pick<Tool, 'name'>>(tools: T[], config: ToolFilterConfig): T[] {
+  for (const pattern of [...config.allowlist, ...config.denylist]) {
+    if (!tools.some(t => matchesToolPattern(t.name, pattern))) {
+      logger.warn(`Tool filter pattern matches no tools: ${pattern}`);
+    }
+  }
+
+  return tools.filter(t => isToolAllowed(t.name, config));
+}
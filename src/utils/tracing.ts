@@ -0,0 +1,216 @@
+import { promises as fs } from 'fs';
+import path from 'path';
+import {
+  trace,
+  context,
+  propagation,
+  diag,
+  DiagLogLevel,
+  SpanKind,
+  SpanStatusCode,
+  type Attributes,
+  type Span,
+  type TextMapSetter,
+} from '@opentelemetry/api';
+import { ExportResultCode, hrTimeToMilliseconds, type ExportResult } from '@opentelemetry/core';
+import { resourceFromAttributes } from '@opentelemetry/resources';
+import {
+  NodeTracerProvider,
+  BatchSpanProcessor,
+  SimpleSpanProcessor,
+  ParentBasedSampler,
+  TraceIdRatioBasedSampler,
+  type ReadableSpan,
+  type SpanExporter,
+} from '@opentelemetry/sdk-trace-node';
+import { OTLPTraceExporter } from '@opentelemetry/exporter-trace-otlp-http';
+import type { AxiosHeaders, AxiosInstance, InternalAxiosRequestConfig } from 'axios';
+import { serverConfig } from '../config/server-config.js';
+import { normalizeEndpoint } from './metrics.js';
+import { logger } from './logger.js';
+
+/**
+ * Tracing settings (tracing section of the server config)
+ * - exporter: none (no spans are recorded), otlp (OTLP/HTTP collector) or file (JSONL, for offline use)
+ * - sampleRatio: share of traces kept (0-1)
+ */
+export interface TracingConfig {
+  exporter: 'none' | 'otlp' | 'file';
+  otlpEndpoint: string;
+  filePath: string;
+  serviceName: string;
+  sampleRatio: number;
+}
+
+// Proxy tracer: spans are no-ops until initTracing registers a provider
+const tracer = trace.getTracer('n8n-custom-mcp');
+
+let provider: NodeTracerProvider | undefined;
+
+/**
+ * Register the tracer provider and its exporter (no-op when the exporter is "none")
+ */
+export function initTracing(config: TracingConfig = serverConfig.tracing, serviceVersion?: string): void {
+  if (config.exporter === 'none' || provider) {
+    return;
+  }
+
+  // Export failures (collector down, unwritable file) end up in the server logs
+  diag.setLogger({
+    error: message => logger.error(`Tracing: ${message}`),
+    warn: message => logger.warn(`Tracing: ${message}`),
+    info: () => {},
+    debug: () => {},
+    verbose: () => {},
+  }, DiagLogLevel.WARN);
+
+  provider = new NodeTracerProvider({
+    resource: resourceFromAttributes({
+      'service.name': config.serviceName,
+      ...(serviceVersion && { 'service.version': serviceVersion }),
+    }),
+    sampler: new ParentBasedSampler({ root: new TraceIdRatioBasedSampler(config.sampleRatio) }),
+    spanProcessors: [
+      config.exporter === 'otlp'
+        ? new BatchSpanProcessor(new OTLPTraceExporter({ url: config.otlpEndpoint }))
+        // Local testing: each span is written as soon as it ends
+        : new SimpleSpanProcessor(new FileSpanExporter(config.filePath)),
+    ],
+  });
+  provider.register();
+  // Stdio servers exit once stdin closes: flush the last spans first
+  process.once('beforeExit', () => void shutdownTracing());
+
+  logger.info(`Tracing enabled (${config.exporter} exporter)`, {
+    target: config.exporter === 'otlp' ? config.otlpEndpoint : config.filePath,
+    sampleRatio: config.sampleRatio,
+  });
+}
+
+/**
+ * Flush pending spans (call before the process exits)
+ */
+export async function shutdownTracing(): Promise<void> {
+  await provider?.shutdown();
+  provider = undefined;
+}
+
+/**
+ * Run `fn` in a child span of the active one; a thrown error marks the span as failed
+ */
+export function withSpan<T>(
+  name: string,
+  attributes: Attributes,
+  fn: (span: Span) => Promise<T>
+): Promise<T> {
+  return tracer.startActiveSpan(name, { attributes }, async span => {
+    try {
+      return await fn(span);
+    } catch (error) {
+      recordError(span, error);
+      throw error;
+    } finally {
+      span.end();
+    }
+  });
+}
+
+type TracedConfig = InternalAxiosRequestConfig & { _span?: Span; _retryCount?: number };
+
+const headerSetter: TextMapSetter<AxiosHeaders> = {
+  set: (headers, key, value) => {
+    headers.set(key, value);
+  },
+};
+
+/**
+ * Trace every request made through an axios client as a client span of the active span
+ * Register before the retry interceptor so each attempt gets its own span
+ */
+export function traceAxios(client: AxiosInstance, clientName: 'n8n_api' | 'webhook'): void {
+  client.interceptors.request.use(config => {
+    const method = (config.method || 'get').toUpperCase();
+    const retryCount = (config as TracedConfig)._retryCount;
+    const span = tracer.startSpan(`${method} ${normalizeEndpoint(config.url)}`, {
+      kind: SpanKind.CLIENT,
+      attributes: {
+        'http.request.method': method,
+        'url.path': config.url?.split('?')[0],
+        'n8n.client': clientName,
+        ...(retryCount && { 'http.request.resend_count': retryCount }),
+      },
+    });
+    // traceparent lets n8n (or a proxy in front of it) join the trace
+    propagation.inject(trace.setSpan(context.active(), span), config.headers, headerSetter);
+    (config as TracedConfig)._span = span;
+    return config;
+  });
+
+  client.interceptors.response.use(
+    response => {
+      const span = (response.config as TracedConfig)._span;
+      span?.setAttribute('http.response.status_code', response.status);
+      span?.end();
+      return response;
+    },
+    error => {
+      const span = (error?.config as TracedConfig | undefined)?._span;
+      if (span) {
+        if (error.response?.status) {
+          span.setAttribute('http.response.status_code', error.response.status);
+        }
+        recordError(span, error);
+        span.end();
+      }
+      return Promise.reject(error);
+    }
+  );
+}
+
+function recordError(span: Span, error: unknown): void {
+  const message = error instanceof Error ? error.message : String(error);
+  span.recordException(error instanceof Error ? error : message);
+  span.setStatus({ code: SpanStatusCode.ERROR, message });
+}
+
+/**
+ * Writes finished spans to a JSONL file, one span per line
+ */
+export class FileSpanExporter implements SpanExporter {
+  private ready?: Promise<unknown>;
+
+  constructor(private readonly filePath: string) {}
+
+  export(spans: ReadableSpan[], resultCallback: (result: ExportResult) => void): void {
+    this.ready ??= fs.mkdir(path.dirname(this.filePath), { recursive: true });
+    const lines = spans.map(span => JSON.stringify(toFileRecord(span)) + '\n').join('');
+    this.ready
+      .then(() => fs.appendFile(this.filePath, lines, 'utf-8'))
+      .then(
+        () => resultCallback({ code: ExportResultCode.SUCCESS }),
+        error => resultCallback({ code: ExportResultCode.FAILED, error })
+      );
+  }
+
+  async shutdown(): Promise<void> {}
+}
+
+function toFileRecord(span: ReadableSpan) {
+  const { traceId, spanId } = span.spanContext();
+  return {
+    traceId,
+    spanId,
+    ...(span.parentSpanContext && { parentSpanId: span.parentSpanContext.spanId }),
+    name: span.name,
+    kind: SpanKind[span.kind],
+    startTime: new Date(hrTimeToMilliseconds(span.startTime)).toISOString(),
+    durationMs: hrTimeToMilliseconds(span.duration),
+    status: SpanStatusCode[span.status.code],
+    ...(span.status.message && { statusMessage: span.status.message }),
+    attributes: span.attributes,
+    ...(span.events.length > 0 && {
+      events: span.events.map(event => ({ name: event.name, attributes: event.attributes })),
+    }),
+    service: span.resource.attributes['service.name'],
+  };
+}